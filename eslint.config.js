@@ -25,6 +25,8 @@ export default [
     },
     rules: {
       // TypeScript specific rules
+      // The base rule reports the parameter names of function types, the TypeScript one does not
+      'no-unused-vars': 'off',
       '@typescript-eslint/no-unused-vars': ['error', { 
         argsIgnorePattern: '^_',
         varsIgnorePattern: '^_' 
@@ -1,4 +1,10 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { HiveScoutBee } from './HiveScoutBee';
+import { ConfigValidationError } from './config/ConfigValidationError';
+import { SignatureExtractor } from './extractor/SignatureExtractor';
+import { NearestNeighbourSelector } from './selection/NearestNeighbourSelector';
 import { ApproachConfig } from './Types';
 import { DataFactory, Quad } from 'n3';
 
@@ -258,6 +264,11 @@ describe('HiveScoutBee', () => {
     });
 
     describe('confidence scoring', () => {
+        const windowWithVariance = (x: number) => new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('0')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal(String(x)))
+        ]);
+
         it('should provide higher confidence for better matches', () => {
             const perfectMatchApproach: ApproachConfig = {
                 name: 'perfect-match',
@@ -276,5 +287,1005 @@ describe('HiveScoutBee', () => {
             
             expect(recommendation.confidence).toBeGreaterThan(0.8); // High confidence for good match
         });
+
+        it('should calibrate the confidence on the margin within the thresholds', () => {
+            const testScout = new HiveScoutBee([{ name: 'perfect-match', maxThresholds: { variance: 10 } }]);
+
+            const wellWithin = testScout.chooseApproach(windowWithVariance(1)); // variance 0.5
+            const onTheEdge = testScout.chooseApproach(windowWithVariance(4.4)); // variance 9.68
+
+            expect(wellWithin.confidence).toBeGreaterThan(0.8); // High confidence for good match
+            expect(wellWithin.confidence).toBeCloseTo(0.95, 10);
+            expect(onTheEdge.confidence).toBeCloseTo(0.032, 10);
+        });
+
+        it('should lower the confidence when the runner-up comes close', () => {
+            const alone = new HiveScoutBee([{ name: 'calm', maxThresholds: { variance: 10 } }]);
+            const tied = new HiveScoutBee([
+                { name: 'calm', maxThresholds: { variance: 10 }, priority: 2 },
+                { name: 'quiet', maxThresholds: { variance: 10 }, priority: 1 }
+            ]);
+            const nearMiss = new HiveScoutBee([
+                { name: 'calm', maxThresholds: { variance: 10 } },
+                { name: 'flat', maxThresholds: { variance: 0.4 } }
+            ]);
+
+            expect(alone.chooseApproach(windowWithVariance(1)).confidence).toBeCloseTo(0.95, 10);
+            // A tie on specificity halves the confidence
+            expect(tied.chooseApproach(windowWithVariance(1)).confidence).toBeCloseTo(0.475, 10);
+            // flat misses with a margin of -0.2, so it is a competitor of strength 0.8
+            expect(nearMiss.chooseApproach(windowWithVariance(1)).confidence).toBeCloseTo(0.95 * 0.6, 10);
+        });
+
+        it('should not let a less specific runner-up compete when specificities are not positive', () => {
+            const scout = new HiveScoutBee([
+                { name: 'tight', minThresholds: { skewness: -1 } },
+                { name: 'loose', minThresholds: { skewness: -5 } }
+            ]);
+
+            const recommendation = scout.chooseApproach(windowWithVariance(1));
+
+            expect(recommendation.recommendedApproach).toBe('tight');
+            expect(recommendation.ranking.map(entry => entry.specificity)).toEqual([-1, -5]);
+            expect(recommendation.confidence).toBe(1);
+        });
+
+        it('should rank every approach with its score, specificity, priority and margin', () => {
+            const ranking = hiveScout.chooseApproach(windowWithVariance(1)).ranking;
+
+            expect(ranking.map(entry => [entry.rank, entry.name, entry.matches])).toEqual([
+                [1, 'low-complexity-approach', true],
+                [2, 'periodic-pattern-approach', true],
+                [3, 'large-dataset-approach', false],
+                [4, 'high-variance-approach', false]
+            ]);
+            expect(ranking[0]).toMatchObject({ score: 1, priority: 2 });
+            expect(ranking[0].specificity).toBeGreaterThan(ranking[1].specificity);
+            expect(ranking[2].score).toBeGreaterThan(ranking[3].score);
+            expect(ranking[2].margin).toBeLessThan(0);
+            expect(ranking.slice(2).every(entry => entry.confidence === 0)).toBe(true);
+        });
+
+        it('should report no confidence without a match', () => {
+            const recommendation = new HiveScoutBee([{ name: 'busy', minThresholds: { variance: 100 } }])
+                .chooseApproach(windowWithVariance(1));
+
+            expect(recommendation.recommendedApproach).toBe('default');
+            expect(recommendation.confidence).toBe(0);
+            expect(recommendation.ranking).toMatchObject([{ rank: 1, name: 'busy', matches: false, confidence: 0 }]);
+        });
+    });
+
+    describe('grouped thresholds', () => {
+        const XSD_DOUBLE = namedNode('http://www.w3.org/2001/XMLSchema#double');
+        const TEMPERATURE = 'http://example.org/temperature';
+        const BATTERY = 'http://example.org/battery';
+
+        // Stable temperatures mixed with a battery level on a very different scale
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode(TEMPERATURE), literal('20', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/s2'), namedNode(TEMPERATURE), literal('21', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/s3'), namedNode(TEMPERATURE), literal('20', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/s1'), namedNode(BATTERY), literal('95', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/s2'), namedNode(BATTERY), literal('3', XSD_DOUBLE))
+        ]);
+
+        it('should apply thresholds to the signature of the named group', () => {
+            const groupedScout = new HiveScoutBee([
+                {
+                    name: 'stable-temperature',
+                    group: TEMPERATURE,
+                    maxThresholds: { variance: 1 }
+                },
+                {
+                    name: 'stable-window',
+                    maxThresholds: { variance: 1 }
+                }
+            ]);
+
+            const recommendation = groupedScout.chooseApproach(windowData);
+
+            expect(recommendation.signature.variance).toBeGreaterThan(1);
+            expect(recommendation.groupSignatures?.[TEMPERATURE].variance).toBeLessThan(1);
+            expect(recommendation.matchingApproaches).toEqual(['stable-temperature']);
+            expect(recommendation.recommendedApproach).toBe('stable-temperature');
+        });
+
+        it('should not match approaches whose group is absent from the window', () => {
+            const groupedScout = new HiveScoutBee([
+                {
+                    name: 'humidity-approach',
+                    group: 'http://example.org/humidity',
+                    minThresholds: { tripleCount: 0 }
+                }
+            ]);
+
+            const recommendation = groupedScout.chooseApproach(windowData);
+
+            expect(recommendation.recommendedApproach).toBe('default');
+            expect(recommendation.matchingApproaches).toHaveLength(0);
+        });
+
+        it('should group by subject when configured', () => {
+            const groupedScout = new HiveScoutBee([
+                {
+                    name: 'busy-sensor',
+                    group: 'http://example.org/s1',
+                    minThresholds: { entropy: 1 }
+                }
+            ], { groupBy: 'subject' });
+
+            const recommendation = groupedScout.chooseApproach(windowData);
+
+            expect(recommendation.recommendedApproach).toBe('busy-sensor');
+            expect(Object.keys(recommendation.groupSignatures || {})).toHaveLength(3);
+        });
+
+        it('should not extract group signatures when no approach targets a group', () => {
+            const recommendation = hiveScout.chooseApproach(windowData);
+
+            expect(recommendation.groupSignatures).toBeUndefined();
+        });
+    });
+
+    describe('custom features', () => {
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('4')),
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p2'), literal('9')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('2'))
+        ]);
+        const distinctSubjects = (quads: Set<Quad>) => new Set(Array.from(quads, q => q.subject.value)).size;
+
+        it('should threshold custom features like built-in ones', () => {
+            const customScout = new HiveScoutBee([
+                {
+                    name: 'few-subjects',
+                    maxThresholds: { distinctSubjects: 2 }
+                },
+                {
+                    name: 'many-subjects',
+                    minThresholds: { distinctSubjects: 3 }
+                }
+            ], { features: { distinctSubjects } });
+
+            const recommendation = customScout.chooseApproach(windowData);
+
+            expect(recommendation.signature.distinctSubjects).toBe(2);
+            expect(recommendation.matchingApproaches).toEqual(['few-subjects']);
+            expect(customScout.getFeatureNames()).toContain('distinctSubjects');
+        });
+
+        it('should accept approaches on features registered later', () => {
+            hiveScout.registerFeature('distinctSubjects', distinctSubjects);
+            hiveScout.addApproach({ name: 'subject-approach', minThresholds: { distinctSubjects: 1 } });
+
+            expect(hiveScout.chooseApproach(windowData).matchingApproaches).toContain('subject-approach');
+        });
+
+        it('should fail validation for approaches referencing unregistered features', () => {
+            expect(() => new HiveScoutBee([
+                { name: 'unknown-feature', minThresholds: { distinctSubjects: 1 } }
+            ])).toThrow('Approach "unknown-feature" references unknown feature "distinctSubjects"');
+
+            expect(() => hiveScout.addApproach({
+                name: 'unknown-feature',
+                maxThresholds: { hurstExponent: 3 }
+            })).toThrow('unknown feature "hurstExponent"');
+            expect(hiveScout.getAvailableApproaches()).not.toContain('unknown-feature');
+        });
+    });
+
+    describe('rule expressions', () => {
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('1')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('2')),
+            quad(namedNode('http://example.org/s3'), namedNode('http://example.org/p1'), literal('3')),
+            quad(namedNode('http://example.org/s4'), namedNode('http://example.org/p1'), literal('100'))
+        ]);
+
+        it('should select approaches using boolean rules', () => {
+            const ruleScout = new HiveScoutBee([
+                {
+                    name: 'spiky-approach',
+                    // (variance > 50 OR skewness > 2) AND NOT tripleCount < 10
+                    rule: {
+                        type: 'and',
+                        rules: [
+                            {
+                                type: 'or',
+                                rules: [
+                                    { type: 'comparison', feature: 'variance', operator: '>', value: 50 },
+                                    { type: 'comparison', feature: 'skewness', operator: '>', value: 2 }
+                                ]
+                            },
+                            { type: 'not', rule: { type: 'comparison', feature: 'tripleCount', operator: '<', value: 3 } }
+                        ]
+                    }
+                },
+                {
+                    name: 'calm-approach',
+                    rule: { type: 'range', feature: 'variance', max: 50, maxInclusive: false }
+                }
+            ]);
+
+            const recommendation = ruleScout.chooseApproach(windowData);
+
+            expect(recommendation.matchingApproaches).toEqual(['spiky-approach']);
+            expect(recommendation.recommendedApproach).toBe('spiky-approach');
+            // tripleCount 4 is close to the bound of 3 of the negated comparison
+            expect(recommendation.confidence).toBeCloseTo(0.25, 1);
+        });
+
+        it('should require both the thresholds and the rule to hold', () => {
+            const ruleScout = new HiveScoutBee([
+                {
+                    name: 'combined',
+                    minThresholds: { tripleCount: 10 },
+                    rule: { type: 'comparison', feature: 'variance', operator: '>', value: 50 }
+                }
+            ]);
+
+            expect(ruleScout.chooseApproach(windowData).recommendedApproach).toBe('default');
+        });
+
+        it('should reject rules on unregistered features', () => {
+            expect(() => new HiveScoutBee([
+                {
+                    name: 'unknown-rule',
+                    rule: { type: 'not', rule: { type: 'comparison', feature: 'hurstExponent', operator: '>', value: 3 } }
+                }
+            ])).toThrow('unknown feature "hurstExponent"');
+        });
+    });
+
+    describe('stateful selection', () => {
+        // Two values [0, x] have a sample variance of x * x / 2
+        const windowWithVariance = (x: number) => new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('0')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal(String(x)))
+        ]);
+        const calmAndBusy: ApproachConfig[] = [
+            { name: 'calm', rule: { type: 'range', feature: 'variance', max: 10, maxInclusive: false } },
+            { name: 'busy', minThresholds: { variance: 10 } }
+        ];
+
+        it('should keep the previous approach while it matches within the hysteresis margins', () => {
+            const stableScout = new HiveScoutBee(calmAndBusy, { stability: { hysteresis: { variance: 5 } } });
+
+            const first = stableScout.chooseApproach(windowWithVariance(4)); // variance 8
+            expect(first.recommendedApproach).toBe('calm');
+            expect(first.switchSuppressed).toBe(false);
+
+            const hovering = stableScout.chooseApproach(windowWithVariance(5)); // variance 12.5
+            expect(hovering.recommendedApproach).toBe('calm');
+            expect(hovering.switchSuppressed).toBe(true);
+            expect(hovering.suppressedApproach).toBe('busy');
+            expect(hovering.suppressionReason).toBe('hysteresis');
+            expect(hovering.matchingApproaches).toEqual(['busy']);
+
+            expect(stableScout.chooseApproach(windowWithVariance(7)).recommendedApproach).toBe('busy'); // variance 24.5
+            expect(stableScout.chooseApproach(windowWithVariance(4)).recommendedApproach).toBe('busy'); // variance 8
+            expect(stableScout.chooseApproach(windowWithVariance(2)).recommendedApproach).toBe('calm'); // variance 2
+        });
+
+        it('should flap without the stateful selection mode', () => {
+            const statelessScout = new HiveScoutBee(calmAndBusy);
+
+            expect(statelessScout.chooseApproach(windowWithVariance(4)).recommendedApproach).toBe('calm');
+            const recommendation = statelessScout.chooseApproach(windowWithVariance(5));
+            expect(recommendation.recommendedApproach).toBe('busy');
+            expect(recommendation.switchSuppressed).toBeUndefined();
+        });
+
+        it('should keep an approach for the minimum dwell in windows and time', () => {
+            const windowScout = new HiveScoutBee(calmAndBusy, { stability: { minDwellWindows: 2 } });
+            windowScout.chooseApproach(windowWithVariance(4));
+            expect(windowScout.chooseApproach(windowWithVariance(5)).suppressionReason).toBe('min-dwell-windows');
+            expect(windowScout.chooseApproach(windowWithVariance(5)).recommendedApproach).toBe('busy');
+
+            const timeScout = new HiveScoutBee(calmAndBusy, { stability: { minDwellMs: 1000 } });
+            timeScout.chooseApproach(windowWithVariance(4), { timestamp: 0 });
+            expect(timeScout.chooseApproach(windowWithVariance(5), { timestamp: 500 }).suppressionReason)
+                .toBe('min-dwell-time');
+            expect(timeScout.chooseApproach(windowWithVariance(5), { timestamp: 1000 }).recommendedApproach)
+                .toBe('busy');
+        });
+
+        it('should apply the switching cost while the previous approach still matches', () => {
+            const costScout = new HiveScoutBee([
+                { name: 'broad', maxThresholds: { variance: 1000 } },
+                { name: 'narrow', maxThresholds: { variance: 10 } }
+            ], { stability: { switchingCost: 0.5 } });
+
+            expect(costScout.chooseApproach(windowWithVariance(10)).recommendedApproach).toBe('broad'); // variance 50
+            const recommendation = costScout.chooseApproach(windowWithVariance(4)); // variance 8
+            expect(recommendation.recommendedApproach).toBe('broad');
+            expect(recommendation.suppressionReason).toBe('switching-cost');
+            // broad is kept well within its threshold, but narrow is more specific
+            expect(recommendation.confidence).toBeCloseTo(0.992 * 0.5, 10);
+        });
+
+        it('should start over after the selection state is reset or the approach is removed', () => {
+            const stableScout = new HiveScoutBee(calmAndBusy, { stability: { minDwellWindows: 5 } });
+
+            stableScout.chooseApproach(windowWithVariance(4));
+            stableScout.resetSelectionState();
+            expect(stableScout.chooseApproach(windowWithVariance(5)).recommendedApproach).toBe('busy');
+
+            stableScout.removeApproach('busy');
+            stableScout.addApproach({ name: 'very-busy', minThresholds: { variance: 10 } });
+            expect(stableScout.chooseApproach(windowWithVariance(5)).recommendedApproach).toBe('very-busy');
+        });
+    });
+
+    describe('explanations', () => {
+        // Constant values: variance 0, entropy 0, tripleCount 3
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('5')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('5')),
+            quad(namedNode('http://example.org/s3'), namedNode('http://example.org/p1'), literal('5'))
+        ]);
+
+        it('should only explain when asked', () => {
+            expect(hiveScout.chooseApproach(windowData).explanation).toBeUndefined();
+        });
+
+        it('should break every approach down into threshold checks', () => {
+            const recommendation = hiveScout.chooseApproach(windowData, { explain: true });
+            const explanation = recommendation.explanation!;
+
+            expect(explanation.approaches.map(approach => approach.name)).toEqual(hiveScout.getAvailableApproaches());
+
+            const highVariance = explanation.approaches.find(approach => approach.name === 'high-variance-approach')!;
+            expect(highVariance.matches).toBe(false);
+            expect(highVariance.rank).toBeUndefined();
+            expect(highVariance.checks).toEqual([
+                { feature: 'variance', operator: '>=', threshold: 50, observed: 0, passed: false, margin: -50 },
+                { feature: 'entropy', operator: '>=', threshold: 1.0, observed: 0, passed: false, margin: -1 }
+            ]);
+
+            const lowComplexity = explanation.approaches.find(approach => approach.name === 'low-complexity-approach')!;
+            expect(lowComplexity.matches).toBe(true);
+            expect(lowComplexity.rank).toBe(1);
+            expect(lowComplexity.priority).toBe(2);
+            expect(recommendation.ranking[0]).toMatchObject({
+                name: 'low-complexity-approach',
+                score: lowComplexity.score,
+                confidence: recommendation.confidence
+            });
+            expect(lowComplexity.checks.every(check => check.passed && check.margin >= 0)).toBe(true);
+
+            const periodic = explanation.approaches.find(approach => approach.name === 'periodic-pattern-approach')!;
+            expect(periodic.rank).toBe(2);
+            expect(periodic.specificity).toBeLessThan(lowComplexity.specificity);
+            expect(explanation.decidedBy).toBe('specificity');
+        });
+
+        it('should report near misses, best score first', () => {
+            const nearScout = new HiveScoutBee([
+                { name: 'almost', minThresholds: { tripleCount: 4 } },
+                { name: 'close', minThresholds: { tripleCount: 3, variance: 1 } },
+                { name: 'far', minThresholds: { tripleCount: 100 } }
+            ]);
+
+            const explanation = nearScout.chooseApproach(windowData, { explain: true }).explanation!;
+
+            expect(explanation.decidedBy).toBe('no-match');
+            expect(explanation.nearMisses.map(approach => approach.name)).toEqual(['almost']);
+            expect(explanation.nearMisses[0].score).toBeCloseTo(0.75, 10);
+        });
+
+        it('should tell when the priority decided the winner', () => {
+            const tiedScout = new HiveScoutBee([
+                { name: 'low-priority', maxThresholds: { variance: 10 }, priority: 1 },
+                { name: 'high-priority', maxThresholds: { variance: 10 }, priority: 2 }
+            ]);
+
+            const recommendation = tiedScout.chooseApproach(windowData, { explain: true });
+
+            expect(recommendation.recommendedApproach).toBe('high-priority');
+            expect(recommendation.explanation?.decidedBy).toBe('priority');
+        });
+
+        it('should tell whether a selector or the bandit decided the winner', () => {
+            const selector = new NearestNeighbourSelector({ k: 1 });
+            selector.train([{ signature: hiveScout.chooseApproach(windowData).signature, approach: 'periodic-pattern-approach' }]);
+            const learned = new HiveScoutBee(approachConfigs, { selector });
+            const bandit = new HiveScoutBee(approachConfigs, { bandit: {} });
+
+            const predicted = learned.chooseApproach(windowData, { explain: true });
+            const chosen = bandit.chooseApproach(windowData, { explain: true });
+
+            expect(predicted.recommendedApproach).toBe('periodic-pattern-approach');
+            expect(predicted.explanation!.decidedBy).toBe('selector');
+            expect(chosen.matchingApproaches).toContain(chosen.recommendedApproach);
+            expect(chosen.explanation!.decidedBy).toBe('bandit');
+            expect(chosen.explanation!.approaches.find(approach => approach.name === chosen.recommendedApproach)!.rank).toBe(1);
+        });
+
+        it('should explain approaches whose group is absent', () => {
+            const groupScout = new HiveScoutBee([
+                { name: 'humidity', group: 'http://example.org/humidity', maxThresholds: { variance: 1 } }
+            ]);
+
+            const explanation = groupScout.chooseApproach(windowData, { explain: true }).explanation!;
+
+            expect(explanation.approaches[0]).toMatchObject({
+                name: 'humidity',
+                group: 'http://example.org/humidity',
+                groupPresent: false,
+                matches: false,
+                checks: []
+            });
+        });
+    });
+
+    describe('configuration files', () => {
+        let directory: string;
+
+        beforeAll(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hive-scout-bee-'));
+        });
+
+        afterAll(async () => {
+            await fs.rm(directory, { recursive: true, force: true });
+        });
+
+        it('should create an instance from a YAML file', async () => {
+            const file = path.join(directory, 'approaches.yaml');
+            await fs.writeFile(file, [
+                'approaches:',
+                '  - name: busy',
+                '    minThresholds:',
+                '      tripleCount: 2',
+                '  - name: default'
+            ].join('\n'));
+
+            const fromFile = await HiveScoutBee.fromFile(file);
+            const windowData = new Set<Quad>([
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('1')),
+                quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('2'))
+            ]);
+
+            expect(fromFile.getAvailableApproaches()).toEqual(['busy', 'default']);
+            expect(fromFile.chooseApproach(windowData).recommendedApproach).toBe('busy');
+        });
+
+        it('should refuse invalid files with the file and line of every issue', async () => {
+            const file = path.join(directory, 'invalid.json');
+            await fs.writeFile(file, JSON.stringify([
+                { name: 'a', minThresholds: { variance: 10 }, maxThresholds: { variance: 5 } },
+                { name: 'a' }
+            ], null, 2));
+
+            await expect(HiveScoutBee.fromFile(file)).rejects.toThrow(ConfigValidationError);
+            await expect(HiveScoutBee.fromFile(file)).rejects.toThrow(
+                `${file}:12:13 [1].name: Duplicate approach name "a", already used by approach 0`
+            );
+        });
+
+        it('should accept custom features in configurations', () => {
+            const fromObject = HiveScoutBee.fromObject(
+                { approaches: [{ name: 'many-subjects', minThresholds: { distinctSubjects: 2 } }] },
+                { features: { distinctSubjects: windowData => new Set(Array.from(windowData, q => q.subject.value)).size } }
+            );
+
+            expect(fromObject.getApproachConfig('many-subjects')).toEqual({
+                name: 'many-subjects',
+                minThresholds: { distinctSubjects: 2 }
+            });
+            expect(() => HiveScoutBee.fromObject([{ name: 'many-subjects', minThresholds: { distinctSubjects: 2 } }]))
+                .toThrow('unknown feature "distinctSubjects"');
+        });
+
+        it('should refuse duplicate names and inconsistent thresholds in the constructor and addApproach', () => {
+            expect(() => new HiveScoutBee([{ name: 'a' }, { name: 'a' }])).toThrow('Duplicate approach name "a"');
+            expect(() => hiveScout.addApproach({ name: 'negative', maxThresholds: { tripleCount: -5 } }))
+                .toThrow('Threshold on "tripleCount" must not be negative');
+            expect(hiveScout.getAvailableApproaches()).not.toContain('negative');
+        });
+    });
+
+    describe('learned selection', () => {
+        const windowOf = (values: number[]) => new Set<Quad>(values.map((value, index) => quad(
+            namedNode(`http://example.org/s${index}`),
+            namedNode('http://example.org/p1'),
+            literal(String(value))
+        )));
+        const calmWindow = windowOf([5, 5, 5, 5]);
+        const volatileWindow = windowOf([0, 100, 0, 100]);
+
+        const trainSelector = () => {
+            const extractor = new HiveScoutBee([]);
+            const selector = new NearestNeighbourSelector({ k: 1 });
+            selector.train([
+                { signature: extractor.chooseApproach(calmWindow).signature, approach: 'high-variance-approach' },
+                { signature: extractor.chooseApproach(volatileWindow).signature, approach: 'low-complexity-approach' }
+            ]);
+            return selector;
+        };
+
+        it('should recommend the approach predicted by the selector, with its confidence', () => {
+            const learned = new HiveScoutBee(approachConfigs, { selector: trainSelector() });
+
+            const recommendation = learned.chooseApproach(calmWindow, { explain: true });
+
+            expect(recommendation.recommendedApproach).toBe('high-variance-approach');
+            expect(recommendation.confidence).toBe(1);
+            expect(recommendation.matchingApproaches).toEqual(hiveScout.chooseApproach(calmWindow).matchingApproaches);
+            expect(recommendation.explanation!.decidedBy).toBe('selector');
+            expect(learned.chooseApproach(volatileWindow).recommendedApproach).toBe('low-complexity-approach');
+        });
+
+        it('should rank a predicted matching approach first and leave a non-matching one in place', () => {
+            const mixedWindow = windowOf([0, 1]);
+            const selector = new NearestNeighbourSelector({ k: 1 });
+            selector.train([
+                { signature: hiveScout.chooseApproach(mixedWindow).signature, approach: 'periodic-pattern-approach' },
+                { signature: hiveScout.chooseApproach(calmWindow).signature, approach: 'high-variance-approach' }
+            ]);
+            const learned = new HiveScoutBee(approachConfigs, { selector });
+
+            const mixed = learned.chooseApproach(mixedWindow);
+            const calm = learned.chooseApproach(calmWindow);
+
+            // The thresholds alone rank low-complexity-approach first
+            expect(hiveScout.chooseApproach(mixedWindow).ranking[0].name).toBe('low-complexity-approach');
+            expect(mixed.recommendedApproach).toBe('periodic-pattern-approach');
+            expect(mixed.ranking.map(entry => entry.name).slice(0, 2)).toEqual(['periodic-pattern-approach', 'low-complexity-approach']);
+            expect(calm.recommendedApproach).toBe('high-variance-approach');
+            expect(calm.matchingApproaches).not.toContain('high-variance-approach');
+            expect(calm.ranking).toEqual(hiveScout.chooseApproach(calmWindow).ranking);
+        });
+
+        it('should fall back to the thresholds when the selector predicts no configured approach', () => {
+            const learned = new HiveScoutBee(
+                approachConfigs.filter(config => !['high-variance-approach', 'low-complexity-approach'].includes(config.name)),
+                { selector: trainSelector() }
+            );
+            const thresholdOnly = new HiveScoutBee(
+                approachConfigs.filter(config => !['high-variance-approach', 'low-complexity-approach'].includes(config.name))
+            );
+
+            expect(learned.chooseApproach(calmWindow)).toEqual(thresholdOnly.chooseApproach(calmWindow));
+        });
+
+        it('should reload a trained selector from JSON', () => {
+            const restored = NearestNeighbourSelector.fromJSON(JSON.parse(JSON.stringify(trainSelector())));
+            const learned = new HiveScoutBee(approachConfigs, { selector: restored });
+
+            expect(learned.chooseApproach(calmWindow).recommendedApproach).toBe('high-variance-approach');
+        });
+    });
+
+    describe('bandit selection', () => {
+        // Constant values: variance 0, entropy 0, tripleCount 3
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('5')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('5')),
+            quad(namedNode('http://example.org/s3'), namedNode('http://example.org/p1'), literal('5'))
+        ]);
+        const approaches: ApproachConfig[] = [
+            { name: 'small-a', maxThresholds: { tripleCount: 10 } },
+            { name: 'small-b', maxThresholds: { tripleCount: 20 } },
+            { name: 'large', minThresholds: { tripleCount: 100 } }
+        ];
+
+        it('should learn the best matching approach from reported outcomes', () => {
+            const bandit = new HiveScoutBee(approaches, { bandit: { exploration: 0.1 } });
+            const rewards: Record<string, number> = { 'small-a': 0.3, 'small-b': 0.8 };
+
+            const recommended: string[] = [];
+            for (let i = 0; i < 15; i++) {
+                const recommendation = bandit.chooseApproach(windowData);
+                recommended.push(recommendation.recommendedApproach);
+                expect(bandit.reportOutcome(recommendation.windowId!, recommendation.recommendedApproach,
+                    rewards[recommendation.recommendedApproach])).toBe(true);
+            }
+
+            // The thresholds are hard constraints: the non-matching approach is never tried
+            expect(recommended).not.toContain('large');
+            expect(recommended.slice(-3)).toEqual(['small-b', 'small-b', 'small-b']);
+            expect(bandit.chooseApproach(windowData).ranking[0].name).toBe('small-b');
+        });
+
+        it('should use the given window ids and take one outcome per window', () => {
+            const bandit = new HiveScoutBee(approaches, { bandit: {} });
+
+            const recommendation = bandit.chooseApproach(windowData, { windowId: 'w1' });
+
+            expect(recommendation.windowId).toBe('w1');
+            expect(bandit.reportOutcome('w1', 'small-a', 1)).toBe(true);
+            expect(bandit.reportOutcome('w1', 'small-a', 1)).toBe(false);
+            expect(bandit.reportOutcome('unknown', 'small-a', 1)).toBe(false);
+        });
+
+        it('should forget the oldest windows beyond the maximum pending', () => {
+            const bandit = new HiveScoutBee(approaches, { bandit: { maxPendingWindows: 2 } });
+
+            const ids = [1, 2, 3].map(() => bandit.chooseApproach(windowData).windowId!);
+
+            expect(bandit.reportOutcome(ids[0], 'small-a', 1)).toBe(false);
+            expect(bandit.reportOutcome(ids[2], 'small-a', 1)).toBe(true);
+        });
+
+        it('should recommend the default approach when no approach matches', () => {
+            const bandit = new HiveScoutBee([approaches[2]], { bandit: {} });
+
+            expect(bandit.chooseApproach(windowData).recommendedApproach).toBe('default');
+        });
+
+        it('should only take outcomes in the bandit mode', () => {
+            expect(() => hiveScout.reportOutcome('w1', 'small-a', 1))
+                .toThrow('Outcomes can only be reported in the bandit selection mode');
+            expect(() => new HiveScoutBee(approaches, { bandit: {}, selector: new NearestNeighbourSelector() }))
+                .toThrow('The selector and bandit options are mutually exclusive');
+        });
+    });
+
+    describe('drift detection', () => {
+        const windowOf = (value: number, offset: number) => new Set<Quad>([0, 1, 2, 3].map(index => quad(
+            namedNode(`http://example.org/s${index}`),
+            namedNode('http://example.org/p1'),
+            literal(String(index % 2 === 0 ? offset : offset + value))
+        )));
+
+        it('should only report drift when enabled', () => {
+            expect(hiveScout.chooseApproach(windowOf(1, 0)).drift).toBeUndefined();
+        });
+
+        it('should attach the drifted features to the recommendation', () => {
+            const detecting = new HiveScoutBee(approachConfigs, { drift: { features: ['variance'] } });
+
+            const reports = Array.from({ length: 30 }, (_, i) =>
+                detecting.chooseApproach(windowOf(i < 15 ? 2 + (i % 3) / 10 : 20 + (i % 3) / 10, 0), { timestamp: i * 1000 }).drift!);
+            const drifted = reports.filter(report => report.drifted);
+
+            expect(reports.map(report => report.window)).toEqual(Array.from({ length: 30 }, (_, i) => i));
+            expect(drifted).toHaveLength(1);
+            expect(drifted[0].features.map(drift => [drift.feature, drift.direction])).toEqual([['variance', 'increase']]);
+            expect(drifted[0].features[0].changedAtTime).toBeGreaterThanOrEqual(12000);
+            expect(drifted[0].features[0].changedAtTime).toBeLessThanOrEqual(drifted[0].timestamp!);
+        });
+
+        it('should decide a drifted window on its own when asked to', () => {
+            const approaches: ApproachConfig[] = [
+                { name: 'calm', maxThresholds: { variance: 10 } },
+                { name: 'busy', minThresholds: { variance: 10 } }
+            ];
+            const options = {
+                drift: { features: ['variance'] },
+                stability: { minDwellWindows: 100 }
+            };
+            const sticky = new HiveScoutBee(approaches, options);
+            const resetting = new HiveScoutBee(approaches, { ...options, resetSelectionOnDrift: true });
+
+            const last = (scout: HiveScoutBee) => Array.from({ length: 30 }, (_, i) =>
+                scout.chooseApproach(windowOf(i < 15 ? 2 + (i % 3) / 10 : 20 + (i % 3) / 10, 0))).pop()!;
+
+            expect(last(sticky).recommendedApproach).toBe('calm');
+            expect(last(resetting).recommendedApproach).toBe('busy');
+        });
+    });
+
+    describe('events', () => {
+        const windowOf = (values: number[]) => new Set<Quad>(values.map((value, index) => quad(
+            namedNode(`http://example.org/s${index}`),
+            namedNode('http://example.org/p1'),
+            literal(String(value))
+        )));
+        const approaches: ApproachConfig[] = [
+            { name: 'calm', maxThresholds: { variance: 10 } },
+            { name: 'busy', minThresholds: { variance: 100 } }
+        ];
+
+        it('should emit approachChanged when the recommendation changes', () => {
+            const scout = new HiveScoutBee(approaches);
+            const changes: Array<[string | undefined, string]> = [];
+            scout.on('approachChanged', event => changes.push([event.from, event.to]));
+
+            scout.chooseApproach(windowOf([1, 2]));
+            scout.chooseApproach(windowOf([1, 3]));
+            const recommendation = scout.chooseApproach(windowOf([0, 100]));
+
+            expect(changes).toEqual([[undefined, 'calm'], ['calm', 'busy']]);
+            expect(recommendation.recommendedApproach).toBe('busy');
+        });
+
+        it('should emit noMatch, lowConfidence and signatureComputed', () => {
+            const scout = new HiveScoutBee(approaches, { lowConfidenceThreshold: 1.1 });
+            const events: string[] = [];
+            scout.on('signatureComputed', event => events.push(`signature ${event.signature.tripleCount}`))
+                .on('noMatch', event => events.push(`noMatch ${event.recommendation.recommendedApproach}`))
+                .on('lowConfidence', event => events.push(`lowConfidence ${event.approach} < ${event.threshold}`));
+
+            scout.chooseApproach(windowOf([0, 8]));
+            scout.chooseApproach(windowOf([1, 2]));
+
+            expect(events).toEqual([
+                'signature 2', 'noMatch default',
+                'signature 2', 'lowConfidence calm < 1.1'
+            ]);
+        });
+
+        it('should keep selecting when a listener throws, reporting the error', () => {
+            const scout = new HiveScoutBee(approaches);
+            const failure = new Error('listener failed');
+            const errors: Array<[string, unknown]> = [];
+            const changes: string[] = [];
+            scout.on('approachChanged', () => { throw failure; })
+                .on('approachChanged', event => changes.push(event.to))
+                .on('listenerError', event => errors.push([event.event, event.error]))
+                .on('listenerError', () => { throw new Error('error listener failed'); });
+
+            const recommendation = scout.chooseApproach(windowOf([1, 2]));
+
+            expect(recommendation.recommendedApproach).toBe('calm');
+            expect(changes).toEqual(['calm']);
+            expect(errors).toEqual([['approachChanged', failure]]);
+        });
+
+        it('should stop calling removed and once listeners', () => {
+            const scout = new HiveScoutBee(approaches);
+            const calls: string[] = [];
+            const listener = () => calls.push('on');
+            scout.on('signatureComputed', listener).once('signatureComputed', () => calls.push('once'));
+
+            scout.chooseApproach(windowOf([1, 2]));
+            scout.off('signatureComputed', listener);
+            scout.chooseApproach(windowOf([1, 2]));
+
+            expect(calls).toEqual(['on', 'once']);
+        });
+    });
+
+    describe('stream windowing', () => {
+        async function* streamOf(values: number[]): AsyncIterable<Quad> {
+            for (const [index, value] of values.entries()) {
+                yield quad(namedNode(`http://example.org/s${index}`), namedNode('http://example.org/p1'), literal(String(value)));
+            }
+        }
+
+        it('should yield one recommendation per closed window', async () => {
+            const scout = new HiveScoutBee([
+                { name: 'calm', maxThresholds: { variance: 10 } },
+                { name: 'busy', minThresholds: { variance: 100 } }
+            ]);
+
+            const results = [];
+            for await (const result of scout.recommendStream(streamOf([1, 2, 1, 2, 0, 100, 0, 100]), { type: 'count', range: 4 })) {
+                results.push(result);
+            }
+
+            expect(results.map(result => [result.window.index, result.recommendation.recommendedApproach]))
+                .toEqual([[0, 'calm'], [1, 'busy']]);
+            expect(results[1].recommendation.signature.tripleCount).toBe(4);
+        });
+
+        it('should pass the end of time windows as the window timestamp', async () => {
+            const scout = new HiveScoutBee(approachConfigs, { drift: {} });
+            let clock = 0;
+            const ticking = async function* (): AsyncIterable<Quad> {
+                for await (const q of streamOf([1, 2, 3, 4])) {
+                    yield q;
+                    clock += 500;
+                }
+            };
+
+            const results = [];
+            for await (const result of scout.recommendStream(ticking(), { type: 'time', range: 1000, now: () => clock })) {
+                results.push(result);
+            }
+
+            expect(results.map(result => [result.window.start, result.window.end])).toEqual([[0, 1000], [1000, 2000]]);
+            expect(results.map(result => result.recommendation.drift!.timestamp)).toEqual([1000, 2000]);
+        });
+    });
+
+    describe('serialised RDF', () => {
+        it('should recommend an approach for an RDF file', async () => {
+            const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hive-scout-bee-'));
+            const file = path.join(directory, 'window.nt');
+            await fs.writeFile(file, [1, 100, 2, 200].map((value, index) =>
+                `<http://example.org/s${index}> <http://example.org/p1> "${value}" .`).join('\n'));
+
+            try {
+                const scout = new HiveScoutBee([
+                    { name: 'calm', maxThresholds: { variance: 10 } },
+                    { name: 'busy', minThresholds: { variance: 100 } }
+                ]);
+
+                const recommendation = await scout.chooseApproachFrom({ path: file });
+
+                expect(recommendation.recommendedApproach).toBe('busy');
+                expect(recommendation.signature.tripleCount).toBe(4);
+            } finally {
+                await fs.rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('extraction modes', () => {
+        it('should report how the signature was extracted', () => {
+            const windowData = new Set<Quad>(Array.from({ length: 20 }, (_, i) =>
+                quad(namedNode(`http://example.org/s${i}`), namedNode('http://example.org/p1'), literal(String(i)))));
+
+            const approximate = new HiveScoutBee(approachConfigs, { highAccuracy: false, extractorOptions: { sampleSize: 10 } }).chooseApproach(windowData);
+            const exact = new HiveScoutBee(approachConfigs, { extractorOptions: { sampleSize: 10 } }).chooseApproach(windowData);
+
+            expect(approximate.extraction).toEqual(expect.objectContaining({ mode: 'approximate', numericValueCount: 20, sampleSize: 10 }));
+            expect(exact.extraction).toEqual(expect.objectContaining({ mode: 'exact', numericValueCount: 20, sampleSize: 20 }));
+            expect(exact.signature.variance).toBeCloseTo(35, 5);
+        });
+
+        it('should extract the exact signature of a window beyond the approximation bounds by default', () => {
+            const windowData = new Set<Quad>(Array.from({ length: 12000 }, (_, i) =>
+                quad(namedNode(`http://example.org/s${i}`), namedNode('http://example.org/p1'), literal(String(Math.sin(i / 50) * 100 + (i % 7))))));
+
+            const recommendation = new HiveScoutBee(approachConfigs).chooseApproach(windowData);
+
+            expect(recommendation.extraction).toEqual(expect.objectContaining({ mode: 'exact', numericValueCount: 12000, sampleSize: 12000, fftSize: 12000 }));
+            expect(recommendation.signature).toEqual(new SignatureExtractor(true).extractSignature(windowData));
+        });
+    });
+
+    describe('spectral features', () => {
+        it('should select approaches on spectral features', () => {
+            const scout = new HiveScoutBee([
+                { name: 'periodic', maxThresholds: { spectralFlatness: 0.1 }, minThresholds: { dominantFrequency: 0.1 } },
+                { name: 'noisy', minThresholds: { spectralFlatness: 0.3 } }
+            ], { extractorOptions: { spectralFeatures: true } });
+            const windowData = new Set<Quad>(Array.from({ length: 32 }, (_, i) =>
+                quad(namedNode(`http://example.org/s${i}`), namedNode('http://example.org/p1'), literal(String(Math.cos(Math.PI * i / 2))))));
+
+            expect(scout.chooseApproach(windowData).recommendedApproach).toBe('periodic');
+            expect(() => new HiveScoutBee([{ name: 'periodic', minThresholds: { dominantFrequency: 0.1 } }]))
+                .toThrow('references unknown feature "dominantFrequency"');
+        });
+    });
+
+    describe('distribution statistics', () => {
+        it('should select approaches on distribution statistics', () => {
+            const scout = new HiveScoutBee([
+                { name: 'outlier-robust', minThresholds: { kurtosis: 3 } },
+                { name: 'mostly-text', maxThresholds: { numericRatio: 0.5 } }
+            ]);
+            const readings = ['10', '11', '10', '12', '11', '10', '11', '500'];
+            const windowData = new Set<Quad>(readings.map((value, i) =>
+                quad(namedNode(`http://example.org/s${i}`), namedNode('http://example.org/p1'), literal(value))));
+
+            const recommendation = scout.chooseApproach(windowData);
+
+            expect(recommendation.recommendedApproach).toBe('outlier-robust');
+            expect(recommendation.signature.median).toBe(11);
+        });
+    });
+
+    describe('prototype approaches', () => {
+        const windowWithVariance = (x: number) => new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('0')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal(String(x)))
+        ]);
+        const prototypeConfigs: ApproachConfig[] = [
+            { name: 'specific', minThresholds: { variance: 1 }, maxThresholds: { variance: 100, tripleCount: 2 } },
+            { name: 'quiet', prototypes: [{ variance: 2 }] },
+            { name: 'noisy', prototypes: [{ variance: 50 }, { variance: 200 }] }
+        ];
+
+        it('should choose the approach with the nearest prototype where no threshold box matches', () => {
+            const scout = new HiveScoutBee(prototypeConfigs);
+
+            const specific = scout.chooseApproach(windowWithVariance(2));
+            expect(specific.recommendedApproach).toBe('specific');
+            expect(specific.matchingApproaches).toEqual(['specific', 'quiet', 'noisy']);
+
+            const quiet = scout.chooseApproach(windowWithVariance(1));
+            expect(quiet.recommendedApproach).toBe('quiet');
+            expect(quiet.matchingApproaches).toEqual(['quiet', 'noisy']);
+            expect(scout.chooseApproach(windowWithVariance(20)).recommendedApproach).toBe('noisy');
+        });
+
+        it('should not let a prototype override an approach matched by its thresholds', () => {
+            const scout = new HiveScoutBee([
+                { name: 'specific', minThresholds: { tripleCount: 1 }, maxThresholds: { tripleCount: 5 } },
+                { name: 'proto', prototypes: [{ tripleCount: 1e6 }] }
+            ]);
+            const windowData = new Set<Quad>([1, 2, 3].map(i =>
+                quad(namedNode(`http://example.org/s${i}`), namedNode('http://example.org/p1'), literal(String(i)))));
+
+            expect(scout.chooseApproach(windowData).recommendedApproach).toBe('specific');
+        });
+
+        it('should explain the distances behind the decision', () => {
+            const scout = new HiveScoutBee(prototypeConfigs, { prototypes: { normalisation: 'none' } });
+
+            const explanation = scout.chooseApproach(windowWithVariance(20), { explain: true }).explanation!;
+            const byName = new Map(explanation.approaches.map(approach => [approach.name, approach]));
+
+            expect(explanation.decidedBy).toBe('nearest-prototype');
+            expect(byName.get('noisy')).toMatchObject({ rank: 1, distance: 0 });
+            expect(byName.get('quiet')).toMatchObject({ rank: 2, distance: 198 });
+            expect(byName.get('specific')!.matches).toBe(false);
+            expect(byName.get('specific')!.distance).toBeUndefined();
+        });
+
+        it('should leave the choice to the thresholds when no matching approach has prototypes', () => {
+            const scout = new HiveScoutBee([
+                { name: 'specific', maxThresholds: { variance: 100 } },
+                { name: 'quiet', minThresholds: { variance: 1000 }, prototypes: [{ variance: 2 }] }
+            ]);
+
+            const explanation = scout.chooseApproach(windowWithVariance(2), { explain: true }).explanation!;
+
+            expect(explanation.decidedBy).toBe('single-match');
+            expect(explanation.approaches.every(approach => approach.distance === undefined)).toBe(true);
+        });
+    });
+
+    describe('history and state', () => {
+        const windowWithVariance = (x: number) => new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('0')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal(String(x)))
+        ]);
+        const calmAndBusy: ApproachConfig[] = [
+            { name: 'calm', maxThresholds: { variance: 10 } },
+            { name: 'busy', minThresholds: { variance: 10 } }
+        ];
+
+        it('should record every decision with its window id and time', () => {
+            const scout = new HiveScoutBee(calmAndBusy, { history: { size: 2, now: () => 42 } });
+
+            scout.chooseApproach(windowWithVariance(1), { timestamp: 0, windowId: 'first' });
+            scout.chooseApproach(windowWithVariance(5), { timestamp: 3000 });
+            scout.chooseApproach(windowWithVariance(1));
+
+            const entries = scout.getHistory().getEntries();
+            expect(entries.map(entry => [entry.windowId, entry.timestamp, entry.recommendedApproach]))
+                .toEqual([['window-1', 3000, 'busy'], ['window-2', 42, 'calm']]);
+            expect(entries[0].signature.variance).toBe(12.5);
+            expect(entries[0].matchingApproaches).toEqual(['busy']);
+        });
+
+        it('should resume the stateful selection and drift detection from an exported state', () => {
+            const options = { stability: { minDwellWindows: 3 }, drift: { features: ['variance'] } };
+            const scout = new HiveScoutBee(calmAndBusy, options);
+            scout.chooseApproach(windowWithVariance(1), { timestamp: 0 });
+
+            const resumed = new HiveScoutBee(calmAndBusy, options);
+            resumed.importState(JSON.parse(JSON.stringify(scout.exportState())));
+            const recommendation = resumed.chooseApproach(windowWithVariance(5), { timestamp: 1000 });
+
+            expect(recommendation.recommendedApproach).toBe('calm');
+            expect(recommendation.suppressionReason).toBe('min-dwell-windows');
+            expect(recommendation.drift!.window).toBe(1);
+            expect(resumed.getHistory().getEntries().map(entry => entry.windowId)).toEqual(['window-1', 'window-2']);
+            expect(resumed.exportState().selection).toEqual({ approach: 'calm', since: 0, windows: 2 });
+        });
+
+        it('should resume the bandit with its outcomes and pending windows', () => {
+            const scout = new HiveScoutBee(calmAndBusy, { bandit: {} });
+            scout.reportOutcome(scout.chooseApproach(windowWithVariance(1)).windowId!, 'calm', 0.5);
+            const pending = scout.chooseApproach(windowWithVariance(1)).windowId!;
+
+            const resumed = new HiveScoutBee(calmAndBusy, { bandit: {} });
+            resumed.importState(JSON.parse(JSON.stringify(scout.exportState())));
+
+            const region = resumed.getBandit()!.getRegions()[0];
+            expect(resumed.getBandit()!.getArms(region)).toEqual({ calm: { pulls: 1, meanReward: 0.5 } });
+            expect(resumed.reportOutcome(pending, 'calm', 1)).toBe(true);
+            expect(resumed.chooseApproach(windowWithVariance(1)).windowId).toBe('window-3');
+        });
+
+        it('should refuse invalid states without changing anything', () => {
+            const scout = new HiveScoutBee(calmAndBusy, { stability: {} });
+            scout.chooseApproach(windowWithVariance(1));
+            const state = scout.exportState();
+
+            expect(() => scout.importState({ type: 'something-else' })).toThrow('Expected a version 1 hive-scout-bee state');
+            expect(() => scout.importState({ ...state, selection: { approach: 'calm' } })).toThrow('Malformed selection state');
+            expect(() => new HiveScoutBee(calmAndBusy).importState(state))
+                .toThrow('The state holds data for a selection mode or drift detection that is not enabled');
+            expect(scout.exportState()).toEqual(state);
+        });
     });
 });
@@ -1,43 +1,212 @@
+import { ApproachConfigLoader } from './config/ApproachConfigLoader';
+import { ApproachConfigValidator } from './config/ApproachConfigValidator';
+import { ConfigValidationError } from './config/ConfigValidationError';
 import { SignatureExtractor } from './extractor/SignatureExtractor';
-import { ApproachConfig, ApproachRecommendation, StreamSignature } from './Types';
+import { RuleEvaluator } from './rules/RuleEvaluator';
+import { DriftDetector } from './drift/DriftDetector';
+import { TypedEventEmitter } from './events/TypedEventEmitter';
+import { RdfReader } from './parsing/RdfReader';
+import { StreamWindower } from './windowing/StreamWindower';
+import { BanditSelector } from './selection/BanditSelector';
+import { DecisionHistory } from './history/DecisionHistory';
+import { PrototypeMatcher } from './selection/PrototypeMatcher';
+import { IncumbentEvaluation, SelectionStabilizer } from './selection/SelectionStabilizer';
+import {
+    ApproachConfig,
+    ApproachExplanation,
+    ApproachRecommendation,
+    ApproachSelector,
+    ChooseApproachOptions,
+    DecisionCriterion,
+    EventHandler,
+    FeatureExtractor,
+    GroupedStreamSignature,
+    HiveScoutBeeEvents,
+    HiveScoutBeeOptions,
+    HiveScoutBeeState,
+    PrototypeMatch,
+    RankedApproach,
+    RdfInput,
+    RdfParseOptions,
+    RecommendationExplanation,
+    ReportedSignature,
+    RuleEvaluation,
+    SignatureGrouping,
+    StreamSignature,
+    WindowedRecommendation,
+    WindowOptions
+} from './Types';
 import { Quad } from 'n3';
+import { Readable } from 'stream';
 
 /**
  * HiveScoutBee class for adaptive approach selection based on stream signatures.
  * Allows configuration of different approaches with custom thresholds for variance,
- * skewness, entropy, fftEntropy, and other metrics.
+ * skewness, entropy, fftEntropy, and any other registered feature.
  * @export
  * @class HiveScoutBee
  */
 export class HiveScoutBee {
     private approachConfigs: Map<string, ApproachConfig>;
     private signatureExtractor: SignatureExtractor;
+    private groupBy: SignatureGrouping;
+    private ruleEvaluator: RuleEvaluator;
+    private stabilizer?: SelectionStabilizer;
+    private configValidator: ApproachConfigValidator;
+    private selector?: ApproachSelector;
+    private bandit?: BanditSelector;
+    private pendingOutcomes: Map<string, string>; // Region of each window awaiting its outcome
+    private maxPendingWindows: number;
+    private windowCounter: number;
+    private driftDetector?: DriftDetector;
+    private resetSelectionOnDrift: boolean;
+    private events: TypedEventEmitter<HiveScoutBeeEvents>;
+    private lowConfidenceThreshold: number;
+    private lastRecommendedApproach?: string;
+    private history: DecisionHistory;
+    private prototypeMatcher: PrototypeMatcher;
+
+    // Minimum score of a non-matching approach to be reported as a near miss
+    private static readonly NEAR_MISS_SCORE = 0.75;
+    // Share of the confidence lost to a runner-up as strong as the winner
+    private static readonly COMPETITION_WEIGHT = 0.5;
 
     /**
      * Creates an instance of HiveScoutBee.
      * @param {ApproachConfig[]} approaches - Array of approach configurations with their thresholds
+     * @param {HiveScoutBeeOptions} [options] - Options controlling how the signatures are extracted and approaches selected
      * @memberof HiveScoutBee
      */
-    constructor(approaches: ApproachConfig[]) {
+    constructor(approaches: ApproachConfig[], options: HiveScoutBeeOptions = {}) {
         this.approachConfigs = new Map();
-        this.signatureExtractor = new SignatureExtractor();
+        this.signatureExtractor = new SignatureExtractor(options.highAccuracy ?? true, options.extractorOptions);
+        this.groupBy = options.groupBy || 'predicate';
+        this.ruleEvaluator = new RuleEvaluator();
+        this.configValidator = new ApproachConfigValidator();
+        this.selector = options.selector;
+        if (options.selector && options.bandit) {
+            throw new Error('The selector and bandit options are mutually exclusive');
+        }
+        if (options.bandit) {
+            this.bandit = new BanditSelector(options.bandit);
+        }
+        this.pendingOutcomes = new Map();
+        this.maxPendingWindows = options.bandit?.maxPendingWindows ?? 1000;
+        this.windowCounter = 0;
+        if (options.drift) {
+            this.driftDetector = new DriftDetector(options.drift);
+        }
+        this.resetSelectionOnDrift = options.resetSelectionOnDrift ?? false;
+        this.lowConfidenceThreshold = options.lowConfidenceThreshold ?? 0.5;
+        this.history = new DecisionHistory(options.history);
+        this.prototypeMatcher = new PrototypeMatcher(options.prototypes);
+        this.events = new TypedEventEmitter<HiveScoutBeeEvents>((event, error) => {
+            // Errors of listenerError listeners are dropped rather than reported in a loop
+            if (event !== 'listenerError') {
+                this.events.emit('listenerError', { event, error });
+            }
+        });
+        if (options.stability) {
+            this.stabilizer = new SelectionStabilizer(options.stability);
+        }
+
+        // Register custom features before the approaches referencing them are validated
+        for (const [name, extractor] of Object.entries(options.features || {})) {
+            this.signatureExtractor.registerFeature(name, extractor);
+        }
         
+        const issues = this.configValidator.validateApproaches(approaches, this.signatureExtractor.getFeatureNames());
+        if (issues.length > 0) {
+            throw new ConfigValidationError(issues);
+        }
+
         // Store approach configurations
         for (const approach of approaches) {
             this.approachConfigs.set(approach.name, approach);
         }
     }
 
+    /**
+     * Creates an instance of HiveScoutBee from a JSON or YAML configuration file,
+     * holding either an array of approaches or an object with an `approaches` array,
+     * or from a Turtle file describing approaches with the Hive Scout Bee vocabulary.
+     * @static
+     * @param {string} filePath - The path of the file, whose extension (.json, .yaml, .yml or .ttl) decides the format
+     * @param {HiveScoutBeeOptions} [options] - Options controlling how the signatures are extracted and approaches selected
+     * @return {Promise<HiveScoutBee>} - The instance using the approaches of the file
+     * @throws {ConfigValidationError} - If the file is invalid, with the file and line of every issue
+     * @memberof HiveScoutBee
+     */
+    public static async fromFile(filePath: string, options: HiveScoutBeeOptions = {}): Promise<HiveScoutBee> {
+        const approaches = await new ApproachConfigLoader().loadFile(filePath, HiveScoutBee.getKnownFeatures(options));
+        return new HiveScoutBee(approaches, options);
+    }
+
+    /**
+     * Creates an instance of HiveScoutBee from an in-memory configuration, such as
+     * parsed JSON, holding either an array of approaches or an object with an `approaches` array.
+     * @static
+     * @param {unknown} value - The configuration
+     * @param {HiveScoutBeeOptions} [options] - Options controlling how the signatures are extracted and approaches selected
+     * @return {HiveScoutBee} - The instance using the approaches of the configuration
+     * @throws {ConfigValidationError} - If the configuration is invalid, with the path of every issue
+     * @memberof HiveScoutBee
+     */
+    public static fromObject(value: unknown, options: HiveScoutBeeOptions = {}): HiveScoutBee {
+        const approaches = new ApproachConfigLoader().fromObject(value, HiveScoutBee.getKnownFeatures(options));
+        return new HiveScoutBee(approaches, options);
+    }
+
     /**
      * Analyzes the stream data and recommends the best approach based on configured thresholds.
      * Selection is based on best fit (most specific matching thresholds) rather than priority.
+     * Prototypes fill the gaps between the thresholds: when only approaches declaring prototypes
+     * match, the one with the prototype nearest to the signature is chosen instead, features
+     * being normalised over the history. If a selector
+     * is configured, it then predicts the approach from the global signature and its confidence
+     * is reported instead. In the bandit mode, the matching approach with the best reported
+     * outcomes in the signature region is chosen. In the stateful selection mode, the
+     * recommendation may stick to the previous approach; the result then tells which switch
+     * was suppressed and why. The result ranks every approach, and the confidence of a decision
+     * made by the thresholds is calibrated on how far the signature lies within the thresholds
+     * of the winner and how close the runner-up comes. On request, the result explains every
+     * threshold check, score, specificity and rank behind the decision.
+     * With drift detection enabled, the result reports the features whose change was flagged.
+     * Every decision is recorded in the history.
      * @param {Set<Quad>} windowData - The RDF quad data to analyze
+     * @param {ChooseApproachOptions} [options] - Per-window options such as the window time
      * @return {ApproachRecommendation} - The recommendation with matching approaches and confidence
      * @memberof HiveScoutBee
      */
-    public chooseApproach(windowData: Set<Quad>): ApproachRecommendation {
-        // Extract signature from the data
-        const signature = this.signatureExtractor.extractSignature(windowData);
+    public chooseApproach(windowData: Set<Quad>, options: ChooseApproachOptions = {}): ApproachRecommendation {
+        // Extract signature from the data, per group as well if an approach targets a group
+        const groupedSignature = this.usesGroups()
+            ? this.signatureExtractor.extractGroupedSignatures(windowData, this.groupBy)
+            : undefined;
+        const reported = groupedSignature
+            ? { signature: groupedSignature.global, extraction: groupedSignature.extraction }
+            : this.signatureExtractor.extractSignatureWithReport(windowData);
+        return this.recommend(reported, groupedSignature, options);
+    }
+
+    /**
+     * Recommends an approach for the signature of a window.
+     * @private
+     * @param {ReportedSignature} reported - The global signature of the window and the report of its extraction
+     * @param {GroupedStreamSignature | undefined} groupedSignature - The group signatures of the window, if extracted
+     * @param {ChooseApproachOptions} options - Per-window options such as the window time
+     * @return {ApproachRecommendation} - The recommendation with matching approaches and confidence
+     * @memberof HiveScoutBee
+     */
+    private recommend(
+        reported: ReportedSignature,
+        groupedSignature: GroupedStreamSignature | undefined,
+        options: ChooseApproachOptions
+    ): ApproachRecommendation {
+        const { signature, extraction } = reported;
+        this.events.emit('signatureComputed', groupedSignature
+            ? { signature, groupSignatures: groupedSignature.groups }
+            : { signature });
         
         // Find all matching approaches with their specificity scores
         const matchingApproaches: string[] = [];
@@ -47,17 +216,49 @@ export class HiveScoutBee {
             specificity: number; 
             priority: number 
         }> = [];
+        const explanations: ApproachExplanation[] = [];
+        const candidates: RankedApproach[] = [];
 
         for (const [approachName, config] of this.approachConfigs) {
-            const matchResult = this.evaluateApproach(signature, config);
-            
+            const targetSignature = this.getTargetSignature(config, signature, groupedSignature);
+
+            // An approach targeting a group that is absent from the window cannot match
+            if (!targetSignature) {
+                if (options.explain) {
+                    explanations.push(this.explainApproach(config, undefined, { matches: false, score: 0, specificity: 0 }));
+                }
+                candidates.push({
+                    rank: 0,
+                    name: approachName,
+                    matches: false,
+                    score: 0,
+                    specificity: 0,
+                    priority: config.priority || 0,
+                    margin: -1,
+                    confidence: 0
+                });
+                continue;
+            }
+
+            const matchResult = this.evaluateApproach(targetSignature, config);
+            if (options.explain) {
+                explanations.push(this.explainApproach(config, targetSignature, matchResult));
+            }
+            candidates.push({
+                rank: 0,
+                name: approachName,
+                ...matchResult,
+                priority: config.priority || 0,
+                margin: this.ruleEvaluator.getMargin(this.ruleEvaluator.buildApproachRule(config), targetSignature),
+                confidence: 0
+            });
+
             if (matchResult.matches) {
-                const specificity = this.calculateSpecificity(signature, config);
                 matchingApproaches.push(approachName);
                 approachEvaluations.push({
                     name: approachName,
                     score: matchResult.score,
-                    specificity: specificity,
+                    specificity: matchResult.specificity,
                     priority: config.priority || 0
                 });
             }
@@ -66,26 +267,306 @@ export class HiveScoutBee {
         // Select the best approach based on specificity first, then priority as tiebreaker
         let recommendedApproach = 'default';
         let confidence = 0;
+        let specificity = 0;
 
         if (approachEvaluations.length > 0) {
             // Sort by specificity first (higher = more specific), then by priority
             approachEvaluations.sort((a, b) => {
-                if (Math.abs(a.specificity - b.specificity) > 0.01) {
+                if (!this.isSpecificityTie(a.specificity, b.specificity)) {
                     return b.specificity - a.specificity; // Higher specificity first
                 }
                 return b.priority - a.priority; // Higher priority as tiebreaker
             });
 
             recommendedApproach = approachEvaluations[0].name;
-            confidence = Math.min(approachEvaluations[0].score, 1.0);
+            specificity = approachEvaluations[0].specificity;
         }
 
-        return {
+        // When only approaches with prototypes match, they are chosen by distance rather than specificity.
+        // An approach without prototypes matched by its thresholds, so it is never overridden by a prototype.
+        const matchingConfigs = matchingApproaches.map(name => this.approachConfigs.get(name)!);
+        const prototypeMatch = matchingConfigs.some(config => !config.prototypes)
+            ? undefined
+            : this.prototypeMatcher.match(signature, matchingConfigs, this.history.getEntries().map(entry => entry.signature));
+        // Approaches with prototypes rank before the others, nearest first
+        let matchOrder = approachEvaluations.map(evaluation => evaluation.name);
+        if (prototypeMatch) {
+            const distances = prototypeMatch.distances;
+            const nearest = Object.keys(distances).sort((a, b) => distances[a] - distances[b]);
+            matchOrder = [...nearest, ...matchOrder.filter(name => !nearest.includes(name))];
+            recommendedApproach = prototypeMatch.approach;
+            specificity = approachEvaluations.find(evaluation => evaluation.name === prototypeMatch.approach)?.specificity ?? 0;
+        }
+
+        // A selector overrides the thresholds, falling back to them if it cannot predict any approach.
+        // The bandit only chooses among the matching approaches, keeping the thresholds as hard constraints.
+        const prediction = this.bandit
+            ? this.bandit.select(signature, matchingApproaches)
+            : this.selector?.select(signature, [...this.approachConfigs.keys(), 'default']);
+        if (prediction) {
+            recommendedApproach = prediction.approach;
+            specificity = approachEvaluations.find(evaluation => evaluation.name === prediction.approach)?.specificity ?? 0;
+            // A predicted matching approach ranks first; a non-matching one or the default stays out of the matching ranks
+            if (matchingApproaches.includes(prediction.approach)) {
+                matchOrder = [prediction.approach, ...matchOrder.filter(name => name !== prediction.approach)];
+            }
+        }
+
+        const ranking = this.rankApproaches(candidates, matchOrder);
+        if (prediction) {
+            confidence = prediction.confidence;
+        } else if (ranking.length > 0 && ranking[0].matches) {
+            confidence = prototypeMatch ? prototypeMatch.confidence : ranking[0].confidence;
+        }
+
+        const recommendation: ApproachRecommendation = {
             recommendedApproach,
             matchingApproaches,
             signature,
-            confidence
+            extraction,
+            confidence,
+            ranking
+        };
+        if (groupedSignature) {
+            recommendation.groupSignatures = groupedSignature.groups;
+        }
+        if (options.explain) {
+            recommendation.explanation = this.buildExplanation(
+                explanations,
+                matchOrder,
+                prediction && (this.bandit ? 'bandit' : 'selector'),
+                prototypeMatch
+            );
+        }
+        if (this.driftDetector) {
+            recommendation.drift = this.driftDetector.update(signature, options.timestamp);
+            // After a change point, the previous approach has no claim to be kept
+            if (recommendation.drift.drifted && this.resetSelectionOnDrift) {
+                this.stabilizer?.reset();
+            }
+        }
+        if (this.stabilizer) {
+            this.stabilize(recommendation, specificity, groupedSignature, options);
+        }
+        if (this.bandit) {
+            recommendation.windowId = this.awaitOutcome(this.bandit.getRegion(signature), options.windowId);
+        }
+        this.history.record({
+            windowId: recommendation.windowId ?? options.windowId ?? `window-${++this.windowCounter}`,
+            timestamp: options.timestamp ?? this.history.now(),
+            signature: { ...signature },
+            recommendedApproach: recommendation.recommendedApproach,
+            matchingApproaches: [...matchingApproaches],
+            confidence: recommendation.confidence
+        });
+        this.emitRecommendationEvents(recommendation);
+        return recommendation;
+    }
+
+    /**
+     * Adds a listener for an event. Errors thrown by listeners do not affect the
+     * selection nor the other listeners; they are emitted as `listenerError` events.
+     * @template K
+     * @param {K} event - The event name: approachChanged, noMatch, lowConfidence, signatureComputed or listenerError
+     * @param {EventHandler<HiveScoutBeeEvents[K]>} listener - The listener
+     * @return {this} - This instance, for chaining
+     * @memberof HiveScoutBee
+     */
+    public on<K extends keyof HiveScoutBeeEvents>(event: K, listener: EventHandler<HiveScoutBeeEvents[K]>): this {
+        this.events.on(event, listener);
+        return this;
+    }
+
+    /**
+     * Adds a listener that is removed after its first call.
+     * @template K
+     * @param {K} event - The event name
+     * @param {EventHandler<HiveScoutBeeEvents[K]>} listener - The listener
+     * @return {this} - This instance, for chaining
+     * @memberof HiveScoutBee
+     */
+    public once<K extends keyof HiveScoutBeeEvents>(event: K, listener: EventHandler<HiveScoutBeeEvents[K]>): this {
+        this.events.on(event, listener, true);
+        return this;
+    }
+
+    /**
+     * Removes a listener.
+     * @template K
+     * @param {K} event - The event name
+     * @param {EventHandler<HiveScoutBeeEvents[K]>} listener - The listener
+     * @return {this} - This instance, for chaining
+     * @memberof HiveScoutBee
+     */
+    public off<K extends keyof HiveScoutBeeEvents>(event: K, listener: EventHandler<HiveScoutBeeEvents[K]>): this {
+        this.events.off(event, listener);
+        return this;
+    }
+
+    /**
+     * Recommends an approach for serialised RDF, treating all its quads as one window.
+     * The input is parsed as a stream and its quads are folded into the signature as they
+     * arrive, rather than read into memory as a whole.
+     * @param {RdfInput} input - The text, file path or readable stream to analyse
+     * @param {RdfParseOptions} [parseOptions] - The format (inferred from the file extension by default) and base IRI
+     * @param {ChooseApproachOptions} [options] - Per-window options such as the window time
+     * @return {Promise<ApproachRecommendation>} - The recommendation with matching approaches and confidence
+     * @memberof HiveScoutBee
+     */
+    public async chooseApproachFrom(
+        input: RdfInput,
+        parseOptions: RdfParseOptions = {},
+        options: ChooseApproachOptions = {}
+    ): Promise<ApproachRecommendation> {
+        const quads = new RdfReader().quads(input, parseOptions);
+        if (this.usesGroups()) {
+            const groupedSignature = await this.signatureExtractor.streamGroupedSignatures(quads, this.groupBy);
+            return this.recommend(
+                { signature: groupedSignature.global, extraction: groupedSignature.extraction },
+                groupedSignature,
+                options
+            );
+        }
+        return this.recommend(await this.signatureExtractor.streamSignatureWithReport(quads), undefined, options);
+    }
+
+    /**
+     * Cuts a stream of quads into windows and recommends an approach for each window
+     * as it closes. Time windows pass their end as the timestamp of the window.
+     * @param {AsyncIterable<Quad> | Readable} source - The quads, e.g. an n3 StreamParser or an object-mode stream
+     * @param {WindowOptions} windowOptions - The kind, RANGE and STEP of the windows, and how late quads are handled
+     * @param {ChooseApproachOptions} [options] - Options passed on for every window, such as explain
+     * @return {AsyncGenerator<WindowedRecommendation>} - One recommendation per closed window
+     * @memberof HiveScoutBee
+     */
+    public async *recommendStream(
+        source: AsyncIterable<Quad> | Readable,
+        windowOptions: WindowOptions,
+        options: ChooseApproachOptions = {}
+    ): AsyncGenerator<WindowedRecommendation> {
+        for await (const window of new StreamWindower(windowOptions).windows(source)) {
+            const windowTimestamp = windowOptions.type === 'time' ? { timestamp: window.info.end } : {};
+            const recommendation = this.chooseApproach(window.quads, { ...options, ...windowTimestamp });
+            yield { window: window.info, recommendation };
+        }
+    }
+
+    /**
+     * Reports how an approach did on a window recommended in the bandit mode, so that
+     * later windows of the same signature region favour the approaches that did well.
+     * Each window takes one outcome.
+     * @param {string} windowId - The window, as given to or returned by chooseApproach
+     * @param {string} approach - The approach that ran on the window
+     * @param {number} reward - How well it did, between 0 and 1 (e.g. a normalised latency, memory or accuracy score)
+     * @return {boolean} - True if the outcome was recorded, false if the window is unknown or already reported
+     * @memberof HiveScoutBee
+     */
+    public reportOutcome(windowId: string, approach: string, reward: number): boolean {
+        if (!this.bandit) {
+            throw new Error('Outcomes can only be reported in the bandit selection mode');
+        }
+        const region = this.pendingOutcomes.get(windowId);
+        if (region === undefined) return false;
+
+        this.bandit.update(region, approach, reward);
+        this.pendingOutcomes.delete(windowId);
+        return true;
+    }
+
+    /**
+     * Gets the bandit of the bandit selection mode, e.g. to inspect what it learned.
+     * @return {BanditSelector | undefined} - The bandit, or undefined outside the bandit mode
+     * @memberof HiveScoutBee
+     */
+    public getBandit(): BanditSelector | undefined {
+        return this.bandit;
+    }
+
+    /**
+     * Gets the history of the decisions, e.g. to query the last decisions or the
+     * time spent in each approach.
+     * @return {DecisionHistory} - The history
+     * @memberof HiveScoutBee
+     */
+    public getHistory(): DecisionHistory {
+        return this.history;
+    }
+
+    /**
+     * Exports what this instance has learned from past windows: the history, the
+     * state of the stateful selection mode, the outcomes of the bandit and the
+     * regimes of the drift detector. Approaches and options are not part of it.
+     * @return {HiveScoutBeeState} - The state, which can be stored as JSON
+     * @memberof HiveScoutBee
+     */
+    public exportState(): HiveScoutBeeState {
+        const state: HiveScoutBeeState = {
+            type: 'hive-scout-bee-state',
+            version: 1,
+            windowCounter: this.windowCounter,
+            history: this.history.exportState()
         };
+        if (this.lastRecommendedApproach !== undefined) {
+            state.lastRecommendedApproach = this.lastRecommendedApproach;
+        }
+        const selection = this.stabilizer?.exportState();
+        if (selection) {
+            state.selection = selection;
+        }
+        if (this.bandit) {
+            state.bandit = this.bandit.exportState();
+            state.pendingOutcomes = Array.from(this.pendingOutcomes);
+        }
+        if (this.driftDetector) {
+            state.drift = this.driftDetector.exportState();
+        }
+        return state;
+    }
+
+    /**
+     * Restores a state exported with {@link HiveScoutBee.exportState}, e.g. by a
+     * previous process, replacing the current one. The instance must be created with
+     * the modes the state holds data for. Nothing is changed if the state is invalid.
+     * @param {unknown} state - The state, e.g. parsed from JSON
+     * @throws {Error} - If the state is malformed or holds data for a mode that is not enabled
+     * @memberof HiveScoutBee
+     */
+    public importState(state: unknown): void {
+        const data = state as HiveScoutBeeState;
+        if (typeof data !== 'object' || data === null || data.type !== 'hive-scout-bee-state' || data.version !== 1) {
+            throw new Error('Expected a version 1 hive-scout-bee state');
+        }
+        if (!Number.isInteger(data.windowCounter) || data.windowCounter < 0 ||
+            (data.lastRecommendedApproach !== undefined && typeof data.lastRecommendedApproach !== 'string')) {
+            throw new Error('Malformed hive-scout-bee state: invalid window counter or last approach');
+        }
+        if ((data.selection !== undefined && !this.stabilizer) ||
+            ((data.bandit !== undefined || data.pendingOutcomes !== undefined) && !this.bandit) ||
+            (data.drift !== undefined && !this.driftDetector)) {
+            throw new Error('The state holds data for a selection mode or drift detection that is not enabled');
+        }
+        const pendingOutcomes = data.pendingOutcomes ?? [];
+        if (!Array.isArray(pendingOutcomes) || !pendingOutcomes.every(pending =>
+            Array.isArray(pending) && pending.length === 2 && pending.every(value => typeof value === 'string'))) {
+            throw new Error('Malformed hive-scout-bee state: pending outcomes must be pairs of window id and region');
+        }
+
+        const previous = this.exportState();
+        try {
+            this.applyState(data, pendingOutcomes);
+        } catch (error) {
+            this.applyState(previous, previous.pendingOutcomes ?? []);
+            throw error;
+        }
+    }
+
+    /**
+     * Forgets the approach recommended for the previous windows, so that the
+     * stateful selection mode decides the next window on its own.
+     * @memberof HiveScoutBee
+     */
+    public resetSelectionState(): void {
+        this.stabilizer?.reset();
     }
 
     /**
@@ -94,6 +575,7 @@ export class HiveScoutBee {
      * @memberof HiveScoutBee
      */
     public addApproach(approach: ApproachConfig): void {
+        this.validateApproach(approach);
         this.approachConfigs.set(approach.name, approach);
     }
 
@@ -127,125 +609,401 @@ export class HiveScoutBee {
     }
 
     /**
-     * Calculates the specificity of an approach for the given signature.
-     * More restrictive thresholds = higher specificity.
+     * Replaces the state of this instance and its components.
+     * @private
+     * @param {HiveScoutBeeState} state - The state
+     * @param {Array<[string, string]>} pendingOutcomes - The windows awaiting their outcome
+     * @throws {Error} - If the state of a component is malformed
+     * @memberof HiveScoutBee
+     */
+    private applyState(state: HiveScoutBeeState, pendingOutcomes: Array<[string, string]>): void {
+        this.history.importState(state.history);
+        this.stabilizer?.importState(state.selection);
+        this.bandit?.importState(state.bandit ?? {});
+        this.driftDetector?.importState(state.drift ?? { window: 0, features: {} });
+        this.pendingOutcomes = new Map(pendingOutcomes);
+        this.windowCounter = state.windowCounter;
+        this.lastRecommendedApproach = state.lastRecommendedApproach;
+    }
+
+    /**
+     * Checks whether two specificities are too close to tell apart, in which case
+     * the priority decides.
+     * @private
+     * @param {number} a - The specificity of one approach
+     * @param {number} b - The specificity of another approach
+     * @return {boolean} - True if the specificities tie
+     * @memberof HiveScoutBee
+     */
+    private isSpecificityTie(a: number, b: number): boolean {
+        return Math.abs(a - b) <= 0.01;
+    }
+
+    /**
+     * Explains how an approach was evaluated for a window.
      * @private
-     * @param {StreamSignature} signature - The stream signature
      * @param {ApproachConfig} config - The approach configuration
-     * @return {number} - Specificity score (higher = more specific)
-     * @memberof HiveScoutBee
-     */
-    private calculateSpecificity(signature: StreamSignature, config: ApproachConfig): number {
-        let specificityScore = 0;
-        let thresholdCount = 0;
-
-        // For min thresholds: closer to actual value = more specific
-        if (config.minThresholds) {
-            const minChecks = [
-                { threshold: config.minThresholds.variance, value: signature.variance },
-                { threshold: config.minThresholds.skewness, value: signature.skewness },
-                { threshold: config.minThresholds.entropy, value: signature.entropy },
-                { threshold: config.minThresholds.fftEntropy, value: signature.fftEntropy },
-                { threshold: config.minThresholds.tripleCount, value: signature.tripleCount }
-            ];
-
-            for (const check of minChecks) {
-                if (check.threshold !== undefined) {
-                    thresholdCount++;
-                    // Higher threshold relative to value = more specific
-                    if (check.value > 0) {
-                        specificityScore += check.threshold / (check.value + 1);
-                    } else {
-                        specificityScore += check.threshold;
-                    }
-                }
-            }
+     * @param {StreamSignature | undefined} targetSignature - The signature the approach was evaluated on, undefined if its group is absent
+     * @param {RuleEvaluation} evaluation - The outcome of the evaluation
+     * @return {ApproachExplanation} - The per-threshold breakdown of the evaluation
+     * @memberof HiveScoutBee
+     */
+    private explainApproach(
+        config: ApproachConfig,
+        targetSignature: StreamSignature | undefined,
+        evaluation: RuleEvaluation
+    ): ApproachExplanation {
+        const explanation: ApproachExplanation = {
+            name: config.name,
+            groupPresent: targetSignature !== undefined,
+            matches: evaluation.matches,
+            checks: targetSignature
+                ? this.ruleEvaluator.explain(this.ruleEvaluator.buildApproachRule(config), targetSignature)
+                : [],
+            score: evaluation.score,
+            specificity: evaluation.specificity,
+            priority: config.priority || 0
+        };
+        if (config.group !== undefined) {
+            explanation.group = config.group;
         }
+        return explanation;
+    }
 
-        // For max thresholds: lower threshold = more specific/restrictive
-        if (config.maxThresholds) {
-            const maxChecks = [
-                { threshold: config.maxThresholds.variance, value: signature.variance },
-                { threshold: config.maxThresholds.skewness, value: signature.skewness },
-                { threshold: config.maxThresholds.entropy, value: signature.entropy },
-                { threshold: config.maxThresholds.fftEntropy, value: signature.fftEntropy },
-                { threshold: config.maxThresholds.tripleCount, value: signature.tripleCount }
-            ];
-
-            for (const check of maxChecks) {
-                if (check.threshold !== undefined) {
-                    thresholdCount++;
-                    // Lower threshold = more restrictive = more specific
-                    // Use inverse relationship: 1 / (threshold + 1)
-                    specificityScore += 1 / (check.threshold + 1);
-                }
+    /**
+     * Assembles the explanation of a recommendation from the explanations of all approaches.
+     * Non-matching approaches scoring at least {@link HiveScoutBee.NEAR_MISS_SCORE} are near misses.
+     * @private
+     * @param {ApproachExplanation[]} explanations - The explanation of every approach, in configuration order
+     * @param {string[]} ranking - The names of the matching approaches, best first, those with prototypes nearest first
+     * @param {'selector' | 'bandit'} [predictedBy] - What made the decision instead of the ranking, if anything
+     * @param {PrototypeMatch} [prototypeMatch] - The distances of the matching approaches with prototypes, if any
+     * @return {RecommendationExplanation} - The explanation of the recommendation
+     * @memberof HiveScoutBee
+     */
+    private buildExplanation(
+        explanations: ApproachExplanation[],
+        ranking: string[],
+        predictedBy?: 'selector' | 'bandit',
+        prototypeMatch?: PrototypeMatch
+    ): RecommendationExplanation {
+        const byName = new Map(explanations.map(explanation => [explanation.name, explanation]));
+        for (const [name, distance] of Object.entries(prototypeMatch?.distances || {})) {
+            const explanation = byName.get(name);
+            if (explanation) explanation.distance = distance;
+        }
+        ranking.forEach((name, index) => {
+            const explanation = byName.get(name);
+            if (explanation) explanation.rank = index + 1;
+        });
+
+        let decidedBy: DecisionCriterion = 'no-match';
+        if (predictedBy) {
+            decidedBy = predictedBy;
+        } else if (prototypeMatch) {
+            decidedBy = 'nearest-prototype';
+        } else if (ranking.length === 1) {
+            decidedBy = 'single-match';
+        } else if (ranking.length > 1) {
+            const winner = byName.get(ranking[0]);
+            const runnerUp = byName.get(ranking[1]);
+            decidedBy = winner && runnerUp && this.isSpecificityTie(winner.specificity, runnerUp.specificity)
+                ? 'priority'
+                : 'specificity';
+        }
+
+        const nearMisses = explanations
+            .filter(explanation => !explanation.matches && explanation.score >= HiveScoutBee.NEAR_MISS_SCORE)
+            .sort((a, b) => b.score - a.score);
+
+        return { approaches: explanations, decidedBy, nearMisses };
+    }
+
+    /**
+     * Ranks every approach: the matching ones in the order of the selection, then the
+     * others by score and margin. Each gets the confidence it would be recommended with.
+     * @private
+     * @param {RankedApproach[]} candidates - The evaluation of every approach, in configuration order
+     * @param {string[]} matchOrder - The names of the matching approaches, best first
+     * @return {RankedApproach[]} - The ranking, best first
+     * @memberof HiveScoutBee
+     */
+    private rankApproaches(candidates: RankedApproach[], matchOrder: string[]): RankedApproach[] {
+        const matching = matchOrder
+            .map(name => candidates.find(candidate => candidate.name === name))
+            .filter((candidate): candidate is RankedApproach => candidate !== undefined);
+        const others = candidates
+            .filter(candidate => !candidate.matches)
+            .sort((a, b) => b.score - a.score || b.margin - a.margin);
+
+        return [...matching, ...others].map((candidate, index, ranking) => ({
+            ...candidate,
+            rank: index + 1,
+            confidence: this.calibrateConfidence(candidate, ranking)
+        }));
+    }
+
+    /**
+     * Calibrates the confidence of recommending an approach. It is the margin by
+     * which the signature lies within the thresholds of the approach, reduced by the
+     * strongest competitor by up to {@link HiveScoutBee.COMPETITION_WEIGHT}. A matching
+     * competitor is as strong as its specificity relative to the approach, fully so
+     * when at least as specific and not at all when either specificity is not positive;
+     * a non-matching one the closer it comes to matching.
+     * So an approach far from its thresholds without a rival has a confidence near 1,
+     * one on a threshold has 0, and one tied with the runner-up at most a half.
+     * @private
+     * @param {RankedApproach} approach - The approach
+     * @param {RankedApproach[]} ranking - All approaches
+     * @return {number} - The confidence, 0 if the approach does not match
+     * @memberof HiveScoutBee
+     */
+    private calibrateConfidence(approach: RankedApproach, ranking: RankedApproach[]): number {
+        if (!approach.matches) return 0;
+
+        let competition = 0;
+        for (const competitor of ranking) {
+            if (competitor.name === approach.name) continue;
+            const rivals = competitor.specificity >= approach.specificity ||
+                this.isSpecificityTie(competitor.specificity, approach.specificity);
+            let strength: number;
+            if (!competitor.matches) {
+                strength = 1 + competitor.margin;
+            } else if (rivals) {
+                strength = 1;
+            } else {
+                // Specificities can be zero or negative, e.g. for negative lower bounds, where their ratio means nothing
+                strength = approach.specificity > 0 && competitor.specificity > 0
+                    ? competitor.specificity / approach.specificity
+                    : 0;
             }
+            competition = Math.max(competition, Math.min(1, Math.max(0, strength)));
+        }
+        return Math.max(approach.margin, 0) * (1 - HiveScoutBee.COMPETITION_WEIGHT * competition);
+    }
+
+    /**
+     * Applies the hysteresis, dwell time and switching cost of the stateful selection
+     * mode to a recommendation, possibly keeping the previously recommended approach.
+     * @private
+     * @param {ApproachRecommendation} recommendation - The recommendation for the window on its own, updated in place
+     * @param {number} specificity - The specificity of the recommended approach
+     * @param {GroupedStreamSignature | undefined} groupedSignature - The group signatures of the window, if extracted
+     * @param {ChooseApproachOptions} options - Per-window options such as the window time
+     * @memberof HiveScoutBee
+     */
+    private stabilize(
+        recommendation: ApproachRecommendation,
+        specificity: number,
+        groupedSignature: GroupedStreamSignature | undefined,
+        options: ChooseApproachOptions
+    ): void {
+        const stabilizer = this.stabilizer;
+        if (!stabilizer) return;
+
+        // A removed approach cannot be kept, whatever its dwell time
+        const currentApproach = stabilizer.getCurrentApproach();
+        if (currentApproach !== undefined && currentApproach !== 'default' && !this.approachConfigs.has(currentApproach)) {
+            stabilizer.reset();
         }
 
-        // Normalize by number of thresholds
-        return thresholdCount > 0 ? specificityScore / thresholdCount : 0;
+        const incumbent = this.evaluateIncumbent(stabilizer.getCurrentApproach(), recommendation.signature, groupedSignature);
+        const decision = stabilizer.decide(
+            { name: recommendation.recommendedApproach, specificity },
+            incumbent,
+            options.timestamp ?? stabilizer.now()
+        );
+
+        recommendation.switchSuppressed = decision.switchSuppressed;
+        if (decision.switchSuppressed) {
+            recommendation.suppressedApproach = recommendation.recommendedApproach;
+            recommendation.suppressionReason = decision.reason;
+            recommendation.recommendedApproach = decision.approach;
+            recommendation.confidence = recommendation.ranking.find(entry => entry.name === decision.approach)?.confidence ?? 0;
+        }
     }
 
     /**
-     * Evaluates whether a signature matches an approach's criteria.
+     * Emits the events following from a recommendation: approachChanged when it
+     * differs from the previous one, noMatch when no approach matched, and
+     * lowConfidence when a matching approach is recommended with low confidence.
+     * @private
+     * @param {ApproachRecommendation} recommendation - The recommendation for the window
+     * @memberof HiveScoutBee
+     */
+    private emitRecommendationEvents(recommendation: ApproachRecommendation): void {
+        const { recommendedApproach, signature, confidence } = recommendation;
+        const previous = this.lastRecommendedApproach;
+        this.lastRecommendedApproach = recommendedApproach;
+
+        if (previous !== recommendedApproach) {
+            this.events.emit('approachChanged', { from: previous, to: recommendedApproach, signature, recommendation });
+        }
+        if (recommendation.matchingApproaches.length === 0) {
+            this.events.emit('noMatch', { signature, recommendation });
+        } else if (confidence < this.lowConfidenceThreshold) {
+            this.events.emit('lowConfidence', {
+                approach: recommendedApproach,
+                confidence,
+                threshold: this.lowConfidenceThreshold,
+                signature,
+                recommendation
+            });
+        }
+    }
+
+    /**
+     * Keeps the region of a window until its outcome is reported, forgetting the
+     * oldest windows beyond the maximum number of pending windows.
+     * @private
+     * @param {string} region - The signature region of the window
+     * @param {string} [windowId] - The window, generated if absent
+     * @return {string} - The window id
+     * @memberof HiveScoutBee
+     */
+    private awaitOutcome(region: string, windowId?: string): string {
+        const id = windowId ?? `window-${++this.windowCounter}`;
+        this.pendingOutcomes.delete(id);
+        this.pendingOutcomes.set(id, region);
+        while (this.pendingOutcomes.size > this.maxPendingWindows) {
+            const oldest = this.pendingOutcomes.keys().next().value as string;
+            this.pendingOutcomes.delete(oldest);
+        }
+        return id;
+    }
+
+    /**
+     * Evaluates the currently recommended approach against its configured bounds
+     * and against its bounds widened by the hysteresis margins.
+     * @private
+     * @param {string | undefined} approachName - The currently recommended approach
+     * @param {StreamSignature} signature - The global stream signature
+     * @param {GroupedStreamSignature | undefined} groupedSignature - The group signatures of the window, if extracted
+     * @return {IncumbentEvaluation | undefined} - The evaluations, or undefined for the default approach or an absent group
+     * @memberof HiveScoutBee
+     */
+    private evaluateIncumbent(
+        approachName: string | undefined,
+        signature: StreamSignature,
+        groupedSignature: GroupedStreamSignature | undefined
+    ): IncumbentEvaluation | undefined {
+        const config = approachName !== undefined ? this.approachConfigs.get(approachName) : undefined;
+        if (!config || !this.stabilizer) return undefined;
+
+        const targetSignature = this.getTargetSignature(config, signature, groupedSignature);
+        if (!targetSignature) return undefined;
+
+        const rule = this.ruleEvaluator.buildApproachRule(config);
+        const widenedRule = this.ruleEvaluator.widen(rule, this.stabilizer.getHysteresisMargins(config));
+        return {
+            strict: this.ruleEvaluator.evaluate(rule, targetSignature),
+            widened: this.ruleEvaluator.evaluate(widenedRule, targetSignature)
+        };
+    }
+
+    /**
+     * Gets the signature an approach sets its thresholds on.
      * @private
-     * @param {StreamSignature} signature - The stream signature to evaluate
      * @param {ApproachConfig} config - The approach configuration
-     * @return {{ matches: boolean; score: number }} - Match result and confidence score
-     * @memberof HiveScoutBee
-     */
-    private evaluateApproach(signature: StreamSignature, config: ApproachConfig): { matches: boolean; score: number } {
-        let matches = true;
-        let totalScore = 0;
-        let criteriaCount = 0;
-
-        // Check minimum thresholds
-        if (config.minThresholds) {
-            const minChecks = [
-                { threshold: config.minThresholds.variance, value: signature.variance },
-                { threshold: config.minThresholds.skewness, value: signature.skewness },
-                { threshold: config.minThresholds.entropy, value: signature.entropy },
-                { threshold: config.minThresholds.fftEntropy, value: signature.fftEntropy },
-                { threshold: config.minThresholds.tripleCount, value: signature.tripleCount }
-            ];
-
-            for (const check of minChecks) {
-                if (check.threshold !== undefined) {
-                    criteriaCount++;
-                    if (check.value >= check.threshold) {
-                        totalScore += 1.0;
-                    } else {
-                        matches = false;
-                        totalScore += Math.max(0, check.value / check.threshold);
-                    }
-                }
-            }
+     * @param {StreamSignature} signature - The global stream signature
+     * @param {GroupedStreamSignature | undefined} groupedSignature - The group signatures of the window, if extracted
+     * @return {StreamSignature | undefined} - The signature of the targeted group, the global one, or undefined if the group is absent
+     * @memberof HiveScoutBee
+     */
+    private getTargetSignature(
+        config: ApproachConfig,
+        signature: StreamSignature,
+        groupedSignature: GroupedStreamSignature | undefined
+    ): StreamSignature | undefined {
+        return config.group !== undefined
+            ? groupedSignature?.groups[config.group]
+            : signature;
+    }
+
+    /**
+     * Checks whether any configured approach sets its thresholds on a group.
+     * @private
+     * @return {boolean} - True if grouped signatures have to be extracted
+     * @memberof HiveScoutBee
+     */
+    private usesGroups(): boolean {
+        for (const config of this.approachConfigs.values()) {
+            if (config.group !== undefined) return true;
         }
+        return false;
+    }
 
-        // Check maximum thresholds
-        if (config.maxThresholds) {
-            const maxChecks = [
-                { threshold: config.maxThresholds.variance, value: signature.variance },
-                { threshold: config.maxThresholds.skewness, value: signature.skewness },
-                { threshold: config.maxThresholds.entropy, value: signature.entropy },
-                { threshold: config.maxThresholds.fftEntropy, value: signature.fftEntropy },
-                { threshold: config.maxThresholds.tripleCount, value: signature.tripleCount }
-            ];
-
-            for (const check of maxChecks) {
-                if (check.threshold !== undefined) {
-                    criteriaCount++;
-                    if (check.value <= check.threshold) {
-                        totalScore += 1.0;
-                    } else {
-                        matches = false;
-                        totalScore += Math.max(0, check.threshold / check.value);
-                    }
-                }
-            }
+    /**
+     * Registers a custom feature, so that approaches can set thresholds on it.
+     * @param {string} name - The name of the feature in the signature
+     * @param {FeatureExtractor} extractor - The function computing the feature for a window
+     * @memberof HiveScoutBee
+     */
+    public registerFeature(name: string, extractor: FeatureExtractor): void {
+        this.signatureExtractor.registerFeature(name, extractor);
+    }
+
+    /**
+     * Extracts the signature of a window, including the custom features registered on this instance.
+     * @param {Set<Quad>} windowData - The RDF quad data to analyze
+     * @return {StreamSignature} - The signature of the window
+     * @memberof HiveScoutBee
+     */
+    public extractSignature(windowData: Set<Quad>): StreamSignature {
+        return this.signatureExtractor.extractSignature(windowData);
+    }
+
+    /**
+     * Gets the names of the features approaches can set thresholds on.
+     * @return {string[]} - Array of feature names
+     * @memberof HiveScoutBee
+     */
+    public getFeatureNames(): string[] {
+        return this.signatureExtractor.getFeatureNames();
+    }
+
+    /**
+     * Validates an approach, including that it only references registered features.
+     * @private
+     * @param {ApproachConfig} approach - The approach configuration to validate
+     * @throws {ConfigValidationError} - If the approach is invalid
+     * @memberof HiveScoutBee
+     */
+    private validateApproach(approach: ApproachConfig): void {
+        const issues = this.configValidator.validateApproach(approach, this.signatureExtractor.getFeatureNames());
+        if (issues.length > 0) {
+            throw new ConfigValidationError(issues);
         }
+    }
+
+    /**
+     * Gets the features available to approaches before an instance exists: the
+     * built-in features and the custom features of the options.
+     * @private
+     * @static
+     * @param {HiveScoutBeeOptions} options - The options the instance will be created with
+     * @return {string[]} - The feature names
+     * @memberof HiveScoutBee
+     */
+    private static getKnownFeatures(options: HiveScoutBeeOptions): string[] {
+        return [
+            ...new SignatureExtractor(false, options.extractorOptions).getFeatureNames(),
+            ...Object.keys(options.features || {})
+        ];
+    }
 
-        const score = criteriaCount > 0 ? totalScore / criteriaCount : 0;
-        return { matches, score };
+    /**
+     * Evaluates whether a signature matches an approach's criteria. The min/max
+     * thresholds and the rule of the approach are combined into one expression
+     * tree, from which the match, the score and the specificity are derived.
+     * More restrictive thresholds = higher specificity.
+     * @private
+     * @param {StreamSignature} signature - The stream signature to evaluate
+     * @param {ApproachConfig} config - The approach configuration
+     * @return {RuleEvaluation} - Match result, confidence score and specificity
+     * @memberof HiveScoutBee
+     */
+    private evaluateApproach(signature: StreamSignature, config: ApproachConfig): RuleEvaluation {
+        return this.ruleEvaluator.evaluate(this.ruleEvaluator.buildApproachRule(config), signature);
     }
 }
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { Literal, Quad } from 'n3';
+import { Readable } from 'stream';
+import { ConfigIssue } from './config/ConfigValidationError';
 
 /**
  * Interface representing the signature of a stream.
@@ -10,6 +13,212 @@ export interface StreamSignature {
     skewness : number;
     entropy : number;
     fftEntropy : number;
+    [feature: string]: number; // Custom features registered with the extractor
+}
+
+/**
+ * Interface representing the central moments of the numeric values of a window.
+ * @export
+ * @interface NumericMoments
+ */
+export interface NumericMoments {
+    count: number;
+    mean: number;
+    m2: number; // Sum of squared deviations from the mean
+    m3: number; // Sum of cubed deviations from the mean
+    m4: number; // Sum of fourth powers of the deviations from the mean
+}
+
+/**
+ * Interface representing the values collected from a window once, and shared
+ * by all feature extractors.
+ * @export
+ * @interface FeatureContext
+ */
+export interface FeatureContext {
+    tripleCount: number;
+    literalCount: number; // Quads with a literal object, including timestamps
+    timestampCount: number; // Literals linking an observation to its event time, which are never numeric values
+    numericCount: number; // Numeric values in the window, which numericValues may only sample
+    numericValues: number[]; // In window order, a uniform sample of them in the approximate mode
+    series: number[]; // Every numeric value, in time order when timestamps are available, see SignatureExtractor.buildSeries; block-averaged to the FFT size limit in the approximate mode
+    predicateCounts: Map<string, number>; // Hashed into buckets in the approximate mode, see PredicateSketch
+    moments: NumericMoments;
+    structure: GraphStructure;
+}
+
+/**
+ * Interface representing the shape of the graph of a window, as quad counts
+ * per term. Terms are keyed by their N3 identifier, so blank nodes stay distinct.
+ * @export
+ * @interface GraphStructure
+ */
+export interface GraphStructure {
+    subjects: Map<string, number>; // Quads per subject, i.e. the out-degree of every subject
+    objects: Map<string, number>; // Quads per object
+    graphs: Map<string, number>; // Quads per graph, the default graph keyed by the empty string
+    objectTermTypes: Map<string, number>; // Objects per term type: NamedNode, Literal, BlankNode
+    datatypes: Map<string, number>; // Literals per datatype IRI
+    languages: Map<string, number>; // Language-tagged literals per language tag
+}
+
+/**
+ * A function computing one feature of the signature from a window.
+ * @export
+ */
+export type FeatureExtractor = (windowData: Set<Quad>, context: FeatureContext) => number;
+
+/**
+ * Interface representing the options of the signature extractor.
+ * @export
+ * @interface SignatureExtractorOptions
+ */
+export interface SignatureExtractorOptions {
+    timestampPredicates?: string[]; // Predicate IRIs linking an observation to its event time, e.g. sosa:resultTime
+    resample?: boolean; // Resample the time-ordered values onto a uniform time grid before the FFT
+    resampleSize?: number; // Number of grid points when resampling, defaults to the number of timestamped values
+    sampleSize?: number; // Approximate mode: numeric values kept by reservoir sampling for the moments and quantiles, defaults to 10000
+    maxFftSize?: number; // Approximate mode: longest series fed to the FFT, defaults to 4096
+    sketchWidth?: number; // Approximate mode: distinct predicates, and distinct terms per structure count, counted exactly before hashing, defaults to 1024
+    seed?: number; // Approximate mode: seed of the sampling, which restarts for every window, defaults to 1
+    random?: () => number; // Approximate mode: source of randomness of the sampling, overrides the seeded generator
+    fftWindow?: FftWindowFunction; // Window function applied to the series before the FFT, defaults to 'rectangular'
+    fftSizing?: FftSizing; // How the series is brought to a power-of-two length, defaults to 'pad'
+    spectralFeatures?: boolean; // Adds dominantFrequency, spectralCentroid, spectralFlatness and bandEnergy<i> to the signature
+    spectralBands?: number[]; // Band boundaries in cycles per sample, ascending within (0, 0.5), defaults to [0.1, 0.25]
+    percentiles?: number[]; // Percentiles between 0 and 100 added as p<q> features, defaults to [5, 25, 75, 95]
+    autocorrelationLags?: number[]; // Lags of the series added as autocorrelation<k> features, defaults to [1]
+    coercion?: CoercionPolicy; // How literals are turned into numeric values, defaults to 'lenient'
+    coerceDateTimes?: boolean; // Read xsd:dateTime literals as epoch milliseconds instead of leaving them out, defaults to false
+}
+
+/**
+ * How literals are turned into numeric values. Both built-in policies read the
+ * XSD numeric types, xsd:boolean (as 0 or 1), xsd:duration (as milliseconds) and,
+ * if enabled, xsd:dateTime (as epoch milliseconds) by their exact IRIs. 'lenient' also reads
+ * xsd:string literals that are numbers as a whole, 'strict' does not. A mapper
+ * decides itself, falling back to 'strict' where it returns undefined.
+ * @export
+ */
+export type CoercionPolicy = 'strict' | 'lenient' | LiteralMapper;
+
+/**
+ * A function turning a literal into a numeric value: a finite number to use it,
+ * null to reject it, or undefined to leave it to the strict policy.
+ * @export
+ */
+export type LiteralMapper = (literal: Literal) => number | null | undefined;
+
+/**
+ * Interface representing the outcome of coercing a literal. A literal that is
+ * neither numeric nor rejected is not meant to be numeric, such as plain text.
+ * @export
+ * @interface LiteralCoercion
+ */
+export interface LiteralCoercion {
+    value?: number; // The numeric value, if the literal is numeric
+    rejected: boolean; // Whether the literal claims to be numeric but is not, e.g. "12 apples" or "300"^^xsd:byte
+}
+
+/**
+ * The window function applied to a series before its FFT, to reduce spectral leakage.
+ * @export
+ */
+export type FftWindowFunction = 'rectangular' | 'hann' | 'hamming';
+
+/**
+ * How a series is brought to a power-of-two length for the FFT: zero-padded to the
+ * next power of two, or truncated to the previous one keeping the latest values.
+ * @export
+ */
+export type FftSizing = 'pad' | 'truncate';
+
+/**
+ * Interface representing the options of the spectral analysis.
+ * @export
+ * @interface SpectralOptions
+ */
+export interface SpectralOptions {
+    window?: FftWindowFunction; // Defaults to 'rectangular'
+    sizing?: FftSizing; // Defaults to 'pad'
+    bands?: number[]; // Band boundaries in cycles per sample, defaults to [0.1, 0.25]
+}
+
+/**
+ * Interface representing the shape of the spectrum of a series. Frequencies are
+ * in cycles per sample, from 0 to the Nyquist frequency 0.5.
+ * @export
+ * @interface SpectralFeatures
+ */
+export interface SpectralFeatures {
+    dominantFrequency: number; // Frequency of the strongest component
+    spectralCentroid: number; // Magnitude-weighted mean frequency
+    spectralFlatness: number; // Geometric over arithmetic mean of the power, 1 for white noise, near 0 for a pure tone
+    bandEnergies: number[]; // Share of the power in each band
+}
+
+/**
+ * How a signature is extracted: exactly, or approximately with bounded cost for large windows.
+ * @export
+ */
+export type ExtractionMode = 'exact' | 'approximate';
+
+/**
+ * Interface representing how the signature of a window was extracted.
+ * @export
+ * @interface ExtractionReport
+ */
+export interface ExtractionReport {
+    mode: ExtractionMode;
+    numericValueCount: number; // Numeric values in the window
+    sampleSize: number; // Numeric values the moments and quantiles were computed from
+    fftSize: number; // Length of the series fed to the FFT, before zero-padding
+    entropySketched: boolean; // Whether the entropy was computed from hashed predicate counts
+    structureSketched: boolean; // Whether the graph structure features were computed from hashed term counts
+    rejectedLiteralCount: number; // Literals refused by the coercion policy, see LiteralCoercion
+    memoryBound?: number; // Approximate mode: most values, series blocks and counts kept, sampleSize + maxFftSize + 6 * sketchWidth
+}
+
+/**
+ * Interface representing a signature with the report of its extraction.
+ * @export
+ * @interface ReportedSignature
+ */
+export interface ReportedSignature {
+    signature: StreamSignature;
+    extraction: ExtractionReport;
+}
+
+/**
+ * Interface representing a numeric value of a window with the event time of its observation.
+ * @export
+ * @interface NumericObservation
+ */
+export interface NumericObservation {
+    value: number;
+    timestamp?: number; // Milliseconds since the epoch
+}
+
+/**
+ * The ways in which the quads of a window can be grouped into series.
+ * - `predicate`: one series per predicate IRI
+ * - `subject`: one series per subject
+ * - `subject-predicate`: one series per (subject, predicate) pair
+ * @export
+ */
+export type SignatureGrouping = 'predicate' | 'subject' | 'subject-predicate';
+
+/**
+ * Interface representing the global signature of a window together with
+ * the signatures of each of its groups.
+ * @export
+ * @interface GroupedStreamSignature
+ */
+export interface GroupedStreamSignature {
+    global: StreamSignature;
+    groupBy: SignatureGrouping;
+    groups: Record<string, StreamSignature>; // Keyed by the group name
+    extraction: ExtractionReport; // Of the global signature
 }
 
 /**
@@ -23,6 +232,114 @@ export interface ApproachThresholds {
     entropy?: number;
     fftEntropy?: number;
     tripleCount?: number;
+    kurtosis?: number;
+    minimum?: number;
+    maximum?: number;
+    range?: number;
+    median?: number;
+    iqr?: number;
+    p5?: number; // Percentiles, as configured with SignatureExtractorOptions.percentiles
+    p25?: number;
+    p75?: number;
+    p95?: number;
+    autocorrelation1?: number; // Autocorrelations, as configured with SignatureExtractorOptions.autocorrelationLags
+    numericRatio?: number;
+    subjectCount?: number;
+    objectCount?: number;
+    graphCount?: number;
+    outDegreeMean?: number;
+    outDegreeMax?: number;
+    outDegreeVariance?: number;
+    iriRatio?: number;
+    literalRatio?: number;
+    blankNodeRatio?: number;
+    datatypeCount?: number;
+    datatypeEntropy?: number;
+    languageCount?: number;
+    languageEntropy?: number;
+    subjectEntropy?: number;
+    objectEntropy?: number;
+    [feature: string]: number | undefined; // Custom features registered with the extractor
+}
+
+/**
+ * The comparison operators a rule can apply to a feature.
+ * @export
+ */
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+/**
+ * Interface representing a rule comparing a feature with a value.
+ * @export
+ * @interface ComparisonRule
+ */
+export interface ComparisonRule {
+    type: 'comparison';
+    feature: string;
+    operator: ComparisonOperator;
+    value: number;
+}
+
+/**
+ * Interface representing a rule requiring a feature to lie within a range.
+ * Both endpoints are optional and included unless stated otherwise.
+ * @export
+ * @interface RangeRule
+ */
+export interface RangeRule {
+    type: 'range';
+    feature: string;
+    min?: number;
+    max?: number;
+    minInclusive?: boolean; // Defaults to true
+    maxInclusive?: boolean; // Defaults to true
+}
+
+/**
+ * Interface representing a rule that holds when all of its rules hold.
+ * @export
+ * @interface AndRule
+ */
+export interface AndRule {
+    type: 'and';
+    rules: RuleExpression[];
+}
+
+/**
+ * Interface representing a rule that holds when any of its rules holds.
+ * @export
+ * @interface OrRule
+ */
+export interface OrRule {
+    type: 'or';
+    rules: RuleExpression[];
+}
+
+/**
+ * Interface representing a rule that holds when its rule does not.
+ * @export
+ * @interface NotRule
+ */
+export interface NotRule {
+    type: 'not';
+    rule: RuleExpression;
+}
+
+/**
+ * An expression tree deciding whether a signature matches an approach.
+ * @export
+ */
+export type RuleExpression = ComparisonRule | RangeRule | AndRule | OrRule | NotRule;
+
+/**
+ * Interface representing the outcome of evaluating a rule against a signature.
+ * @export
+ * @interface RuleEvaluation
+ */
+export interface RuleEvaluation {
+    matches: boolean;
+    score: number; // 0-1 scale, 1 when the rule holds
+    specificity: number; // Higher = more restrictive rule
 }
 
 /**
@@ -35,7 +352,435 @@ export interface ApproachConfig {
     description?: string;
     minThresholds?: ApproachThresholds;
     maxThresholds?: ApproachThresholds;
+    rule?: RuleExpression; // Combined with the min/max thresholds, which are shorthand for comparisons
+    hysteresis?: ApproachThresholds; // Per-feature margins overriding SelectionStabilityOptions.hysteresis
+    group?: string; // Name of the group whose signature the thresholds apply to, instead of the global one
     priority?: number; // Higher number = higher priority when multiple approaches match
+    prototypes?: ApproachThresholds[]; // Typical global signatures of the approach; the nearest one decides when only approaches with prototypes match
+}
+
+/**
+ * Interface representing the options of the stateful selection mode, which keeps
+ * the recommended approach from flapping between windows.
+ * @export
+ * @interface SelectionStabilityOptions
+ */
+export interface SelectionStabilityOptions {
+    hysteresis?: ApproachThresholds; // Per-feature margins by which the bounds of the current approach are widened
+    minDwellWindows?: number; // Number of windows an approach is kept before another one may replace it
+    minDwellMs?: number; // Time an approach is kept before another one may replace it
+    switchingCost?: number; // Specificity a challenger must gain over a still matching current approach
+    now?: () => number; // Clock used when chooseApproach is not given a timestamp, defaults to Date.now
+}
+
+/**
+ * The reasons for which a switch to another approach can be suppressed.
+ * - `min-dwell-windows`: the current approach has not been kept for enough windows
+ * - `min-dwell-time`: the current approach has not been kept for long enough
+ * - `hysteresis`: the current approach still matches within its hysteresis margins
+ * - `switching-cost`: the challenger is not enough more specific to pay off the switch
+ * @export
+ */
+export type SwitchSuppressionReason = 'min-dwell-windows' | 'min-dwell-time' | 'hysteresis' | 'switching-cost';
+
+/**
+ * Interface representing the per-call options of approach selection.
+ * @export
+ * @interface ChooseApproachOptions
+ */
+export interface ChooseApproachOptions {
+    timestamp?: number; // Time of the window in milliseconds, used for the dwell time
+    explain?: boolean; // Attach an explanation of the decision to the recommendation
+    windowId?: string; // Identifies the window when reporting its outcome, generated in the bandit mode if absent
+}
+
+/**
+ * Interface representing one comparison made while evaluating an approach.
+ * @export
+ * @interface ThresholdCheck
+ */
+export interface ThresholdCheck {
+    feature: string;
+    operator: ComparisonOperator; // The bound, e.g. '>=' for a min threshold
+    threshold: number;
+    observed: number;
+    passed: boolean;
+    margin: number; // Distance to the threshold, positive on the passing side
+}
+
+/**
+ * Interface representing how an approach was evaluated for a window.
+ * @export
+ * @interface ApproachExplanation
+ */
+export interface ApproachExplanation {
+    name: string;
+    group?: string; // The targeted group, if any
+    groupPresent: boolean; // False when the targeted group is absent from the window
+    matches: boolean;
+    checks: ThresholdCheck[];
+    score: number;
+    specificity: number;
+    priority: number;
+    rank?: number; // 1-based sort position among the matching approaches, 1 being the winner
+    distance?: number; // Distance to the nearest prototype, for matching approaches with prototypes
+}
+
+/**
+ * What decided the winner among the matching approaches.
+ * - `no-match`: no approach matched, so the default approach was recommended
+ * - `single-match`: only one approach matched
+ * - `specificity`: the winner was more specific than the runner-up
+ * - `priority`: the winner tied with the runner-up on specificity and had a higher priority
+ * - `nearest-prototype`: the winner had the prototype nearest to the signature
+ * - `selector`: a selector predicted the winner
+ * - `bandit`: the bandit chose the winner among the matching approaches
+ * @export
+ */
+export type DecisionCriterion = 'no-match' | 'single-match' | 'specificity' | 'priority' | 'nearest-prototype' | 'selector' | 'bandit';
+
+/**
+ * Interface representing the explanation of a recommendation.
+ * @export
+ * @interface RecommendationExplanation
+ */
+export interface RecommendationExplanation {
+    approaches: ApproachExplanation[]; // Every configured approach, in configuration order
+    decidedBy: DecisionCriterion;
+    nearMisses: ApproachExplanation[]; // Non-matching approaches that came close, best score first
+}
+
+/**
+ * The formats approach configuration files can be written in.
+ * @export
+ */
+export type ApproachConfigFormat = 'json' | 'yaml' | 'turtle';
+
+/**
+ * Interface representing the options for parsing RDF.
+ * @export
+ * @interface RdfParseOptions
+ */
+export interface RdfParseOptions {
+    format?: string; // An n3 format such as 'Turtle' or 'N-Quads', defaults to the file extension or else a superset of Turtle, TriG, N-Triples and N-Quads
+    baseIRI?: string; // Against which relative IRIs are resolved
+    file?: string; // The file the text was read from, reported with errors
+}
+
+/**
+ * Serialised RDF to analyse: a string, a file path or a readable stream of text.
+ * @export
+ */
+export type RdfInput = { text: string } | { path: string } | { stream: Readable };
+
+/**
+ * Interface representing a signature labelled with the approach that worked best for it.
+ * @export
+ * @interface LabelledSignature
+ */
+export interface LabelledSignature {
+    signature: StreamSignature;
+    approach: string;
+}
+
+/**
+ * Interface representing the approach predicted by a selector for a signature.
+ * @export
+ * @interface ApproachPrediction
+ */
+export interface ApproachPrediction {
+    approach: string;
+    confidence: number; // Between 0 and 1
+    votes: Record<string, number>; // Support per candidate: a share of the votes, or the mean reward for the bandit
+}
+
+/**
+ * Interface representing the approach with the prototype nearest to a signature.
+ * @export
+ * @interface PrototypeMatch
+ * @extends {ApproachPrediction}
+ */
+export interface PrototypeMatch extends ApproachPrediction {
+    distances: Record<string, number>; // Distance to the nearest prototype of every candidate
+}
+
+/**
+ * How features are scaled before prototype distances are computed, from the
+ * signatures in the history: by their standard deviation ('z-score'), their
+ * range ('min-max'), or not at all.
+ * @export
+ */
+export type FeatureNormalisation = 'z-score' | 'min-max' | 'none';
+
+/**
+ * How the distance between a signature and a prototype is computed: Euclidean
+ * over the normalised features, Euclidean with per-feature weights, or Mahalanobis
+ * with the covariance of the features in the history.
+ * @export
+ */
+export type PrototypeDistance = 'euclidean' | 'weighted' | 'mahalanobis';
+
+/**
+ * Interface representing the options of the nearest-prototype selection.
+ * @export
+ * @interface PrototypeOptions
+ */
+export interface PrototypeOptions {
+    normalisation?: FeatureNormalisation; // Defaults to 'z-score'; Mahalanobis distances do not depend on it
+    distance?: PrototypeDistance; // Defaults to 'euclidean'
+    weights?: ApproachThresholds; // Per-feature weights of the weighted distance, defaulting to 1
+}
+
+/**
+ * Interface representing a selection strategy that predicts the approach for a
+ * signature, as an alternative to the thresholds of the approaches.
+ * @export
+ * @interface ApproachSelector
+ */
+export interface ApproachSelector {
+    select(signature: StreamSignature, candidates: string[]): ApproachPrediction | undefined; // Undefined if no candidate can be predicted
+}
+
+/**
+ * Interface representing the options of the k-nearest-neighbour selector.
+ * @export
+ * @interface NearestNeighbourOptions
+ */
+export interface NearestNeighbourOptions {
+    k?: number; // Number of neighbours voting, defaults to 5
+    features?: string[]; // Features to compare, defaults to the features of every training signature
+    distanceWeighted?: boolean; // Weighs votes by inverse distance instead of counting them, defaults to true
+}
+
+/**
+ * Interface representing a trained k-nearest-neighbour selector, as serialised to JSON.
+ * @export
+ * @interface NearestNeighbourModel
+ */
+export interface NearestNeighbourModel {
+    type: 'nearest-neighbour';
+    version: 1;
+    k: number;
+    distanceWeighted: boolean;
+    features: string[];
+    means: number[]; // Per feature, used to normalise signatures
+    scales: number[]; // Per feature standard deviation, 1 for constant features
+    examples: Array<{ values: number[]; approach: string }>; // Normalised training signatures
+}
+
+/**
+ * Interface representing the options of the bandit selection mode.
+ * @export
+ * @interface BanditOptions
+ */
+export interface BanditOptions {
+    exploration?: number; // Weight of the UCB exploration bonus, defaults to 1
+    regions?: Record<string, number[]>; // Ascending bucket boundaries per feature, defaults to power-of-two buckets of the built-in features
+    maxPendingWindows?: number; // Windows kept waiting for their outcome, the oldest are forgotten first, defaults to 1000
+}
+
+/**
+ * Interface representing what the bandit has learned about an approach in a region.
+ * @export
+ * @interface BanditArm
+ */
+export interface BanditArm {
+    pulls: number; // Outcomes reported
+    meanReward: number;
+}
+
+/**
+ * Interface representing the options of the drift detector.
+ * @export
+ * @interface DriftDetectorOptions
+ */
+export interface DriftDetectorOptions {
+    features?: string[]; // Features to watch, defaults to every feature of the signatures
+    delta?: number; // Tolerated change, in standard deviations per window, defaults to 0.5
+    threshold?: number; // Cumulative deviation flagging a change, in standard deviations, defaults to 10
+    minSamples?: number; // Windows of a regime before changes are flagged, defaults to 5
+}
+
+/**
+ * Direction in which a feature drifted.
+ * @export
+ */
+export type DriftDirection = 'increase' | 'decrease';
+
+/**
+ * Interface representing a change point flagged for a feature.
+ * @export
+ * @interface FeatureDrift
+ */
+export interface FeatureDrift {
+    feature: string;
+    direction: DriftDirection;
+    previousMean: number; // Mean of the feature before the change
+    currentMean: number; // Mean of the feature since the change
+    magnitude: number; // currentMean - previousMean
+    changedAt: number; // Estimated window index at which the change started
+    changedAtTime?: number; // Time of that window, if given
+    detectedAt: number; // Window index at which the change was flagged
+}
+
+/**
+ * Interface representing the drift detected on a window.
+ * @export
+ * @interface DriftReport
+ */
+export interface DriftReport {
+    drifted: boolean;
+    window: number; // Index of the window, counting from 0
+    timestamp?: number; // Time of the window, if given
+    features: FeatureDrift[]; // Features flagged on this window
+}
+
+/**
+ * Interface representing the options of HiveScoutBee.
+ * @export
+ * @interface HiveScoutBeeOptions
+ */
+export interface HiveScoutBeeOptions {
+    groupBy?: SignatureGrouping; // How groups referenced by approaches are formed, defaults to 'predicate'
+    highAccuracy?: boolean; // Extracts signatures exactly rather than approximately for large windows, defaults to true
+    extractorOptions?: SignatureExtractorOptions; // Options passed on to the signature extractor
+    features?: Record<string, FeatureExtractor>; // Custom features, registered before the approaches are validated
+    stability?: SelectionStabilityOptions; // Enables the stateful selection mode
+    selector?: ApproachSelector; // Replaces the threshold-based choice among the approaches, e.g. a trained NearestNeighbourSelector
+    bandit?: BanditOptions; // Learns from reported outcomes which matching approach works best, exclusive with selector
+    drift?: DriftDetectorOptions; // Attaches a drift report to every recommendation
+    resetSelectionOnDrift?: boolean; // Decides a drifted window on its own in the stateful selection mode
+    lowConfidenceThreshold?: number; // Confidence below which a lowConfidence event is emitted, defaults to 0.5
+    history?: HistoryOptions; // How many decisions are kept, and the clock timing them
+    prototypes?: PrototypeOptions; // How approaches with prototypes are compared with a signature
+}
+
+/**
+ * Interface representing the options of the decision history.
+ * @export
+ * @interface HistoryOptions
+ */
+export interface HistoryOptions {
+    size?: number; // Decisions kept, the oldest are forgotten first, defaults to 1000; 0 keeps none
+    now?: () => number; // Clock used when chooseApproach is not given a timestamp, defaults to Date.now
+}
+
+/**
+ * Interface representing one decision in the history: the signature of a window
+ * and the approach recommended for it.
+ * @export
+ * @interface HistoryEntry
+ */
+export interface HistoryEntry {
+    windowId: string; // As given to chooseApproach, or generated
+    timestamp: number; // Time of the window in milliseconds, as given to chooseApproach or read from the clock
+    signature: StreamSignature;
+    recommendedApproach: string;
+    matchingApproaches: string[];
+    confidence: number;
+}
+
+/**
+ * Interface representing the state of the stateful selection mode: the approach
+ * recommended for the previous windows and since when.
+ * @export
+ * @interface SelectionState
+ */
+export interface SelectionState {
+    approach: string;
+    since: number; // Time the approach was first recommended, in milliseconds
+    windows: number; // Windows it has been recommended for
+}
+
+/**
+ * Interface representing the outcomes reported for an approach in a region of the bandit.
+ * @export
+ * @interface BanditArmState
+ */
+export interface BanditArmState {
+    pulls: number;
+    totalReward: number;
+}
+
+/**
+ * The outcomes learned by the bandit, per region and approach.
+ * @export
+ */
+export type BanditState = Record<string, Record<string, BanditArmState>>;
+
+/**
+ * Interface representing a candidate change point of one direction: where the
+ * Page-Hinkley statistic reached its extreme, and the values seen since.
+ * @export
+ * @interface DriftChangeCandidate
+ */
+export interface DriftChangeCandidate {
+    previousMean: number;
+    start?: number;
+    startTime?: number;
+    sum: number;
+    count: number;
+}
+
+/**
+ * Interface representing the Page-Hinkley state of one feature in its current regime.
+ * @export
+ * @interface DriftFeatureState
+ */
+export interface DriftFeatureState {
+    count: number;
+    mean: number;
+    m2: number;
+    up: number; // Cumulative standardised deviation minus delta, rising on an increase
+    upMin: number;
+    upChange: DriftChangeCandidate;
+    down: number; // Cumulative standardised deviation plus delta, falling on a decrease
+    downMax: number;
+    downChange: DriftChangeCandidate;
+}
+
+/**
+ * Interface representing the state of the drift detector.
+ * @export
+ * @interface DriftDetectorState
+ */
+export interface DriftDetectorState {
+    window: number; // Windows consumed
+    features: Record<string, DriftFeatureState>;
+}
+
+/**
+ * Interface representing everything a HiveScoutBee has learned from past windows,
+ * so that a process can resume where another one stopped. It can be stored as JSON.
+ * @export
+ * @interface HiveScoutBeeState
+ */
+export interface HiveScoutBeeState {
+    type: 'hive-scout-bee-state';
+    version: 1;
+    windowCounter: number; // Window ids generated so far
+    lastRecommendedApproach?: string; // Compared with the next recommendation for the approachChanged event
+    history: HistoryEntry[]; // Oldest first
+    selection?: SelectionState; // Stateful selection mode only
+    bandit?: BanditState; // Bandit mode only
+    pendingOutcomes?: Array<[string, string]>; // Bandit mode only: the region of every window awaiting its outcome, oldest first
+    drift?: DriftDetectorState; // Drift detection only
+}
+
+/**
+ * Interface representing an approach in the ranking of a recommendation.
+ * @export
+ * @interface RankedApproach
+ */
+export interface RankedApproach {
+    rank: number; // 1-based, matching approaches first in the order of the selection, then the others by score
+    name: string;
+    matches: boolean;
+    score: number; // 0-1 scale, 1 when the approach matches
+    specificity: number;
+    priority: number;
+    margin: number; // -1 to 1 relative distance to the nearest threshold, negative when the approach does not match
+    confidence: number; // Calibrated confidence of recommending the approach, 0 when it does not match
 }
 
 /**
@@ -47,5 +792,208 @@ export interface ApproachRecommendation {
     recommendedApproach: string;
     matchingApproaches: string[];
     signature: StreamSignature;
-    confidence: number; // 0-1 scale
+    groupSignatures?: Record<string, StreamSignature>; // Only present when an approach targets a group
+    extraction: ExtractionReport; // How the signature was extracted
+    confidence: number; // 0-1 scale, calibrated on the threshold margin and the runner-up unless a selector, the bandit or prototypes decided
+    ranking: RankedApproach[]; // Every approach, best first; a selector's pick ranks first only if it matches
+    switchSuppressed?: boolean; // Only present in the stateful selection mode
+    suppressedApproach?: string; // The approach that would have been recommended without the suppression
+    suppressionReason?: SwitchSuppressionReason;
+    explanation?: RecommendationExplanation; // Only present when requested
+    windowId?: string; // Only present in the bandit mode, to report the outcome of the window
+    drift?: DriftReport; // Only present when drift detection is enabled
+}
+
+/**
+ * Interface representing the event emitted when the recommended approach changes.
+ * @export
+ * @interface ApproachChangedEvent
+ */
+export interface ApproachChangedEvent {
+    from?: string; // Undefined for the first recommendation
+    to: string;
+    signature: StreamSignature;
+    recommendation: ApproachRecommendation;
+}
+
+/**
+ * Interface representing the event emitted when no approach matches a window.
+ * @export
+ * @interface NoMatchEvent
+ */
+export interface NoMatchEvent {
+    signature: StreamSignature;
+    recommendation: ApproachRecommendation;
+}
+
+/**
+ * Interface representing the event emitted when an approach is recommended with low confidence.
+ * @export
+ * @interface LowConfidenceEvent
+ */
+export interface LowConfidenceEvent {
+    approach: string;
+    confidence: number;
+    threshold: number;
+    signature: StreamSignature;
+    recommendation: ApproachRecommendation;
+}
+
+/**
+ * Interface representing the event emitted when the signature of a window is computed.
+ * @export
+ * @interface SignatureComputedEvent
+ */
+export interface SignatureComputedEvent {
+    signature: StreamSignature;
+    groupSignatures?: Record<string, StreamSignature>; // Only present when an approach targets a group
+}
+
+/**
+ * Interface representing the event emitted when a listener throws.
+ * @export
+ * @interface ListenerErrorEvent
+ */
+export interface ListenerErrorEvent {
+    event: string; // The event the failing listener was called for
+    error: unknown;
+}
+
+/**
+ * The events emitted by HiveScoutBee, with their payloads.
+ * @export
+ * @interface HiveScoutBeeEvents
+ */
+export interface HiveScoutBeeEvents {
+    approachChanged: ApproachChangedEvent;
+    noMatch: NoMatchEvent;
+    lowConfidence: LowConfidenceEvent;
+    signatureComputed: SignatureComputedEvent;
+    listenerError: ListenerErrorEvent;
+}
+
+/**
+ * A listener for an event with a payload of type T.
+ * @export
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * What to do with quads arriving after all their time windows closed.
+ * @export
+ */
+export type LateEventPolicy = 'drop' | 'error';
+
+/**
+ * Interface representing the options of the windowing engine. Window k covers
+ * [origin + k * step, origin + k * step + range), in quads for count windows
+ * and in milliseconds for time windows, as RANGE and STEP do in RSP-QL.
+ * @export
+ * @interface WindowOptions
+ */
+export interface WindowOptions {
+    type: 'count' | 'time';
+    range: number; // Size of a window, in quads or milliseconds
+    step?: number; // Distance between window starts, defaults to range (tumbling windows)
+    timestamp?: (quad: Quad) => number | undefined; // Event time of a quad in milliseconds, defaults to the arrival time
+    origin?: number; // Start of the first time window, defaults to the time of the first quad
+    allowedLateness?: number; // How long time windows stay open for out-of-order quads, in milliseconds, defaults to 0
+    latePolicy?: LateEventPolicy; // Defaults to 'drop'
+    emitEmpty?: boolean; // Whether to emit time windows that received no quad, defaults to false
+    maxEmptyWindows?: number; // With emitEmpty, the most empty time windows emitted in a row between two quads, defaults to no limit
+    flushOnEnd?: boolean; // Whether to emit the windows still open when the stream ends, defaults to true
+    now?: () => number; // Clock for the arrival time, defaults to Date.now
+}
+
+/**
+ * Interface representing the bounds of a window.
+ * @export
+ * @interface WindowInfo
+ */
+export interface WindowInfo {
+    index: number; // k, counting from 0
+    start: number; // Inclusive, a quad sequence number or a time in milliseconds
+    end: number; // Exclusive, a quad sequence number or a time in milliseconds
+    complete: boolean; // False for windows flushed at the end of the stream before they were full
+    lateQuads: number; // Late quads dropped since the previous window closed
+}
+
+/**
+ * Interface representing a closed window.
+ * @export
+ * @interface QuadWindow
+ */
+export interface QuadWindow {
+    info: WindowInfo;
+    quads: Set<Quad>;
+}
+
+/**
+ * Interface representing the recommendation for a closed window.
+ * @export
+ * @interface WindowedRecommendation
+ */
+export interface WindowedRecommendation {
+    window: WindowInfo;
+    recommendation: ApproachRecommendation;
+}
+
+/**
+ * Interface representing the options for serialising a recommendation to RDF.
+ * @export
+ * @interface RecommendationSerializationOptions
+ */
+export interface RecommendationSerializationOptions {
+    recommendation?: string; // IRI of the recommendation, a blank node by default
+    selection?: string; // IRI of the selection activity, a blank node by default
+    window?: string; // IRI of the window the recommendation was made for
+    config?: string; // IRI of the approach configuration that was used
+    generatedAt?: Date; // When the recommendation was made, defaults to now
+    graph?: string; // IRI of the graph to put the quads in, the default graph by default
+}
+
+/**
+ * The output formats of the command-line tool.
+ * @export
+ */
+export type CliOutputFormat = 'json' | 'csv' | 'table';
+
+/**
+ * A flat record printed as a CSV line or a table row.
+ * @export
+ */
+export type OutputRow = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Interface representing the streams the command-line tool reads from and writes to.
+ * @export
+ * @interface CliStreams
+ */
+export interface CliStreams {
+    stdout: { write(text: string): unknown }; // Receives the output
+    stderr: { write(text: string): unknown }; // Receives usage and error messages
+    stdin?: Readable; // Read for the input file '-', defaults to the process stdin
+}
+
+/**
+ * Interface representing the options of the HTTP server.
+ * @export
+ * @interface ServerOptions
+ */
+export interface ServerOptions {
+    maxBodySize?: number; // Largest accepted request body in bytes, defaults to 1 MiB
+}
+
+/**
+ * Interface representing the JSON body of an HTTP error response.
+ * @export
+ * @interface ErrorResponse
+ */
+export interface ErrorResponse {
+    error: {
+        status: number;
+        message: string;
+        line?: number; // Only present for RDF syntax errors
+        issues?: ConfigIssue[]; // Only present for invalid approach configurations
+    };
 }
\ No newline at end of file
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import process from 'process';
+import { HiveScoutBeeCli } from '../cli/HiveScoutBeeCli';
+
+new HiveScoutBeeCli().run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}).catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = HiveScoutBeeCli.EXIT_FAILURE;
+});
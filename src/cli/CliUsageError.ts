@@ -0,0 +1,19 @@
+/**
+ * Error thrown when the command-line tool is called with unknown commands,
+ * unknown or missing options, or invalid option values.
+ * @export
+ * @class CliUsageError
+ * @extends {Error}
+ */
+export class CliUsageError extends Error {
+    /**
+     * Creates an instance of CliUsageError.
+     * @param {string} message - What is wrong with the arguments.
+     * @memberof CliUsageError
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+        Object.setPrototypeOf(this, CliUsageError.prototype);
+    }
+}
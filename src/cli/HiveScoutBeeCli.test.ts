@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { HiveScoutBeeCli } from './HiveScoutBeeCli';
+import { SignatureExtractor } from '../extractor/SignatureExtractor';
+
+describe('HiveScoutBeeCli', () => {
+    let directory: string;
+    let data: string;
+    let config: string;
+    let stdout: string;
+    let stderr: string;
+    let cli: HiveScoutBeeCli;
+
+    const features = new SignatureExtractor().getFeatureNames();
+    const values = [1, 2, 1, 2, 0, 100, 0, 100];
+    const nTriples = values.map((value, index) =>
+        `<http://example.org/s${index}> <http://example.org/p1> "${value}" .`).join('\n');
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hive-scout-bee-cli-'));
+        data = path.join(directory, 'stream.nt');
+        config = path.join(directory, 'approaches.json');
+        await fs.writeFile(data, nTriples);
+        await fs.writeFile(config, JSON.stringify({
+            approaches: [
+                { name: 'calm', maxThresholds: { variance: 10 } },
+                { name: 'busy', minThresholds: { variance: 100 } }
+            ]
+        }));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        stdout = '';
+        stderr = '';
+        cli = new HiveScoutBeeCli({
+            stdout: { write: (text: string) => { stdout += text; } },
+            stderr: { write: (text: string) => { stderr += text; } },
+            stdin: Readable.from([nTriples])
+        });
+    });
+
+    describe('signature', () => {
+        it('should print the signature as JSON', async () => {
+            expect(await cli.run(['signature', data])).toBe(HiveScoutBeeCli.EXIT_SUCCESS);
+
+            const signature = JSON.parse(stdout);
+            expect(signature.tripleCount).toBe(8);
+            expect(Object.keys(signature)).toEqual(features);
+            expect(stderr).toBe('');
+        });
+
+        it('should print the signature as CSV', async () => {
+            expect(await cli.run(['signature', '--format', 'csv', data])).toBe(0);
+
+            const [header, row, end] = stdout.split('\n');
+            expect(header).toBe(features.join(','));
+            expect(row.split(',')[0]).toBe('8');
+            expect(end).toBe('');
+        });
+
+        it('should read stdin with the given format', async () => {
+            expect(await cli.run(['signature', '--rdf-format', 'N-Triples', '-'])).toBe(0);
+
+            expect(JSON.parse(stdout).tripleCount).toBe(8);
+        });
+    });
+
+    describe('recommend', () => {
+        it('should print the recommendation as JSON', async () => {
+            expect(await cli.run(['recommend', '--config', config, data])).toBe(0);
+
+            const recommendation = JSON.parse(stdout);
+            expect(recommendation.recommendedApproach).toBe('busy');
+            expect(recommendation.signature.tripleCount).toBe(8);
+        });
+
+        it('should print the recommendation as a table', async () => {
+            expect(await cli.run(['recommend', '-c', config, '-f', 'table', data])).toBe(0);
+
+            const [header, rule, row] = stdout.split('\n');
+            expect(header.split(/\s+/)).toEqual(['approach', 'confidence', 'matching', ...features]);
+            expect(rule).toMatch(/^-+( +-+)+$/);
+            expect(row).toMatch(/^busy +0\.9501 +busy +8 /);
+        });
+    });
+
+    describe('replay', () => {
+        it('should print one JSON line per window', async () => {
+            expect(await cli.run(['replay', '--config', config, '--window', '4', data])).toBe(0);
+
+            const lines = stdout.trim().split('\n').map(line => JSON.parse(line));
+            expect(lines.map(line => [line.window.index, line.recommendation.recommendedApproach]))
+                .toEqual([[0, 'calm'], [1, 'busy']]);
+        });
+
+        it('should print sliding windows as CSV', async () => {
+            expect(await cli.run(['replay', '-c', config, '-w', '4', '--step', '2', '-f', 'csv', data])).toBe(0);
+
+            expect(stdout.split('\n')).toEqual([
+                'window,start,end,complete,approach,confidence,matching',
+                expect.stringMatching(/^0,0,4,true,calm,0\.96\d*,calm$/),
+                expect.stringMatching(/^1,2,6,true,/),
+                expect.stringMatching(/^2,4,8,true,busy,0\.96\d*,busy$/),
+                expect.stringMatching(/^3,6,10,false,busy,0\.97\d*,busy$/),
+                ''
+            ]);
+        });
+    });
+
+    describe('errors', () => {
+        it('should exit with the usage code on invalid arguments', async () => {
+            expect(await cli.run([])).toBe(HiveScoutBeeCli.EXIT_USAGE);
+            expect(await cli.run(['explain', data])).toBe(HiveScoutBeeCli.EXIT_USAGE);
+            expect(await cli.run(['recommend', data])).toBe(HiveScoutBeeCli.EXIT_USAGE);
+            expect(await cli.run(['replay', '-c', config, '--window', '0', data])).toBe(HiveScoutBeeCli.EXIT_USAGE);
+            expect(await cli.run(['signature', '--format', 'xml', data])).toBe(HiveScoutBeeCli.EXIT_USAGE);
+            expect(await cli.run(['signature', '--verbose', data])).toBe(HiveScoutBeeCli.EXIT_USAGE);
+
+            expect(stdout).toBe('');
+            expect(stderr).toContain('Unknown command "explain"');
+            expect(stderr).toContain('The recommend command requires --config');
+            expect(stderr).toContain('--window must be a positive whole number, got "0"');
+            expect(stderr).toContain('Usage: hive-scout-bee');
+        });
+
+        it('should print the help', async () => {
+            expect(await cli.run(['--help'])).toBe(0);
+            expect(stdout).toBe(HiveScoutBeeCli.USAGE);
+        });
+
+        it('should exit with the config code on an invalid configuration', async () => {
+            const invalid = path.join(directory, 'invalid.json');
+            await fs.writeFile(invalid, JSON.stringify([{ name: 'broken', minThresholds: { unknownFeature: 1 } }]));
+
+            expect(await cli.run(['recommend', '-c', invalid, data])).toBe(HiveScoutBeeCli.EXIT_INVALID_CONFIG);
+            expect(await cli.run(['recommend', '-c', path.join(directory, 'missing.json'), data])).toBe(HiveScoutBeeCli.EXIT_INVALID_CONFIG);
+            expect(stderr).toContain('references unknown feature "unknownFeature"');
+        });
+
+        it('should exit with the input code on invalid or missing input', async () => {
+            const invalid = path.join(directory, 'invalid.ttl');
+            await fs.writeFile(invalid, '<http://example.org/s> <http://example.org/p> .');
+
+            expect(await cli.run(['signature', invalid])).toBe(HiveScoutBeeCli.EXIT_INVALID_INPUT);
+            expect(stderr).toBe(`${invalid}:1: Expected entity but got .\n`);
+            expect(await cli.run(['recommend', '-c', config, path.join(directory, 'missing.nt')])).toBe(HiveScoutBeeCli.EXIT_INVALID_INPUT);
+            expect(await cli.run(['replay', '-c', config, '-w', '2', invalid])).toBe(HiveScoutBeeCli.EXIT_INVALID_INPUT);
+            expect(await cli.run(['signature', directory])).toBe(HiveScoutBeeCli.EXIT_INVALID_INPUT);
+        });
+
+        it('should exit with the failure code on other errors, even with a code', async () => {
+            const closed = Object.assign(new Error('Premature close'), { code: 'ERR_STREAM_PREMATURE_CLOSE' });
+            const extract = jest.spyOn(SignatureExtractor.prototype, 'extractSignatureFrom').mockRejectedValue(closed);
+
+            try {
+                expect(await cli.run(['signature', data])).toBe(HiveScoutBeeCli.EXIT_FAILURE);
+                expect(stderr).toBe('Premature close\n');
+            } finally {
+                extract.mockRestore();
+            }
+        });
+    });
+});
@@ -0,0 +1,361 @@
+import { stderr, stdin, stdout } from 'process';
+import { parseArgs } from 'util';
+import { HiveScoutBee } from '../HiveScoutBee';
+import { SignatureExtractor } from '../extractor/SignatureExtractor';
+import { RdfParseError } from '../parsing/RdfParseError';
+import { RdfReader } from '../parsing/RdfReader';
+import {
+    ApproachRecommendation,
+    CliOutputFormat,
+    CliStreams,
+    OutputRow,
+    RdfInput,
+    RdfParseOptions,
+    StreamSignature
+} from '../Types';
+import { CliUsageError } from './CliUsageError';
+import { OutputFormatter } from './OutputFormatter';
+
+/**
+ * Interface representing the parsed arguments of a command.
+ * @interface CliArguments
+ */
+interface CliArguments {
+    command: 'signature' | 'recommend' | 'replay';
+    file: string;
+    format: CliOutputFormat;
+    parseOptions: RdfParseOptions;
+    config?: string;
+    window?: number;
+    step?: number;
+}
+
+/**
+ * The `hive-scout-bee` command-line tool. It prints the signature of an RDF file,
+ * recommends an approach for it, or replays it window by window. Failures are
+ * reported on stderr with a distinct exit code: 2 for invalid usage, 3 for an
+ * invalid configuration and 4 for invalid input.
+ * @export
+ * @class HiveScoutBeeCli
+ */
+export class HiveScoutBeeCli {
+    public static readonly EXIT_SUCCESS = 0;
+    public static readonly EXIT_FAILURE = 1;
+    public static readonly EXIT_USAGE = 2;
+    public static readonly EXIT_INVALID_CONFIG = 3;
+    public static readonly EXIT_INVALID_INPUT = 4;
+
+    public static readonly USAGE = [
+        'Usage: hive-scout-bee <command> [options] <file>',
+        '',
+        'Commands:',
+        '  signature <file>                             Print the signature of the file',
+        '  recommend --config <config> <file>           Recommend an approach for the file',
+        '  replay --config <config> --window <n> <file>  Recommend an approach per window of n quads',
+        '',
+        'Options:',
+        '  -c, --config <file>      Approach configuration (.json, .yaml, .yml or .ttl)',
+        '  -w, --window <n>         Quads per window, for replay',
+        '      --step <n>           Quads between window starts, defaults to the window size',
+        '  -f, --format <format>    Output format: json (default), csv or table',
+        '      --rdf-format <fmt>   Input format, such as Turtle or N-Quads, defaults to the file extension',
+        '      --base-iri <iri>     Base IRI of the input',
+        '  -h, --help               Print this help',
+        '',
+        'The file - reads the input from stdin.',
+        ''
+    ].join('\n');
+
+    private static readonly FORMATS: CliOutputFormat[] = ['json', 'csv', 'table'];
+    private static readonly INPUT_ERROR_CODES = ['ENOENT', 'EISDIR'];
+    private static readonly RECOMMENDATION_COLUMNS = ['approach', 'confidence', 'matching'];
+    private static readonly WINDOW_COLUMNS = ['window', 'start', 'end', 'complete', 'approach', 'confidence', 'matching'];
+
+    private streams: CliStreams;
+    private formatter: OutputFormatter;
+
+    /**
+     * Creates an instance of HiveScoutBeeCli.
+     * @param {CliStreams} [streams] - Where to write the output and messages, the process streams by default.
+     * @memberof HiveScoutBeeCli
+     */
+    constructor(streams: CliStreams = { stdout, stderr }) {
+        this.streams = streams;
+        this.formatter = new OutputFormatter();
+    }
+
+    /**
+     * Runs a command. Errors are reported on stderr rather than thrown.
+     * @param {string[]} argv - The arguments, without the node executable and script.
+     * @return {Promise<number>} - The exit code.
+     * @memberof HiveScoutBeeCli
+     */
+    async run(argv: string[]): Promise<number> {
+        let args: CliArguments | undefined;
+        try {
+            args = this.parseArguments(argv);
+        } catch (error) {
+            if (!(error instanceof CliUsageError)) throw error;
+            this.streams.stderr.write(`${error.message}\n\n${HiveScoutBeeCli.USAGE}`);
+            return HiveScoutBeeCli.EXIT_USAGE;
+        }
+        if (!args) {
+            this.streams.stdout.write(HiveScoutBeeCli.USAGE);
+            return HiveScoutBeeCli.EXIT_SUCCESS;
+        }
+
+        let scout: HiveScoutBee | undefined;
+        if (args.config !== undefined) {
+            try {
+                scout = await HiveScoutBee.fromFile(args.config);
+            } catch (error) {
+                return this.fail(error, HiveScoutBeeCli.EXIT_INVALID_CONFIG);
+            }
+        }
+
+        try {
+            if (args.command === 'signature') {
+                await this.signature(args);
+            } else if (args.command === 'recommend') {
+                await this.recommend(scout!, args);
+            } else {
+                await this.replay(scout!, args);
+            }
+        } catch (error) {
+            return this.fail(error, this.isInputError(error) ? HiveScoutBeeCli.EXIT_INVALID_INPUT : HiveScoutBeeCli.EXIT_FAILURE);
+        }
+        return HiveScoutBeeCli.EXIT_SUCCESS;
+    }
+
+    /**
+     * Prints the signature of the input.
+     * @private
+     * @param {CliArguments} args - The arguments.
+     * @memberof HiveScoutBeeCli
+     */
+    private async signature(args: CliArguments): Promise<void> {
+        const signature = await new SignatureExtractor(true).extractSignatureFrom(this.getInput(args.file), args.parseOptions);
+        if (args.format === 'json') {
+            this.streams.stdout.write(JSON.stringify(signature, null, 2) + '\n');
+            return;
+        }
+        this.writeRows([signature], Object.keys(signature), args.format);
+    }
+
+    /**
+     * Prints the recommendation for the input, with its signature.
+     * @private
+     * @param {HiveScoutBee} scout - The configured scout.
+     * @param {CliArguments} args - The arguments.
+     * @memberof HiveScoutBeeCli
+     */
+    private async recommend(scout: HiveScoutBee, args: CliArguments): Promise<void> {
+        const recommendation = await scout.chooseApproachFrom(this.getInput(args.file), args.parseOptions);
+        if (args.format === 'json') {
+            this.streams.stdout.write(JSON.stringify(recommendation, null, 2) + '\n');
+            return;
+        }
+        const columns = [...HiveScoutBeeCli.RECOMMENDATION_COLUMNS, ...Object.keys(recommendation.signature)];
+        this.writeRows([this.toRow(recommendation, recommendation.signature)], columns, args.format);
+    }
+
+    /**
+     * Prints a recommendation per count window of the input. JSON and CSV are
+     * written as each window closes, one line per window; a table once all are known.
+     * @private
+     * @param {HiveScoutBee} scout - The configured scout.
+     * @param {CliArguments} args - The arguments.
+     * @memberof HiveScoutBeeCli
+     */
+    private async replay(scout: HiveScoutBee, args: CliArguments): Promise<void> {
+        const quads = new RdfReader().quads(this.getInput(args.file), args.parseOptions);
+        const columns = HiveScoutBeeCli.WINDOW_COLUMNS;
+        const rows: OutputRow[] = [];
+        if (args.format === 'csv') {
+            this.streams.stdout.write(this.formatter.csvHeader(columns));
+        }
+
+        for await (const { window, recommendation } of scout.recommendStream(quads, { type: 'count', range: args.window!, step: args.step })) {
+            if (args.format === 'json') {
+                this.streams.stdout.write(JSON.stringify({ window, recommendation }) + '\n');
+                continue;
+            }
+            const row: OutputRow = {
+                window: window.index,
+                start: window.start,
+                end: window.end,
+                complete: window.complete,
+                ...this.toRow(recommendation)
+            };
+            if (args.format === 'csv') {
+                this.streams.stdout.write(this.formatter.csvRows([row], columns));
+            } else {
+                rows.push(row);
+            }
+        }
+
+        if (args.format === 'table') {
+            this.streams.stdout.write(this.formatter.table(rows, columns));
+        }
+    }
+
+    /**
+     * Parses the arguments of a command.
+     * @private
+     * @param {string[]} argv - The arguments.
+     * @return {CliArguments | undefined} - The parsed arguments, or undefined if help was requested.
+     * @throws {CliUsageError} - If the arguments are invalid.
+     * @memberof HiveScoutBeeCli
+     */
+    private parseArguments(argv: string[]): CliArguments | undefined {
+        let parsed;
+        try {
+            parsed = parseArgs({
+                args: argv,
+                allowPositionals: true,
+                options: {
+                    config: { type: 'string', short: 'c' },
+                    window: { type: 'string', short: 'w' },
+                    step: { type: 'string' },
+                    format: { type: 'string', short: 'f' },
+                    'rdf-format': { type: 'string' },
+                    'base-iri': { type: 'string' },
+                    help: { type: 'boolean', short: 'h' }
+                }
+            });
+        } catch (error) {
+            throw new CliUsageError((error as Error).message);
+        }
+        const { values, positionals } = parsed;
+        if (values.help) return undefined;
+
+        const [command, ...files] = positionals;
+        if (command === undefined) {
+            throw new CliUsageError('Missing command');
+        }
+        if (command !== 'signature' && command !== 'recommend' && command !== 'replay') {
+            throw new CliUsageError(`Unknown command "${command}"`);
+        }
+        if (files.length !== 1) {
+            throw new CliUsageError(`The ${command} command takes exactly one input file, got ${files.length}`);
+        }
+
+        const format = (values.format ?? 'json') as CliOutputFormat;
+        if (!HiveScoutBeeCli.FORMATS.includes(format)) {
+            throw new CliUsageError(`Unknown output format "${format}", expected ${HiveScoutBeeCli.FORMATS.join(', ')}`);
+        }
+        if (command === 'signature' && values.config !== undefined) {
+            throw new CliUsageError('The signature command does not take a configuration');
+        }
+        if (command !== 'signature' && values.config === undefined) {
+            throw new CliUsageError(`The ${command} command requires --config`);
+        }
+        if (command !== 'replay' && (values.window !== undefined || values.step !== undefined)) {
+            throw new CliUsageError('Only the replay command takes --window and --step');
+        }
+        if (command === 'replay' && values.window === undefined) {
+            throw new CliUsageError('The replay command requires --window');
+        }
+
+        const parseOptions: RdfParseOptions = {};
+        if (values['rdf-format'] !== undefined) parseOptions.format = values['rdf-format'];
+        if (values['base-iri'] !== undefined) parseOptions.baseIRI = values['base-iri'];
+
+        return {
+            command,
+            file: files[0],
+            format,
+            parseOptions,
+            config: values.config,
+            window: values.window !== undefined ? this.parseCount('--window', values.window) : undefined,
+            step: values.step !== undefined ? this.parseCount('--step', values.step) : undefined
+        };
+    }
+
+    /**
+     * Parses a positive whole number of quads.
+     * @private
+     * @param {string} option - The option, reported with errors.
+     * @param {string} value - The value of the option.
+     * @return {number} - The number.
+     * @throws {CliUsageError} - If the value is not a positive whole number.
+     * @memberof HiveScoutBeeCli
+     */
+    private parseCount(option: string, value: string): number {
+        const count = Number(value);
+        if (!/^\d+$/.test(value) || !(count > 0)) {
+            throw new CliUsageError(`${option} must be a positive whole number, got "${value}"`);
+        }
+        return count;
+    }
+
+    /**
+     * Gets the input of a file argument, stdin for '-'.
+     * @private
+     * @param {string} file - The file argument.
+     * @return {RdfInput} - The input.
+     * @memberof HiveScoutBeeCli
+     */
+    private getInput(file: string): RdfInput {
+        return file === '-' ? { stream: this.streams.stdin ?? stdin } : { path: file };
+    }
+
+    /**
+     * Flattens a recommendation into a row, the matching approaches separated by semicolons.
+     * @private
+     * @param {ApproachRecommendation} recommendation - The recommendation.
+     * @param {StreamSignature} [signature] - The signature to add as columns, if any.
+     * @return {OutputRow} - The row.
+     * @memberof HiveScoutBeeCli
+     */
+    private toRow(recommendation: ApproachRecommendation, signature?: StreamSignature): OutputRow {
+        return {
+            approach: recommendation.recommendedApproach,
+            confidence: recommendation.confidence,
+            matching: recommendation.matchingApproaches.join(';'),
+            ...signature
+        };
+    }
+
+    /**
+     * Writes rows as CSV with a header, or as a table.
+     * @private
+     * @param {OutputRow[]} rows - The rows.
+     * @param {string[]} columns - The columns, in order.
+     * @param {CliOutputFormat} format - Either csv or table.
+     * @memberof HiveScoutBeeCli
+     */
+    private writeRows(rows: OutputRow[], columns: string[], format: CliOutputFormat): void {
+        this.streams.stdout.write(format === 'csv'
+            ? this.formatter.csvHeader(columns) + this.formatter.csvRows(rows, columns)
+            : this.formatter.table(rows, columns));
+    }
+
+    /**
+     * Checks whether an error comes from the input itself: RDF that does not parse,
+     * or a path that does not name a readable file. Other errors, such as failing
+     * to write the output, are general failures.
+     * @private
+     * @param {unknown} error - The error.
+     * @return {boolean} - True if the error is caused by the input.
+     * @memberof HiveScoutBeeCli
+     */
+    private isInputError(error: unknown): boolean {
+        if (error instanceof RdfParseError) return true;
+        const code = (error as { code?: unknown } | undefined)?.code;
+        return typeof code === 'string' && HiveScoutBeeCli.INPUT_ERROR_CODES.includes(code);
+    }
+
+    /**
+     * Reports an error on stderr.
+     * @private
+     * @param {unknown} error - The error.
+     * @param {number} code - The exit code to return.
+     * @return {number} - The exit code.
+     * @memberof HiveScoutBeeCli
+     */
+    private fail(error: unknown, code: number): number {
+        this.streams.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+        return code;
+    }
+}
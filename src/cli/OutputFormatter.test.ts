@@ -0,0 +1,36 @@
+import { OutputFormatter } from './OutputFormatter';
+
+describe('OutputFormatter', () => {
+    const formatter = new OutputFormatter();
+
+    it('should render CSV, quoting cells that need it', () => {
+        const rows = [
+            { name: 'plain', value: 1.5 },
+            { name: 'with, comma', value: undefined },
+            { name: 'with "quotes"', value: 2 }
+        ];
+
+        expect(formatter.csvHeader(['name', 'value']) + formatter.csvRows(rows, ['name', 'value'])).toBe(
+            'name,value\nplain,1.5\n"with, comma",\n"with ""quotes""",2\n'
+        );
+    });
+
+    it('should render an aligned table with rounded numbers', () => {
+        const rows = [
+            { approach: 'calm', confidence: 0.123456, matching: true },
+            { approach: 'very-busy', confidence: 1, matching: false }
+        ];
+
+        expect(formatter.table(rows, ['approach', 'confidence', 'matching'])).toBe([
+            'approach   confidence  matching',
+            '---------  ----------  --------',
+            'calm           0.1235  true',
+            'very-busy           1  false',
+            ''
+        ].join('\n'));
+    });
+
+    it('should render the header of an empty table', () => {
+        expect(formatter.table([], ['window'])).toBe('window\n------\n');
+    });
+});
@@ -0,0 +1,84 @@
+import { OutputRow } from '../Types';
+
+/**
+ * It renders flat records as CSV or as an aligned text table, for the
+ * command-line tool. Missing values are rendered as empty cells.
+ * @export
+ * @class OutputFormatter
+ */
+export class OutputFormatter {
+    /**
+     * Renders the header line of a CSV document.
+     * @param {string[]} columns - The column names.
+     * @return {string} - The header line, ending with a newline.
+     * @memberof OutputFormatter
+     */
+    csvHeader(columns: string[]): string {
+        return columns.map(column => this.escapeCsv(column)).join(',') + '\n';
+    }
+
+    /**
+     * Renders records as CSV lines, without a header.
+     * @param {OutputRow[]} rows - The records.
+     * @param {string[]} columns - The columns to render, in order.
+     * @return {string} - One line per record, each ending with a newline.
+     * @memberof OutputFormatter
+     */
+    csvRows(rows: OutputRow[], columns: string[]): string {
+        return rows
+            .map(row => columns.map(column => this.escapeCsv(this.toText(row[column]))).join(',') + '\n')
+            .join('');
+    }
+
+    /**
+     * Renders records as a text table with a header, numbers aligned to the right.
+     * Fractional numbers are rounded to four decimals for readability.
+     * @param {OutputRow[]} rows - The records.
+     * @param {string[]} columns - The columns to render, in order.
+     * @return {string} - The table, each line ending with a newline.
+     * @memberof OutputFormatter
+     */
+    table(rows: OutputRow[], columns: string[]): string {
+        const cells = rows.map(row => columns.map(column => this.toText(row[column], 4)));
+        const widths = columns.map((column, index) =>
+            Math.max(column.length, ...cells.map(line => line[index].length)));
+        const numeric = columns.map(column => rows.length > 0 && rows.every(row =>
+            row[column] === undefined || typeof row[column] === 'number'));
+
+        const render = (line: string[], header: boolean) => line
+            .map((cell, index) => numeric[index] && !header ? cell.padStart(widths[index]) : cell.padEnd(widths[index]))
+            .join('  ')
+            .trimEnd() + '\n';
+
+        return render(columns, true)
+            + render(widths.map(width => '-'.repeat(width)), true)
+            + cells.map(line => render(line, false)).join('');
+    }
+
+    /**
+     * Converts a value to the text of a cell.
+     * @private
+     * @param {OutputRow[string]} value - The value.
+     * @param {number} [decimals] - The decimals fractional numbers are rounded to, if any.
+     * @return {string} - The text.
+     * @memberof OutputFormatter
+     */
+    private toText(value: OutputRow[string], decimals?: number): string {
+        if (value === undefined) return '';
+        if (typeof value === 'number' && decimals !== undefined && !Number.isInteger(value)) {
+            return value.toFixed(decimals);
+        }
+        return String(value);
+    }
+
+    /**
+     * Quotes a CSV cell if it holds a separator, a quote or a line break.
+     * @private
+     * @param {string} cell - The cell.
+     * @return {string} - The escaped cell.
+     * @memberof OutputFormatter
+     */
+    private escapeCsv(cell: string): string {
+        return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    }
+}
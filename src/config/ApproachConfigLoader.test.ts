@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApproachConfigLoader } from './ApproachConfigLoader';
+import { ConfigValidationError } from './ConfigValidationError';
+
+const FEATURES = ['tripleCount', 'variance', 'skewness', 'entropy', 'fftEntropy'];
+
+describe('ApproachConfigLoader', () => {
+    let loader: ApproachConfigLoader;
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hive-scout-bee-config-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        loader = new ApproachConfigLoader();
+    });
+
+    const issuesOf = (action: () => unknown): ConfigValidationError['issues'] => {
+        try {
+            action();
+        } catch (error) {
+            return (error as ConfigValidationError).issues;
+        }
+        return [];
+    };
+
+    it('should load approaches from YAML and JSON files', async () => {
+        const yamlFile = path.join(directory, 'approaches.yaml');
+        await fs.writeFile(yamlFile, [
+            'version: 1',
+            'approaches:',
+            '  - name: high-variance',
+            '    minThresholds:',
+            '      variance: 50',
+            '  - name: stable',
+            '    rule:',
+            '      type: range',
+            '      feature: variance',
+            '      max: 1'
+        ].join('\n'));
+        const jsonFile = path.join(directory, 'approaches.json');
+        await fs.writeFile(jsonFile, JSON.stringify([{ name: 'default', priority: 1 }], null, 2));
+
+        const fromYaml = await loader.loadFile(yamlFile, FEATURES);
+        const fromJson = await loader.loadFile(jsonFile, FEATURES);
+
+        expect(fromYaml).toEqual([
+            { name: 'high-variance', minThresholds: { variance: 50 } },
+            { name: 'stable', rule: { type: 'range', feature: 'variance', max: 1 } }
+        ]);
+        expect(fromJson).toEqual([{ name: 'default', priority: 1 }]);
+    });
+
+    it('should load approaches from Turtle files', async () => {
+        const file = path.join(directory, 'approaches.ttl');
+        await fs.writeFile(file, [
+            '@prefix hsb: <https://w3id.org/hive-scout-bee#> .',
+            '[] a hsb:Approach ; hsb:name "busy" ; hsb:minThreshold [ hsb:feature "tripleCount" ; hsb:value 100 ] .'
+        ].join('\n'));
+
+        expect(await loader.loadFile(file, FEATURES)).toEqual([{ name: 'busy', minThresholds: { tripleCount: 100 } }]);
+    });
+
+    it('should report validation issues with the file and line of the offending entry', async () => {
+        const file = path.join(directory, 'invalid.yml');
+        await fs.writeFile(file, [
+            'approaches:',
+            '  - name: a',
+            '    minThresholds:',
+            '      variance: 10',
+            '    maxThresholds:',
+            '      variance: 5',
+            '  - name: a',
+            '    minThresholds:',
+            '      tripleCount: -1'
+        ].join('\n'));
+
+        await expect(loader.loadFile(file, FEATURES)).rejects.toThrow(
+            `${file}:4:17 approaches[0].minThresholds.variance: Min threshold 10 is greater than max threshold 5`
+        );
+        await expect(loader.loadFile(file, FEATURES)).rejects.toThrow(
+            `${file}:9:20 approaches[1].minThresholds.tripleCount: Threshold on "tripleCount" must not be negative`
+        );
+        await expect(loader.loadFile(file, FEATURES)).rejects.toThrow(
+            `${file}:7:11 approaches[1].name: Duplicate approach name "a"`
+        );
+    });
+
+    it('should locate missing entries at their closest ancestor', () => {
+        const issues = issuesOf(() => loader.parse('[\n  {"priority": 1}\n]', 'json', FEATURES, 'approaches.json'));
+
+        expect(issues).toEqual([
+            { path: [0, 'name'], message: 'Expected a non-empty string', file: 'approaches.json', line: 2, column: 3 }
+        ]);
+    });
+
+    it('should report syntax errors with their line', () => {
+        const yamlIssues = issuesOf(() => loader.parse('approaches:\n  - name: a\n    priority: [1, 2\n', 'yaml', FEATURES));
+        const jsonIssues = issuesOf(() => loader.parse('[\n  {"name": "a",}\n]', 'json', FEATURES));
+
+        expect(yamlIssues.length).toBeGreaterThan(0);
+        expect(yamlIssues[0].line).toBeDefined();
+        expect(jsonIssues).toHaveLength(1);
+        expect(jsonIssues[0].message).toMatch(/^Invalid JSON: /);
+        expect(jsonIssues[0].line).toBe(2);
+    });
+
+    it('should validate in-memory configurations', () => {
+        expect(loader.fromObject({ approaches: [{ name: 'a' }] }, FEATURES)).toEqual([{ name: 'a' }]);
+        expect(() => loader.fromObject([{ name: 'a', minThresholds: { kurtosis: 1 } }], FEATURES))
+            .toThrow('[0].minThresholds.kurtosis: Approach "a" references unknown feature "kurtosis"');
+    });
+
+    it('should reject unsupported file extensions', async () => {
+        await expect(loader.loadFile(path.join(directory, 'approaches.toml'), FEATURES))
+            .rejects.toThrow('Unsupported file extension ".toml", expected .json, .yaml, .yml or .ttl');
+    });
+});
@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Document, LineCounter, parseDocument } from 'yaml';
+import { ApproachConfig, ApproachConfigFormat } from '../Types';
+import { RdfApproachConfigReader } from '../rdf/RdfApproachConfigReader';
+import { ApproachConfigValidator } from './ApproachConfigValidator';
+import { ConfigIssue, ConfigValidationError } from './ConfigValidationError';
+
+/**
+ * It loads approach configurations from JSON, YAML and Turtle, validates them
+ * and locates every issue by file and line (by node for Turtle), so that a broken
+ * configuration file is refused with a message pointing at the offending entry.
+ * @export
+ * @class ApproachConfigLoader
+ */
+export class ApproachConfigLoader {
+    private validator: ApproachConfigValidator;
+
+    /**
+     * Creates an instance of ApproachConfigLoader.
+     * @param {ApproachConfigValidator} [validator] - The validator to check the configurations with.
+     * @memberof ApproachConfigLoader
+     */
+    constructor(validator: ApproachConfigValidator = new ApproachConfigValidator()) {
+        this.validator = validator;
+    }
+
+    /**
+     * Loads the approaches of a configuration file.
+     * @param {string} filePath - The path of the file, whose extension decides the format.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @return {Promise<ApproachConfig[]>} - The approach configurations.
+     * @throws {ConfigValidationError} - If the file cannot be parsed or its configuration is invalid.
+     * @memberof ApproachConfigLoader
+     */
+    async loadFile(filePath: string, knownFeatures: string[]): Promise<ApproachConfig[]> {
+        const format = ApproachConfigLoader.getFormat(filePath);
+        const text = await fs.readFile(filePath, 'utf8');
+        return this.parse(text, format, knownFeatures, filePath);
+    }
+
+    /**
+     * Parses and validates the approaches of a configuration text.
+     * @param {string} text - The configuration text.
+     * @param {ApproachConfigFormat} format - The format of the text.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @param {string} [file] - The file the text was read from, reported with the issues.
+     * @return {ApproachConfig[]} - The approach configurations.
+     * @throws {ConfigValidationError} - If the text cannot be parsed or its configuration is invalid.
+     * @memberof ApproachConfigLoader
+     */
+    parse(text: string, format: ApproachConfigFormat, knownFeatures: string[], file?: string): ApproachConfig[] {
+        if (format === 'turtle') {
+            return new RdfApproachConfigReader(this.validator).parse(text, knownFeatures, { file });
+        }
+
+        const lineCounter = new LineCounter();
+        const document = parseDocument(text, { lineCounter });
+        let value: unknown;
+
+        if (format === 'json') {
+            try {
+                value = JSON.parse(text);
+            } catch (error) {
+                throw new ConfigValidationError([
+                    this.getSyntaxIssue(error as Error, text, document, lineCounter, file)
+                ]);
+            }
+        } else {
+            if (document.errors.length > 0) {
+                throw new ConfigValidationError(document.errors.map(error => ({
+                    path: [],
+                    message: this.stripPosition(error.message),
+                    file,
+                    line: error.linePos?.[0].line,
+                    column: error.linePos?.[0].col
+                })));
+            }
+            value = document.toJS();
+        }
+
+        const issues = this.validator.validateDocument(value, knownFeatures)
+            .map(issue => this.locate(issue, document, lineCounter, file));
+        if (issues.length > 0) {
+            throw new ConfigValidationError(issues);
+        }
+        return this.validator.getApproaches(value)?.approaches as ApproachConfig[];
+    }
+
+    /**
+     * Validates the approaches of an in-memory configuration.
+     * @param {unknown} value - An array of approaches or an object with an `approaches` array.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @return {ApproachConfig[]} - The approach configurations.
+     * @throws {ConfigValidationError} - If the configuration is invalid.
+     * @memberof ApproachConfigLoader
+     */
+    fromObject(value: unknown, knownFeatures: string[]): ApproachConfig[] {
+        const issues = this.validator.validateDocument(value, knownFeatures);
+        if (issues.length > 0) {
+            throw new ConfigValidationError(issues);
+        }
+        return this.validator.getApproaches(value)?.approaches as ApproachConfig[];
+    }
+
+    /**
+     * Gets the format of a configuration file from its extension.
+     * @static
+     * @param {string} filePath - The path of the file.
+     * @return {ApproachConfigFormat} - The format of the file.
+     * @throws {ConfigValidationError} - If the extension is not .json, .yaml, .yml or .ttl.
+     * @memberof ApproachConfigLoader
+     */
+    static getFormat(filePath: string): ApproachConfigFormat {
+        const extension = path.extname(filePath).toLowerCase();
+        if (extension === '.json') return 'json';
+        if (extension === '.yaml' || extension === '.yml') return 'yaml';
+        if (extension === '.ttl') return 'turtle';
+        throw new ConfigValidationError([{
+            path: [],
+            message: `Unsupported file extension "${extension}", expected .json, .yaml, .yml or .ttl`,
+            file: filePath
+        }]);
+    }
+
+    /**
+     * Adds the line and column of the closest node along the path of an issue.
+     * @private
+     * @param {ConfigIssue} issue - The issue to locate.
+     * @param {Document} document - The parsed document.
+     * @param {LineCounter} lineCounter - The line counter used while parsing.
+     * @param {string} [file] - The file the document was read from.
+     * @return {ConfigIssue} - The issue with its location.
+     * @memberof ApproachConfigLoader
+     */
+    private locate(issue: ConfigIssue, document: Document, lineCounter: LineCounter, file?: string): ConfigIssue {
+        // Missing entries have no node, so fall back to their closest ancestor
+        for (let length = issue.path.length; length >= 0; length--) {
+            const node = length === 0 ? document.contents : document.getIn(issue.path.slice(0, length), true);
+            const range = (node as { range?: [number, number, number] } | null | undefined)?.range;
+            if (range) {
+                const position = lineCounter.linePos(range[0]);
+                return { ...issue, file, line: position.line, column: position.col };
+            }
+        }
+        return { ...issue, file };
+    }
+
+    /**
+     * Creates the issue for a JSON syntax error. The position is taken from the
+     * error message where Node reports it, otherwise from the YAML parser,
+     * which accepts JSON and reports positions for its errors.
+     * @private
+     * @param {Error} error - The error thrown by JSON.parse.
+     * @param {string} text - The configuration text.
+     * @param {Document} document - The text parsed as YAML.
+     * @param {LineCounter} lineCounter - The line counter used while parsing.
+     * @param {string} [file] - The file the text was read from.
+     * @return {ConfigIssue} - The syntax issue.
+     * @memberof ApproachConfigLoader
+     */
+    private getSyntaxIssue(
+        error: Error,
+        text: string,
+        document: Document,
+        lineCounter: LineCounter,
+        file?: string
+    ): ConfigIssue {
+        const issue: ConfigIssue = { path: [], message: `Invalid JSON: ${error.message.split('\n')[0]}`, file };
+        const position = /at position (\d+)/.exec(error.message);
+        if (position) {
+            const linePos = lineCounter.linePos(Math.min(Number(position[1]), text.length));
+            return { ...issue, line: linePos.line, column: linePos.col };
+        }
+        const linePos = document.errors[0]?.linePos?.[0];
+        return linePos ? { ...issue, line: linePos.line, column: linePos.col } : issue;
+    }
+
+    /**
+     * Removes the position and the source excerpt the YAML parser appends to its messages.
+     * @private
+     * @param {string} message - The message of the YAML parser.
+     * @return {string} - The message without position.
+     * @memberof ApproachConfigLoader
+     */
+    private stripPosition(message: string): string {
+        return message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    }
+}
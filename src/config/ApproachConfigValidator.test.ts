@@ -0,0 +1,135 @@
+import { ApproachConfigValidator } from './ApproachConfigValidator';
+import { ConfigValidationError, formatConfigPath } from './ConfigValidationError';
+
+const FEATURES = ['tripleCount', 'variance', 'skewness', 'entropy', 'fftEntropy'];
+
+describe('ApproachConfigValidator', () => {
+    let validator: ApproachConfigValidator;
+
+    beforeEach(() => {
+        validator = new ApproachConfigValidator();
+    });
+
+    const messagesOf = (document: unknown) => validator.validateDocument(document, FEATURES)
+        .map(issue => `${formatConfigPath(issue.path)}: ${issue.message}`);
+
+    it('should accept an array of approaches and an object with an approaches array', () => {
+        const approaches = [
+            { name: 'a', minThresholds: { variance: 1 }, maxThresholds: { variance: 5 }, priority: 1 },
+            {
+                name: 'b',
+                group: 'http://example.org/temperature',
+                hysteresis: { entropy: 0.1 },
+                rule: {
+                    type: 'or',
+                    rules: [
+                        { type: 'range', feature: 'skewness', min: -1, max: 1 },
+                        { type: 'not', rule: { type: 'comparison', feature: 'entropy', operator: '<', value: 2 } }
+                    ]
+                }
+            }
+        ];
+
+        expect(validator.validateDocument(approaches, FEATURES)).toEqual([]);
+        expect(validator.validateDocument({ version: 2, approaches }, FEATURES)).toEqual([]);
+    });
+
+    it('should report duplicate names, min above max, negative tripleCount and unknown keys', () => {
+        expect(messagesOf({
+            approaches: [
+                { name: 'a', minThresholds: { variance: 10 }, maxThresholds: { variance: 5 } },
+                { name: 'a', minThresholds: { tripleCount: -1 }, threshold: 3 }
+            ],
+            extra: true
+        })).toEqual([
+            'extra: Unknown key "extra", expected one of approaches, version',
+            'approaches[0].minThresholds.variance: Min threshold 10 is greater than max threshold 5 for feature "variance"',
+            'approaches[1].threshold: Unknown key "threshold", expected one of name, description, minThresholds, maxThresholds, rule, hysteresis, group, priority, prototypes',
+            'approaches[1].minThresholds.tripleCount: Threshold on "tripleCount" must not be negative',
+            'approaches[1].name: Duplicate approach name "a", already used by approach 0'
+        ]);
+    });
+
+    it('should report wrong types, unknown features and negative hysteresis margins', () => {
+        expect(messagesOf([
+            { minThresholds: { variance: 'high', kurtosis: 3 }, priority: '1', hysteresis: { variance: -0.5 } }
+        ])).toEqual([
+            '[0].name: Expected a non-empty string',
+            '[0].priority: Expected a finite number',
+            '[0].minThresholds.variance: Expected a finite number',
+            '[0].minThresholds.kurtosis: Approach "" references unknown feature "kurtosis"',
+            '[0].hysteresis.variance: Hysteresis margins must not be negative'
+        ]);
+    });
+
+    it('should validate rule expressions recursively', () => {
+        expect(messagesOf([{
+            name: 'rules',
+            rule: {
+                type: 'and',
+                rules: [
+                    { type: 'comparison', feature: 'variance', operator: '=>', value: 1 },
+                    { type: 'range', feature: 'entropy', min: 3, max: 1 },
+                    { type: 'range', feature: 'skewness' },
+                    { type: 'or', rules: [] },
+                    { type: 'not', rule: { type: 'comparison', feature: 'tripleCount', operator: '>', value: -2 } },
+                    { type: 'xor' }
+                ]
+            }
+        }])).toEqual([
+            '[0].rule.rules[0].operator: Expected one of <, <=, >, >=, ==, !=',
+            '[0].rule.rules[1].min: Range [3, 1] does not contain any value',
+            '[0].rule.rules[2]: A range needs a min, a max or both',
+            '[0].rule.rules[3].rules: Expected a non-empty array of rules',
+            '[0].rule.rules[4].rule.value: Threshold on "tripleCount" must not be negative',
+            '[0].rule.rules[5].type: Expected one of comparison, range, and, or, not'
+        ]);
+    });
+
+    it('should report negative bounds of ranges on non-negative features', () => {
+        expect(messagesOf([
+            { name: 'a', rule: { type: 'range', feature: 'tripleCount', min: -5, max: 10 } },
+            { name: 'b', rule: { type: 'range', feature: 'tripleCount', min: -5, max: -1 } },
+            { name: 'c', rule: { type: 'range', feature: 'skewness', min: -5, max: 10 } }
+        ])).toEqual([
+            '[0].rule.min: Threshold on "tripleCount" must not be negative',
+            '[1].rule.min: Threshold on "tripleCount" must not be negative',
+            '[1].rule.max: Threshold on "tripleCount" must not be negative'
+        ]);
+    });
+
+    it('should report malformed prototypes', () => {
+        expect(validator.validateDocument([
+            { name: 'a', prototypes: [{ variance: 2, skewness: -1 }, { entropy: 0.5 }] }
+        ], FEATURES)).toEqual([]);
+        expect(messagesOf([
+            { name: 'a', prototypes: [] },
+            { name: 'b', prototypes: [{}, { variance: 'high' }, { kurtosis: 3 }] },
+            { name: 'c', group: 'http://example.org/temperature', prototypes: [{ variance: 2 }] }
+        ])).toEqual([
+            '[0].prototypes: Expected a non-empty array of prototype signatures',
+            '[1].prototypes[0]: A prototype must set at least one feature',
+            '[1].prototypes[1].variance: Expected a finite number',
+            '[1].prototypes[2].kurtosis: Approach "b" references unknown feature "kurtosis"',
+            '[2].prototypes: Prototypes are compared with the global signature and cannot be combined with a group'
+        ]);
+    });
+
+    it('should reject documents that hold no approaches', () => {
+        expect(messagesOf({ approach: [] })).toEqual([
+            '(root): Expected an array of approaches or an object with an "approaches" array'
+        ]);
+    });
+
+    it('should format every issue in the error message', () => {
+        const error = new ConfigValidationError([
+            { path: ['approaches', 0, 'name'], message: 'Expected a non-empty string', file: 'approaches.yaml', line: 3, column: 11 },
+            { path: [], message: 'Expected an array' }
+        ]);
+
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect(error.message).toBe('Invalid approach configuration:\n' +
+            '  - approaches.yaml:3:11 approaches[0].name: Expected a non-empty string\n' +
+            '  - (root): Expected an array');
+    });
+});
@@ -0,0 +1,425 @@
+import { ConfigIssue, ConfigPath } from "./ConfigValidationError";
+
+/**
+ * It checks approach configurations before they are used, so that mistakes such as
+ * duplicate names, a min threshold above its max threshold, a negative
+ * `tripleCount` or a misspelled key are reported instead of silently changing
+ * which approach gets selected. All issues are collected, each with its path.
+ * @export
+ * @class ApproachConfigValidator
+ */
+export class ApproachConfigValidator {
+    private static readonly DOCUMENT_KEYS = ['approaches', 'version'];
+    private static readonly APPROACH_KEYS = [
+        'name', 'description', 'minThresholds', 'maxThresholds', 'rule', 'hysteresis', 'group', 'priority', 'prototypes'
+    ];
+    private static readonly RULE_KEYS: Record<string, string[]> = {
+        comparison: ['type', 'feature', 'operator', 'value'],
+        range: ['type', 'feature', 'min', 'max', 'minInclusive', 'maxInclusive'],
+        and: ['type', 'rules'],
+        or: ['type', 'rules'],
+        not: ['type', 'rule']
+    };
+    private static readonly OPERATORS = ['<', '<=', '>', '>=', '==', '!='];
+    // Features that cannot be negative, so a negative threshold on them is a mistake
+    private static readonly NON_NEGATIVE_FEATURES = ['tripleCount'];
+
+    /**
+     * Gets the approaches of a configuration document, which is either an array
+     * of approaches or an object with an `approaches` array.
+     * @param {unknown} document - The configuration document.
+     * @return {{ approaches: unknown[]; path: ConfigPath } | undefined} - The approaches and their path, or undefined if the document has neither shape.
+     * @memberof ApproachConfigValidator
+     */
+    getApproaches(document: unknown): { approaches: unknown[]; path: ConfigPath } | undefined {
+        if (Array.isArray(document)) {
+            return { approaches: document, path: [] };
+        }
+        if (this.isObject(document) && Array.isArray(document.approaches)) {
+            return { approaches: document.approaches, path: ['approaches'] };
+        }
+        return undefined;
+    }
+
+    /**
+     * Validates a configuration document.
+     * @param {unknown} document - The configuration document.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @return {ConfigIssue[]} - The issues found, empty if the document is valid.
+     * @memberof ApproachConfigValidator
+     */
+    validateDocument(document: unknown, knownFeatures: string[]): ConfigIssue[] {
+        const found = this.getApproaches(document);
+        if (!found) {
+            return [{ path: [], message: 'Expected an array of approaches or an object with an "approaches" array' }];
+        }
+
+        const issues: ConfigIssue[] = [];
+        if (this.isObject(document)) {
+            this.checkUnknownKeys(document, ApproachConfigValidator.DOCUMENT_KEYS, [], issues);
+            if (document.version !== undefined && typeof document.version !== 'string' && typeof document.version !== 'number') {
+                issues.push({ path: ['version'], message: 'Expected a string or a number' });
+            }
+        }
+        issues.push(...this.validateApproaches(found.approaches, knownFeatures, found.path));
+        return issues;
+    }
+
+    /**
+     * Validates a list of approaches, including the uniqueness of their names.
+     * @param {unknown[]} approaches - The approaches to validate.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @param {ConfigPath} [path] - The path of the list within its document.
+     * @return {ConfigIssue[]} - The issues found, empty if all approaches are valid.
+     * @memberof ApproachConfigValidator
+     */
+    validateApproaches(approaches: unknown[], knownFeatures: string[], path: ConfigPath = []): ConfigIssue[] {
+        const issues: ConfigIssue[] = [];
+        const firstIndex = new Map<string, number>();
+
+        approaches.forEach((approach, index) => {
+            issues.push(...this.validateApproach(approach, knownFeatures, [...path, index]));
+
+            if (this.isObject(approach) && typeof approach.name === 'string') {
+                const previous = firstIndex.get(approach.name);
+                if (previous !== undefined) {
+                    issues.push({
+                        path: [...path, index, 'name'],
+                        message: `Duplicate approach name "${approach.name}", already used by approach ${previous}`
+                    });
+                } else {
+                    firstIndex.set(approach.name, index);
+                }
+            }
+        });
+        return issues;
+    }
+
+    /**
+     * Validates a single approach.
+     * @param {unknown} approach - The approach to validate.
+     * @param {string[]} knownFeatures - The features the approach may reference.
+     * @param {ConfigPath} [path] - The path of the approach within its document.
+     * @return {ConfigIssue[]} - The issues found, empty if the approach is valid.
+     * @memberof ApproachConfigValidator
+     */
+    validateApproach(approach: unknown, knownFeatures: string[], path: ConfigPath = []): ConfigIssue[] {
+        const issues: ConfigIssue[] = [];
+        if (!this.isObject(approach)) {
+            issues.push({ path, message: 'Expected an approach object' });
+            return issues;
+        }
+
+        const name = typeof approach.name === 'string' ? approach.name : '';
+        if (typeof approach.name !== 'string' || approach.name.trim() === '') {
+            issues.push({ path: [...path, 'name'], message: 'Expected a non-empty string' });
+        }
+        this.checkUnknownKeys(approach, ApproachConfigValidator.APPROACH_KEYS, path, issues);
+
+        for (const key of ['description', 'group']) {
+            if (approach[key] !== undefined && typeof approach[key] !== 'string') {
+                issues.push({ path: [...path, key], message: 'Expected a string' });
+            }
+        }
+        if (approach.priority !== undefined && !this.isFiniteNumber(approach.priority)) {
+            issues.push({ path: [...path, 'priority'], message: 'Expected a finite number' });
+        }
+
+        const context = { name, knownFeatures, issues };
+        const minThresholds = this.validateThresholds(approach.minThresholds, [...path, 'minThresholds'], context);
+        const maxThresholds = this.validateThresholds(approach.maxThresholds, [...path, 'maxThresholds'], context);
+        const margins = this.validateThresholds(approach.hysteresis, [...path, 'hysteresis'], context);
+
+        for (const [feature, min] of Object.entries(minThresholds)) {
+            const max = maxThresholds[feature];
+            if (max !== undefined && min > max) {
+                issues.push({
+                    path: [...path, 'minThresholds', feature],
+                    message: `Min threshold ${min} is greater than max threshold ${max} for feature "${feature}"`
+                });
+            }
+        }
+        for (const [thresholds, key] of [[minThresholds, 'minThresholds'], [maxThresholds, 'maxThresholds']] as const) {
+            this.checkNonNegative(thresholds, [...path, key], issues);
+        }
+        for (const [feature, margin] of Object.entries(margins)) {
+            if (margin < 0) {
+                issues.push({ path: [...path, 'hysteresis', feature], message: 'Hysteresis margins must not be negative' });
+            }
+        }
+
+        if (approach.rule !== undefined) {
+            this.validateRule(approach.rule, [...path, 'rule'], context);
+        }
+        if (approach.prototypes !== undefined) {
+            this.validatePrototypes(approach.prototypes, [...path, 'prototypes'], context);
+            if (approach.group !== undefined) {
+                issues.push({ path: [...path, 'prototypes'], message: 'Prototypes are compared with the global signature and cannot be combined with a group' });
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * Validates the prototypes of an approach: a non-empty array of signatures,
+     * each setting at least one feature.
+     * @private
+     * @param {unknown} prototypes - The prototypes to validate.
+     * @param {ConfigPath} path - The path of the prototypes.
+     * @param {{ name: string; knownFeatures: string[]; issues: ConfigIssue[] }} context - The approach being validated.
+     * @memberof ApproachConfigValidator
+     */
+    private validatePrototypes(
+        prototypes: unknown,
+        path: ConfigPath,
+        context: { name: string; knownFeatures: string[]; issues: ConfigIssue[] }
+    ): void {
+        if (!Array.isArray(prototypes) || prototypes.length === 0) {
+            context.issues.push({ path, message: 'Expected a non-empty array of prototype signatures' });
+            return;
+        }
+        prototypes.forEach((prototype, index) => {
+            const issueCount = context.issues.length;
+            const valid = this.validateThresholds(prototype, [...path, index], context);
+            if (context.issues.length === issueCount && Object.keys(valid).length === 0) {
+                context.issues.push({ path: [...path, index], message: 'A prototype must set at least one feature' });
+            }
+        });
+    }
+
+    /**
+     * Validates a thresholds object.
+     * @private
+     * @param {unknown} thresholds - The thresholds to validate, possibly undefined.
+     * @param {ConfigPath} path - The path of the thresholds.
+     * @param {{ name: string; knownFeatures: string[]; issues: ConfigIssue[] }} context - The approach being validated.
+     * @return {Record<string, number>} - The valid thresholds, for further checks.
+     * @memberof ApproachConfigValidator
+     */
+    private validateThresholds(
+        thresholds: unknown,
+        path: ConfigPath,
+        context: { name: string; knownFeatures: string[]; issues: ConfigIssue[] }
+    ): Record<string, number> {
+        const valid: Record<string, number> = {};
+        if (thresholds === undefined) return valid;
+        if (!this.isObject(thresholds)) {
+            context.issues.push({ path, message: 'Expected an object mapping feature names to numbers' });
+            return valid;
+        }
+
+        for (const [feature, value] of Object.entries(thresholds)) {
+            if (value === undefined) continue;
+            this.checkFeature(feature, [...path, feature], context);
+            if (!this.isFiniteNumber(value)) {
+                context.issues.push({ path: [...path, feature], message: 'Expected a finite number' });
+            } else {
+                valid[feature] = value;
+            }
+        }
+        return valid;
+    }
+
+    /**
+     * Validates a rule expression, recursively.
+     * @private
+     * @param {unknown} rule - The rule to validate.
+     * @param {ConfigPath} path - The path of the rule.
+     * @param {{ name: string; knownFeatures: string[]; issues: ConfigIssue[] }} context - The approach being validated.
+     * @memberof ApproachConfigValidator
+     */
+    private validateRule(
+        rule: unknown,
+        path: ConfigPath,
+        context: { name: string; knownFeatures: string[]; issues: ConfigIssue[] }
+    ): void {
+        const issues = context.issues;
+        if (!this.isObject(rule)) {
+            issues.push({ path, message: 'Expected a rule object' });
+            return;
+        }
+        const type = rule.type;
+        if (typeof type !== 'string' || !(type in ApproachConfigValidator.RULE_KEYS)) {
+            issues.push({
+                path: [...path, 'type'],
+                message: `Expected one of ${Object.keys(ApproachConfigValidator.RULE_KEYS).join(', ')}`
+            });
+            return;
+        }
+        this.checkUnknownKeys(rule, ApproachConfigValidator.RULE_KEYS[type], path, issues);
+
+        switch (type) {
+            case 'comparison':
+                this.validateRuleFeature(rule.feature, [...path, 'feature'], context);
+                if (typeof rule.operator !== 'string' || !ApproachConfigValidator.OPERATORS.includes(rule.operator)) {
+                    issues.push({
+                        path: [...path, 'operator'],
+                        message: `Expected one of ${ApproachConfigValidator.OPERATORS.join(', ')}`
+                    });
+                }
+                if (!this.isFiniteNumber(rule.value)) {
+                    issues.push({ path: [...path, 'value'], message: 'Expected a finite number' });
+                } else if (typeof rule.feature === 'string') {
+                    this.checkNonNegative({ [rule.feature]: rule.value }, path, issues, 'value');
+                }
+                break;
+            case 'range':
+                this.validateRange(rule, path, context);
+                break;
+            case 'and':
+            case 'or':
+                if (!Array.isArray(rule.rules) || rule.rules.length === 0) {
+                    issues.push({ path: [...path, 'rules'], message: 'Expected a non-empty array of rules' });
+                } else {
+                    rule.rules.forEach((child, index) => this.validateRule(child, [...path, 'rules', index], context));
+                }
+                break;
+            case 'not':
+                this.validateRule(rule.rule, [...path, 'rule'], context);
+                break;
+        }
+    }
+
+    /**
+     * Validates a range rule.
+     * @private
+     * @param {Record<string, unknown>} rule - The range rule to validate.
+     * @param {ConfigPath} path - The path of the rule.
+     * @param {{ name: string; knownFeatures: string[]; issues: ConfigIssue[] }} context - The approach being validated.
+     * @memberof ApproachConfigValidator
+     */
+    private validateRange(
+        rule: Record<string, unknown>,
+        path: ConfigPath,
+        context: { name: string; knownFeatures: string[]; issues: ConfigIssue[] }
+    ): void {
+        const issues = context.issues;
+        this.validateRuleFeature(rule.feature, [...path, 'feature'], context);
+
+        for (const key of ['min', 'max']) {
+            if (rule[key] !== undefined && !this.isFiniteNumber(rule[key])) {
+                issues.push({ path: [...path, key], message: 'Expected a finite number' });
+            }
+        }
+        for (const key of ['minInclusive', 'maxInclusive']) {
+            if (rule[key] !== undefined && typeof rule[key] !== 'boolean') {
+                issues.push({ path: [...path, key], message: 'Expected a boolean' });
+            }
+        }
+        if (rule.min === undefined && rule.max === undefined) {
+            issues.push({ path, message: 'A range needs a min, a max or both' });
+        }
+
+        const min = rule.min;
+        const max = rule.max;
+        if (this.isFiniteNumber(min) && this.isFiniteNumber(max)) {
+            const exclusive = rule.minInclusive === false || rule.maxInclusive === false;
+            if (min > max || (min === max && exclusive)) {
+                issues.push({ path: [...path, 'min'], message: `Range [${min}, ${max}] does not contain any value` });
+            }
+        }
+        if (typeof rule.feature === 'string') {
+            for (const key of ['min', 'max']) {
+                const bound = rule[key];
+                if (this.isFiniteNumber(bound)) {
+                    this.checkNonNegative({ [rule.feature]: bound }, path, issues, key);
+                }
+            }
+        }
+    }
+
+    /**
+     * Validates the feature a rule refers to.
+     * @private
+     * @param {unknown} feature - The feature of the rule.
+     * @param {ConfigPath} path - The path of the feature.
+     * @param {{ name: string; knownFeatures: string[]; issues: ConfigIssue[] }} context - The approach being validated.
+     * @memberof ApproachConfigValidator
+     */
+    private validateRuleFeature(
+        feature: unknown,
+        path: ConfigPath,
+        context: { name: string; knownFeatures: string[]; issues: ConfigIssue[] }
+    ): void {
+        if (typeof feature !== 'string') {
+            context.issues.push({ path, message: 'Expected a feature name' });
+            return;
+        }
+        this.checkFeature(feature, path, context);
+    }
+
+    /**
+     * Reports a feature that is not registered.
+     * @private
+     * @param {string} feature - The feature name.
+     * @param {ConfigPath} path - The path where the feature is referenced.
+     * @param {{ name: string; knownFeatures: string[]; issues: ConfigIssue[] }} context - The approach being validated.
+     * @memberof ApproachConfigValidator
+     */
+    private checkFeature(
+        feature: string,
+        path: ConfigPath,
+        context: { name: string; knownFeatures: string[]; issues: ConfigIssue[] }
+    ): void {
+        if (!context.knownFeatures.includes(feature)) {
+            context.issues.push({ path, message: `Approach "${context.name}" references unknown feature "${feature}"` });
+        }
+    }
+
+    /**
+     * Reports negative thresholds on features that cannot be negative.
+     * @private
+     * @param {Record<string, number>} thresholds - The thresholds to check.
+     * @param {ConfigPath} path - The path of the thresholds.
+     * @param {ConfigIssue[]} issues - The issues to add to.
+     * @param {string} [key] - The key holding the value, when it differs from the feature name.
+     * @memberof ApproachConfigValidator
+     */
+    private checkNonNegative(thresholds: Record<string, number>, path: ConfigPath, issues: ConfigIssue[], key?: string): void {
+        for (const feature of ApproachConfigValidator.NON_NEGATIVE_FEATURES) {
+            const value = thresholds[feature];
+            if (value !== undefined && value < 0) {
+                issues.push({ path: [...path, key || feature], message: `Threshold on "${feature}" must not be negative` });
+            }
+        }
+    }
+
+    /**
+     * Reports the keys of an object that are not allowed.
+     * @private
+     * @param {Record<string, unknown>} value - The object to check.
+     * @param {string[]} allowedKeys - The allowed keys.
+     * @param {ConfigPath} path - The path of the object.
+     * @param {ConfigIssue[]} issues - The issues to add to.
+     * @memberof ApproachConfigValidator
+     */
+    private checkUnknownKeys(value: Record<string, unknown>, allowedKeys: string[], path: ConfigPath, issues: ConfigIssue[]): void {
+        for (const key of Object.keys(value)) {
+            if (!allowedKeys.includes(key)) {
+                issues.push({ path: [...path, key], message: `Unknown key "${key}", expected one of ${allowedKeys.join(', ')}` });
+            }
+        }
+    }
+
+    /**
+     * Checks whether a value is a plain object.
+     * @private
+     * @param {unknown} value - The value to check.
+     * @return {boolean} - True if the value is a non-array object.
+     * @memberof ApproachConfigValidator
+     */
+    private isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Checks whether a value is a finite number.
+     * @private
+     * @param {unknown} value - The value to check.
+     * @return {boolean} - True if the value is a finite number.
+     * @memberof ApproachConfigValidator
+     */
+    private isFiniteNumber(value: unknown): value is number {
+        return typeof value === 'number' && isFinite(value);
+    }
+}
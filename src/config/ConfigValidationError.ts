@@ -0,0 +1,75 @@
+/**
+ * A location within an approach configuration document: object keys and array indices.
+ * @export
+ */
+export type ConfigPath = Array<string | number>;
+
+/**
+ * Interface representing one problem found in an approach configuration.
+ * @export
+ * @interface ConfigIssue
+ */
+export interface ConfigIssue {
+    path: ConfigPath;
+    message: string;
+    file?: string; // Only known when the configuration was loaded from a file
+    line?: number; // 1-based, only known when the configuration was parsed from text
+    column?: number; // 1-based, only known when the configuration was parsed from text
+}
+
+/**
+ * Formats a configuration path the way it would be written in JavaScript,
+ * e.g. `approaches[1].minThresholds.variance`.
+ * @export
+ * @param {ConfigPath} path - The path to format.
+ * @return {string} - The formatted path, or `(root)` for the empty path.
+ */
+export function formatConfigPath(path: ConfigPath): string {
+    if (path.length === 0) return '(root)';
+    return path
+        .map((segment, index) => typeof segment === 'number'
+            ? `[${segment}]`
+            : (index === 0 ? segment : `.${segment}`))
+        .join('');
+}
+
+/**
+ * Error thrown when approach configurations are invalid. It carries every
+ * issue found rather than only the first one, each with its location.
+ * @export
+ * @class ConfigValidationError
+ * @extends {Error}
+ */
+export class ConfigValidationError extends Error {
+    public readonly issues: ConfigIssue[];
+
+    /**
+     * Creates an instance of ConfigValidationError.
+     * @param {ConfigIssue[]} issues - The problems found in the configuration.
+     * @memberof ConfigValidationError
+     */
+    constructor(issues: ConfigIssue[]) {
+        super(`Invalid approach configuration:\n${issues.map(issue => `  - ${ConfigValidationError.formatIssue(issue)}`).join('\n')}`);
+        this.name = 'ConfigValidationError';
+        this.issues = issues;
+        Object.setPrototypeOf(this, ConfigValidationError.prototype);
+    }
+
+    /**
+     * Formats an issue as `file:line:column path: message`, leaving out what is unknown.
+     * @static
+     * @param {ConfigIssue} issue - The issue to format.
+     * @return {string} - The formatted issue.
+     * @memberof ConfigValidationError
+     */
+    static formatIssue(issue: ConfigIssue): string {
+        let location = issue.file || '';
+        if (issue.line !== undefined) {
+            location += `${location ? ':' : 'line '}${issue.line}`;
+            if (issue.column !== undefined) {
+                location += `:${issue.column}`;
+            }
+        }
+        return `${location ? `${location} ` : ''}${formatConfigPath(issue.path)}: ${issue.message}`;
+    }
+}
@@ -0,0 +1,94 @@
+import { DriftDetector } from './DriftDetector';
+import { DriftReport, StreamSignature } from '../Types';
+
+const signatureOf = (variance: number, entropy = 1): StreamSignature => ({
+    tripleCount: 100,
+    variance,
+    skewness: 0,
+    entropy,
+    fftEntropy: 0
+});
+
+// Deterministic noise in [-1, 1]
+const noise = (i: number) => Math.sin(i * 12.9898) * 0.5 + Math.sin(i * 78.233) * 0.5;
+
+describe('DriftDetector', () => {
+    const run = (detector: DriftDetector, variances: number[]): DriftReport[] =>
+        variances.map((variance, i) => detector.update(signatureOf(variance), 1000 * i));
+
+    it('should flag an increase with its size and change point', () => {
+        const detector = new DriftDetector();
+        const variances = Array.from({ length: 60 }, (_, i) => (i < 30 ? 10 : 20) + noise(i));
+
+        const drifted = run(detector, variances).filter(report => report.drifted);
+
+        expect(drifted).toHaveLength(1);
+        const [drift] = drifted[0].features;
+        expect(drift.feature).toBe('variance');
+        expect(drift.direction).toBe('increase');
+        expect(drift.previousMean).toBeCloseTo(10, 0);
+        expect(drift.currentMean).toBeCloseTo(20, 0);
+        expect(drift.magnitude).toBeCloseTo(10, 0);
+        expect(drift.changedAt).toBe(30);
+        expect(drift.changedAtTime).toBe(30000);
+        expect(drift.detectedAt).toBeGreaterThanOrEqual(30);
+        expect(drift.detectedAt).toBeLessThan(36);
+        expect(drifted[0].timestamp).toBe(1000 * drift.detectedAt);
+    });
+
+    it('should flag a decrease', () => {
+        const detector = new DriftDetector();
+        const variances = Array.from({ length: 60 }, (_, i) => (i < 30 ? 50 : 5) + noise(i));
+
+        const drifts = run(detector, variances).flatMap(report => report.features);
+
+        expect(drifts.map(drift => [drift.feature, drift.direction])).toEqual([['variance', 'decrease']]);
+        expect(drifts[0].previousMean).toBeCloseTo(50, 0);
+        expect(drifts[0].magnitude).toBeLessThan(-10);
+    });
+
+    it('should not flag a stable but noisy series', () => {
+        const detector = new DriftDetector();
+        const variances = Array.from({ length: 500 }, (_, i) => 10 + 3 * noise(i));
+
+        expect(run(detector, variances).some(report => report.drifted)).toBe(false);
+        expect(detector.getWindowCount()).toBe(500);
+    });
+
+    it('should only watch the configured features', () => {
+        const detector = new DriftDetector({ features: ['entropy'] });
+
+        const reports = Array.from({ length: 40 }, (_, i) => detector.update(signatureOf(i < 20 ? 1 : 100, 2 + noise(i))));
+
+        expect(reports.some(report => report.drifted)).toBe(false);
+    });
+
+    it('should start over after a reset', () => {
+        const detector = new DriftDetector({ minSamples: 3 });
+        run(detector, [10, 10, 10, 10]);
+
+        detector.reset();
+
+        expect(detector.getWindowCount()).toBe(0);
+        expect(run(detector, [100, 100, 100]).some(report => report.drifted)).toBe(false);
+    });
+
+    it('should detect the same changes after its state is restored', () => {
+        const variances = Array.from({ length: 60 }, (_, i) => (i < 30 ? 10 : 20) + noise(i));
+        const continuous = run(new DriftDetector(), variances);
+
+        const first = new DriftDetector();
+        variances.slice(0, 25).forEach((variance, i) => first.update(signatureOf(variance), 1000 * i));
+        const resumed = new DriftDetector();
+        resumed.importState(JSON.parse(JSON.stringify(first.exportState())));
+        const rest = variances.slice(25).map((variance, i) => resumed.update(signatureOf(variance), 1000 * (i + 25)));
+
+        expect(rest).toEqual(continuous.slice(25));
+        expect(() => resumed.importState({ window: 1, features: { variance: { count: 1 } } } as never))
+            .toThrow('Malformed drift detector state');
+    });
+
+    it('should reject invalid options', () => {
+        expect(() => new DriftDetector({ threshold: 0 })).toThrow('Drift detection needs a non-negative delta');
+    });
+});
@@ -0,0 +1,240 @@
+import {
+    DriftChangeCandidate,
+    DriftDetectorOptions,
+    DriftDetectorState,
+    DriftDirection,
+    DriftFeatureState,
+    DriftReport,
+    FeatureDrift,
+    StreamSignature
+} from "../Types";
+
+/**
+ * It flags change points in the series of signatures of a stream, feature by
+ * feature, with the two-sided Page-Hinkley test. Deviations are standardised by
+ * the running standard deviation of the current regime, so one threshold suits
+ * features of any scale. Once a change is flagged, the feature starts a new regime.
+ * @export
+ * @class DriftDetector
+ */
+export class DriftDetector {
+    private features?: string[];
+    private delta: number;
+    private threshold: number;
+    private minSamples: number;
+    private states: Map<string, DriftFeatureState>;
+    private window: number;
+
+    /**
+     * Creates an instance of DriftDetector.
+     * @param {DriftDetectorOptions} [options] - The watched features and the sensitivity of the test.
+     * @memberof DriftDetector
+     */
+    constructor(options: DriftDetectorOptions = {}) {
+        this.features = options.features;
+        this.delta = options.delta ?? 0.5;
+        this.threshold = options.threshold ?? 10;
+        this.minSamples = options.minSamples ?? 5;
+        if (!(this.delta >= 0) || !(this.threshold > 0) || !(this.minSamples >= 1)) {
+            throw new Error('Drift detection needs a non-negative delta, a positive threshold and at least one sample');
+        }
+        this.states = new Map();
+        this.window = 0;
+    }
+
+    /**
+     * Consumes the signature of the next window.
+     * @param {StreamSignature} signature - The signature of the window.
+     * @param {number} [timestamp] - The time of the window, reported with the changes.
+     * @return {DriftReport} - The features whose change was flagged on this window.
+     * @memberof DriftDetector
+     */
+    update(signature: StreamSignature, timestamp?: number): DriftReport {
+        const window = this.window++;
+        const drifts: FeatureDrift[] = [];
+
+        for (const feature of this.features || Object.keys(signature)) {
+            const value = signature[feature];
+            if (!Number.isFinite(value)) continue;
+
+            const drift = this.updateFeature(feature, value, window, timestamp);
+            if (drift) drifts.push(drift);
+        }
+
+        const report: DriftReport = { drifted: drifts.length > 0, window, features: drifts };
+        if (timestamp !== undefined) {
+            report.timestamp = timestamp;
+        }
+        return report;
+    }
+
+    /**
+     * Gets the number of windows consumed.
+     * @return {number} - The number of windows.
+     * @memberof DriftDetector
+     */
+    getWindowCount(): number {
+        return this.window;
+    }
+
+    /**
+     * Forgets all windows, starting a new regime for every feature.
+     * @memberof DriftDetector
+     */
+    reset(): void {
+        this.states.clear();
+        this.window = 0;
+    }
+
+    /**
+     * Exports the state of every feature, e.g. to resume detection in another process.
+     * @return {DriftDetectorState} - A copy of the state, which can be stored as JSON.
+     * @memberof DriftDetector
+     */
+    exportState(): DriftDetectorState {
+        const features: Record<string, DriftFeatureState> = {};
+        for (const [feature, state] of this.states) {
+            features[feature] = { ...state, upChange: { ...state.upChange }, downChange: { ...state.downChange } };
+        }
+        return { window: this.window, features };
+    }
+
+    /**
+     * Restores a state exported with {@link DriftDetector.exportState}, replacing the current one.
+     * @param {DriftDetectorState} state - The state, e.g. parsed from JSON.
+     * @throws {Error} - If the state is malformed.
+     * @memberof DriftDetector
+     */
+    importState(state: DriftDetectorState): void {
+        const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+        const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+        const isCandidate = (change: DriftChangeCandidate) => typeof change === 'object' && change !== null &&
+            [change.previousMean, change.sum, change.count].every(isNumber) &&
+            isOptionalNumber(change.start) && isOptionalNumber(change.startTime);
+        const isFeatureState = (feature: DriftFeatureState) => typeof feature === 'object' && feature !== null &&
+            [feature.count, feature.mean, feature.m2, feature.up, feature.upMin, feature.down, feature.downMax].every(isNumber) &&
+            isCandidate(feature.upChange) && isCandidate(feature.downChange);
+        if (typeof state !== 'object' || state === null || !Number.isInteger(state.window) || state.window < 0 ||
+            typeof state.features !== 'object' || state.features === null || !Object.values(state.features).every(isFeatureState)) {
+            throw new Error('Malformed drift detector state');
+        }
+
+        this.states = new Map(Object.entries(state.features).map(([feature, featureState]) => [feature, {
+            ...featureState,
+            upChange: { ...featureState.upChange },
+            downChange: { ...featureState.downChange }
+        }]));
+        this.window = state.window;
+    }
+
+    /**
+     * Runs the Page-Hinkley test of a feature on its next value.
+     * @private
+     * @param {string} feature - The feature.
+     * @param {number} value - Its value in the window.
+     * @param {number} window - The index of the window.
+     * @param {number} [timestamp] - The time of the window.
+     * @return {FeatureDrift | undefined} - The change, if flagged on this window.
+     * @memberof DriftDetector
+     */
+    private updateFeature(feature: string, value: number, window: number, timestamp?: number): FeatureDrift | undefined {
+        let state = this.states.get(feature);
+        if (!state) {
+            state = this.createState();
+            this.states.set(feature, state);
+        }
+
+        state.count++;
+        const delta = value - state.mean;
+        state.mean += delta / state.count;
+        state.m2 += delta * (value - state.mean);
+
+        const std = Math.sqrt(state.m2 / state.count);
+        const deviation = std > 0 ? (value - state.mean) / std : 0;
+
+        state.up += deviation - this.delta;
+        if (state.up < state.upMin) {
+            state.upMin = state.up;
+            state.upChange = { previousMean: state.mean, sum: 0, count: 0 };
+        } else {
+            this.extend(state.upChange, value, window, timestamp);
+        }
+
+        state.down += deviation + this.delta;
+        if (state.down > state.downMax) {
+            state.downMax = state.down;
+            state.downChange = { previousMean: state.mean, sum: 0, count: 0 };
+        } else {
+            this.extend(state.downChange, value, window, timestamp);
+        }
+
+        if (state.count < this.minSamples) return undefined;
+
+        let direction: DriftDirection | undefined;
+        let change: DriftChangeCandidate | undefined;
+        if (state.up - state.upMin > this.threshold) {
+            direction = 'increase';
+            change = state.upChange;
+        } else if (state.downMax - state.down > this.threshold) {
+            direction = 'decrease';
+            change = state.downChange;
+        }
+        if (!direction || !change || change.count === 0) return undefined;
+
+        // The flagged change starts a new regime
+        this.states.set(feature, this.createState());
+
+        const currentMean = change.sum / change.count;
+        const drift: FeatureDrift = {
+            feature,
+            direction,
+            previousMean: change.previousMean,
+            currentMean,
+            magnitude: currentMean - change.previousMean,
+            changedAt: change.start ?? window,
+            detectedAt: window
+        };
+        if (change.startTime !== undefined) {
+            drift.changedAtTime = change.startTime;
+        }
+        return drift;
+    }
+
+    /**
+     * Adds a value seen since a candidate change point.
+     * @private
+     * @param {DriftChangeCandidate} change - The candidate change point.
+     * @param {number} value - The value.
+     * @param {number} window - The index of the window.
+     * @param {number} [timestamp] - The time of the window.
+     * @memberof DriftDetector
+     */
+    private extend(change: DriftChangeCandidate, value: number, window: number, timestamp?: number): void {
+        if (change.count === 0) {
+            change.start = window;
+            change.startTime = timestamp;
+        }
+        change.sum += value;
+        change.count++;
+    }
+
+    /**
+     * Creates the state of a feature for a new regime.
+     * @private
+     * @return {DriftFeatureState} - The empty state.
+     * @memberof DriftDetector
+     */
+    private createState(): DriftFeatureState {
+        return {
+            count: 0,
+            mean: 0,
+            m2: 0,
+            up: 0,
+            upMin: 0,
+            upChange: { previousMean: 0, sum: 0, count: 0 },
+            down: 0,
+            downMax: 0,
+            downChange: { previousMean: 0, sum: 0, count: 0 }
+        };
+    }
+}
@@ -0,0 +1,90 @@
+import process from 'process';
+import { setImmediate } from 'timers';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+interface TestEvents {
+    tick: number;
+    message: string;
+}
+
+describe('TypedEventEmitter', () => {
+    let emitter: TypedEventEmitter<TestEvents>;
+    let errors: Array<[keyof TestEvents, unknown]>;
+
+    beforeEach(() => {
+        errors = [];
+        emitter = new TypedEventEmitter<TestEvents>((event, error) => errors.push([event, error]));
+    });
+
+    it('should call the listeners of an event in order', () => {
+        const calls: string[] = [];
+        emitter.on('tick', value => calls.push(`first ${value}`));
+        emitter.on('tick', value => calls.push(`second ${value}`));
+        emitter.on('message', value => calls.push(value));
+
+        emitter.emit('tick', 1);
+
+        expect(calls).toEqual(['first 1', 'second 1']);
+        expect(emitter.listenerCount('tick')).toBe(2);
+    });
+
+    it('should remove listeners and call once listeners a single time', () => {
+        const calls: number[] = [];
+        const listener = (value: number) => calls.push(value);
+        emitter.on('tick', listener);
+        emitter.on('tick', value => calls.push(value * 10), true);
+
+        emitter.emit('tick', 1);
+        expect(emitter.off('tick', listener)).toBe(true);
+        expect(emitter.off('tick', listener)).toBe(false);
+        emitter.emit('tick', 2);
+
+        expect(calls).toEqual([1, 10]);
+        expect(emitter.listenerCount('tick')).toBe(0);
+    });
+
+    it('should isolate listener errors', () => {
+        const calls: number[] = [];
+        const failure = new Error('listener failed');
+        emitter.on('tick', () => { throw failure; });
+        emitter.on('tick', value => calls.push(value));
+
+        expect(() => emitter.emit('tick', 1)).not.toThrow();
+        expect(calls).toEqual([1]);
+        expect(errors).toEqual([['tick', failure]]);
+    });
+
+    it('should report the rejections of asynchronous listeners', async () => {
+        const failure = new Error('async listener failed');
+        emitter.on('tick', async () => { throw failure; });
+        emitter.on('tick', async () => undefined);
+
+        expect(() => emitter.emit('tick', 1)).not.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(errors).toEqual([['tick', failure]]);
+    });
+
+    it('should survive an error handler throwing on a rejection', async () => {
+        const throwing = new TypedEventEmitter<TestEvents>(() => { throw new Error('handler failed'); });
+        const rejected = jest.fn();
+        throwing.on('message', () => Promise.reject(new Error('listener failed')));
+        process.once('unhandledRejection', rejected);
+
+        throwing.emit('message', 'hello');
+        await new Promise(resolve => setImmediate(resolve));
+
+        process.removeListener('unhandledRejection', rejected);
+        expect(rejected).not.toHaveBeenCalled();
+    });
+
+    it('should survive a throwing error handler', () => {
+        const throwing = new TypedEventEmitter<TestEvents>(() => { throw new Error('handler failed'); });
+        const calls: string[] = [];
+        throwing.on('message', () => { throw new Error('listener failed'); });
+        throwing.on('message', value => calls.push(value));
+
+        expect(() => throwing.emit('message', 'hello')).not.toThrow();
+        expect(calls).toEqual(['hello']);
+    });
+});
@@ -0,0 +1,119 @@
+import { EventHandler } from "../Types";
+
+/**
+ * It calls the listeners of typed events. A throwing listener does not stop the
+ * other listeners, nor the code emitting the event: its error is handed to the
+ * error handler instead. So is the rejection of an asynchronous listener, which
+ * is not awaited.
+ * @export
+ * @class TypedEventEmitter
+ * @template Events - The event names and their payload types.
+ */
+export class TypedEventEmitter<Events extends object> {
+    private listeners: Map<keyof Events, Array<{ listener: EventHandler<never>; once: boolean }>>;
+    private onListenerError: (event: keyof Events, error: unknown) => void;
+
+    /**
+     * Creates an instance of TypedEventEmitter.
+     * @param {(event: keyof Events, error: unknown) => void} [onListenerError] - Receives the errors thrown by listeners, which are ignored by default.
+     * @memberof TypedEventEmitter
+     */
+    constructor(onListenerError: (event: keyof Events, error: unknown) => void = () => undefined) {
+        this.listeners = new Map();
+        this.onListenerError = onListenerError;
+    }
+
+    /**
+     * Adds a listener for an event.
+     * @template K
+     * @param {K} event - The event name.
+     * @param {EventHandler<Events[K]>} listener - The listener.
+     * @param {boolean} [once] - Whether to remove the listener after its first call.
+     * @memberof TypedEventEmitter
+     */
+    on<K extends keyof Events>(event: K, listener: EventHandler<Events[K]>, once = false): void {
+        const listeners = this.listeners.get(event) || [];
+        listeners.push({ listener: listener as EventHandler<never>, once });
+        this.listeners.set(event, listeners);
+    }
+
+    /**
+     * Removes a listener for an event.
+     * @template K
+     * @param {K} event - The event name.
+     * @param {EventHandler<Events[K]>} listener - The listener.
+     * @return {boolean} - True if the listener was removed, false if it was not registered.
+     * @memberof TypedEventEmitter
+     */
+    off<K extends keyof Events>(event: K, listener: EventHandler<Events[K]>): boolean {
+        const listeners = this.listeners.get(event) || [];
+        const index = listeners.findIndex(entry => entry.listener === listener);
+        if (index < 0) return false;
+        listeners.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Gets the number of listeners for an event.
+     * @param {keyof Events} event - The event name.
+     * @return {number} - The number of listeners.
+     * @memberof TypedEventEmitter
+     */
+    listenerCount(event: keyof Events): number {
+        return this.listeners.get(event)?.length ?? 0;
+    }
+
+    /**
+     * Calls the listeners of an event, in the order they were added.
+     * @template K
+     * @param {K} event - The event name.
+     * @param {Events[K]} payload - The payload passed to every listener.
+     * @memberof TypedEventEmitter
+     */
+    emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const listeners = this.listeners.get(event);
+        if (!listeners || listeners.length === 0) return;
+
+        // Listeners added or removed while emitting only take effect for the next event
+        for (const entry of [...listeners]) {
+            if (entry.once) {
+                this.off(event, entry.listener as EventHandler<Events[K]>);
+            }
+            try {
+                const result: unknown = (entry.listener as EventHandler<Events[K]>)(payload);
+                if (this.isThenable(result)) {
+                    result.then(undefined, error => this.reportError(event, error));
+                }
+            } catch (error) {
+                this.reportError(event, error);
+            }
+        }
+    }
+
+    /**
+     * Hands the error of a listener to the error handler.
+     * @private
+     * @param {keyof Events} event - The event the listener was called for.
+     * @param {unknown} error - The error thrown or the rejection reason.
+     * @memberof TypedEventEmitter
+     */
+    private reportError(event: keyof Events, error: unknown): void {
+        try {
+            this.onListenerError(event, error);
+        } catch {
+            // An error handler that throws must not break the emitter either
+        }
+    }
+
+    /**
+     * Checks whether the value returned by a listener is a promise or another thenable.
+     * @private
+     * @param {unknown} value - The returned value.
+     * @return {boolean} - True if the value has a then method.
+     * @memberof TypedEventEmitter
+     */
+    private isThenable(value: unknown): value is PromiseLike<unknown> {
+        return (typeof value === 'object' || typeof value === 'function') && value !== null &&
+            typeof (value as PromiseLike<unknown>).then === 'function';
+    }
+}
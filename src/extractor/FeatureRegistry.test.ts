@@ -0,0 +1,67 @@
+import { FeatureRegistry } from './FeatureRegistry';
+import { StructureCounter } from './StructureCounter';
+import { FeatureContext } from '../Types';
+import { DataFactory, Quad } from 'n3';
+
+const { namedNode, literal, quad } = DataFactory;
+
+describe('FeatureRegistry', () => {
+    let registry: FeatureRegistry;
+
+    const context: FeatureContext = {
+        tripleCount: 2,
+        literalCount: 2,
+        timestampCount: 0,
+        numericCount: 2,
+        numericValues: [1, 3],
+        series: [1, 3],
+        predicateCounts: new Map([['http://example.org/p1', 2]]),
+        moments: { count: 2, mean: 2, m2: 2, m3: 0, m4: 2 },
+        structure: new StructureCounter().getStructure()
+    };
+
+    beforeEach(() => {
+        registry = new FeatureRegistry();
+    });
+
+    it('should compute every registered feature in registration order', () => {
+        registry.register('tripleCount', (_windowData, ctx) => ctx.tripleCount);
+        registry.register('maxValue', (_windowData, ctx) => Math.max(...ctx.numericValues));
+
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('1')),
+            quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('3'))
+        ]);
+
+        expect(registry.getFeatureNames()).toEqual(['tripleCount', 'maxValue']);
+        expect(registry.computeFeatures(windowData, context)).toEqual({ tripleCount: 2, maxValue: 3 });
+    });
+
+    it('should pass the window to the feature extractors', () => {
+        registry.register('distinctSubjects', windowData =>
+            new Set(Array.from(windowData, q => q.subject.value)).size);
+
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('1')),
+            quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p2'), literal('3'))
+        ]);
+
+        expect(registry.computeFeatures(windowData, context).distinctSubjects).toBe(1);
+    });
+
+    it('should reject duplicate and empty feature names', () => {
+        registry.register('variance', () => 0);
+
+        expect(() => registry.register('variance', () => 1)).toThrow('Feature "variance" is already registered');
+        expect(() => registry.register(' ', () => 1)).toThrow('Feature name must not be empty');
+    });
+
+    it('should unregister features', () => {
+        registry.register('custom', () => 1);
+
+        expect(registry.has('custom')).toBe(true);
+        expect(registry.unregister('custom')).toBe(true);
+        expect(registry.has('custom')).toBe(false);
+        expect(registry.unregister('custom')).toBe(false);
+    });
+});
@@ -0,0 +1,81 @@
+import { Quad } from "n3";
+import { FeatureContext, FeatureExtractor, StreamSignature } from "../Types";
+
+/**
+ * It keeps the named feature extractors that make up a stream signature.
+ * Every registered feature is computed for each window and appears in the
+ * signature under its name, so that approaches can set thresholds on it.
+ * @export
+ * @class FeatureRegistry
+ */
+export class FeatureRegistry {
+    private features: Map<string, FeatureExtractor>;
+
+    /**
+     * Creates an instance of FeatureRegistry.
+     * @memberof FeatureRegistry
+     */
+    constructor() {
+        this.features = new Map();
+    }
+
+    /**
+     * Registers a feature extractor under a name.
+     * @param {string} name - The name of the feature in the signature.
+     * @param {FeatureExtractor} extractor - The function computing the feature for a window.
+     * @memberof FeatureRegistry
+     */
+    register(name: string, extractor: FeatureExtractor): void {
+        if (name.trim() === '') {
+            throw new Error('Feature name must not be empty');
+        }
+        if (this.features.has(name)) {
+            throw new Error(`Feature "${name}" is already registered`);
+        }
+        this.features.set(name, extractor);
+    }
+
+    /**
+     * Removes a feature extractor.
+     * @param {string} name - The name of the feature to remove.
+     * @return {boolean} - True if the feature was removed, false if it was not registered.
+     * @memberof FeatureRegistry
+     */
+    unregister(name: string): boolean {
+        return this.features.delete(name);
+    }
+
+    /**
+     * Checks whether a feature is registered.
+     * @param {string} name - The name of the feature.
+     * @return {boolean} - True if the feature is registered.
+     * @memberof FeatureRegistry
+     */
+    has(name: string): boolean {
+        return this.features.has(name);
+    }
+
+    /**
+     * Gets the names of all registered features, in registration order.
+     * @return {string[]} - The feature names.
+     * @memberof FeatureRegistry
+     */
+    getFeatureNames(): string[] {
+        return Array.from(this.features.keys());
+    }
+
+    /**
+     * Computes every registered feature for a window.
+     * @param {Set<Quad>} windowData - The quads of the window.
+     * @param {FeatureContext} context - The values collected from the window.
+     * @return {StreamSignature} - The signature holding one value per feature.
+     * @memberof FeatureRegistry
+     */
+    computeFeatures(windowData: Set<Quad>, context: FeatureContext): StreamSignature {
+        const signature: Record<string, number> = {};
+        for (const [name, extractor] of this.features) {
+            signature[name] = extractor(windowData, context);
+        }
+        return signature as StreamSignature;
+    }
+}
@@ -0,0 +1,234 @@
+import { IncrementalSignatureExtractor } from './IncrementalSignatureExtractor';
+import { SignatureExtractor } from './SignatureExtractor';
+import { DataFactory, Quad } from 'n3';
+
+const { namedNode, literal, quad } = DataFactory;
+const XSD_INTEGER = namedNode('http://www.w3.org/2001/XMLSchema#integer');
+
+const reading = (index: number, value: number, predicate: string = 'p1'): Quad =>
+    quad(
+        namedNode(`http://example.org/s${index}`),
+        namedNode(`http://example.org/${predicate}`),
+        literal(String(value), XSD_INTEGER)
+    );
+
+describe('IncrementalSignatureExtractor', () => {
+    let batch: SignatureExtractor;
+    let incremental: IncrementalSignatureExtractor;
+
+    const expectSameSignature = (reference: SignatureExtractor = batch) => {
+        const expected = reference.extractSignature(incremental.getWindow());
+        const actual = incremental.getSignature();
+
+        expect(actual.tripleCount).toBe(expected.tripleCount);
+        expect(actual.variance).toBeCloseTo(expected.variance, 6);
+        expect(actual.skewness).toBeCloseTo(expected.skewness, 6);
+        expect(actual.entropy).toBeCloseTo(expected.entropy, 10);
+        expect(actual.fftEntropy).toBeCloseTo(expected.fftEntropy, 10);
+        expect(actual.kurtosis).toBeCloseTo(expected.kurtosis, 6);
+        expect(actual.median).toBe(expected.median);
+        expect(actual.numericRatio).toBe(expected.numericRatio);
+        expect(actual.subjectCount).toBe(expected.subjectCount);
+        expect(actual.outDegreeVariance).toBeCloseTo(expected.outDegreeVariance, 10);
+        expect(actual.literalRatio).toBe(expected.literalRatio);
+        expect(actual.datatypeEntropy).toBeCloseTo(expected.datatypeEntropy, 10);
+        expect(actual.objectEntropy).toBeCloseTo(expected.objectEntropy, 10);
+    };
+
+    beforeEach(() => {
+        batch = new SignatureExtractor(true);
+        incremental = new IncrementalSignatureExtractor(batch);
+    });
+
+    it('should return an empty signature for an empty window', () => {
+        expect(incremental.getSignature()).toEqual({
+            tripleCount: 0,
+            variance: 0,
+            skewness: 0,
+            entropy: 0,
+            fftEntropy: 0,
+            kurtosis: 0,
+            minimum: 0,
+            maximum: 0,
+            range: 0,
+            median: 0,
+            iqr: 0,
+            p5: 0,
+            p25: 0,
+            p75: 0,
+            p95: 0,
+            autocorrelation1: 0,
+            numericRatio: 0,
+            subjectCount: 0,
+            objectCount: 0,
+            graphCount: 0,
+            outDegreeMean: 0,
+            outDegreeMax: 0,
+            outDegreeVariance: 0,
+            iriRatio: 0,
+            literalRatio: 0,
+            blankNodeRatio: 0,
+            datatypeCount: 0,
+            datatypeEntropy: 0,
+            languageCount: 0,
+            languageEntropy: 0,
+            subjectEntropy: 0,
+            objectEntropy: 0
+        });
+    });
+
+    it('should match the batch signature while quads are added', () => {
+        const values = [1, 2, 3, 10, 4, 8, 15, 16, 23, 42];
+        values.forEach((value, index) => {
+            incremental.add(reading(index, value, index % 3 === 0 ? 'p1' : 'p2'));
+            expectSameSignature();
+        });
+        expect(incremental.size).toBe(values.length);
+    });
+
+    it('should match the batch signature on a sliding window', () => {
+        const windowSize = 10;
+        const quads: Quad[] = [];
+        for (let i = 0; i < 50; i++) {
+            quads.push(reading(i, Math.round(100 * Math.sin(i / 3)) + (i % 7), `p${i % 4}`));
+        }
+
+        quads.forEach((current, index) => {
+            incremental.add(current);
+            const expired = quads[index - windowSize];
+            const removed = expired !== undefined && incremental.remove(expired);
+            expect(removed).toBe(index >= windowSize);
+            expect(incremental.size).toBe(Math.min(index + 1, windowSize));
+            expectSameSignature();
+        });
+    });
+
+    it('should match the batch signature on a window larger than the FFT size limit', () => {
+        for (let i = 0; i < 5000; i++) {
+            incremental.add(reading(i, Math.round(100 * Math.sin(i / 40)) + (i % 7), `p${i % 5}`));
+        }
+
+        expectSameSignature();
+        expect(incremental.getSignature().fftEntropy).toBeCloseTo(batch.extractSignature(incremental.getWindow()).fftEntropy, 10);
+    });
+
+    it('should refuse an extractor in the approximate mode', () => {
+        expect(() => new IncrementalSignatureExtractor(new SignatureExtractor(false))).toThrow('needs an extractor in the exact mode');
+    });
+
+    it('should treat equal quads as the same window member', () => {
+        expect(incremental.add(reading(1, 5))).toBe(true);
+        expect(incremental.add(reading(1, 5))).toBe(false);
+        expect(incremental.has(reading(1, 5))).toBe(true);
+        expect(incremental.size).toBe(1);
+
+        expect(incremental.remove(reading(1, 5))).toBe(true);
+        expect(incremental.remove(reading(1, 5))).toBe(false);
+        expect(incremental.size).toBe(0);
+    });
+
+    it('should report zero variance and skewness after removals leave constant values', () => {
+        incremental.add(reading(1, 5));
+        incremental.add(reading(2, 1000));
+        incremental.add(reading(3, 5));
+        incremental.add(reading(4, 5));
+        incremental.remove(reading(2, 1000));
+
+        const signature = incremental.getSignature();
+        expect(signature.variance).toBe(0);
+        expect(signature.skewness).toBe(0);
+    });
+
+    it('should keep a small spread around a large mean', () => {
+        const values = Array.from({ length: 200 }, (_, index) => 1e9 + Math.round(100 * Math.sin(index)));
+        values.forEach((value, index) => incremental.add(reading(index, value)));
+        for (let index = 0; index < 150; index++) {
+            incremental.remove(reading(index, values[index]));
+        }
+
+        const expected = batch.extractSignature(incremental.getWindow());
+        const actual = incremental.getSignature();
+        expect(expected.variance).toBeGreaterThan(1000);
+        expect(actual.variance).toBeCloseTo(expected.variance, 2);
+        expect(actual.skewness).toBeCloseTo(expected.skewness, 4);
+    });
+
+    it('should ignore non-numeric literals in the moments', () => {
+        incremental.add(reading(1, 10));
+        incremental.add(quad(namedNode('http://example.org/s2'), namedNode('http://example.org/name'), literal('John')));
+        incremental.add(reading(3, 20));
+        expectSameSignature();
+        expect(incremental.getSignature().variance).toBe(50);
+    });
+
+    it('should reset all state when cleared', () => {
+        incremental.add(reading(1, 10));
+        incremental.add(reading(2, 20));
+        incremental.clear();
+
+        expect(incremental.size).toBe(0);
+        expect(incremental.getSignature().variance).toBe(0);
+        incremental.add(reading(3, 7));
+        expectSameSignature();
+    });
+
+    it('should order the FFT input by timestamp like the batch extractor', () => {
+        const RESULT_TIME = 'http://www.w3.org/ns/sosa/resultTime';
+        batch = new SignatureExtractor(true, { timestampPredicates: [RESULT_TIME] });
+        incremental = new IncrementalSignatureExtractor(batch);
+
+        [3, 0, 2, 1, 5, 4].forEach(index => {
+            incremental.add(reading(index, index % 2 === 0 ? 10 : index));
+            incremental.add(quad(
+                namedNode(`http://example.org/s${index}`),
+                namedNode(RESULT_TIME),
+                literal(String(1000 * index), XSD_INTEGER)
+            ));
+        });
+        expectSameSignature();
+
+        incremental.remove(reading(0, 10));
+        expectSameSignature();
+        expect(incremental.getSignature().tripleCount).toBe(11);
+    });
+
+    it('should follow timestamps added before their values and removed from the window', () => {
+        const RESULT_TIME = 'http://www.w3.org/ns/sosa/resultTime';
+        const timestamp = (index: number, time: number): Quad => quad(
+            namedNode(`http://example.org/s${index}`),
+            namedNode(RESULT_TIME),
+            literal(String(time), XSD_INTEGER)
+        );
+        batch = new SignatureExtractor(true, { timestampPredicates: [RESULT_TIME] });
+        incremental = new IncrementalSignatureExtractor(batch);
+
+        [2, 0, 3, 1].forEach(index => incremental.add(timestamp(index, 1000 * index)));
+        [0, 1, 2, 3].forEach(index => incremental.add(reading(index, index === 2 ? 40 : index)));
+        expectSameSignature();
+
+        incremental.add(timestamp(2, 500));
+        expectSameSignature();
+
+        incremental.remove(timestamp(2, 500));
+        expectSameSignature();
+
+        incremental.remove(timestamp(2, 2000));
+        expectSameSignature();
+        expect(incremental.getSignature().tripleCount).toBe(7);
+    });
+
+    it('should count the rejected literals in the window', () => {
+        const apples = quad(namedNode('http://example.org/s0'), namedNode('http://example.org/p1'), literal('12 apples'));
+
+        incremental.add(reading(0, 1));
+        incremental.add(apples);
+        expect(incremental.getRejectedLiteralCount()).toBe(1);
+        expectSameSignature();
+
+        incremental.remove(apples);
+        expect(incremental.getRejectedLiteralCount()).toBe(0);
+        incremental.add(apples);
+        incremental.clear();
+        expect(incremental.getRejectedLiteralCount()).toBe(0);
+    });
+});
@@ -0,0 +1,411 @@
+import { Quad, termToId } from "n3";
+import { NumericMoments, NumericObservation, StreamSignature } from "../Types";
+import { SignatureExtractor } from "./SignatureExtractor";
+import { StructureCounter } from "./StructureCounter";
+
+/**
+ * Entry kept for every quad currently in the window.
+ * @interface WindowEntry
+ */
+interface WindowEntry {
+    quad: Quad;
+    value?: number;
+    rejected: boolean;
+    observationKey: string;
+}
+
+/**
+ * It maintains the signature of a sliding window of RDF quads incrementally.
+ * Quads can be added to and removed from the window one at a time, and the
+ * moments of the numeric values, the predicate counts and the graph structure are kept in
+ * running accumulators, so that overlapping windows do not have to be
+ * recomputed from scratch. Every value of the window is used, so it is built on an
+ * extractor in the exact mode only, and the resulting signature matches the one
+ * returned by {@link SignatureExtractor.extractSignature} of that extractor for the same window.
+ * The numeric values and the timestamps of their observations are kept up to date as
+ * well, but the series built from them (sorted by time when timestamped), its FFT and
+ * autocorrelation, the quantiles and the out-degree features still take time linear in
+ * the window (the sorts n log n) on every call to {@link IncrementalSignatureExtractor.getSignature}.
+ * @export
+ * @class IncrementalSignatureExtractor
+ */
+export class IncrementalSignatureExtractor {
+    private signatureExtractor: SignatureExtractor;
+    private window: Map<string, WindowEntry>;
+    private values: Map<string, WindowEntry>; // The entries with a numeric value, in insertion order
+    private timestamps: Map<string, Map<string, number>>; // Per observation, the timestamp of every timestamp quad
+    private predicateCount: Map<string, number>;
+    private literalCount: number = 0;
+    private timestampCount: number = 0;
+    private rejectedCount: number = 0;
+    private structure: StructureCounter;
+
+    // Running central moments of the numeric values (Welford / Terriberry)
+    private valueCount: number = 0;
+    private mean: number = 0;
+    private m2: number = 0;
+    private m3: number = 0;
+    private m4: number = 0;
+    private meanError: number = 0; // Bound on the rounding error accumulated in the mean
+    private m2Error: number = 0; // Bound on the rounding error accumulated in m2
+
+    /**
+     * Creates an instance of IncrementalSignatureExtractor.
+     * @param {SignatureExtractor} [signatureExtractor] - The extractor in the exact mode used to parse literals and compute the features.
+     * @throws {Error} - If the extractor is in the approximate mode.
+     * @memberof IncrementalSignatureExtractor
+     */
+    constructor(signatureExtractor: SignatureExtractor = new SignatureExtractor(true)) {
+        if (signatureExtractor.getMode() !== 'exact') {
+            throw new Error('The incremental extractor uses every value of the window and needs an extractor in the exact mode');
+        }
+        this.signatureExtractor = signatureExtractor;
+        this.window = new Map();
+        this.values = new Map();
+        this.timestamps = new Map();
+        this.predicateCount = new Map();
+        this.structure = new StructureCounter();
+    }
+
+    /**
+     * Adds a quad to the window.
+     * @param {Quad} quad - The quad to add.
+     * @return {boolean} - True if the quad was added, false if it was already in the window.
+     * @memberof IncrementalSignatureExtractor
+     */
+    add(quad: Quad): boolean {
+        const key = this.quadKey(quad);
+        if (this.window.has(key)) return false;
+
+        const { value, rejected } = this.signatureExtractor.coerceLiteral(quad);
+        const entry = { quad, value, rejected, observationKey: this.signatureExtractor.getObservationKey(quad) };
+        this.window.set(key, entry);
+        this.addTimestamp(key, entry);
+
+        const predicate = quad.predicate.value;
+        this.predicateCount.set(predicate, (this.predicateCount.get(predicate) || 0) + 1);
+        this.structure.add(quad);
+        if (quad.object.termType === 'Literal') {
+            this.literalCount++;
+            if (this.signatureExtractor.isTimestampQuad(quad)) {
+                this.timestampCount++;
+            }
+        }
+        if (rejected) {
+            this.rejectedCount++;
+        }
+
+        if (value !== undefined) {
+            this.values.set(key, entry);
+            this.addValue(value);
+        }
+        return true;
+    }
+
+    /**
+     * Removes a quad from the window.
+     * @param {Quad} quad - The quad to remove.
+     * @return {boolean} - True if the quad was removed, false if it was not in the window.
+     * @memberof IncrementalSignatureExtractor
+     */
+    remove(quad: Quad): boolean {
+        const key = this.quadKey(quad);
+        const entry = this.window.get(key);
+        if (!entry) return false;
+
+        this.window.delete(key);
+        this.removeTimestamp(key, entry);
+
+        const predicate = quad.predicate.value;
+        const count = (this.predicateCount.get(predicate) || 0) - 1;
+        if (count > 0) {
+            this.predicateCount.set(predicate, count);
+        } else {
+            this.predicateCount.delete(predicate);
+        }
+        this.structure.remove(quad);
+        if (quad.object.termType === 'Literal') {
+            this.literalCount--;
+            if (this.signatureExtractor.isTimestampQuad(quad)) {
+                this.timestampCount--;
+            }
+        }
+        if (entry.rejected) {
+            this.rejectedCount--;
+        }
+
+        if (entry.value !== undefined) {
+            this.values.delete(key);
+            this.removeValue(entry.value);
+        }
+        return true;
+    }
+
+    /**
+     * Checks whether a quad is currently in the window.
+     * @param {Quad} quad - The quad to look up.
+     * @return {boolean} - True if the quad is in the window.
+     * @memberof IncrementalSignatureExtractor
+     */
+    has(quad: Quad): boolean {
+        return this.window.has(this.quadKey(quad));
+    }
+
+    /**
+     * Gets the number of quads currently in the window.
+     * @readonly
+     * @type {number}
+     * @memberof IncrementalSignatureExtractor
+     */
+    get size(): number {
+        return this.window.size;
+    }
+
+    /**
+     * Gets the number of literals in the window refused by the coercion policy
+     * of the extractor, see {@link SignatureExtractor.coerceLiteral}.
+     * @return {number} - The number of rejected literals.
+     * @memberof IncrementalSignatureExtractor
+     */
+    getRejectedLiteralCount(): number {
+        return this.rejectedCount;
+    }
+
+    /**
+     * Removes all quads from the window and resets the accumulators.
+     * @memberof IncrementalSignatureExtractor
+     */
+    clear(): void {
+        this.window.clear();
+        this.values.clear();
+        this.timestamps.clear();
+        this.predicateCount.clear();
+        this.structure.clear();
+        this.literalCount = 0;
+        this.timestampCount = 0;
+        this.rejectedCount = 0;
+        this.resetMoments();
+    }
+
+    /**
+     * Gets the quads currently in the window, in insertion order.
+     * @return {Set<Quad>} - The window contents.
+     * @memberof IncrementalSignatureExtractor
+     */
+    getWindow(): Set<Quad> {
+        const quads = new Set<Quad>();
+        for (const entry of this.window.values()) {
+            quads.add(entry.quad);
+        }
+        return quads;
+    }
+
+    /**
+     * Gets the signature of the current window. The built-in moment and entropy
+     * features are fed from the running accumulators; custom features are
+     * computed over the current window contents, which are only gathered if
+     * the extractor has any.
+     * @return {StreamSignature} - The current stream signature.
+     * @memberof IncrementalSignatureExtractor
+     */
+    getSignature(): StreamSignature {
+        const observations: NumericObservation[] = [];
+        for (const entry of this.values.values()) {
+            observations.push({ value: entry.value as number, timestamp: this.getTimestamp(entry.observationKey) });
+        }
+        const windowData = this.signatureExtractor.hasCustomFeatures() ? this.getWindow() : new Set<Quad>();
+
+        return this.signatureExtractor.computeFeatures(windowData, {
+            tripleCount: this.window.size,
+            literalCount: this.literalCount,
+            timestampCount: this.timestampCount,
+            numericCount: this.valueCount,
+            numericValues: observations.map(observation => observation.value),
+            series: this.signatureExtractor.buildSeries(observations),
+            predicateCounts: this.predicateCount,
+            moments: this.getMoments(),
+            structure: this.structure.getStructure()
+        });
+    }
+
+    /**
+     * Records the timestamp a quad links its observation to, if any.
+     * @private
+     * @param {string} key - The key of the quad.
+     * @param {WindowEntry} entry - The window entry of the quad.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private addTimestamp(key: string, entry: WindowEntry): void {
+        const timestamp = this.signatureExtractor.getTimestamp(entry.quad);
+        if (timestamp === undefined) return;
+
+        let timestamps = this.timestamps.get(entry.observationKey);
+        if (!timestamps) {
+            timestamps = new Map();
+            this.timestamps.set(entry.observationKey, timestamps);
+        }
+        timestamps.set(key, timestamp);
+    }
+
+    /**
+     * Forgets the timestamp of a quad leaving the window, if any.
+     * @private
+     * @param {string} key - The key of the quad.
+     * @param {WindowEntry} entry - The window entry of the quad.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private removeTimestamp(key: string, entry: WindowEntry): void {
+        const timestamps = this.timestamps.get(entry.observationKey);
+        if (!timestamps?.delete(key)) return;
+        if (timestamps.size === 0) {
+            this.timestamps.delete(entry.observationKey);
+        }
+    }
+
+    /**
+     * Gets the timestamp of an observation. Like the batch extractor, the timestamp
+     * quad added last wins when an observation has several.
+     * @private
+     * @param {string} observationKey - The key of the observation.
+     * @return {number | undefined} - The timestamp, or undefined if the observation has none.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private getTimestamp(observationKey: string): number | undefined {
+        const timestamps = this.timestamps.get(observationKey);
+        if (!timestamps) return undefined;
+
+        let last: number | undefined;
+        for (const timestamp of timestamps.values()) {
+            last = timestamp;
+        }
+        return last;
+    }
+
+    /**
+     * Builds the key identifying a quad by value rather than by reference.
+     * @private
+     * @param {Quad} quad - The quad to identify.
+     * @return {string} - The quad key.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private quadKey(quad: Quad): string {
+        return [quad.subject, quad.predicate, quad.object, quad.graph]
+            .map(term => termToId(term))
+            .join(' ');
+    }
+
+    /**
+     * Adds a numeric value to the running moments.
+     * @private
+     * @param {number} value - The value to add.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private addValue(value: number): void {
+        const previousCount = this.valueCount;
+        this.valueCount++;
+        const n = this.valueCount;
+        const delta = value - this.mean;
+        const deltaN = delta / n;
+        const term = delta * deltaN * previousCount;
+        const deltaError = this.meanError + Number.EPSILON * (Math.abs(value) + Math.abs(this.mean));
+
+        this.mean += deltaN;
+        this.m4 += term * deltaN * deltaN * (n * n - 3 * n + 3) + 6 * deltaN * deltaN * this.m2 - 4 * deltaN * this.m3;
+        this.m3 += term * deltaN * (n - 2) - 3 * deltaN * this.m2;
+        this.m2 += term;
+        this.meanError = this.meanError * previousCount / n + Number.EPSILON * (Math.abs(this.mean) + Math.abs(deltaN));
+        this.m2Error += this.getTermError(term, delta, deltaError, previousCount / n) + Number.EPSILON * this.m2;
+    }
+
+    /**
+     * Removes a numeric value from the running moments by inverting {@link addValue}.
+     * @private
+     * @param {number} value - The value to remove.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private removeValue(value: number): void {
+        const previousCount = this.valueCount;
+        if (previousCount <= 1) {
+            this.resetMoments();
+            return;
+        }
+
+        this.valueCount--;
+        const n = this.valueCount;
+        const mean = (previousCount * this.mean - value) / n;
+        const delta = value - mean;
+        const deltaN = delta / previousCount;
+        const term = delta * deltaN * n;
+        this.meanError = (previousCount * this.meanError + 2 * Number.EPSILON * (previousCount * Math.abs(this.mean) + Math.abs(value))) / n;
+        const deltaError = this.meanError + Number.EPSILON * (Math.abs(value) + Math.abs(mean));
+
+        this.mean = mean;
+        this.m2Error += this.getTermError(term, delta, deltaError, n / previousCount) + Number.EPSILON * (this.m2 + term);
+        this.m2 = Math.max(0, this.m2 - term);
+        this.m3 = this.m3 - term * deltaN * (previousCount - 2) + 3 * deltaN * this.m2;
+        this.m4 = Math.max(0, this.m4
+            - term * deltaN * deltaN * (previousCount * previousCount - 3 * previousCount + 3)
+            - 6 * deltaN * deltaN * this.m2
+            + 4 * deltaN * this.m3);
+    }
+
+    /**
+     * Bounds the rounding error of the term an update adds to or removes from m2,
+     * which is the squared difference to the mean scaled by a factor. The error of
+     * the difference dominates, so it grows with the magnitude of the values and
+     * the mean rather than with their spread.
+     * @private
+     * @param {number} term - The term of the update.
+     * @param {number} delta - The difference between the value and the mean.
+     * @param {number} deltaError - The bound on the rounding error of the difference.
+     * @param {number} factor - The factor the squared difference is scaled by.
+     * @return {number} - The bound on the rounding error of the term.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private getTermError(term: number, delta: number, deltaError: number, factor: number): number {
+        return factor * deltaError * (2 * Math.abs(delta) + deltaError) + 3 * Number.EPSILON * Math.abs(term);
+    }
+
+    /**
+     * Resets the running moments.
+     * @private
+     * @memberof IncrementalSignatureExtractor
+     */
+    private resetMoments(): void {
+        this.valueCount = 0;
+        this.mean = 0;
+        this.m2 = 0;
+        this.m3 = 0;
+        this.m4 = 0;
+        this.meanError = 0;
+        this.m2Error = 0;
+    }
+
+    /**
+     * Checks whether the accumulated spread is only floating point residue
+     * left behind by removals, in which case the values are all equal. The
+     * spread is compared with the rounding error accumulated by the updates
+     * since the window last held at most one value, so a real spread is kept
+     * however large the values are.
+     * @private
+     * @return {boolean} - True if the values have no spread.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private hasNoSpread(): boolean {
+        return this.m2 <= this.m2Error;
+    }
+
+    /**
+     * Gets the running moments, discarding the floating point residue that
+     * removals leave behind when all remaining values are equal.
+     * @private
+     * @return {NumericMoments} - The moments of the numeric values in the window.
+     * @memberof IncrementalSignatureExtractor
+     */
+    private getMoments(): NumericMoments {
+        if (this.hasNoSpread()) {
+            return { count: this.valueCount, mean: this.mean, m2: 0, m3: 0, m4: 0 };
+        }
+        return { count: this.valueCount, mean: this.mean, m2: this.m2, m3: this.m3, m4: this.m4 };
+    }
+}
@@ -0,0 +1,75 @@
+import { LiteralCoercer } from './LiteralCoercer';
+import { DataFactory } from 'n3';
+
+const { namedNode, literal } = DataFactory;
+
+describe('LiteralCoercer', () => {
+    const xsd = (type: string) => namedNode(`http://www.w3.org/2001/XMLSchema#${type}`);
+    const lenient = new LiteralCoercer();
+    const strict = new LiteralCoercer('strict');
+    const dated = new LiteralCoercer('strict', true);
+
+    it('should read every XSD numeric type by its exact IRI', () => {
+        for (const type of ['integer', 'int', 'long', 'short', 'byte', 'unsignedByte', 'decimal', 'double', 'float']) {
+            expect(strict.coerce(literal('42', xsd(type)))).toEqual({ value: 42, rejected: false });
+        }
+        expect(strict.coerce(literal('-1.5E2', xsd('double')))).toEqual({ value: -150, rejected: false });
+        expect(strict.coerce(literal(' 7 ', xsd('int')))).toEqual({ value: 7, rejected: false });
+    });
+
+    it('should reject invalid lexical forms and values out of range', () => {
+        expect(strict.coerce(literal('12 apples', xsd('integer')))).toEqual({ rejected: true });
+        expect(strict.coerce(literal('1.5', xsd('int')))).toEqual({ rejected: true });
+        expect(strict.coerce(literal('1e3', xsd('decimal')))).toEqual({ rejected: true });
+        expect(strict.coerce(literal('300', xsd('byte')))).toEqual({ rejected: true });
+        expect(strict.coerce(literal('-1', xsd('unsignedInt')))).toEqual({ rejected: true });
+        expect(strict.coerce(literal('INF', xsd('double')))).toEqual({ rejected: true });
+    });
+
+    it('should read booleans, dates and durations', () => {
+        expect(strict.coerce(literal('true', xsd('boolean'))).value).toBe(1);
+        expect(strict.coerce(literal('0', xsd('boolean'))).value).toBe(0);
+        expect(strict.coerce(literal('yes', xsd('boolean'))).rejected).toBe(true);
+        expect(dated.coerce(literal('2024-01-01T00:00:00Z', xsd('dateTime'))).value).toBe(Date.UTC(2024, 0, 1));
+        expect(dated.coerce(literal('2024-01-01T01:00:00+01:00', xsd('dateTime'))).value).toBe(Date.UTC(2024, 0, 1));
+        expect(dated.coerce(literal('2024-01-01T00:00:00', xsd('dateTime'))).value).toBe(Date.UTC(2024, 0, 1));
+        expect(dated.coerce(literal('2024-01-01T00:00:00', xsd('dateTimeStamp'))).rejected).toBe(true);
+        expect(strict.coerce(literal('PT1H30M', xsd('duration'))).value).toBe(90 * 60 * 1000);
+        expect(strict.coerce(literal('-P1DT0.5S', xsd('dayTimeDuration'))).value).toBe(-(24 * 60 * 60 * 1000 + 500));
+        expect(strict.coerce(literal('P1Y', xsd('duration'))).value).toBe(31556952000); // 365.2425 days
+        expect(strict.coerce(literal('P12M', xsd('yearMonthDuration'))).value).toBeCloseTo(31556952000, 3);
+        expect(strict.coerce(literal('P', xsd('duration'))).rejected).toBe(true);
+    });
+
+    it('should leave other datatypes alone', () => {
+        expect(strict.coerce(literal('42', xsd('gYear')))).toEqual({ rejected: false });
+        expect(lenient.coerce(literal('2024-01-01T00:00:00Z', xsd('dateTime')))).toEqual({ rejected: false });
+        expect(strict.coerce(literal('42', namedNode('http://example.org/celsius')))).toEqual({ rejected: false });
+        expect(lenient.coerce(literal('42', 'en'))).toEqual({ rejected: false });
+    });
+
+    it('should read whole numbers in strings only in the lenient policy', () => {
+        expect(lenient.coerce(literal('42.5'))).toEqual({ value: 42.5, rejected: false });
+        expect(lenient.coerce(literal('12 apples'))).toEqual({ rejected: true });
+        expect(lenient.coerce(literal('apples'))).toEqual({ rejected: false });
+        expect(strict.coerce(literal('42.5'))).toEqual({ rejected: false });
+    });
+
+    it('should let a custom mapper decide, falling back to the strict policy', () => {
+        const celsius = namedNode('http://example.org/celsius');
+        const mapper = new LiteralCoercer(term => {
+            if (term.datatype.equals(celsius)) return parseFloat(term.value) + 273.15;
+            if (term.value === 'n/a') return null;
+            return undefined;
+        });
+
+        expect(mapper.coerce(literal('20', celsius)).value).toBeCloseTo(293.15, 10);
+        expect(mapper.coerce(literal('n/a'))).toEqual({ rejected: true });
+        expect(mapper.coerce(literal('5', xsd('short')))).toEqual({ value: 5, rejected: false });
+        expect(mapper.coerce(literal('5'))).toEqual({ rejected: false });
+    });
+
+    it('should refuse an unknown policy', () => {
+        expect(() => new LiteralCoercer('loose' as 'strict')).toThrow("Coercion policy must be 'strict', 'lenient' or a function, got loose");
+    });
+});
@@ -0,0 +1,174 @@
+import { Literal } from "n3";
+import { XSD } from "../rdf/Vocabulary";
+import { CoercionPolicy, LiteralCoercion } from "../Types";
+
+/**
+ * It turns literals into numeric values according to a coercion policy.
+ * Datatypes are matched by their exact XSD IRIs and lexical forms are checked
+ * against the XSD grammar, so that a literal is either read as a whole or
+ * rejected rather than read in part.
+ * @export
+ * @class LiteralCoercer
+ */
+export class LiteralCoercer {
+    private policy: CoercionPolicy;
+    private coerceDateTimes: boolean;
+
+    private static readonly XSD_PREFIX = 'http://www.w3.org/2001/XMLSchema#';
+    // Inclusive bounds of the value space of every integer type, undefined for unbounded
+    private static readonly INTEGER_RANGES = new Map<string, [bigint | undefined, bigint | undefined]>([
+        ['integer', [undefined, undefined]],
+        ['long', [BigInt('-9223372036854775808'), BigInt('9223372036854775807')]],
+        ['int', [BigInt(-2147483648), BigInt(2147483647)]],
+        ['short', [BigInt(-32768), BigInt(32767)]],
+        ['byte', [BigInt(-128), BigInt(127)]],
+        ['nonNegativeInteger', [BigInt(0), undefined]],
+        ['positiveInteger', [BigInt(1), undefined]],
+        ['nonPositiveInteger', [undefined, BigInt(0)]],
+        ['negativeInteger', [undefined, BigInt(-1)]],
+        ['unsignedLong', [BigInt(0), BigInt('18446744073709551615')]],
+        ['unsignedInt', [BigInt(0), BigInt(4294967295)]],
+        ['unsignedShort', [BigInt(0), BigInt(65535)]],
+        ['unsignedByte', [BigInt(0), BigInt(255)]]
+    ]);
+    private static readonly BOOLEANS = new Map([['true', 1], ['1', 1], ['false', 0], ['0', 0]]);
+    private static readonly DURATION_TYPES = ['duration', 'dayTimeDuration', 'yearMonthDuration'];
+    private static readonly DATE_TIME_TYPES = ['dateTime', 'dateTimeStamp'];
+
+    private static readonly INTEGER = /^[+-]?\d+$/;
+    private static readonly DECIMAL = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+    private static readonly DOUBLE = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+    private static readonly NUMERIC_PREFIX = /^[+-]?\.?\d/;
+    private static readonly DATE_TIME = /^-?\d{4,}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+    private static readonly DURATION = /^(-)?P(?=\d|T\d)(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?=\d)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+    // Milliseconds per duration component, a year being the average Gregorian year
+    private static readonly DAY = 24 * 60 * 60 * 1000;
+    private static readonly YEAR = 365.2425 * LiteralCoercer.DAY;
+
+    /**
+     * Creates an instance of LiteralCoercer.
+     * @param {CoercionPolicy} [policy] - The coercion policy, 'lenient' by default.
+     * @param {boolean} [coerceDateTimes] - Whether date-times are read as epoch milliseconds rather than left out.
+     * @memberof LiteralCoercer
+     */
+    constructor(policy: CoercionPolicy = 'lenient', coerceDateTimes: boolean = false) {
+        if (policy !== 'strict' && policy !== 'lenient' && typeof policy !== 'function') {
+            throw new Error(`Coercion policy must be 'strict', 'lenient' or a function, got ${String(policy)}`);
+        }
+        this.policy = policy;
+        this.coerceDateTimes = coerceDateTimes;
+    }
+
+    /**
+     * Coerces a literal into a numeric value.
+     * @param {Literal} literal - The literal.
+     * @return {LiteralCoercion} - The numeric value, or whether the literal was rejected.
+     * @memberof LiteralCoercer
+     */
+    coerce(literal: Literal): LiteralCoercion {
+        if (typeof this.policy === 'function') {
+            const value = this.policy(literal);
+            if (value === null) return { rejected: true };
+            if (value !== undefined) return Number.isFinite(value) ? { value, rejected: false } : { rejected: true };
+        }
+
+        const datatype = literal.datatype.value;
+        const lexical = literal.value.trim();
+        if (datatype === XSD.string) {
+            return this.policy === 'lenient' ? this.coerceString(lexical) : { rejected: false };
+        }
+        if (!datatype.startsWith(LiteralCoercer.XSD_PREFIX)) return { rejected: false };
+
+        const type = datatype.slice(LiteralCoercer.XSD_PREFIX.length);
+        const range = LiteralCoercer.INTEGER_RANGES.get(type);
+        let value: number | undefined;
+        if (range) {
+            value = this.parseInteger(lexical, range);
+        } else if (type === 'decimal') {
+            value = LiteralCoercer.DECIMAL.test(lexical) ? Number(lexical) : undefined;
+        } else if (type === 'double' || type === 'float') {
+            value = LiteralCoercer.DOUBLE.test(lexical) ? Number(lexical) : undefined;
+        } else if (type === 'boolean') {
+            value = LiteralCoercer.BOOLEANS.get(lexical);
+        } else if (LiteralCoercer.DATE_TIME_TYPES.includes(type)) {
+            // Instants such as sosa:resultTime would dwarf every measured value
+            if (!this.coerceDateTimes) return { rejected: false };
+            value = this.parseDateTime(lexical, type === 'dateTimeStamp');
+        } else if (LiteralCoercer.DURATION_TYPES.includes(type)) {
+            value = this.parseDuration(lexical);
+        } else {
+            return { rejected: false };
+        }
+        return value !== undefined && Number.isFinite(value) ? { value, rejected: false } : { rejected: true };
+    }
+
+    /**
+     * Coerces a string literal leniently: it is numeric if it is a number as a
+     * whole, and rejected if it only starts like one, such as "12 apples".
+     * @private
+     * @param {string} lexical - The trimmed lexical form.
+     * @return {LiteralCoercion} - The outcome.
+     * @memberof LiteralCoercer
+     */
+    private coerceString(lexical: string): LiteralCoercion {
+        if (LiteralCoercer.DOUBLE.test(lexical)) {
+            const value = Number(lexical);
+            return Number.isFinite(value) ? { value, rejected: false } : { rejected: true };
+        }
+        return { rejected: LiteralCoercer.NUMERIC_PREFIX.test(lexical) };
+    }
+
+    /**
+     * Parses an integer, checking the value space of its datatype.
+     * @private
+     * @param {string} lexical - The trimmed lexical form.
+     * @param {[bigint | undefined, bigint | undefined]} range - The inclusive bounds, undefined for unbounded.
+     * @return {number | undefined} - The value, undefined if invalid or out of range.
+     * @memberof LiteralCoercer
+     */
+    private parseInteger(lexical: string, [min, max]: [bigint | undefined, bigint | undefined]): number | undefined {
+        if (!LiteralCoercer.INTEGER.test(lexical)) return undefined;
+        const value = BigInt(lexical);
+        if ((min !== undefined && value < min) || (max !== undefined && value > max)) return undefined;
+        return Number(value);
+    }
+
+    /**
+     * Parses a date and time into epoch milliseconds. Values without a time zone are read as UTC.
+     * @private
+     * @param {string} lexical - The trimmed lexical form.
+     * @param {boolean} requireTimezone - Whether the time zone is mandatory, as for xsd:dateTimeStamp.
+     * @return {number | undefined} - The epoch milliseconds, undefined if invalid.
+     * @memberof LiteralCoercer
+     */
+    private parseDateTime(lexical: string, requireTimezone: boolean): number | undefined {
+        const match = LiteralCoercer.DATE_TIME.exec(lexical);
+        if (!match || (requireTimezone && !match[2])) return undefined;
+        const timestamp = Date.parse(match[2] ? lexical : `${lexical}Z`);
+        return isNaN(timestamp) ? undefined : timestamp;
+    }
+
+    /**
+     * Parses a duration into milliseconds, counting a year as the average
+     * Gregorian year and a month as a twelfth of it.
+     * @private
+     * @param {string} lexical - The trimmed lexical form.
+     * @return {number | undefined} - The milliseconds, undefined if invalid.
+     * @memberof LiteralCoercer
+     */
+    private parseDuration(lexical: string): number | undefined {
+        const match = LiteralCoercer.DURATION.exec(lexical);
+        if (!match) return undefined;
+
+        const [, sign, years, months, days, hours, minutes, seconds] = match;
+        const component = (value: string | undefined) => value === undefined ? 0 : Number(value);
+        const milliseconds = component(years) * LiteralCoercer.YEAR
+            + component(months) * LiteralCoercer.YEAR / 12
+            + component(days) * LiteralCoercer.DAY
+            + component(hours) * 60 * 60 * 1000
+            + component(minutes) * 60 * 1000
+            + component(seconds) * 1000;
+        return sign ? -milliseconds : milliseconds;
+    }
+}
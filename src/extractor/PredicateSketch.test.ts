@@ -0,0 +1,32 @@
+import { PredicateSketch } from './PredicateSketch';
+
+describe('PredicateSketch', () => {
+    it('should count predicates exactly within its width', () => {
+        const sketch = new PredicateSketch(3);
+        ['p1', 'p2', 'p1', 'p3'].forEach(predicate => sketch.add(`http://example.org/${predicate}`));
+
+        expect(sketch.isExact()).toBe(true);
+        expect(Array.from(sketch.getCounts())).toEqual([
+            ['http://example.org/p1', 2],
+            ['http://example.org/p2', 1],
+            ['http://example.org/p3', 1]
+        ]);
+    });
+
+    it('should hash predicates into buckets beyond its width', () => {
+        const sketch = new PredicateSketch(4);
+        for (let i = 0; i < 100; i++) {
+            sketch.add(`http://example.org/p${i % 10}`);
+        }
+
+        const counts = sketch.getCounts();
+        expect(sketch.isExact()).toBe(false);
+        expect(counts.size).toBeLessThanOrEqual(4);
+        expect(Array.from(counts.keys()).every(key => /^#[0-3]$/.test(key))).toBe(true);
+        expect(Array.from(counts.values()).reduce((sum, count) => sum + count, 0)).toBe(100);
+    });
+
+    it('should reject a width below one', () => {
+        expect(() => new PredicateSketch(0)).toThrow('Sketch width must be at least 1, got 0');
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * It counts the quads per predicate in bounded memory. Predicates are counted
+ * exactly until there are more distinct predicates than the width of the sketch;
+ * from then on, predicates are hashed into that many buckets. Entropy computed
+ * from the buckets is then a lower bound of the exact entropy, as colliding
+ * predicates are merged.
+ * @export
+ * @class PredicateSketch
+ */
+export class PredicateSketch {
+    private width: number;
+    private counts: Map<string, number>;
+    private folded: boolean;
+
+    /**
+     * Creates an instance of PredicateSketch.
+     * @param {number} width - The number of distinct predicates counted exactly, and of buckets afterwards.
+     * @memberof PredicateSketch
+     */
+    constructor(width: number) {
+        if (!(width >= 1)) {
+            throw new Error(`Sketch width must be at least 1, got ${width}`);
+        }
+        this.width = width;
+        this.counts = new Map();
+        this.folded = false;
+    }
+
+    /**
+     * Counts a quad of a predicate.
+     * @param {string} predicate - The predicate IRI.
+     * @memberof PredicateSketch
+     */
+    add(predicate: string): void {
+        const key = this.folded ? PredicateSketch.getBucket(predicate, this.width) : predicate;
+        this.counts.set(key, (this.counts.get(key) || 0) + 1);
+        if (!this.folded && this.counts.size > this.width) {
+            this.fold();
+        }
+    }
+
+    /**
+     * Gets the counts.
+     * @return {Map<string, number>} - The count per predicate IRI or, once hashed, per bucket such as `#17`.
+     * @memberof PredicateSketch
+     */
+    getCounts(): Map<string, number> {
+        return this.counts;
+    }
+
+    /**
+     * Checks whether the counts are still exact.
+     * @return {boolean} - True if no predicates were hashed into buckets.
+     * @memberof PredicateSketch
+     */
+    isExact(): boolean {
+        return !this.folded;
+    }
+
+    /**
+     * Moves the exact counts into their buckets.
+     * @private
+     * @memberof PredicateSketch
+     */
+    private fold(): void {
+        const exact = this.counts;
+        this.counts = new Map();
+        this.folded = true;
+        for (const [predicate, count] of exact) {
+            const bucket = PredicateSketch.getBucket(predicate, this.width);
+            this.counts.set(bucket, (this.counts.get(bucket) || 0) + count);
+        }
+    }
+
+    /**
+     * Hashes a key, such as a predicate IRI, into its bucket with 32-bit FNV-1a.
+     * @static
+     * @param {string} key - The key.
+     * @param {number} width - The number of buckets.
+     * @return {string} - The bucket key.
+     * @memberof PredicateSketch
+     */
+    static getBucket(key: string, width: number): string {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < key.length; i++) {
+            hash ^= key.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return `#${(hash >>> 0) % width}`;
+    }
+}
@@ -0,0 +1,34 @@
+import { ReservoirSampler } from './ReservoirSampler';
+
+describe('ReservoirSampler', () => {
+    it('should keep every item up to its capacity', () => {
+        const sampler = new ReservoirSampler<number>(5);
+        [3, 1, 2].forEach(value => sampler.add(value));
+
+        expect(sampler.getSample()).toEqual([3, 1, 2]);
+        expect(sampler.getSeenCount()).toBe(3);
+    });
+
+    it('should keep a bounded sample in arrival order', () => {
+        let seed = 42;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        const sampler = new ReservoirSampler<number>(100, random);
+        for (let i = 0; i < 10000; i++) {
+            sampler.add(i);
+        }
+
+        const sample = sampler.getSample();
+        expect(sample).toHaveLength(100);
+        expect(sample).toEqual([...sample].sort((a, b) => a - b));
+        expect(new Set(sample).size).toBe(100);
+        expect(sampler.getSeenCount()).toBe(10000);
+        // A uniform sample of 0..9999 has a mean near 5000
+        const mean = sample.reduce((sum, value) => sum + value, 0) / sample.length;
+        expect(mean).toBeGreaterThan(4000);
+        expect(mean).toBeLessThan(6000);
+    });
+
+    it('should reject a capacity below one', () => {
+        expect(() => new ReservoirSampler(0)).toThrow('Reservoir capacity must be at least 1, got 0');
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * It keeps a uniform random sample of bounded size from a sequence of unknown
+ * length (Vitter's algorithm R): the first items fill the reservoir, after which
+ * the n-th item replaces a random slot with probability capacity / n.
+ * @export
+ * @class ReservoirSampler
+ * @template T - The type of the items.
+ */
+export class ReservoirSampler<T> {
+    private capacity: number;
+    private random: () => number;
+    private items: T[];
+    private positions: number[];
+    private seen: number;
+
+    /**
+     * Creates an instance of ReservoirSampler.
+     * @param {number} capacity - The maximum number of items kept.
+     * @param {() => number} [random] - Source of uniform numbers in [0, 1), Math.random by default.
+     * @memberof ReservoirSampler
+     */
+    constructor(capacity: number, random: () => number = Math.random) {
+        if (!(capacity >= 1)) {
+            throw new Error(`Reservoir capacity must be at least 1, got ${capacity}`);
+        }
+        this.capacity = capacity;
+        this.random = random;
+        this.items = [];
+        this.positions = [];
+        this.seen = 0;
+    }
+
+    /**
+     * Offers the next item of the sequence.
+     * @param {T} item - The item.
+     * @memberof ReservoirSampler
+     */
+    add(item: T): void {
+        const position = this.seen++;
+        if (this.items.length < this.capacity) {
+            this.items.push(item);
+            this.positions.push(position);
+            return;
+        }
+        const slot = Math.floor(this.random() * this.seen);
+        if (slot < this.capacity) {
+            this.items[slot] = item;
+            this.positions[slot] = position;
+        }
+    }
+
+    /**
+     * Gets the sampled items.
+     * @return {T[]} - The items, in the order they were offered.
+     * @memberof ReservoirSampler
+     */
+    getSample(): T[] {
+        if (this.seen <= this.capacity) return [...this.items];
+        return this.positions
+            .map((position, slot) => ({ position, item: this.items[slot] }))
+            .sort((a, b) => a.position - b.position)
+            .map(entry => entry.item);
+    }
+
+    /**
+     * Gets the number of items offered so far.
+     * @return {number} - The number of items.
+     * @memberof ReservoirSampler
+     */
+    getSeenCount(): number {
+        return this.seen;
+    }
+}
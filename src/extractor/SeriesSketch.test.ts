@@ -0,0 +1,56 @@
+import { SeriesSketch } from './SeriesSketch';
+
+describe('SeriesSketch', () => {
+    const noTimestamps = () => undefined;
+
+    it('should keep the values themselves within its maximum length', () => {
+        const sketch = new SeriesSketch(4, noTimestamps);
+        [3, 1, 4, 1].forEach(value => sketch.add(value));
+
+        expect(sketch.getCount()).toBe(4);
+        expect(sketch.getObservations()).toEqual([3, 1, 4, 1].map(value => ({ value, timestamp: undefined })));
+    });
+
+    it('should average blocks of values beyond its maximum length', () => {
+        const sketch = new SeriesSketch(4, noTimestamps);
+        for (let value = 0; value < 10; value++) {
+            sketch.add(value);
+        }
+
+        // Merged twice into blocks of four values, the last one still filling up
+        expect(sketch.getCount()).toBe(10);
+        expect(sketch.getObservations().map(observation => observation.value)).toEqual([1.5, 5.5, 8.5]);
+
+        for (let value = 10; value < 1000; value++) {
+            sketch.add(value);
+        }
+        expect(sketch.getObservations().length).toBeLessThanOrEqual(5);
+    });
+
+    it('should order the blocks by the timestamps known when they are merged', () => {
+        const timestamps = new Map<string, number>();
+        const sketch = new SeriesSketch(2, key => timestamps.get(key));
+
+        sketch.add(30, 'c');
+        sketch.add(10, 'a');
+        timestamps.set('a', 1000).set('c', 3000).set('b', 2000);
+        sketch.add(20, 'b');
+
+        expect(sketch.getObservations()).toEqual([{ value: 15, timestamp: 1500 }, { value: 30, timestamp: 3000 }]);
+    });
+
+    it('should look up the timestamps of the values it keeps when read', () => {
+        const timestamps = new Map<string, number>();
+        const sketch = new SeriesSketch(Infinity, key => timestamps.get(key));
+
+        sketch.add(1, 'a');
+        sketch.add(2, 'b');
+        timestamps.set('b', 5);
+
+        expect(sketch.getObservations()).toEqual([{ value: 1, timestamp: undefined }, { value: 2, timestamp: 5 }]);
+    });
+
+    it('should reject a maximum length below two', () => {
+        expect(() => new SeriesSketch(1, noTimestamps)).toThrow('Series length must be at least 2, got 1');
+    });
+});
@@ -0,0 +1,162 @@
+import { NumericObservation } from "../Types";
+
+/**
+ * A run of consecutive numeric values of a series, summed together with the
+ * timestamps known for them. A single value keeps the key of its observation
+ * until its timestamp is looked up, as the timestamp may come later in the stream.
+ * @interface SeriesBlock
+ */
+interface SeriesBlock {
+    sum: number;
+    count: number;
+    timeSum: number;
+    timedCount: number; // Values of the block with a timestamp
+    key?: string; // Only set on a single value whose timestamp has not been looked up yet
+}
+
+/**
+ * It keeps the numeric series of a window in bounded memory. Values are kept
+ * one by one until there are more than the maximum length; from then on,
+ * the blocks are sorted by time, if any has a timestamp, and adjacent blocks are
+ * merged pairwise, so that every block averages twice as many values as before.
+ * New values are then averaged into blocks of the same size as they arrive,
+ * with the timestamps known by then.
+ * Within the maximum length the observations are the values themselves.
+ * @export
+ * @class SeriesSketch
+ */
+export class SeriesSketch {
+    private maxLength: number;
+    private getTimestamp: (key: string) => number | undefined;
+    private blocks: SeriesBlock[];
+    private pending?: SeriesBlock;
+    private width: number;
+    private count: number;
+
+    /**
+     * Creates an instance of SeriesSketch.
+     * @param {number} maxLength - The most blocks kept, Infinity to keep every value.
+     * @param {(key: string) => number | undefined} getTimestamp - Looks up the timestamp of an observation by its key.
+     * @memberof SeriesSketch
+     */
+    constructor(maxLength: number, getTimestamp: (key: string) => number | undefined) {
+        if (!(maxLength >= 2)) {
+            throw new Error(`Series length must be at least 2, got ${maxLength}`);
+        }
+        this.maxLength = maxLength;
+        this.getTimestamp = getTimestamp;
+        this.blocks = [];
+        this.width = 1;
+        this.count = 0;
+    }
+
+    /**
+     * Adds the next value of the series.
+     * @param {number} value - The value.
+     * @param {string} [key] - The key of its observation, if timestamps are collected.
+     * @memberof SeriesSketch
+     */
+    add(value: number, key?: string): void {
+        this.count++;
+        if (this.width === 1) {
+            this.blocks.push({ sum: value, count: 1, timeSum: 0, timedCount: 0, key });
+        } else {
+            const block = this.pending || { sum: 0, count: 0, timeSum: 0, timedCount: 0 };
+            this.pending = block;
+            block.sum += value;
+            block.count++;
+            this.addTimestamp(block, key === undefined ? undefined : this.getTimestamp(key));
+            if (block.count < this.width) return;
+
+            this.blocks.push(block);
+            this.pending = undefined;
+        }
+
+        if (this.blocks.length > this.maxLength) {
+            this.compact();
+        }
+    }
+
+    /**
+     * Gets the number of values added.
+     * @return {number} - The number of values.
+     * @memberof SeriesSketch
+     */
+    getCount(): number {
+        return this.count;
+    }
+
+    /**
+     * Gets the series as observations, one per block, each averaging the values
+     * and the timestamps of its block.
+     * @return {NumericObservation[]} - The observations, in the order they were kept.
+     * @memberof SeriesSketch
+     */
+    getObservations(): NumericObservation[] {
+        const blocks = this.pending ? [...this.blocks, this.pending] : this.blocks;
+        return blocks.map(block => {
+            this.resolve(block);
+            return {
+                value: block.sum / block.count,
+                timestamp: block.timedCount > 0 ? block.timeSum / block.timedCount : undefined
+            };
+        });
+    }
+
+    /**
+     * Halves the number of blocks by merging adjacent ones, after ordering them
+     * by time if any has a timestamp. Like {@link SignatureExtractor.buildSeries},
+     * blocks without a timestamp are then left out. A last block without a partner
+     * is only half full at the new block size, so new values are averaged into it.
+     * @private
+     * @memberof SeriesSketch
+     */
+    private compact(): void {
+        this.blocks.forEach(block => this.resolve(block));
+        let blocks = this.blocks;
+        if (blocks.some(block => block.timedCount > 0)) {
+            // Array.prototype.sort is stable, so simultaneous blocks keep their order
+            blocks = blocks
+                .filter(block => block.timedCount > 0)
+                .sort((a, b) => a.timeSum / a.timedCount - b.timeSum / b.timedCount);
+        }
+
+        this.pending = blocks.length % 2 === 1 ? blocks[blocks.length - 1] : undefined;
+        this.blocks = [];
+        for (let i = 0; i + 1 < blocks.length; i += 2) {
+            const block = blocks[i];
+            const next = blocks[i + 1];
+            block.sum += next.sum;
+            block.count += next.count;
+            block.timeSum += next.timeSum;
+            block.timedCount += next.timedCount;
+            this.blocks.push(block);
+        }
+        this.width *= 2;
+    }
+
+    /**
+     * Looks up the timestamp of a single value that still has the key of its observation.
+     * @private
+     * @param {SeriesBlock} block - The block.
+     * @memberof SeriesSketch
+     */
+    private resolve(block: SeriesBlock): void {
+        if (block.key === undefined) return;
+        this.addTimestamp(block, this.getTimestamp(block.key));
+        block.key = undefined;
+    }
+
+    /**
+     * Adds the timestamp of a value to its block.
+     * @private
+     * @param {SeriesBlock} block - The block.
+     * @param {number} [timestamp] - The timestamp, if known.
+     * @memberof SeriesSketch
+     */
+    private addTimestamp(block: SeriesBlock, timestamp?: number): void {
+        if (timestamp === undefined) return;
+        block.timeSum += timestamp;
+        block.timedCount++;
+    }
+}
@@ -1,7 +1,7 @@
 import { SignatureExtractor } from './SignatureExtractor';
 import { DataFactory, Quad } from 'n3';
 
-const { namedNode, literal, quad } = DataFactory;
+const { namedNode, literal, blankNode, quad } = DataFactory;
 
 describe('SignatureExtractor', () => {
     let extractor: SignatureExtractor;
@@ -20,7 +20,34 @@ describe('SignatureExtractor', () => {
                 variance: 0,
                 skewness: 0,
                 entropy: 0,
-                fftEntropy: 0
+                fftEntropy: 0,
+                kurtosis: 0,
+                minimum: 0,
+                maximum: 0,
+                range: 0,
+                median: 0,
+                iqr: 0,
+                p5: 0,
+                p25: 0,
+                p75: 0,
+                p95: 0,
+                autocorrelation1: 0,
+                numericRatio: 0,
+                subjectCount: 0,
+                objectCount: 0,
+                graphCount: 0,
+                outDegreeMean: 0,
+                outDegreeMax: 0,
+                outDegreeVariance: 0,
+                iriRatio: 0,
+                literalRatio: 0,
+                blankNodeRatio: 0,
+                datatypeCount: 0,
+                datatypeEntropy: 0,
+                languageCount: 0,
+                languageEntropy: 0,
+                subjectEntropy: 0,
+                objectEntropy: 0
             });
         });
 
@@ -301,4 +328,534 @@ describe('SignatureExtractor', () => {
             expect(result.fftEntropy).toBeLessThan(3); // Should be less than high-entropy random data
         });
     });
+
+    describe('extractGroupedSignatures', () => {
+        const XSD_DOUBLE = namedNode('http://www.w3.org/2001/XMLSchema#double');
+        const TEMPERATURE = 'http://example.org/temperature';
+        const HUMIDITY = 'http://example.org/humidity';
+
+        const windowData = new Set<Quad>([
+            quad(namedNode('http://example.org/sensor1'), namedNode(TEMPERATURE), literal('20', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/sensor1'), namedNode(TEMPERATURE), literal('22', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/sensor1'), namedNode(HUMIDITY), literal('80', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/sensor2'), namedNode(TEMPERATURE), literal('24', XSD_DOUBLE)),
+            quad(namedNode('http://example.org/sensor2'), namedNode(HUMIDITY), literal('40', XSD_DOUBLE))
+        ]);
+
+        it('should return one signature per predicate next to the global one', () => {
+            const result = extractor.extractGroupedSignatures(windowData, 'predicate');
+
+            expect(result.groupBy).toBe('predicate');
+            expect(result.global).toEqual(extractor.extractSignature(windowData));
+            expect(Object.keys(result.groups).sort()).toEqual([HUMIDITY, TEMPERATURE]);
+            expect(result.groups[TEMPERATURE].tripleCount).toBe(3);
+            expect(result.groups[TEMPERATURE].variance).toBeCloseTo(4, 5); // variance of [20, 22, 24]
+            expect(result.groups[HUMIDITY].variance).toBeCloseTo(800, 5); // variance of [80, 40]
+            expect(result.groups[HUMIDITY].entropy).toBe(0);
+        });
+
+        it('should return one signature per subject', () => {
+            const result = extractor.extractGroupedSignatures(windowData, 'subject');
+
+            expect(Object.keys(result.groups).sort()).toEqual([
+                'http://example.org/sensor1',
+                'http://example.org/sensor2'
+            ]);
+            expect(result.groups['http://example.org/sensor1'].tripleCount).toBe(3);
+            expect(result.groups['http://example.org/sensor2'].entropy).toBeCloseTo(1, 5);
+        });
+
+        it('should return one signature per (subject, predicate) series', () => {
+            const result = extractor.extractGroupedSignatures(windowData, 'subject-predicate');
+
+            expect(Object.keys(result.groups)).toHaveLength(4);
+            const series = result.groups[`http://example.org/sensor1 ${TEMPERATURE}`];
+            expect(series.tripleCount).toBe(2);
+            expect(series.variance).toBeCloseTo(2, 5); // variance of [20, 22]
+        });
+
+        it('should return no groups for an empty window', () => {
+            const result = extractor.extractGroupedSignatures(new Set<Quad>(), 'predicate');
+
+            expect(result.groups).toEqual({});
+            expect(result.global.tripleCount).toBe(0);
+        });
+    });
+
+    describe('timestamp-ordered series', () => {
+        const RESULT_TIME = 'http://www.w3.org/ns/sosa/resultTime';
+        const XSD_DATETIME = namedNode('http://www.w3.org/2001/XMLSchema#dateTime');
+        const XSD_INTEGER = namedNode('http://www.w3.org/2001/XMLSchema#integer');
+
+        const observation = (id: number, value: number, time: string): Quad[] => [
+            quad(namedNode(`http://example.org/obs${id}`), namedNode('http://example.org/value'),
+                literal(String(value), XSD_INTEGER)),
+            quad(namedNode(`http://example.org/obs${id}`), namedNode(RESULT_TIME),
+                literal(time, XSD_DATETIME))
+        ];
+
+        // An alternating signal, inserted out of time order
+        const shuffled = new Set<Quad>([
+            ...observation(3, 0, '2024-01-01T00:00:03Z'),
+            ...observation(0, 1, '2024-01-01T00:00:00Z'),
+            ...observation(2, 1, '2024-01-01T00:00:02Z'),
+            ...observation(1, 0, '2024-01-01T00:00:01Z')
+        ]);
+        const ordered = new Set<Quad>([
+            ...observation(0, 1, '2024-01-01T00:00:00Z'),
+            ...observation(1, 0, '2024-01-01T00:00:01Z'),
+            ...observation(2, 1, '2024-01-01T00:00:02Z'),
+            ...observation(3, 0, '2024-01-01T00:00:03Z')
+        ]);
+
+        it('should make the FFT entropy independent of insertion order', () => {
+            const timedExtractor = new SignatureExtractor(false, { timestampPredicates: [RESULT_TIME] });
+
+            const fromShuffled = timedExtractor.extractSignature(shuffled);
+            const fromOrdered = timedExtractor.extractSignature(ordered);
+
+            expect(fromShuffled.fftEntropy).toBeCloseTo(fromOrdered.fftEntropy, 10);
+            expect(extractor.extractSignature(shuffled).fftEntropy)
+                .not.toBeCloseTo(extractor.extractSignature(ordered).fftEntropy, 5);
+        });
+
+        it('should not count timestamps as numeric values', () => {
+            const timedExtractor = new SignatureExtractor(false, { timestampPredicates: [RESULT_TIME] });
+
+            const result = timedExtractor.extractSignature(ordered);
+
+            expect(result.tripleCount).toBe(8);
+            expect(result.variance).toBeCloseTo(1 / 3, 10); // variance of [1, 0, 1, 0]
+        });
+
+        it('should fall back to window order when there are no timestamps', () => {
+            const timedExtractor = new SignatureExtractor(false, { timestampPredicates: [RESULT_TIME] });
+            const windowData = new Set<Quad>([
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('1', XSD_INTEGER)),
+                quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('5', XSD_INTEGER)),
+                quad(namedNode('http://example.org/s3'), namedNode('http://example.org/p1'), literal('2', XSD_INTEGER))
+            ]);
+
+            expect(timedExtractor.extractSignature(windowData)).toEqual(extractor.extractSignature(windowData));
+        });
+
+        it('should sort observations by time when building the series', () => {
+            const timedExtractor = new SignatureExtractor(false, { timestampPredicates: [RESULT_TIME] });
+
+            expect(timedExtractor.buildSeries([
+                { value: 3, timestamp: 300 },
+                { value: 1, timestamp: 100 },
+                { value: 9 },
+                { value: 2, timestamp: 200 }
+            ])).toEqual([1, 2, 3]);
+        });
+
+        it('should resample irregular observations onto a uniform grid', () => {
+            const resamplingExtractor = new SignatureExtractor(false, {
+                timestampPredicates: [RESULT_TIME],
+                resample: true,
+                resampleSize: 5
+            });
+
+            const series = resamplingExtractor.buildSeries([
+                { value: 0, timestamp: 0 },
+                { value: 10, timestamp: 1000 },
+                { value: 30, timestamp: 4000 },
+                { value: 20, timestamp: 4000 }
+            ]);
+
+            // Grid at 0, 1000, 2000, 3000 and 4000 ms, with the two last values averaged
+            expect(series).toHaveLength(5);
+            expect(series[0]).toBeCloseTo(0, 10);
+            expect(series[1]).toBeCloseTo(10, 10);
+            expect(series[2]).toBeCloseTo(15, 10);
+            expect(series[3]).toBeCloseTo(20, 10);
+            expect(series[4]).toBeCloseTo(25, 10);
+        });
+
+        it('should accept epoch milliseconds as timestamps', () => {
+            const timedExtractor = new SignatureExtractor(false, { timestampPredicates: [RESULT_TIME] });
+            const windowData = new Set<Quad>([
+                quad(namedNode('http://example.org/obs1'), namedNode(RESULT_TIME), literal('1700000000000', XSD_INTEGER))
+            ]);
+
+            expect(timedExtractor.collectTimestamps(windowData).get('http://example.org/obs1')).toBe(1700000000000);
+        });
+    });
+
+    describe('custom features', () => {
+        it('should expose the built-in features as registered features', () => {
+            expect(extractor.getFeatureNames()).toEqual([
+                'tripleCount', 'variance', 'skewness', 'entropy', 'fftEntropy', 'kurtosis', 'minimum', 'maximum',
+                'range', 'median', 'iqr', 'p5', 'p25', 'p75', 'p95', 'autocorrelation1', 'numericRatio',
+                'subjectCount', 'objectCount', 'graphCount', 'outDegreeMean', 'outDegreeMax', 'outDegreeVariance',
+                'iriRatio', 'literalRatio', 'blankNodeRatio', 'datatypeCount', 'datatypeEntropy', 'languageCount',
+                'languageEntropy', 'subjectEntropy', 'objectEntropy'
+            ]);
+            expect(extractor.hasFeature('variance')).toBe(true);
+            expect(extractor.hasFeature('maxValue')).toBe(false);
+        });
+
+        it('should include registered features in the signature', () => {
+            extractor.registerFeature('maxValue', (_windowData, context) =>
+                context.numericValues.length > 0 ? Math.max(...context.numericValues) : 0);
+            extractor.registerFeature('distinctSubjects', windowData =>
+                new Set(Array.from(windowData, q => q.subject.value)).size);
+
+            const windowData = new Set<Quad>([
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('4')),
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p2'), literal('9')),
+                quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('2'))
+            ]);
+
+            const result = extractor.extractSignature(windowData);
+
+            expect(result.maxValue).toBe(9);
+            expect(result.distinctSubjects).toBe(2);
+            expect(result.tripleCount).toBe(3);
+        });
+
+        it('should not allow a built-in feature to be registered twice', () => {
+            expect(() => extractor.registerFeature('entropy', () => 0)).toThrow();
+        });
+    });
+
+    describe('extractSignatureFrom', () => {
+        it('should extract the signature of serialised RDF', async () => {
+            const text = '@prefix ex: <http://example.org/> .\nex:s1 ex:p1 1, 2 .\nex:s2 ex:p1 3 .';
+
+            const result = await extractor.extractSignatureFrom({ text }, { format: 'Turtle' });
+
+            expect(result).toEqual(extractor.extractSignature(new Set([
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('1', namedNode('http://www.w3.org/2001/XMLSchema#integer'))),
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('2', namedNode('http://www.w3.org/2001/XMLSchema#integer'))),
+                quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p1'), literal('3', namedNode('http://www.w3.org/2001/XMLSchema#integer')))
+            ])));
+            expect(result.tripleCount).toBe(3);
+        });
+
+        it('should order values by timestamps that follow them in the stream', async () => {
+            const timed = new SignatureExtractor(true, { timestampPredicates: ['http://example.org/time'] });
+            const text = '@prefix ex: <http://example.org/> .\n' +
+                'ex:o1 ex:value 5 .\nex:o2 ex:value 1 .\nex:o3 ex:value 7 .\nex:o4 ex:value 3 .\n' +
+                'ex:o1 ex:time 3000 .\nex:o2 ex:time 1000 .\nex:o3 ex:time 4000 .\nex:o4 ex:time 2000 .';
+            const quads = async function* (): AsyncGenerator<Quad> {
+                for (const [subject, value, time] of [['o1', 5, 3000], ['o2', 1, 1000], ['o3', 7, 4000], ['o4', 3, 2000]]) {
+                    yield quad(namedNode(`http://example.org/${subject}`), namedNode('http://example.org/time'), literal(String(time)));
+                    yield quad(namedNode(`http://example.org/${subject}`), namedNode('http://example.org/value'), literal(String(value)));
+                }
+            };
+
+            const streamed = await timed.extractSignatureFrom({ text }, { format: 'Turtle' });
+            const grouped = await timed.streamGroupedSignatures(quads(), 'predicate');
+
+            // The series is 1, 3, 5, 7 rather than the window order 5, 1, 7, 3
+            expect(streamed.autocorrelation1).toBeCloseTo(0.25, 10);
+            expect(grouped.global).toEqual(streamed);
+            expect(grouped.groups['http://example.org/value'].autocorrelation1).toBeCloseTo(0.25, 10);
+            expect(Object.keys(grouped.groups)).toEqual(['http://example.org/time', 'http://example.org/value']);
+        });
+
+        it('should pass the quads to custom features', async () => {
+            extractor.registerFeature('subjectLength', windowData =>
+                Array.from(windowData).reduce((sum, { subject }) => sum + subject.value.length, 0));
+
+            const result = await extractor.extractSignatureFrom({ text: '<http://example.org/s> <http://example.org/p> 1 .' }, { format: 'Turtle' });
+
+            expect(result.subjectLength).toBe('http://example.org/s'.length);
+        });
+
+        it('should reject invalid RDF', async () => {
+            await expect(extractor.extractSignatureFrom({ text: '<http://example.org/s> <http://example.org/p> .' }, { format: 'N-Triples' }))
+                .rejects.toThrow(/^1: /);
+        });
+    });
+
+    describe('extraction modes', () => {
+        let seed: number;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        const largeWindow = new Set<Quad>();
+        for (let i = 0; i < 5000; i++) {
+            largeWindow.add(quad(
+                namedNode(`http://example.org/s${i}`),
+                namedNode(`http://example.org/p${i % 10}`),
+                literal(String(Math.sin(i / 50) * 100 + (i % 7)))
+            ));
+        }
+        const bounds = { sampleSize: 500, maxFftSize: 64, sketchWidth: 4, random };
+
+        beforeEach(() => {
+            seed = 7;
+        });
+
+        it('should keep the mode per instance', () => {
+            const exact = new SignatureExtractor(true);
+            const approximate = new SignatureExtractor(false);
+
+            expect(exact.getMode()).toBe('exact');
+            expect(approximate.getMode()).toBe('approximate');
+            expect(new SignatureExtractor().getMode()).toBe('exact');
+        });
+
+        it('should report the exact extraction of a large window', () => {
+            const { signature, extraction } = new SignatureExtractor(true, bounds).extractSignatureWithReport(largeWindow);
+
+            expect(extraction).toEqual({
+                mode: 'exact', numericValueCount: 5000, sampleSize: 5000, fftSize: 5000, entropySketched: false, structureSketched: false, rejectedLiteralCount: 0
+            });
+            expect(signature).toEqual(new SignatureExtractor(true).extractSignature(largeWindow));
+            expect(signature.entropy).toBeCloseTo(Math.log2(10), 5);
+        });
+
+        it('should bound the cost of a large window in the approximate mode', () => {
+            const exact = new SignatureExtractor(true).extractSignature(largeWindow);
+            const { signature, extraction } = new SignatureExtractor(false, bounds).extractSignatureWithReport(largeWindow);
+
+            // 5000 values are averaged in blocks of 128, the last one partial
+            expect(extraction).toEqual({
+                mode: 'approximate', numericValueCount: 5000, sampleSize: 500, fftSize: 40, entropySketched: true, structureSketched: true,
+                rejectedLiteralCount: 0, memoryBound: 500 + 64 + 6 * 4
+            });
+            expect(signature.tripleCount).toBe(5000);
+            expect(signature.subjectCount).toBeLessThanOrEqual(4);
+            expect(signature.variance).toBeGreaterThan(exact.variance * 0.8);
+            expect(signature.variance).toBeLessThan(exact.variance * 1.2);
+            // Merged predicates can only lower the entropy
+            expect(signature.entropy).toBeLessThanOrEqual(exact.entropy);
+            expect(signature.entropy).toBeGreaterThan(0);
+        });
+
+        it('should compute the series features from every value in the approximate mode', () => {
+            const exact = new SignatureExtractor(true).extractSignature(largeWindow);
+            const { signature, extraction } = new SignatureExtractor(false, { ...bounds, maxFftSize: 8192 }).extractSignatureWithReport(largeWindow);
+
+            expect(extraction.sampleSize).toBe(500);
+            expect(extraction.fftSize).toBe(5000);
+            expect(signature.autocorrelation1).toBeCloseTo(exact.autocorrelation1, 10);
+            expect(signature.fftEntropy).toBeCloseTo(exact.fftEntropy, 10);
+        });
+
+        it('should sample every window the same way by default', () => {
+            const seeded = { sampleSize: 500, maxFftSize: 64, sketchWidth: 4 };
+            const approximate = new SignatureExtractor(false, seeded);
+
+            const first = approximate.extractSignature(largeWindow);
+
+            expect(approximate.extractSignature(largeWindow)).toEqual(first);
+            expect(new SignatureExtractor(false, seeded).extractSignature(largeWindow)).toEqual(first);
+            expect(new SignatureExtractor(false, { ...seeded, seed: 2 }).extractSignature(largeWindow).variance).not.toBe(first.variance);
+        });
+
+        it('should give the exact signature for windows within the bounds', () => {
+            const windowData = new Set<Quad>([
+                quad(namedNode('http://example.org/s1'), namedNode('http://example.org/p1'), literal('3')),
+                quad(namedNode('http://example.org/s2'), namedNode('http://example.org/p2'), literal('8')),
+                quad(namedNode('http://example.org/s3'), namedNode('http://example.org/p1'), literal('1'))
+            ]);
+
+            const approximate = new SignatureExtractor(false, bounds).extractSignatureWithReport(windowData);
+
+            expect(approximate.signature).toEqual(new SignatureExtractor(true).extractSignature(windowData));
+            expect(approximate.extraction).toEqual({
+                mode: 'approximate', numericValueCount: 3, sampleSize: 3, fftSize: 3, entropySketched: false, structureSketched: false,
+                rejectedLiteralCount: 0, memoryBound: 500 + 64 + 6 * 4
+            });
+        });
+
+        it('should report the extraction of grouped signatures', () => {
+            const result = new SignatureExtractor(false, bounds).extractGroupedSignatures(largeWindow, 'predicate');
+
+            expect(result.extraction.sampleSize).toBe(500);
+            expect(result.groups['http://example.org/p0'].tripleCount).toBe(500);
+        });
+
+        it('should average blocks when bounding a series', () => {
+            expect(extractor.boundSeries([1, 3, 5, 7, 9, 11], 3)).toEqual([2, 6, 10]);
+            expect(extractor.boundSeries([1, 2], 3)).toEqual([1, 2]);
+        });
+
+        it('should reject invalid bounds', () => {
+            expect(() => new SignatureExtractor(false, { maxFftSize: 1 })).toThrow('Approximation bounds');
+        });
+    });
+
+    describe('spectral features', () => {
+        const windowData = new Set<Quad>(Array.from({ length: 64 }, (_, i) => quad(
+            namedNode(`http://example.org/s${i}`),
+            namedNode('http://example.org/p1'),
+            literal(String(10 + Math.sin(Math.PI * i / 4)))
+        )));
+
+        it('should add the spectral features to the signature on request', () => {
+            const spectral = new SignatureExtractor(true, { spectralFeatures: true, spectralBands: [0.2] });
+
+            const result = spectral.extractSignature(windowData);
+
+            expect(spectral.getFeatureNames().slice(-5)).toEqual([
+                'dominantFrequency', 'spectralCentroid', 'spectralFlatness', 'bandEnergy0', 'bandEnergy1'
+            ]);
+            expect(result.dominantFrequency).toBe(0.125);
+            expect(result.bandEnergy0).toBeCloseTo(1, 5);
+            expect(result.fftEntropy).toBe(extractor.extractSignature(windowData).fftEntropy);
+        });
+
+        it('should apply the window function to the FFT entropy', () => {
+            const hann = new SignatureExtractor(true, { fftWindow: 'hann' });
+
+            expect(hann.extractSignature(windowData).fftEntropy).not.toBeCloseTo(extractor.extractSignature(windowData).fftEntropy, 3);
+            expect(hann.calculateSpectralFeatures([1, 2]).bandEnergies).toHaveLength(3);
+        });
+    });
+
+    describe('distribution statistics', () => {
+        const windowOf = (values: string[]) => new Set<Quad>(values.map((value, i) =>
+            quad(namedNode(`http://example.org/s${i}`), namedNode('http://example.org/p1'), literal(value))));
+
+        it('should describe the distribution of the numeric values', () => {
+            const result = extractor.extractSignature(windowOf(['4', '1', '9', '3', '7', '2', '8', '5', '10', '6']));
+
+            expect(result.minimum).toBe(1);
+            expect(result.maximum).toBe(10);
+            expect(result.range).toBe(9);
+            expect(result.median).toBe(5.5);
+            expect(result.iqr).toBeCloseTo(4.5, 10); // 7.75 - 3.25
+            expect(result.p5).toBeCloseTo(1.45, 10);
+            expect(result.p95).toBeCloseTo(9.55, 10);
+            expect(result.kurtosis).toBeCloseTo(-1.2, 10); // Excess kurtosis of a uniform sample of 1..10
+        });
+
+        it('should compute the autocorrelation of the series', () => {
+            const alternating = extractor.extractSignature(windowOf(['1', '-1', '1', '-1', '1', '-1']));
+            const trending = extractor.extractSignature(windowOf(['1', '2', '3', '4', '5', '6']));
+
+            expect(alternating.autocorrelation1).toBeCloseTo(-5 / 6, 10);
+            expect(trending.autocorrelation1).toBeCloseTo(0.5, 10);
+        });
+
+        it('should compute the share of numeric literals', () => {
+            const windowData = windowOf(['1', 'two', '3', 'four']);
+            windowData.add(quad(namedNode('http://example.org/s'), namedNode('http://example.org/p2'), namedNode('http://example.org/o')));
+
+            expect(extractor.extractSignature(windowData).numericRatio).toBe(0.5);
+        });
+
+        it('should leave timestamps out of the share of numeric literals', () => {
+            const timed = new SignatureExtractor(true, { timestampPredicates: ['http://example.org/time'] });
+            const windowData = windowOf(['1', 'two']);
+            windowData.add(quad(namedNode('http://example.org/s0'), namedNode('http://example.org/time'), literal('2024-01-01T00:00:00Z')));
+            windowData.add(quad(namedNode('http://example.org/s1'), namedNode('http://example.org/time'), literal('2024-01-01T00:00:01Z')));
+
+            expect(timed.extractSignature(windowData).numericRatio).toBe(0.5);
+        });
+
+        it('should use the configured percentiles and lags', () => {
+            const configured = new SignatureExtractor(true, { percentiles: [50, 99], autocorrelationLags: [2] });
+
+            const result = configured.extractSignature(windowOf(['1', '-1', '1', '-1', '1', '-1']));
+
+            expect(configured.hasFeature('p5')).toBe(false);
+            expect(result.p50).toBe(result.median);
+            expect(result.p99).toBe(1);
+            expect(result.autocorrelation2).toBeCloseTo(4 / 6, 10);
+            expect(() => new SignatureExtractor(false, { percentiles: [101] })).toThrow('Percentiles must be between 0 and 100');
+            expect(() => new SignatureExtractor(false, { autocorrelationLags: [0] })).toThrow('Autocorrelation lags must be positive');
+        });
+    });
+
+    describe('graph structure', () => {
+        const ex = (name: string) => namedNode(`http://example.org/${name}`);
+        const windowData = new Set<Quad>([
+            quad(ex('s1'), ex('p1'), literal('1')),
+            quad(ex('s1'), ex('p2'), literal('one', 'en')),
+            quad(ex('s1'), ex('p3'), literal('eins', 'de'), ex('g1')),
+            quad(ex('s2'), ex('p1'), ex('s1')),
+            quad(ex('s2'), ex('p2'), blankNode('b0')),
+            quad(blankNode('b0'), ex('p1'), literal('1'))
+        ]);
+
+        it('should count the distinct subjects, objects and graphs', () => {
+            const result = extractor.extractSignature(windowData);
+
+            expect(result.subjectCount).toBe(3);
+            expect(result.objectCount).toBe(5); // "1" is the object of two quads
+            expect(result.graphCount).toBe(2);
+        });
+
+        it('should describe the out-degrees of the subjects', () => {
+            const result = extractor.extractSignature(windowData);
+
+            expect(result.outDegreeMean).toBe(2);
+            expect(result.outDegreeMax).toBe(3);
+            expect(result.outDegreeVariance).toBe(1); // Degrees 3, 2 and 1
+        });
+
+        it('should compute the shares of the object term types', () => {
+            const result = extractor.extractSignature(windowData);
+
+            expect(result.literalRatio).toBeCloseTo(4 / 6, 10);
+            expect(result.iriRatio).toBeCloseTo(1 / 6, 10);
+            expect(result.blankNodeRatio).toBeCloseTo(1 / 6, 10);
+        });
+
+        it('should describe the datatypes and language tags of the literals', () => {
+            const result = extractor.extractSignature(windowData);
+
+            expect(result.datatypeCount).toBe(2); // xsd:string and rdf:langString
+            expect(result.datatypeEntropy).toBeCloseTo(1, 10);
+            expect(result.languageCount).toBe(2);
+            expect(result.languageEntropy).toBeCloseTo(1, 10);
+        });
+
+        it('should compute the entropy of the subjects and objects', () => {
+            const result = extractor.extractSignature(windowData);
+            const subjectEntropy = -(0.5 * Math.log2(0.5) + (1 / 3) * Math.log2(1 / 3) + (1 / 6) * Math.log2(1 / 6));
+
+            expect(result.subjectEntropy).toBeCloseTo(subjectEntropy, 10);
+            expect(result.objectEntropy).toBeCloseTo(-((1 / 3) * Math.log2(1 / 3) + 4 * (1 / 6) * Math.log2(1 / 6)), 10);
+        });
+    });
+
+    describe('literal coercion', () => {
+        const ex = (name: string) => namedNode(`http://example.org/${name}`);
+        const xsd = (type: string) => namedNode(`http://www.w3.org/2001/XMLSchema#${type}`);
+        const windowData = new Set<Quad>([
+            quad(ex('s1'), ex('p'), literal('12 apples')),
+            quad(ex('s2'), ex('p'), literal('4', xsd('short'))),
+            quad(ex('s3'), ex('p'), literal('6', xsd('long'))),
+            quad(ex('s4'), ex('p'), literal('8')),
+            quad(ex('s5'), ex('p'), literal('1000', xsd('byte')))
+        ]);
+
+        it('should count the rejected literals', () => {
+            const { signature, extraction } = extractor.extractSignatureWithReport(windowData);
+
+            expect(extraction.numericValueCount).toBe(3);
+            expect(extraction.rejectedLiteralCount).toBe(2);
+            expect(signature.minimum).toBe(4);
+        });
+
+        it('should read strings only in the lenient policy', () => {
+            const strict = new SignatureExtractor(false, { coercion: 'strict' });
+
+            const { signature, extraction } = strict.extractSignatureWithReport(windowData);
+
+            expect(extraction.numericValueCount).toBe(2);
+            expect(extraction.rejectedLiteralCount).toBe(1);
+            expect(signature.maximum).toBe(6);
+        });
+
+        it('should apply a custom mapper', () => {
+            const mapped = new SignatureExtractor(false, { coercion: term => term.value === '12 apples' ? 12 : undefined });
+
+            expect(mapped.extractSignatureWithReport(windowData).extraction.numericValueCount).toBe(3);
+            expect(mapped.extractSignature(windowData).maximum).toBe(12);
+        });
+
+        it('should read date-times only on request', () => {
+            const dated = new Set<Quad>([...windowData, quad(ex('s6'), ex('resultTime'), literal('2024-01-01T00:00:00Z', xsd('dateTime')))]);
+
+            expect(extractor.extractSignature(dated).maximum).toBe(8);
+            expect(new SignatureExtractor(false, { coerceDateTimes: true }).extractSignature(dated).maximum).toBe(Date.UTC(2024, 0, 1));
+        });
+    });
 });
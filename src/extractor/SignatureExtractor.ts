@@ -1,23 +1,257 @@
-import {Quad} from "n3";
-import { StreamSignature } from "../Types";
-const fft = require('fft-js');
+import {Quad, termToId} from "n3";
+import {
+    ExtractionMode,
+    FeatureContext,
+    FeatureExtractor,
+    GroupedStreamSignature,
+    LiteralCoercion,
+    NumericMoments,
+    NumericObservation,
+    RdfInput,
+    RdfParseOptions,
+    ReportedSignature,
+    SignatureExtractorOptions,
+    SignatureGrouping,
+    SpectralFeatures,
+    StreamSignature
+} from "../Types";
+import { RdfReader } from "../parsing/RdfReader";
+import { FeatureRegistry } from "./FeatureRegistry";
+import { LiteralCoercer } from "./LiteralCoercer";
+import { PredicateSketch } from "./PredicateSketch";
+import { ReservoirSampler } from "./ReservoirSampler";
+import { SeriesSketch } from "./SeriesSketch";
+import { SpectralAnalyzer } from "./SpectralAnalyzer";
+import { StructureCounter } from "./StructureCounter";
+
+/**
+ * The values collected from the quads of a window, from which its signature is computed.
+ * @interface WindowAccumulator
+ */
+interface WindowAccumulator {
+    tripleCount: number;
+    literalCount: number;
+    timestampCount: number;
+    rejectedLiteralCount: number;
+    series: SeriesSketch; // Every numeric value in the exact mode, block averages in the approximate mode
+    sampler?: ReservoirSampler<number>; // Only in the approximate mode, for the moments and quantiles
+    predicates: PredicateSketch;
+    structure: StructureCounter; // Hashed into buckets beyond the sketch width in the approximate mode
+    quads?: Set<Quad>; // Only kept for custom features
+}
+
 /**
  * It extracts the statistical features from a stream of RDF quads.
  * The class provides methods to compute various statistics such as
  * variance, skewness, and entropy based on the RDF data.
  * The RDF data is expected to be for each window chunk of the stream.
+ * Every feature of the signature, including the built-in ones, is computed
+ * by an extractor registered in its {@link FeatureRegistry}.
+ * In the exact mode, the default, every value of the window is used. In the approximate
+ * mode, the cost and the memory of large windows are bounded: the moments and quantiles
+ * are computed from a reservoir sample of the numeric values, the ordered series is
+ * block-averaged as it streams in to a maximum length before the FFT and the
+ * autocorrelation, and the predicates and the terms of the graph structure are counted
+ * in sketches. Windows within these bounds get the same signature in both modes. The sampling is seeded afresh for every window,
+ * so the same window always gets the same signature.
  * @export
  * @class SignatureExtractor
  */
 export class SignatureExtractor {
 
-    private static highAccuracy: boolean = false;
+    private highAccuracy: boolean;
+    private timestampPredicates: Set<string>;
+    private resample: boolean;
+    private resampleSize?: number;
+    private sampleSize: number;
+    private maxFftSize: number;
+    private sketchWidth: number;
+    private seed: number;
+    private random?: () => number;
+    private spectralAnalyzer: SpectralAnalyzer;
+    private percentiles: number[];
+    private autocorrelationLags: number[];
+    private sortedValues: WeakMap<number[], number[]>;
+    private featureRegistry: FeatureRegistry;
+    private customFeatures: boolean;
+    private coercer: LiteralCoercer;
+
     /**
      * Creates an instance of SignatureExtractor.
+     * @param {boolean} [highAccuracy] - Whether to extract signatures exactly rather than approximately, defaults to true.
+     * @param {SignatureExtractorOptions} [options] - Options controlling how the numeric series is built and the approximation bounds.
+     * @memberof SignatureExtractor
+     */
+    constructor(highAccuracy: boolean = true, options: SignatureExtractorOptions = {}) {
+        this.highAccuracy = highAccuracy;
+        this.timestampPredicates = new Set(options.timestampPredicates || []);
+        this.resample = options.resample || false;
+        this.resampleSize = options.resampleSize;
+        this.sampleSize = options.sampleSize ?? 10000;
+        this.maxFftSize = options.maxFftSize ?? 4096;
+        this.sketchWidth = options.sketchWidth ?? 1024;
+        this.seed = options.seed ?? 1;
+        this.random = options.random;
+        if (!(this.sampleSize >= 1) || !(this.maxFftSize >= 2) || !(this.sketchWidth >= 1)) {
+            throw new Error('Approximation bounds need a sample size and sketch width of at least 1 and an FFT size of at least 2');
+        }
+        this.spectralAnalyzer = new SpectralAnalyzer({
+            window: options.fftWindow,
+            sizing: options.fftSizing,
+            bands: options.spectralBands
+        });
+        this.percentiles = options.percentiles || [5, 25, 75, 95];
+        this.autocorrelationLags = options.autocorrelationLags || [1];
+        if (this.percentiles.some(percentile => !(percentile >= 0 && percentile <= 100))) {
+            throw new Error(`Percentiles must be between 0 and 100, got [${this.percentiles.join(', ')}]`);
+        }
+        if (this.autocorrelationLags.some(lag => !Number.isInteger(lag) || lag < 1)) {
+            throw new Error(`Autocorrelation lags must be positive whole numbers, got [${this.autocorrelationLags.join(', ')}]`);
+        }
+        this.coercer = new LiteralCoercer(options.coercion, options.coerceDateTimes);
+        this.sortedValues = new WeakMap();
+        this.featureRegistry = new FeatureRegistry();
+        this.customFeatures = false;
+        this.registerBuiltInFeatures(options.spectralFeatures || false);
+    }
+
+    /**
+     * Gets the extraction mode of this extractor.
+     * @return {ExtractionMode} - 'exact' if created with high accuracy, 'approximate' otherwise.
+     * @memberof SignatureExtractor
+     */
+    getMode(): ExtractionMode {
+        return this.highAccuracy ? 'exact' : 'approximate';
+    }
+
+    /**
+     * Registers a custom feature, which is then computed for every window
+     * and included in the signature under its name.
+     * @param {string} name - The name of the feature in the signature.
+     * @param {FeatureExtractor} extractor - The function computing the feature for a window.
      * @memberof SignatureExtractor
      */
-    constructor(highAccuracy: boolean = false) {
-        SignatureExtractor.highAccuracy = highAccuracy;
+    registerFeature(name: string, extractor: FeatureExtractor): void {
+        this.featureRegistry.register(name, extractor);
+        this.customFeatures = true;
+    }
+
+    /**
+     * Checks whether custom features are registered, which are computed from the quads of a window.
+     * @return {boolean} - True if any custom feature is registered.
+     * @memberof SignatureExtractor
+     */
+    hasCustomFeatures(): boolean {
+        return this.customFeatures;
+    }
+
+    /**
+     * Checks whether a feature is registered.
+     * @param {string} name - The name of the feature.
+     * @return {boolean} - True if the feature is part of the signature.
+     * @memberof SignatureExtractor
+     */
+    hasFeature(name: string): boolean {
+        return this.featureRegistry.has(name);
+    }
+
+    /**
+     * Gets the names of all features of the signature.
+     * @return {string[]} - The feature names.
+     * @memberof SignatureExtractor
+     */
+    getFeatureNames(): string[] {
+        return this.featureRegistry.getFeatureNames();
+    }
+
+    /**
+     * Computes all registered features from the values collected from a window.
+     * @param {Set<Quad>} windowData - The quads of the window.
+     * @param {FeatureContext} context - The values collected from the window.
+     * @return {StreamSignature} - The stream signature.
+     * @memberof SignatureExtractor
+     */
+    computeFeatures(windowData: Set<Quad>, context: FeatureContext): StreamSignature {
+        return this.featureRegistry.computeFeatures(windowData, context);
+    }
+
+    /**
+     * Registers the built-in features of the signature.
+     * @private
+     * @param {boolean} spectralFeatures - Whether to register the spectral features next to the FFT entropy.
+     * @memberof SignatureExtractor
+     */
+    private registerBuiltInFeatures(spectralFeatures: boolean): void {
+        this.featureRegistry.register('tripleCount', (_windowData, context) => context.tripleCount);
+        this.featureRegistry.register('variance', (_windowData, context) => this.calculateVariance(context.moments));
+        this.featureRegistry.register('skewness', (_windowData, context) => this.calculateSkewness(context.moments));
+        this.featureRegistry.register('entropy', (_windowData, context) =>
+            this.calculateEntropy(context.predicateCounts, context.tripleCount));
+        this.featureRegistry.register('fftEntropy', (_windowData, context) => this.calculateFFTEntropy(context.series));
+        this.featureRegistry.register('kurtosis', (_windowData, context) => this.calculateKurtosis(context.moments));
+        this.featureRegistry.register('minimum', (_windowData, context) => this.calculateQuantile(context.numericValues, 0));
+        this.featureRegistry.register('maximum', (_windowData, context) => this.calculateQuantile(context.numericValues, 1));
+        this.featureRegistry.register('range', (_windowData, context) =>
+            this.calculateQuantile(context.numericValues, 1) - this.calculateQuantile(context.numericValues, 0));
+        this.featureRegistry.register('median', (_windowData, context) => this.calculateQuantile(context.numericValues, 0.5));
+        this.featureRegistry.register('iqr', (_windowData, context) =>
+            this.calculateQuantile(context.numericValues, 0.75) - this.calculateQuantile(context.numericValues, 0.25));
+        for (const percentile of this.percentiles) {
+            this.featureRegistry.register(`p${percentile}`, (_windowData, context) =>
+                this.calculateQuantile(context.numericValues, percentile / 100));
+        }
+        for (const lag of this.autocorrelationLags) {
+            this.featureRegistry.register(`autocorrelation${lag}`, (_windowData, context) =>
+                this.calculateAutocorrelation(context.series, lag));
+        }
+        this.featureRegistry.register('numericRatio', (_windowData, context) =>
+            this.calculateRatio(context.numericCount, context.literalCount - context.timestampCount));
+        this.registerStructuralFeatures();
+        if (!spectralFeatures) return;
+
+        this.featureRegistry.register('dominantFrequency', (_windowData, context) =>
+            this.spectralAnalyzer.getFeatures(context.series).dominantFrequency);
+        this.featureRegistry.register('spectralCentroid', (_windowData, context) =>
+            this.spectralAnalyzer.getFeatures(context.series).spectralCentroid);
+        this.featureRegistry.register('spectralFlatness', (_windowData, context) =>
+            this.spectralAnalyzer.getFeatures(context.series).spectralFlatness);
+        for (let band = 0; band < this.spectralAnalyzer.getBandCount(); band++) {
+            this.featureRegistry.register(`bandEnergy${band}`, (_windowData, context) =>
+                this.spectralAnalyzer.getFeatures(context.series).bandEnergies[band]);
+        }
+    }
+
+    /**
+     * Registers the built-in features describing the shape of the graph of a window.
+     * @private
+     * @memberof SignatureExtractor
+     */
+    private registerStructuralFeatures(): void {
+        this.featureRegistry.register('subjectCount', (_windowData, context) => context.structure.subjects.size);
+        this.featureRegistry.register('objectCount', (_windowData, context) => context.structure.objects.size);
+        this.featureRegistry.register('graphCount', (_windowData, context) => context.structure.graphs.size);
+        this.featureRegistry.register('outDegreeMean', (_windowData, context) =>
+            this.calculateMoments(Array.from(context.structure.subjects.values())).mean);
+        this.featureRegistry.register('outDegreeMax', (_windowData, context) =>
+            Array.from(context.structure.subjects.values()).reduce((max, degree) => Math.max(max, degree), 0));
+        this.featureRegistry.register('outDegreeVariance', (_windowData, context) =>
+            this.calculateVariance(this.calculateMoments(Array.from(context.structure.subjects.values()))));
+        this.featureRegistry.register('iriRatio', (_windowData, context) =>
+            this.calculateRatio(context.structure.objectTermTypes.get('NamedNode'), context.tripleCount));
+        this.featureRegistry.register('literalRatio', (_windowData, context) =>
+            this.calculateRatio(context.structure.objectTermTypes.get('Literal'), context.tripleCount));
+        this.featureRegistry.register('blankNodeRatio', (_windowData, context) =>
+            this.calculateRatio(context.structure.objectTermTypes.get('BlankNode'), context.tripleCount));
+        this.featureRegistry.register('datatypeCount', (_windowData, context) => context.structure.datatypes.size);
+        this.featureRegistry.register('datatypeEntropy', (_windowData, context) =>
+            this.calculateEntropy(context.structure.datatypes, context.literalCount));
+        this.featureRegistry.register('languageCount', (_windowData, context) => context.structure.languages.size);
+        this.featureRegistry.register('languageEntropy', (_windowData, context) =>
+            this.calculateEntropy(context.structure.languages, this.sumCounts(context.structure.languages)));
+        this.featureRegistry.register('subjectEntropy', (_windowData, context) =>
+            this.calculateEntropy(context.structure.subjects, context.tripleCount));
+        this.featureRegistry.register('objectEntropy', (_windowData, context) =>
+            this.calculateEntropy(context.structure.objects, context.tripleCount));
     }
 
     /**
@@ -27,58 +261,496 @@ export class SignatureExtractor {
      * @memberof SignatureExtractor
      */
     extractSignature(windowData: Set<Quad>): StreamSignature {
-        const tripleCount = windowData.size;
-        const numericValues: number[] = [];
+        return this.computeSignature(windowData, this.collectTimestamps(windowData)).signature;
+    }
 
-        // Collect the numeric values from the quads
+    /**
+     * Extracts statistical features from a window of RDF quads, reporting the
+     * extraction mode and how many values were used.
+     * @param {Set<Quad>} windowData - The set of RDF quads representing the window data.
+     * @return {ReportedSignature} - The extracted stream signature and the report of its extraction.
+     * @memberof SignatureExtractor
+     */
+    extractSignatureWithReport(windowData: Set<Quad>): ReportedSignature {
+        return this.computeSignature(windowData, this.collectTimestamps(windowData));
+    }
+
+    /**
+     * Extracts statistical features from serialised RDF, treating all its quads as one window.
+     * The input is parsed as a stream rather than read into memory as a whole.
+     * @param {RdfInput} input - The text, file path or readable stream to analyse.
+     * @param {RdfParseOptions} [options] - The format (inferred from the file extension by default) and base IRI.
+     * @return {Promise<StreamSignature>} - The extracted stream signature.
+     * @memberof SignatureExtractor
+     */
+    async extractSignatureFrom(input: RdfInput, options: RdfParseOptions = {}): Promise<StreamSignature> {
+        return (await this.streamSignatureWithReport(new RdfReader().quads(input, options))).signature;
+    }
+
+    /**
+     * Extracts statistical features from a stream of quads, treating all of them as one window.
+     * The quads are folded into the statistics as they arrive and are not kept, unless
+     * custom features are registered, which are computed from the quads themselves.
+     * @param {AsyncIterable<Quad>} quads - The quads of the window.
+     * @return {Promise<ReportedSignature>} - The extracted stream signature and the report of its extraction.
+     * @memberof SignatureExtractor
+     */
+    async streamSignatureWithReport(quads: AsyncIterable<Quad>): Promise<ReportedSignature> {
+        return (await this.streamSignatures(quads)).global;
+    }
+
+    /**
+     * Extracts the global signature of a stream of quads, treated as one window,
+     * together with a signature for each group of quads. Like
+     * {@link SignatureExtractor.streamSignatureWithReport}, the quads are not kept.
+     * @param {AsyncIterable<Quad>} quads - The quads of the window.
+     * @param {SignatureGrouping} groupBy - How the quads are grouped into series.
+     * @return {Promise<GroupedStreamSignature>} - The global signature and the signature of every group.
+     * @memberof SignatureExtractor
+     */
+    async streamGroupedSignatures(quads: AsyncIterable<Quad>, groupBy: SignatureGrouping): Promise<GroupedStreamSignature> {
+        const { global, groups } = await this.streamSignatures(quads, groupBy);
+        return {
+            global: global.signature,
+            groupBy,
+            groups,
+            extraction: global.extraction
+        };
+    }
+
+    /**
+     * Folds a stream of quads into the accumulators of the window and, if grouped,
+     * of its groups. Timestamps are collected along the way, so observations may
+     * come before or after their timestamp in the stream.
+     * @private
+     * @param {AsyncIterable<Quad>} quads - The quads of the window.
+     * @param {SignatureGrouping} [groupBy] - How the quads are grouped into series, if at all.
+     * @return {Promise<{ global: ReportedSignature; groups: Record<string, StreamSignature> }>} - The signatures.
+     * @memberof SignatureExtractor
+     */
+    private async streamSignatures(
+        quads: AsyncIterable<Quad>,
+        groupBy?: SignatureGrouping
+    ): Promise<{ global: ReportedSignature; groups: Record<string, StreamSignature> }> {
+        const timestamps = new Map<string, number>();
+        const global = this.createAccumulator(this.customFeatures, timestamps);
+        const groupAccumulators = new Map<string, WindowAccumulator>();
+
+        for await (const quad of quads) {
+            this.addTimestamp(timestamps, quad);
+            this.accumulate(global, quad);
+            if (!groupBy) continue;
+
+            const groupName = this.getGroupName(quad, groupBy);
+            let group = groupAccumulators.get(groupName);
+            if (!group) {
+                group = this.createAccumulator(this.customFeatures, timestamps);
+                groupAccumulators.set(groupName, group);
+            }
+            this.accumulate(group, quad);
+        }
+
+        const groups: Record<string, StreamSignature> = {};
+        for (const [groupName, group] of groupAccumulators) {
+            groups[groupName] = this.finishSignature(group, group.quads || new Set()).signature;
+        }
+        return {
+            global: this.finishSignature(global, global.quads || new Set()),
+            groups
+        };
+    }
+
+    /**
+     * Computes the signature of a set of quads, using the given event timestamps
+     * to order the numeric values.
+     * @private
+     * @param {Set<Quad>} windowData - The set of RDF quads to compute the signature of.
+     * @param {Map<string, number>} timestamps - The event timestamps, keyed by observation.
+     * @return {ReportedSignature} - The extracted stream signature and the report of its extraction.
+     * @memberof SignatureExtractor
+     */
+    private computeSignature(windowData: Set<Quad>, timestamps: Map<string, number>): ReportedSignature {
+        const accumulator = this.createAccumulator(false, timestamps);
         for (const quad of windowData) {
-            const objectValue = quad.object.value;
-            
-            // Try to parse numeric values from the object
-            if (quad.object.termType === 'Literal') {
-                // Handle different numeric datatypes
-                if (quad.object.datatype) {
-                    const datatypeValue = quad.object.datatype.value;
-                    if (datatypeValue.includes('integer') || 
-                        datatypeValue.includes('decimal') || 
-                        datatypeValue.includes('double') || 
-                        datatypeValue.includes('float')) {
-                        const numValue = parseFloat(objectValue);
-                        if (!isNaN(numValue)) {
-                            numericValues.push(numValue);
-                        }
-                    } else if (datatypeValue.includes('string')) {
-                        // Try to parse string literals that might contain numbers
-                        const numValue = parseFloat(objectValue);
-                        if (!isNaN(numValue)) {
-                            numericValues.push(numValue);
-                        }
-                    }
-                } else {
-                    // Try to parse as number even without explicit datatype
-                    const numValue = parseFloat(objectValue);
-                    if (!isNaN(numValue)) {
-                        numericValues.push(numValue);
-                    }
-                }
+            this.accumulate(accumulator, quad);
+        }
+        return this.finishSignature(accumulator, windowData);
+    }
+
+    /**
+     * Creates an empty accumulator for the values of a window.
+     * @private
+     * @param {boolean} keepQuads - Whether to keep the quads themselves, which custom features are computed from.
+     * @param {Map<string, number>} timestamps - The event timestamps of the window, keyed by observation, which may still be filled in.
+     * @return {WindowAccumulator} - The accumulator.
+     * @memberof SignatureExtractor
+     */
+    private createAccumulator(keepQuads: boolean, timestamps: Map<string, number>): WindowAccumulator {
+        return {
+            tripleCount: 0,
+            literalCount: 0,
+            timestampCount: 0,
+            rejectedLiteralCount: 0,
+            series: new SeriesSketch(this.highAccuracy ? Infinity : this.maxFftSize, key => timestamps.get(key)),
+            sampler: this.highAccuracy ? undefined : new ReservoirSampler<number>(this.sampleSize, this.createRandom()),
+            predicates: new PredicateSketch(this.highAccuracy ? Infinity : this.sketchWidth),
+            structure: new StructureCounter(this.highAccuracy ? Infinity : this.sketchWidth),
+            quads: keepQuads ? new Set<Quad>() : undefined
+        };
+    }
+
+    /**
+     * Creates the source of randomness of the sampling of a window: the configured
+     * one if any, otherwise a mulberry32 generator seeded with the configured seed.
+     * @private
+     * @return {() => number} - A source of uniform numbers in [0, 1).
+     * @memberof SignatureExtractor
+     */
+    private createRandom(): () => number {
+        if (this.random) return this.random;
+
+        let state = this.seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    /**
+     * Collects the numeric value, the predicate and the graph structure of a quad.
+     * @private
+     * @param {WindowAccumulator} accumulator - The accumulator of the window the quad belongs to.
+     * @param {Quad} quad - The quad.
+     * @memberof SignatureExtractor
+     */
+    private accumulate(accumulator: WindowAccumulator, quad: Quad): void {
+        accumulator.tripleCount++;
+        accumulator.predicates.add(quad.predicate.value);
+        accumulator.structure.add(quad);
+        accumulator.quads?.add(quad);
+        if (quad.object.termType === 'Literal') {
+            accumulator.literalCount++;
+            if (this.isTimestampQuad(quad)) {
+                accumulator.timestampCount++;
             }
         }
 
+        const coercion = this.coerceLiteral(quad);
+        if (coercion.rejected) {
+            accumulator.rejectedLiteralCount++;
+        }
+        if (coercion.value !== undefined) {
+            // Observation keys are only needed to look up timestamps
+            accumulator.series.add(coercion.value, this.timestampPredicates.size > 0 ? this.getObservationKey(quad) : undefined);
+            accumulator.sampler?.add(coercion.value);
+        }
+    }
+
+    /**
+     * Computes the signature from the values collected from a window.
+     * @private
+     * @param {WindowAccumulator} accumulator - The values collected from the window.
+     * @param {Set<Quad>} windowData - The quads of the window, passed on to the feature extractors.
+     * @return {ReportedSignature} - The extracted stream signature and the report of its extraction.
+     * @memberof SignatureExtractor
+     */
+    private finishSignature(
+        accumulator: WindowAccumulator,
+        windowData: Set<Quad>
+    ): ReportedSignature {
+        const observations = accumulator.series.getObservations();
+        // In the exact mode the observations are the values themselves
+        const numericValues = accumulator.sampler
+            ? accumulator.sampler.getSample()
+            : observations.map(observation => observation.value);
+        const series = this.buildSeries(observations);
+        const boundedSeries = this.highAccuracy ? series : this.boundSeries(series, this.maxFftSize);
+
         // Calculate statistical measures
-        const variance = this.calculateVariance(numericValues);
-        const skewness = this.calculateSkewness(numericValues);
-        const entropy = this.calculateEntropy(windowData);
-        const fftEntropy = this.calculateFFTEntropy(numericValues);
+        const signature = this.computeFeatures(windowData, {
+            tripleCount: accumulator.tripleCount,
+            literalCount: accumulator.literalCount,
+            timestampCount: accumulator.timestampCount,
+            numericCount: accumulator.series.getCount(),
+            numericValues,
+            series: boundedSeries,
+            predicateCounts: accumulator.predicates.getCounts(),
+            moments: this.calculateMoments(numericValues),
+            structure: accumulator.structure.getStructure()
+        });
+        return {
+            signature,
+            extraction: {
+                mode: this.getMode(),
+                numericValueCount: accumulator.series.getCount(),
+                sampleSize: numericValues.length,
+                fftSize: boundedSeries.length,
+                entropySketched: !accumulator.predicates.isExact(),
+                structureSketched: !accumulator.structure.isExact(),
+                rejectedLiteralCount: accumulator.rejectedLiteralCount,
+                ...(this.highAccuracy ? {} : { memoryBound: this.sampleSize + this.maxFftSize + 6 * this.sketchWidth })
+            }
+        };
+    }
+
+    /**
+     * Shortens a series to a maximum length by averaging consecutive blocks of
+     * values, which keeps its low-frequency shape.
+     * @param {number[]} series - The series.
+     * @param {number} maxLength - The maximum length.
+     * @return {number[]} - The series itself if short enough, otherwise the block averages.
+     * @memberof SignatureExtractor
+     */
+    boundSeries(series: number[], maxLength: number): number[] {
+        if (series.length <= maxLength) return series;
+
+        const bounded: number[] = [];
+        for (let k = 0; k < maxLength; k++) {
+            const start = Math.floor(k * series.length / maxLength);
+            const end = Math.floor((k + 1) * series.length / maxLength);
+            let sum = 0;
+            for (let i = start; i < end; i++) {
+                sum += series[i];
+            }
+            bounded.push(sum / (end - start));
+        }
+        return bounded;
+    }
 
+    /**
+     * Extracts the global signature of a window of RDF quads together with a
+     * signature for each group of quads, so that unrelated series (e.g. temperature
+     * and humidity readings) do not end up in the same statistics.
+     * @param {Set<Quad>} windowData - The set of RDF quads representing the window data.
+     * @param {SignatureGrouping} groupBy - How the quads are grouped into series.
+     * @return {GroupedStreamSignature} - The global signature and the signature of every group.
+     * @memberof SignatureExtractor
+     */
+    extractGroupedSignatures(windowData: Set<Quad>, groupBy: SignatureGrouping): GroupedStreamSignature {
+        // Timestamps are collected over the whole window, as they are usually
+        // attached to the observation through a predicate of a different group
+        const timestamps = this.collectTimestamps(windowData);
+        const groupedQuads = new Map<string, Set<Quad>>();
+
+        for (const quad of windowData) {
+            const groupName = this.getGroupName(quad, groupBy);
+            let group = groupedQuads.get(groupName);
+            if (!group) {
+                group = new Set<Quad>();
+                groupedQuads.set(groupName, group);
+            }
+            group.add(quad);
+        }
+
+        const groups: Record<string, StreamSignature> = {};
+        for (const [groupName, quads] of groupedQuads) {
+            groups[groupName] = this.computeSignature(quads, timestamps).signature;
+        }
+
+        const { signature, extraction } = this.computeSignature(windowData, timestamps);
         return {
-            tripleCount,
-            variance,
-            skewness,
-            entropy,
-            fftEntropy
+            global: signature,
+            groupBy,
+            groups,
+            extraction
         };
     }
 
+    /**
+     * Gets the name of the group a quad belongs to. Predicates are named by
+     * their IRI, subjects by their N3 identifier (so blank nodes stay distinct),
+     * and (subject, predicate) pairs by both, separated by a space.
+     * @param {Quad} quad - The quad to classify.
+     * @param {SignatureGrouping} groupBy - How the quads are grouped into series.
+     * @return {string} - The name of the group.
+     * @memberof SignatureExtractor
+     */
+    getGroupName(quad: Quad, groupBy: SignatureGrouping): string {
+        switch (groupBy) {
+            case 'predicate':
+                return quad.predicate.value;
+            case 'subject':
+                return termToId(quad.subject);
+            case 'subject-predicate':
+                return `${termToId(quad.subject)} ${quad.predicate.value}`;
+        }
+    }
+
+    /**
+     * Collects the event timestamp of every observation in a set of quads, from the
+     * quads whose predicate is one of the configured timestamp predicates.
+     * @param {Iterable<Quad>} quads - The quads to collect the timestamps from.
+     * @return {Map<string, number>} - The timestamps in milliseconds since the epoch, keyed by observation.
+     * @memberof SignatureExtractor
+     */
+    collectTimestamps(quads: Iterable<Quad>): Map<string, number> {
+        const timestamps = new Map<string, number>();
+        if (this.timestampPredicates.size === 0) return timestamps;
+
+        for (const quad of quads) {
+            this.addTimestamp(timestamps, quad);
+        }
+        return timestamps;
+    }
+
+    /**
+     * Adds the event timestamp of an observation if the quad carries one.
+     * @private
+     * @param {Map<string, number>} timestamps - The timestamps collected so far, keyed by observation.
+     * @param {Quad} quad - The quad that may link an observation to its timestamp.
+     * @memberof SignatureExtractor
+     */
+    private addTimestamp(timestamps: Map<string, number>, quad: Quad): void {
+        const timestamp = this.getTimestamp(quad);
+        if (timestamp !== undefined) {
+            timestamps.set(this.getObservationKey(quad), timestamp);
+        }
+    }
+
+    /**
+     * Gets the event timestamp a quad links its observation to.
+     * @param {Quad} quad - The quad.
+     * @return {number | undefined} - The timestamp in milliseconds since the epoch, or undefined
+     * if the predicate is not a timestamp predicate or the timestamp cannot be parsed.
+     * @memberof SignatureExtractor
+     */
+    getTimestamp(quad: Quad): number | undefined {
+        return this.isTimestampQuad(quad) ? this.parseTimestamp(quad.object.value) : undefined;
+    }
+
+    /**
+     * Gets the key of the observation a quad describes, which is its subject.
+     * @param {Quad} quad - The quad describing the observation.
+     * @return {string} - The observation key.
+     * @memberof SignatureExtractor
+     */
+    getObservationKey(quad: Quad): string {
+        return termToId(quad.subject);
+    }
+
+    /**
+     * Builds the numeric series fed to the frequency analysis. Values whose
+     * observation has a timestamp are sorted by time and, if resampling is enabled,
+     * linearly interpolated onto a uniform time grid. Values without a timestamp
+     * are left out as soon as any value has one; if none has, the values are
+     * kept in window order.
+     * @param {NumericObservation[]} observations - The numeric values with their optional timestamps.
+     * @return {number[]} - The series of values.
+     * @memberof SignatureExtractor
+     */
+    buildSeries(observations: NumericObservation[]): number[] {
+        const timed = observations.filter(
+            (observation): observation is Required<NumericObservation> => observation.timestamp !== undefined
+        );
+        if (timed.length === 0) {
+            return observations.map(observation => observation.value);
+        }
+
+        // Array.prototype.sort is stable, so simultaneous values keep their window order
+        timed.sort((a, b) => a.timestamp - b.timestamp);
+        if (!this.resample) {
+            return timed.map(observation => observation.value);
+        }
+        return this.resampleSeries(timed, this.resampleSize || timed.length);
+    }
+
+    /**
+     * Resamples a time-sorted series onto a uniform grid using linear interpolation.
+     * Values sharing a timestamp are averaged first.
+     * @private
+     * @param {Required<NumericObservation>[]} sorted - The observations sorted by timestamp.
+     * @param {number} size - The number of grid points.
+     * @return {number[]} - The resampled series.
+     * @memberof SignatureExtractor
+     */
+    private resampleSeries(sorted: Required<NumericObservation>[], size: number): number[] {
+        const times: number[] = [];
+        const values: number[] = [];
+        for (let i = 0; i < sorted.length;) {
+            let j = i;
+            let sum = 0;
+            while (j < sorted.length && sorted[j].timestamp === sorted[i].timestamp) {
+                sum += sorted[j].value;
+                j++;
+            }
+            times.push(sorted[i].timestamp);
+            values.push(sum / (j - i));
+            i = j;
+        }
+
+        if (times.length === 1 || size <= 1) {
+            return new Array(Math.max(size, 1)).fill(values[0]);
+        }
+
+        const start = times[0];
+        const step = (times[times.length - 1] - start) / (size - 1);
+        const resampled: number[] = [];
+        let segment = 0;
+        for (let k = 0; k < size; k++) {
+            const time = k === size - 1 ? times[times.length - 1] : start + k * step;
+            while (segment < times.length - 2 && times[segment + 1] < time) {
+                segment++;
+            }
+            const t0 = times[segment];
+            const t1 = times[segment + 1];
+            const fraction = (time - t0) / (t1 - t0);
+            resampled.push(values[segment] + fraction * (values[segment + 1] - values[segment]));
+        }
+        return resampled;
+    }
+
+    /**
+     * Parses an event timestamp, either an ISO 8601 date-time or a number of
+     * milliseconds since the epoch.
+     * @private
+     * @param {string} value - The lexical value of the timestamp literal.
+     * @return {number | undefined} - The timestamp in milliseconds, or undefined if it cannot be parsed.
+     * @memberof SignatureExtractor
+     */
+    private parseTimestamp(value: string): number | undefined {
+        const trimmed = value.trim();
+        const timestamp = /^-?\d+(\.\d+)?$/.test(trimmed) ? parseFloat(trimmed) : Date.parse(trimmed);
+        return isNaN(timestamp) ? undefined : timestamp;
+    }
+
+    /**
+     * Checks whether a quad links an observation to its event timestamp.
+     * @param {Quad} quad - The quad to check.
+     * @return {boolean} - True if the predicate is a configured timestamp predicate.
+     * @memberof SignatureExtractor
+     */
+    isTimestampQuad(quad: Quad): boolean {
+        return this.timestampPredicates.has(quad.predicate.value);
+    }
+
+    /**
+     * Parses the numeric value carried by the object of a quad, if any.
+     * Timestamps of observations are not considered numeric values.
+     * @param {Quad} quad - The quad whose object literal should be parsed.
+     * @return {number | undefined} - The numeric value, or undefined if the object is not numeric.
+     * @memberof SignatureExtractor
+     */
+    parseNumericValue(quad: Quad): number | undefined {
+        return this.coerceLiteral(quad).value;
+    }
+
+    /**
+     * Coerces the object of a quad into a numeric value with the configured
+     * coercion policy. Objects that are not literals, and timestamps of
+     * observations, are neither numeric nor rejected.
+     * @param {Quad} quad - The quad whose object literal should be coerced.
+     * @return {LiteralCoercion} - The numeric value, or whether the literal was rejected.
+     * @memberof SignatureExtractor
+     */
+    coerceLiteral(quad: Quad): LiteralCoercion {
+        if (quad.object.termType !== 'Literal') return { rejected: false };
+        if (this.isTimestampQuad(quad)) return { rejected: false };
+        return this.coercer.coerce(quad.object);
+    }
+
     /**
      * Calculates the mean of an array of numbers.
      * @private
@@ -92,61 +764,160 @@ export class SignatureExtractor {
     }
 
     /**
-     * Calculates the variance of an array of numbers.
+     * Calculates the central moments of an array of numbers.
+     * @param {number[]} values - The array of numbers to calculate the moments for.
+     * @return {NumericMoments} - The count, mean and sums of squared, cubed and fourth-power deviations.
+     * @memberof SignatureExtractor
+     */
+    calculateMoments(values: number[]): NumericMoments {
+        const mean = this.calculateMean(values);
+        let m2 = 0;
+        let m3 = 0;
+        let m4 = 0;
+        for (const val of values) {
+            const diff = val - mean;
+            m2 += diff * diff;
+            m3 += diff * diff * diff;
+            m4 += diff * diff * diff * diff;
+        }
+        return { count: values.length, mean, m2, m3, m4 };
+    }
+
+    /**
+     * Calculates the sample variance from the moments of the numeric values.
      * @private
-     * @param {number[]} values - The array of numbers to calculate the variance for.
+     * @param {NumericMoments} moments - The moments of the numeric values.
      * @return {number} - The calculated variance.
      * @memberof SignatureExtractor
      */
-    private calculateVariance(values: number[]): number {
-        if (values.length <= 1) return 0;
-        
-        const mean = this.calculateMean(values);
-        const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-        return squaredDiffs.reduce((sum, val) => sum + val, 0) / (values.length - 1);
+    private calculateVariance(moments: NumericMoments): number {
+        if (moments.count <= 1) return 0;
+        return moments.m2 / (moments.count - 1);
     }
 
     /**
-     * Calculates the skewness of an array of numbers.
+     * Calculates the sample skewness from the moments of the numeric values.
      * @private
-     * @param {number[]} values - The array of numbers to calculate the skewness for.
+     * @param {NumericMoments} moments - The moments of the numeric values.
      * @return {number} - The calculated skewness.
      * @memberof SignatureExtractor
      */
-    private calculateSkewness(values: number[]): number {
-        if (values.length <= 2) return 0;
+    private calculateSkewness(moments: NumericMoments): number {
+        if (moments.count <= 2) return 0;
         
-        const mean = this.calculateMean(values);
-        const variance = this.calculateVariance(values);
+        const variance = this.calculateVariance(moments);
         const stdDev = Math.sqrt(variance);
         
         if (stdDev === 0) return 0;
         
-        const cubedDiffs = values.map(val => Math.pow((val - mean) / stdDev, 3));
-        const n = values.length;
-        return (n / ((n - 1) * (n - 2))) * cubedDiffs.reduce((sum, val) => sum + val, 0);
+        const n = moments.count;
+        return (n / ((n - 1) * (n - 2))) * (moments.m3 / Math.pow(stdDev, 3));
     }
 
     /**
-     * Calculates the entropy of a set of quads. 
+     * Calculates the sample excess kurtosis from the moments of the numeric values,
+     * 0 for a normal distribution.
      * @private
-     * @param {Set<Quad>} quads
-     * @return {*}  {number}
+     * @param {NumericMoments} moments - The moments of the numeric values.
+     * @return {number} - The calculated kurtosis.
      * @memberof SignatureExtractor
      */
-    private calculateEntropy(quads: Set<Quad>): number {
-        // Calculate entropy based on the distribution of predicates
-        const predicateCount = new Map<string, number>();
-        
-        for (const quad of quads) {
-            const predicate = quad.predicate.value;
-            predicateCount.set(predicate, (predicateCount.get(predicate) || 0) + 1);
+    private calculateKurtosis(moments: NumericMoments): number {
+        const n = moments.count;
+        if (n <= 3 || moments.m2 === 0) return 0;
+
+        const g2 = n * moments.m4 / (moments.m2 * moments.m2) - 3;
+        return ((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * g2 + 6);
+    }
+
+    /**
+     * Calculates a quantile of the numeric values, interpolating linearly between
+     * the closest ranks. The values are sorted once per window.
+     * @private
+     * @param {number[]} values - The numeric values.
+     * @param {number} q - The quantile, between 0 and 1.
+     * @return {number} - The calculated quantile, 0 without values.
+     * @memberof SignatureExtractor
+     */
+    private calculateQuantile(values: number[], q: number): number {
+        if (values.length === 0) return 0;
+
+        let sorted = this.sortedValues.get(values);
+        if (!sorted) {
+            sorted = [...values].sort((a, b) => a - b);
+            this.sortedValues.set(values, sorted);
         }
-        
-        const total = quads.size;
+        const rank = q * (sorted.length - 1);
+        const lower = Math.floor(rank);
+        const upper = Math.ceil(rank);
+        return sorted[lower] + (rank - lower) * (sorted[upper] - sorted[lower]);
+    }
+
+    /**
+     * Calculates the autocorrelation of the series at a lag.
+     * @private
+     * @param {number[]} series - The series, in time order when timestamps are available.
+     * @param {number} lag - The lag, in values.
+     * @return {number} - The calculated autocorrelation, between -1 and 1; 0 if the series is constant or too short.
+     * @memberof SignatureExtractor
+     */
+    private calculateAutocorrelation(series: number[], lag: number): number {
+        if (series.length <= lag) return 0;
+
+        const mean = this.calculateMean(series);
+        let denominator = 0;
+        for (const value of series) {
+            denominator += (value - mean) * (value - mean);
+        }
+        if (denominator === 0) return 0;
+
+        let numerator = 0;
+        for (let t = 0; t + lag < series.length; t++) {
+            numerator += (series[t] - mean) * (series[t + lag] - mean);
+        }
+        return numerator / denominator;
+    }
+
+    /**
+     * Calculates the share of a count in a total.
+     * @private
+     * @param {number | undefined} count - The count, undefined for none.
+     * @param {number} total - The total.
+     * @return {number} - The ratio, 0 for an empty total.
+     * @memberof SignatureExtractor
+     */
+    private calculateRatio(count: number | undefined, total: number): number {
+        return total > 0 ? (count || 0) / total : 0;
+    }
+
+    /**
+     * Sums the counts of a distribution.
+     * @private
+     * @param {Map<string, number>} counts - The counts.
+     * @return {number} - The sum.
+     * @memberof SignatureExtractor
+     */
+    private sumCounts(counts: Map<string, number>): number {
+        let total = 0;
+        for (const count of counts.values()) {
+            total += count;
+        }
+        return total;
+    }
+
+    /**
+     * Calculates the entropy of a distribution of a window, such as that of
+     * its predicates, subjects or datatypes.
+     * @private
+     * @param {Map<string, number>} counts - The number of quads per value.
+     * @param {number} total - The number of quads the counts add up to.
+     * @return {number} - The calculated entropy.
+     * @memberof SignatureExtractor
+     */
+    private calculateEntropy(counts: Map<string, number>, total: number): number {
         let entropy = 0;
         
-        for (const count of predicateCount.values()) {
+        for (const count of counts.values()) {
             const probability = count / total;
             if (probability > 0) {
                 entropy -= probability * Math.log2(probability);
@@ -158,49 +929,24 @@ export class SignatureExtractor {
 
     /**
      * Calculates the FFT-based entropy of numeric values.
-     * Uses frequency domain analysis to measure information content.
-     * @private
+     * Uses frequency domain analysis to measure information content: the Shannon
+     * entropy of the magnitude spectrum, after the configured window function and sizing.
      * @param {number[]} values - The array of numeric values to analyze.
      * @return {number} - The calculated FFT entropy.
      * @memberof SignatureExtractor
      */
-    private calculateFFTEntropy(values: number[]): number {
-        if (values.length === 0) return 0;
-        if (values.length === 1) return 0;
-
-        // Ensure we have a power of 2 length for FFT efficiency
-        let paddedValues = [...values];
-        const targetLength = Math.pow(2, Math.ceil(Math.log2(values.length)));
-        
-        // Pad with zeros if necessary
-        while (paddedValues.length < targetLength) {
-            paddedValues.push(0);
-        }
-
-        // Apply FFT to get frequency domain representation
-        const fftResult = fft.fft(paddedValues);
-        
-        // Calculate magnitude spectrum
-        const magnitudes: number[] = fftResult.map((complex: number[]) => {
-            const real = complex[0];
-            const imag = complex[1];
-            return Math.sqrt(real * real + imag * imag);
-        });
-
-        // Normalize magnitudes to get probability distribution
-        const totalMagnitude = magnitudes.reduce((sum: number, mag: number) => sum + mag, 0);
-        if (totalMagnitude === 0) return 0;
-
-        const probabilities = magnitudes.map((mag: number) => mag / totalMagnitude);
-
-        // Calculate Shannon entropy of the frequency spectrum
-        let entropy = 0;
-        for (const prob of probabilities) {
-            if (prob > 0) {
-                entropy -= prob * Math.log2(prob);
-            }
-        }
+    calculateFFTEntropy(values: number[]): number {
+        return this.spectralAnalyzer.getEntropy(values);
+    }
 
-        return entropy;
+    /**
+     * Calculates the shape of the spectrum of numeric values, after the configured
+     * window function and sizing.
+     * @param {number[]} values - The array of numeric values to analyze.
+     * @return {SpectralFeatures} - The dominant frequency, centroid, flatness and band energies.
+     * @memberof SignatureExtractor
+     */
+    calculateSpectralFeatures(values: number[]): SpectralFeatures {
+        return this.spectralAnalyzer.getFeatures(values);
     }
 }
\ No newline at end of file
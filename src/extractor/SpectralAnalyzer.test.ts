@@ -0,0 +1,68 @@
+import { SpectralAnalyzer } from './SpectralAnalyzer';
+
+describe('SpectralAnalyzer', () => {
+    const sine = (length: number, frequency: number, offset = 0) =>
+        Array.from({ length }, (_, i) => offset + Math.sin(2 * Math.PI * frequency * i));
+
+    it('should find the dominant frequency and band of a sine wave', () => {
+        const features = new SpectralAnalyzer().getFeatures(sine(64, 0.125, 20));
+
+        expect(features.dominantFrequency).toBeCloseTo(0.125, 10);
+        expect(features.spectralCentroid).toBeCloseTo(0.125, 5);
+        expect(features.spectralFlatness).toBeLessThan(0.01);
+        expect(features.bandEnergies).toHaveLength(3);
+        expect(features.bandEnergies[1]).toBeCloseTo(1, 5);
+        expect(features.bandEnergies.reduce((sum, energy) => sum + energy, 0)).toBeCloseTo(1, 10);
+    });
+
+    it('should report a flatter spectrum for noise than for a tone', () => {
+        let seed = 1;
+        const noise = Array.from({ length: 256 }, () => (seed = (seed * 16807) % 2147483647) / 2147483647);
+        const analyzer = new SpectralAnalyzer();
+
+        expect(analyzer.getFeatures(noise).spectralFlatness).toBeGreaterThan(0.3);
+        expect(analyzer.getFeatures(noise).spectralCentroid).toBeGreaterThan(0.2);
+        expect(analyzer.getFeatures(sine(256, 0.05)).spectralFlatness).toBeLessThan(0.1);
+    });
+
+    it('should use custom bands', () => {
+        const features = new SpectralAnalyzer({ bands: [0.2] }).getFeatures(sine(64, 0.375));
+
+        expect(features.bandEnergies).toHaveLength(2);
+        expect(features.bandEnergies[1]).toBeCloseTo(1, 5);
+    });
+
+    it('should reduce leakage with a window function', () => {
+        // A frequency between two bins leaks into the whole spectrum without a window
+        const values = sine(64, 0.13);
+        const leakage = (window: 'rectangular' | 'hann' | 'hamming') =>
+            new SpectralAnalyzer({ window, bands: [0.09, 0.17] }).getFeatures(values).bandEnergies[2];
+
+        expect(leakage('hann')).toBeLessThan(leakage('rectangular'));
+        expect(leakage('hamming')).toBeLessThan(leakage('rectangular'));
+    });
+
+    it('should pad or truncate to a power of two', () => {
+        const values = [...new Array(36).fill(0), ...sine(64, 0.25)];
+
+        expect(new SpectralAnalyzer().getMagnitudes(values)).toHaveLength(128);
+        const truncated = new SpectralAnalyzer({ sizing: 'truncate' });
+        expect(truncated.getMagnitudes(values)).toHaveLength(64);
+        // Truncation keeps the latest values, here exactly the sine wave
+        expect(truncated.getFeatures(values).dominantFrequency).toBe(0.25);
+        expect(truncated.getFeatures(values).spectralCentroid).toBeCloseTo(0.25, 5);
+    });
+
+    it('should return zero features for short or constant series', () => {
+        const analyzer = new SpectralAnalyzer();
+
+        expect(analyzer.getFeatures([5])).toEqual({ dominantFrequency: 0, spectralCentroid: 0, spectralFlatness: 0, bandEnergies: [0, 0, 0] });
+        expect(analyzer.getFeatures([3, 3, 3, 3]).dominantFrequency).toBe(0);
+        expect(analyzer.getEntropy([1])).toBe(0);
+    });
+
+    it('should reject invalid bands', () => {
+        expect(() => new SpectralAnalyzer({ bands: [0.3, 0.2] })).toThrow('Band boundaries must be ascending within (0, 0.5), got [0.3, 0.2]');
+        expect(() => new SpectralAnalyzer({ bands: [0.5] })).toThrow();
+    });
+});
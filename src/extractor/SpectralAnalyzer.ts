@@ -0,0 +1,174 @@
+import { fft, Phasor } from "fft-js";
+import { FftSizing, FftWindowFunction, SpectralFeatures, SpectralOptions } from "../Types";
+
+/**
+ * It analyses the frequency content of a numeric series with the FFT. The series
+ * is multiplied by a window function, then zero-padded or truncated to a
+ * power-of-two length. Spectral features leave out the DC component, the mean
+ * of the series, and cover the frequencies up to the Nyquist frequency, in
+ * cycles per sample.
+ * @export
+ * @class SpectralAnalyzer
+ */
+export class SpectralAnalyzer {
+    private window: FftWindowFunction;
+    private sizing: FftSizing;
+    private bands: number[];
+    private spectra: WeakMap<number[], number[]>;
+
+    /**
+     * Creates an instance of SpectralAnalyzer.
+     * @param {SpectralOptions} [options] - The window function, sizing and frequency bands.
+     * @memberof SpectralAnalyzer
+     */
+    constructor(options: SpectralOptions = {}) {
+        this.window = options.window || 'rectangular';
+        this.sizing = options.sizing || 'pad';
+        this.bands = options.bands || [0.1, 0.25];
+        if (this.bands.some((boundary, index) =>
+            !(boundary > 0 && boundary < 0.5) || (index > 0 && boundary <= this.bands[index - 1]))) {
+            throw new Error(`Band boundaries must be ascending within (0, 0.5), got [${this.bands.join(', ')}]`);
+        }
+        this.spectra = new WeakMap();
+    }
+
+    /**
+     * Gets the number of frequency bands.
+     * @return {number} - One more than the number of band boundaries.
+     * @memberof SpectralAnalyzer
+     */
+    getBandCount(): number {
+        return this.bands.length + 1;
+    }
+
+    /**
+     * Computes the magnitude spectrum of a series. Spectra are cached per series
+     * array, so that the features of one window share one FFT; series must
+     * therefore not be changed once analysed.
+     * @param {number[]} values - The series.
+     * @return {number[]} - The magnitudes of all FFT bins, empty for fewer than two values.
+     * @memberof SpectralAnalyzer
+     */
+    getMagnitudes(values: number[]): number[] {
+        if (values.length < 2) return [];
+
+        const cached = this.spectra.get(values);
+        if (cached) return cached;
+
+        const fftResult = fft(this.prepare(values));
+        const magnitudes: number[] = fftResult.map((complex: Phasor) => {
+            const real = complex[0];
+            const imag = complex[1];
+            return Math.sqrt(real * real + imag * imag);
+        });
+        this.spectra.set(values, magnitudes);
+        return magnitudes;
+    }
+
+    /**
+     * Calculates the Shannon entropy of the normalised magnitude spectrum.
+     * @param {number[]} values - The series.
+     * @return {number} - The entropy, 0 for fewer than two values or a silent series.
+     * @memberof SpectralAnalyzer
+     */
+    getEntropy(values: number[]): number {
+        const magnitudes = this.getMagnitudes(values);
+
+        const totalMagnitude = magnitudes.reduce((sum, mag) => sum + mag, 0);
+        if (totalMagnitude === 0) return 0;
+
+        let entropy = 0;
+        for (const mag of magnitudes) {
+            const prob = mag / totalMagnitude;
+            if (prob > 0) {
+                entropy -= prob * Math.log2(prob);
+            }
+        }
+        return entropy;
+    }
+
+    /**
+     * Calculates the shape of the one-sided spectrum of a series.
+     * @param {number[]} values - The series.
+     * @return {SpectralFeatures} - The features, all 0 for fewer than two values or a constant series.
+     * @memberof SpectralAnalyzer
+     */
+    getFeatures(values: number[]): SpectralFeatures {
+        const features: SpectralFeatures = {
+            dominantFrequency: 0,
+            spectralCentroid: 0,
+            spectralFlatness: 0,
+            bandEnergies: new Array(this.getBandCount()).fill(0)
+        };
+        const magnitudes = this.getMagnitudes(values);
+        const size = magnitudes.length;
+
+        let totalMagnitude = 0;
+        let weightedFrequency = 0;
+        let totalPower = 0;
+        let logPower = 0;
+        let strongest = 0;
+        for (let k = 1; k <= size / 2; k++) {
+            const frequency = k / size;
+            const power = magnitudes[k] * magnitudes[k];
+            totalMagnitude += magnitudes[k];
+            weightedFrequency += frequency * magnitudes[k];
+            totalPower += power;
+            logPower += Math.log(power);
+            if (power > strongest) {
+                strongest = power;
+                features.dominantFrequency = frequency;
+            }
+            features.bandEnergies[this.getBand(frequency)] += power;
+        }
+        if (totalPower === 0) return features;
+
+        const bins = size / 2;
+        features.spectralCentroid = weightedFrequency / totalMagnitude;
+        features.spectralFlatness = Math.exp(logPower / bins) / (totalPower / bins);
+        features.bandEnergies = features.bandEnergies.map(energy => energy / totalPower);
+        return features;
+    }
+
+    /**
+     * Applies the window function and brings a series to a power-of-two length.
+     * @private
+     * @param {number[]} values - The series, of at least two values.
+     * @return {number[]} - The series fed to the FFT.
+     * @memberof SpectralAnalyzer
+     */
+    private prepare(values: number[]): number[] {
+        const exponent = Math.log2(values.length);
+        const length = Math.pow(2, this.sizing === 'truncate' ? Math.floor(exponent) : Math.ceil(exponent));
+        const series = values.slice(Math.max(values.length - length, 0));
+
+        const n = series.length;
+        const windowed = series.map((value, i) => {
+            switch (this.window) {
+                case 'hann':
+                    return value * 0.5 * (1 - Math.cos(2 * Math.PI * i / (n - 1)));
+                case 'hamming':
+                    return value * (0.54 - 0.46 * Math.cos(2 * Math.PI * i / (n - 1)));
+                default:
+                    return value;
+            }
+        });
+
+        // Pad with zeros if necessary
+        while (windowed.length < length) {
+            windowed.push(0);
+        }
+        return windowed;
+    }
+
+    /**
+     * Gets the band of a frequency.
+     * @private
+     * @param {number} frequency - The frequency in cycles per sample.
+     * @return {number} - The index of the band, counting the boundaries at or below the frequency.
+     * @memberof SpectralAnalyzer
+     */
+    private getBand(frequency: number): number {
+        return this.bands.filter(boundary => frequency >= boundary).length;
+    }
+}
@@ -0,0 +1,69 @@
+import { StructureCounter } from './StructureCounter';
+import { DataFactory } from 'n3';
+
+const { namedNode, literal, blankNode, quad } = DataFactory;
+
+describe('StructureCounter', () => {
+    const ex = (name: string) => namedNode(`http://example.org/${name}`);
+    const quads = [
+        quad(ex('s1'), ex('p'), literal('1', namedNode('http://www.w3.org/2001/XMLSchema#integer'))),
+        quad(ex('s1'), ex('p'), literal('hallo', 'de'), ex('g1')),
+        quad(ex('s2'), ex('p'), ex('s1')),
+        quad(blankNode('b0'), ex('p'), blankNode('b1'))
+    ];
+
+    it('should count the quads per term', () => {
+        const counter = new StructureCounter();
+        quads.forEach(q => counter.add(q));
+
+        const structure = counter.getStructure();
+        expect(Array.from(structure.subjects)).toEqual([['http://example.org/s1', 2], ['http://example.org/s2', 1], ['_:b0', 1]]);
+        expect(structure.objects.size).toBe(4);
+        expect(Array.from(structure.graphs)).toEqual([['', 3], ['http://example.org/g1', 1]]);
+        expect(Array.from(structure.objectTermTypes)).toEqual([['Literal', 2], ['NamedNode', 1], ['BlankNode', 1]]);
+        expect(Array.from(structure.datatypes)).toEqual([
+            ['http://www.w3.org/2001/XMLSchema#integer', 1],
+            ['http://www.w3.org/1999/02/22-rdf-syntax-ns#langString', 1]
+        ]);
+        expect(Array.from(structure.languages)).toEqual([['de', 1]]);
+    });
+
+    it('should drop terms whose quads are all removed', () => {
+        const counter = new StructureCounter();
+        quads.forEach(q => counter.add(q));
+        counter.remove(quads[1]);
+        counter.remove(quads[3]);
+
+        const structure = counter.getStructure();
+        expect(Array.from(structure.subjects)).toEqual([['http://example.org/s1', 1], ['http://example.org/s2', 1]]);
+        expect(Array.from(structure.graphs)).toEqual([['', 2]]);
+        expect(structure.languages.size).toBe(0);
+        expect(structure.objectTermTypes.has('BlankNode')).toBe(false);
+    });
+
+    it('should hash the terms of a count into buckets beyond its width', () => {
+        const counter = new StructureCounter(4);
+        for (let i = 0; i < 100; i++) {
+            counter.add(quad(ex(`s${i}`), ex('p'), ex(`o${i % 3}`)));
+        }
+
+        const structure = counter.getStructure();
+        expect(counter.isExact()).toBe(false);
+        expect(structure.subjects.size).toBeLessThanOrEqual(4);
+        expect(Array.from(structure.subjects.keys()).every(key => /^#[0-3]$/.test(key))).toBe(true);
+        expect(Array.from(structure.subjects.values()).reduce((sum, count) => sum + count, 0)).toBe(100);
+        expect(structure.objects.size).toBe(3);
+        expect(structure.objects.get('http://example.org/o0')).toBe(34);
+
+        counter.clear();
+        expect(counter.isExact()).toBe(true);
+    });
+
+    it('should forget all quads when cleared', () => {
+        const counter = new StructureCounter();
+        quads.forEach(q => counter.add(q));
+        counter.clear();
+
+        expect(Object.values(counter.getStructure()).every(counts => counts.size === 0)).toBe(true);
+    });
+});
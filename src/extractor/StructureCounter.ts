@@ -0,0 +1,146 @@
+import { Quad, termToId } from "n3";
+import { GraphStructure } from "../Types";
+import { PredicateSketch } from "./PredicateSketch";
+
+/**
+ * It counts the quads of a window per subject, object, graph, object term type,
+ * datatype and language tag, so that the shape of the graph can be described.
+ * Quads can be removed again, for windows that are maintained incrementally.
+ * Like a {@link PredicateSketch}, a count holding more distinct terms than the
+ * width of the counter is folded into that many hashed buckets.
+ * @export
+ * @class StructureCounter
+ */
+export class StructureCounter {
+    private structure: GraphStructure;
+    private width: number;
+    private folded: Set<Map<string, number>>;
+
+    /**
+     * Creates an instance of StructureCounter.
+     * @param {number} [width] - The number of distinct terms counted exactly per count, and of buckets afterwards.
+     * @memberof StructureCounter
+     */
+    constructor(width: number = Infinity) {
+        if (!(width >= 1)) {
+            throw new Error(`Sketch width must be at least 1, got ${width}`);
+        }
+        this.width = width;
+        this.folded = new Set();
+        this.structure = {
+            subjects: new Map(),
+            objects: new Map(),
+            graphs: new Map(),
+            objectTermTypes: new Map(),
+            datatypes: new Map(),
+            languages: new Map()
+        };
+    }
+
+    /**
+     * Counts a quad.
+     * @param {Quad} quad - The quad.
+     * @memberof StructureCounter
+     */
+    add(quad: Quad): void {
+        this.update(quad, 1);
+    }
+
+    /**
+     * Uncounts a quad that was counted before.
+     * @param {Quad} quad - The quad.
+     * @memberof StructureCounter
+     */
+    remove(quad: Quad): void {
+        this.update(quad, -1);
+    }
+
+    /**
+     * Gets the counts.
+     * @return {GraphStructure} - The counts, updated in place as quads are counted.
+     * @memberof StructureCounter
+     */
+    getStructure(): GraphStructure {
+        return this.structure;
+    }
+
+    /**
+     * Checks whether the counts are still exact.
+     * @return {boolean} - True if no terms were hashed into buckets.
+     * @memberof StructureCounter
+     */
+    isExact(): boolean {
+        return this.folded.size === 0;
+    }
+
+    /**
+     * Forgets all quads.
+     * @memberof StructureCounter
+     */
+    clear(): void {
+        for (const counts of Object.values(this.structure) as Map<string, number>[]) {
+            counts.clear();
+        }
+        this.folded.clear();
+    }
+
+    /**
+     * Adds a quad to, or removes it from, every count.
+     * @private
+     * @param {Quad} quad - The quad.
+     * @param {number} delta - 1 to add the quad, -1 to remove it.
+     * @memberof StructureCounter
+     */
+    private update(quad: Quad, delta: number): void {
+        const { subjects, objects, graphs, objectTermTypes, datatypes, languages } = this.structure;
+        this.count(subjects, termToId(quad.subject), delta);
+        this.count(objects, termToId(quad.object), delta);
+        this.count(graphs, termToId(quad.graph), delta);
+        this.count(objectTermTypes, quad.object.termType, delta);
+
+        if (quad.object.termType === 'Literal') {
+            this.count(datatypes, quad.object.datatype.value, delta);
+            if (quad.object.language) {
+                this.count(languages, quad.object.language, delta);
+            }
+        }
+    }
+
+    /**
+     * Changes the count of a key, dropping keys whose count reaches zero.
+     * @private
+     * @param {Map<string, number>} counts - The counts.
+     * @param {string} key - The key.
+     * @param {number} delta - The change.
+     * @memberof StructureCounter
+     */
+    private count(counts: Map<string, number>, key: string, delta: number): void {
+        const folded = this.folded.has(counts);
+        const bucket = folded ? PredicateSketch.getBucket(key, this.width) : key;
+        const count = (counts.get(bucket) || 0) + delta;
+        if (count > 0) {
+            counts.set(bucket, count);
+        } else {
+            counts.delete(bucket);
+        }
+        if (!folded && counts.size > this.width) {
+            this.fold(counts);
+        }
+    }
+
+    /**
+     * Moves the exact counts of a count into their buckets, in place.
+     * @private
+     * @param {Map<string, number>} counts - The counts.
+     * @memberof StructureCounter
+     */
+    private fold(counts: Map<string, number>): void {
+        const exact = Array.from(counts);
+        counts.clear();
+        this.folded.add(counts);
+        for (const [key, count] of exact) {
+            const bucket = PredicateSketch.getBucket(key, this.width);
+            counts.set(bucket, (counts.get(bucket) || 0) + count);
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import { DecisionHistory } from './DecisionHistory';
+import { HistoryEntry } from '../Types';
+
+describe('DecisionHistory', () => {
+    const entry = (index: number, approach: string, timestamp: number): HistoryEntry => ({
+        windowId: `w${index}`,
+        timestamp,
+        signature: { tripleCount: index, variance: 0, skewness: 0, entropy: 0, fftEntropy: 0 },
+        recommendedApproach: approach,
+        matchingApproaches: [approach],
+        confidence: 1
+    });
+
+    it('should keep the most recent decisions up to its size', () => {
+        const history = new DecisionHistory({ size: 3 });
+        ['a', 'b', 'a', 'c', 'a'].forEach((approach, index) => history.record(entry(index, approach, index * 1000)));
+
+        expect(history.size).toBe(3);
+        expect(history.getEntries().map(decision => decision.windowId)).toEqual(['w2', 'w3', 'w4']);
+        expect(history.getLast(2).map(decision => decision.windowId)).toEqual(['w3', 'w4']);
+        expect(history.getLast(0)).toEqual([]);
+    });
+
+    it('should count the windows and time per approach', () => {
+        const history = new DecisionHistory();
+        history.record(entry(0, 'a', 0));
+        history.record(entry(1, 'a', 1000));
+        history.record(entry(2, 'b', 4000));
+        history.record(entry(3, 'a', 5000));
+
+        expect(history.getApproachCounts()).toEqual({ a: 3, b: 1 });
+        expect(history.getTimeInApproach()).toEqual({ a: 4000, b: 1000 });
+        expect(history.getTimeInApproach(7000)).toEqual({ a: 6000, b: 1000 });
+    });
+
+    it('should restore exported decisions through JSON', () => {
+        const history = new DecisionHistory();
+        history.record(entry(0, 'a', 0));
+        history.record({ ...entry(1, 'b', 1000), signature: { ...entry(1, 'b', 1000).signature, fftEntropy: Infinity } });
+
+        const restored = new DecisionHistory({ size: 1 });
+        restored.importState(JSON.parse(JSON.stringify(history.exportState())));
+
+        expect(restored.getEntries()).toEqual([{ ...entry(1, 'b', 1000), signature: { ...entry(1, 'b', 1000).signature, fftEntropy: NaN } }]);
+        expect(() => restored.importState([{ windowId: 'w0' }] as unknown as HistoryEntry[])).toThrow('Malformed history');
+        expect(restored.size).toBe(1);
+    });
+
+    it('should keep nothing with a size of zero and refuse invalid sizes', () => {
+        const history = new DecisionHistory({ size: 0 });
+        history.record(entry(0, 'a', 0));
+
+        expect(history.size).toBe(0);
+        expect(() => new DecisionHistory({ size: -1 })).toThrow('History size must be a non-negative whole number, got -1');
+    });
+});
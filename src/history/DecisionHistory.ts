@@ -0,0 +1,169 @@
+import { HistoryEntry, HistoryOptions } from "../Types";
+
+/**
+ * It keeps the most recent decisions of a HiveScoutBee: the signature of every
+ * window and the approach recommended for it, with the time and id of the window.
+ * The history is bounded, the oldest decisions being forgotten first.
+ * @export
+ * @class DecisionHistory
+ */
+export class DecisionHistory {
+    private maxSize: number;
+    private clock: () => number;
+    private entries: HistoryEntry[];
+
+    /**
+     * Creates an instance of DecisionHistory.
+     * @param {HistoryOptions} [options] - The number of decisions kept and the clock.
+     * @memberof DecisionHistory
+     */
+    constructor(options: HistoryOptions = {}) {
+        this.maxSize = options.size ?? 1000;
+        if (!Number.isInteger(this.maxSize) || this.maxSize < 0) {
+            throw new Error(`History size must be a non-negative whole number, got ${options.size}`);
+        }
+        this.clock = options.now || Date.now;
+        this.entries = [];
+    }
+
+    /**
+     * Gets the current time from the configured clock.
+     * @return {number} - The time in milliseconds.
+     * @memberof DecisionHistory
+     */
+    now(): number {
+        return this.clock();
+    }
+
+    /**
+     * Gets the number of decisions kept.
+     * @readonly
+     * @type {number}
+     * @memberof DecisionHistory
+     */
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Records a decision, forgetting the oldest one beyond the size of the history.
+     * @param {HistoryEntry} entry - The decision.
+     * @memberof DecisionHistory
+     */
+    record(entry: HistoryEntry): void {
+        this.entries.push(entry);
+        if (this.entries.length > this.maxSize) {
+            this.entries.splice(0, this.entries.length - this.maxSize);
+        }
+    }
+
+    /**
+     * Gets the decisions kept.
+     * @return {HistoryEntry[]} - The decisions, oldest first.
+     * @memberof DecisionHistory
+     */
+    getEntries(): HistoryEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Gets the most recent decisions.
+     * @param {number} count - The number of decisions.
+     * @return {HistoryEntry[]} - Up to count decisions, oldest first.
+     * @memberof DecisionHistory
+     */
+    getLast(count: number): HistoryEntry[] {
+        return count > 0 ? this.entries.slice(-count) : [];
+    }
+
+    /**
+     * Counts the windows each approach was recommended for.
+     * @return {Record<string, number>} - The number of windows per approach.
+     * @memberof DecisionHistory
+     */
+    getApproachCounts(): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const entry of this.entries) {
+            counts[entry.recommendedApproach] = (counts[entry.recommendedApproach] || 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * Sums the time each approach was recommended for: an approach is recommended
+     * from the time of its window until the time of the next window.
+     * @param {number} [until] - The time the last decision lasts until, not counted if undefined.
+     * @return {Record<string, number>} - The milliseconds per approach.
+     * @memberof DecisionHistory
+     */
+    getTimeInApproach(until?: number): Record<string, number> {
+        const durations: Record<string, number> = {};
+        this.entries.forEach((entry, index) => {
+            const end = index + 1 < this.entries.length ? this.entries[index + 1].timestamp : until;
+            if (end === undefined) return;
+            durations[entry.recommendedApproach] = (durations[entry.recommendedApproach] || 0) + Math.max(end - entry.timestamp, 0);
+        });
+        return durations;
+    }
+
+    /**
+     * Forgets all decisions.
+     * @memberof DecisionHistory
+     */
+    clear(): void {
+        this.entries = [];
+    }
+
+    /**
+     * Exports the decisions, e.g. to resume the history in another process.
+     * @return {HistoryEntry[]} - A copy of the decisions, oldest first, which can be stored as JSON.
+     * @memberof DecisionHistory
+     */
+    exportState(): HistoryEntry[] {
+        return this.entries.map(entry => DecisionHistory.copyEntry(entry));
+    }
+
+    /**
+     * Restores decisions exported with {@link DecisionHistory.exportState}, replacing
+     * the current ones. Only the most recent decisions are kept if they exceed the size.
+     * Signature values that are not finite, which JSON stores as null, are restored as NaN.
+     * @param {HistoryEntry[]} entries - The decisions, e.g. parsed from JSON.
+     * @throws {Error} - If the decisions are malformed.
+     * @memberof DecisionHistory
+     */
+    importState(entries: HistoryEntry[]): void {
+        const isEntry = (entry: HistoryEntry) => typeof entry === 'object' && entry !== null &&
+            typeof entry.windowId === 'string' && Number.isFinite(entry.timestamp) &&
+            typeof entry.recommendedApproach === 'string' && Number.isFinite(entry.confidence) &&
+            Array.isArray(entry.matchingApproaches) && entry.matchingApproaches.every(name => typeof name === 'string') &&
+            typeof entry.signature === 'object' && entry.signature !== null &&
+            Object.values(entry.signature).every(value => typeof value === 'number' || value === null);
+        if (!Array.isArray(entries) || !entries.every(isEntry)) {
+            throw new Error('Malformed history: every entry needs a window id, timestamp, signature, approach and confidence');
+        }
+
+        this.entries = entries.slice(Math.max(entries.length - this.maxSize, 0)).map(entry => DecisionHistory.copyEntry({
+            ...entry,
+            signature: Object.fromEntries(Object.entries(entry.signature).map(([feature, value]) => [feature, value ?? NaN]))
+        } as HistoryEntry));
+    }
+
+    /**
+     * Copies a decision, so that it does not share state with the history.
+     * @private
+     * @static
+     * @param {HistoryEntry} entry - The decision.
+     * @return {HistoryEntry} - The copy.
+     * @memberof DecisionHistory
+     */
+    private static copyEntry(entry: HistoryEntry): HistoryEntry {
+        return {
+            windowId: entry.windowId,
+            timestamp: entry.timestamp,
+            signature: { ...entry.signature },
+            recommendedApproach: entry.recommendedApproach,
+            matchingApproaches: [...entry.matchingApproaches],
+            confidence: entry.confidence
+        };
+    }
+}
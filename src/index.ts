@@ -1,3 +1,33 @@
 export * from './extractor/SignatureExtractor';
+export * from './extractor/IncrementalSignatureExtractor';
+export * from './extractor/FeatureRegistry';
+export * from './extractor/ReservoirSampler';
+export * from './extractor/PredicateSketch';
+export * from './extractor/SpectralAnalyzer';
+export * from './extractor/StructureCounter';
+export * from './extractor/LiteralCoercer';
+export * from './rules/RuleEvaluator';
+export * from './selection/SelectionStabilizer';
+export * from './selection/NearestNeighbourSelector';
+export * from './selection/BanditSelector';
+export * from './selection/PrototypeMatcher';
+export * from './drift/DriftDetector';
+export * from './events/TypedEventEmitter';
+export * from './windowing/LateEventError';
+export * from './windowing/StreamWindower';
+export * from './parsing/RdfParseError';
+export * from './parsing/RdfReader';
+export * from './cli/CliUsageError';
+export * from './cli/OutputFormatter';
+export * from './cli/HiveScoutBeeCli';
+export * from './server/HttpError';
+export * from './server/HiveScoutBeeServer';
+export * from './config/ConfigValidationError';
+export * from './config/ApproachConfigValidator';
+export * from './config/ApproachConfigLoader';
+export * from './rdf/Vocabulary';
+export * from './rdf/RdfApproachConfigReader';
+export * from './rdf/RecommendationSerializer';
+export * from './history/DecisionHistory';
 export * from './HiveScoutBee';
 export * from './Types';
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Error thrown when serialised RDF cannot be parsed, locating the problem by
+ * file and line.
+ * @export
+ * @class RdfParseError
+ * @extends {Error}
+ */
+export class RdfParseError extends Error {
+    public readonly line?: number;
+    public readonly file?: string;
+
+    /**
+     * Creates an instance of RdfParseError.
+     * @param {string} reason - What the parser reported.
+     * @param {number} [line] - The 1-based line of the problem, if known.
+     * @param {string} [file] - The file being parsed, if any.
+     * @memberof RdfParseError
+     */
+    constructor(reason: string, line?: number, file?: string) {
+        const location = [file, line].filter(part => part !== undefined).join(':');
+        super(location ? `${location}: ${reason}` : reason);
+        this.name = 'RdfParseError';
+        this.line = line;
+        this.file = file;
+        Object.setPrototypeOf(this, RdfParseError.prototype);
+    }
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { Quad } from 'n3';
+import { RdfReader } from './RdfReader';
+import { RdfParseError } from './RdfParseError';
+
+describe('RdfReader', () => {
+    let reader: RdfReader;
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hive-scout-bee-rdf-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        reader = new RdfReader();
+    });
+
+    const parseError = async (action: Promise<unknown>): Promise<RdfParseError> => {
+        try {
+            await action;
+        } catch (error) {
+            return error as RdfParseError;
+        }
+        throw new Error('Expected a parse error');
+    };
+
+    it('should read Turtle, N-Triples, N-Quads and TriG text', async () => {
+        const inputs: Array<[string, string]> = [
+            ['Turtle', '@prefix ex: <http://example.org/> .\nex:s ex:p 1, 2 .'],
+            ['N-Triples', '<http://example.org/s> <http://example.org/p> "1" .\n<http://example.org/s> <http://example.org/p> "2" .'],
+            ['N-Quads', '<http://example.org/s> <http://example.org/p> "1" <http://example.org/g> .\n<http://example.org/s> <http://example.org/p> "2" .'],
+            ['TriG', '@prefix ex: <http://example.org/> .\nex:g { ex:s ex:p 1, 2 }']
+        ];
+
+        for (const [format, text] of inputs) {
+            const quads = await reader.read({ text }, { format });
+            expect(Array.from(quads, q => q.object.value)).toEqual(['1', '2']);
+        }
+    });
+
+    it('should stream a file and infer its format from the extension', async () => {
+        const file = path.join(directory, 'data.nq');
+        await fs.writeFile(file, Array.from({ length: 100 }, (_, i) =>
+            `<http://example.org/s${i}> <http://example.org/p> "${i}" <http://example.org/g> .`).join('\n'));
+
+        const quads: Quad[] = [];
+        for await (const q of reader.quads({ path: file })) {
+            quads.push(q);
+        }
+
+        expect(quads).toHaveLength(100);
+        expect(quads[99].graph.value).toBe('http://example.org/g');
+        expect(RdfReader.getFormat('dump.TTL')).toBe('Turtle');
+        expect(RdfReader.getFormat('dump.rdf')).toBeUndefined();
+    });
+
+    it('should read a readable stream', async () => {
+        const stream = Readable.from(['<http://example.org/s> <http://example.org/p> ', '"1" .\n<http://example.org/s> <http://example.org/p> "2" .']);
+
+        const quads = await reader.read({ stream }, { format: 'N-Triples' });
+
+        expect(quads.size).toBe(2);
+    });
+
+    it('should report syntax errors with their line', async () => {
+        const file = path.join(directory, 'broken.ttl');
+        await fs.writeFile(file, '@prefix ex: <http://example.org/> .\nex:s ex:p 1 .\nex:s ex:p .\n');
+
+        const fromText = await parseError(reader.read({ text: 'ex:s ex:p 1 .' }));
+        const fromFile = await parseError(reader.read({ path: file }));
+
+        expect(fromText).toBeInstanceOf(RdfParseError);
+        expect(fromText.line).toBe(1);
+        expect(fromText.message).toBe('1: Undefined prefix "ex:"');
+        expect(fromFile.line).toBe(3);
+        expect(fromFile.file).toBe(file);
+        expect(fromFile.message).toBe(`${file}:3: Expected entity but got .`);
+    });
+
+    it('should pass on I/O errors', async () => {
+        await expect(reader.read({ path: path.join(directory, 'missing.ttl') })).rejects.toThrow('ENOENT');
+    });
+});
@@ -0,0 +1,101 @@
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import { Quad, StreamParser } from 'n3';
+import { Readable, pipeline } from 'stream';
+import { RdfInput, RdfParseOptions } from '../Types';
+import { RdfParseError } from './RdfParseError';
+
+/**
+ * It parses serialised RDF in any format supported by n3: Turtle, N-Triples,
+ * N-Quads, TriG and N3. Text is streamed through the n3 StreamParser, so files
+ * and streams are never read into memory as a whole; quads can be consumed one
+ * by one, e.g. to cut them into windows, or collected into a window.
+ * @export
+ * @class RdfReader
+ */
+export class RdfReader {
+    private static readonly FORMATS: Record<string, string> = {
+        '.ttl': 'Turtle',
+        '.nt': 'N-Triples',
+        '.nq': 'N-Quads',
+        '.trig': 'TriG',
+        '.n3': 'N3'
+    };
+
+    /**
+     * Parses serialised RDF quad by quad.
+     * @param {RdfInput} input - The text, file path or readable stream to parse.
+     * @param {RdfParseOptions} [options] - The format and base IRI.
+     * @return {AsyncGenerator<Quad>} - The quads, in document order.
+     * @throws {RdfParseError} - While iterating, if the input is not valid RDF.
+     * @memberof RdfReader
+     */
+    async *quads(input: RdfInput, options: RdfParseOptions = {}): AsyncGenerator<Quad> {
+        const file = 'path' in input ? input.path : options.file;
+        const format = options.format ?? (file !== undefined ? RdfReader.getFormat(file) : undefined);
+        const parser = new StreamParser({ format, baseIRI: options.baseIRI });
+
+        let source: Readable;
+        if ('text' in input) {
+            source = Readable.from([input.text]);
+        } else if ('path' in input) {
+            source = createReadStream(input.path, { encoding: 'utf8' });
+        } else {
+            source = input.stream;
+        }
+        // Errors of the source, such as a missing file, end the parser as well
+        pipeline(source, parser, () => undefined);
+
+        try {
+            for await (const quad of parser) {
+                yield quad as Quad;
+            }
+        } catch (error) {
+            throw this.toParseError(error, file);
+        }
+    }
+
+    /**
+     * Parses serialised RDF into a window of quads.
+     * @param {RdfInput} input - The text, file path or readable stream to parse.
+     * @param {RdfParseOptions} [options] - The format and base IRI.
+     * @return {Promise<Set<Quad>>} - The quads.
+     * @throws {RdfParseError} - If the input is not valid RDF.
+     * @memberof RdfReader
+     */
+    async read(input: RdfInput, options: RdfParseOptions = {}): Promise<Set<Quad>> {
+        const quads = new Set<Quad>();
+        for await (const quad of this.quads(input, options)) {
+            quads.add(quad);
+        }
+        return quads;
+    }
+
+    /**
+     * Gets the n3 format of a file from its extension.
+     * @static
+     * @param {string} filePath - The path of the file.
+     * @return {string | undefined} - The format, or undefined to let the parser accept any format.
+     * @memberof RdfReader
+     */
+    static getFormat(filePath: string): string | undefined {
+        return RdfReader.FORMATS[path.extname(filePath).toLowerCase()];
+    }
+
+    /**
+     * Converts the syntax errors of the n3 parser, which carry their line in a
+     * context, into parse errors. Other errors, such as I/O errors, are kept.
+     * @private
+     * @param {unknown} error - The error raised while parsing.
+     * @param {string} [file] - The file being parsed.
+     * @return {unknown} - The error to throw.
+     * @memberof RdfReader
+     */
+    private toParseError(error: unknown, file?: string): unknown {
+        const line = (error as { context?: { line?: number } }).context?.line;
+        if (line === undefined || !(error instanceof Error)) return error;
+
+        const reason = error.message.replace(/ on line \d+\.?$/, '');
+        return new RdfParseError(reason, line, file);
+    }
+}
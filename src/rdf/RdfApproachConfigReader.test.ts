@@ -0,0 +1,156 @@
+import { DataFactory } from 'n3';
+import { RdfApproachConfigReader } from './RdfApproachConfigReader';
+import { ConfigValidationError } from '../config/ConfigValidationError';
+import { HSB, RDF } from './Vocabulary';
+
+const { namedNode, literal, quad } = DataFactory;
+
+const FEATURES = ['tripleCount', 'variance', 'skewness', 'entropy', 'fftEntropy'];
+const PREFIXES = [
+    '@prefix hsb: <https://w3id.org/hive-scout-bee#> .',
+    '@prefix ex: <http://example.org/approaches#> .',
+    ''
+].join('\n');
+
+describe('RdfApproachConfigReader', () => {
+    let reader: RdfApproachConfigReader;
+
+    beforeEach(() => {
+        reader = new RdfApproachConfigReader();
+    });
+
+    it('should read approaches, thresholds and rules from Turtle in document order', () => {
+        const approaches = reader.parse(PREFIXES + `
+            ex:highVariance a hsb:Approach ;
+                hsb:name "high-variance" ;
+                hsb:description "For data with high variance" ;
+                hsb:priority 3 ;
+                hsb:group "http://example.org/temperature" ;
+                hsb:minThreshold [ hsb:feature "variance" ; hsb:value 50 ] , [ hsb:feature "entropy" ; hsb:value 1.0 ] ;
+                hsb:maxThreshold [ hsb:feature "tripleCount" ; hsb:value 1000 ] ;
+                hsb:hysteresis [ hsb:feature "variance" ; hsb:value 5 ] .
+
+            ex:symmetric a hsb:Approach ;
+                hsb:rule [
+                    a hsb:OrRule ;
+                    hsb:rules (
+                        [ a hsb:RangeRule ; hsb:feature "skewness" ; hsb:min -0.5 ; hsb:max 0.5 ; hsb:maxInclusive false ]
+                        [ a hsb:NotRule ; hsb:rule [ a hsb:ComparisonRule ; hsb:feature "entropy" ; hsb:operator "<" ; hsb:value 2 ] ]
+                    )
+                ] .
+        `, FEATURES);
+
+        expect(approaches).toEqual([
+            {
+                name: 'high-variance',
+                description: 'For data with high variance',
+                priority: 3,
+                group: 'http://example.org/temperature',
+                minThresholds: { variance: 50, entropy: 1 },
+                maxThresholds: { tripleCount: 1000 },
+                hysteresis: { variance: 5 }
+            },
+            {
+                name: 'http://example.org/approaches#symmetric',
+                rule: {
+                    type: 'or',
+                    rules: [
+                        { type: 'range', feature: 'skewness', min: -0.5, max: 0.5, maxInclusive: false },
+                        { type: 'not', rule: { type: 'comparison', feature: 'entropy', operator: '<', value: 2 } }
+                    ]
+                }
+            }
+        ]);
+    });
+
+    it('should read the prototypes of approaches', () => {
+        const approaches = reader.parse(PREFIXES + `
+            ex:calm a hsb:Approach ; hsb:name "calm" ;
+                hsb:prototype [ hsb:featureValue [ hsb:feature "variance" ; hsb:value 2 ] , [ hsb:feature "entropy" ; hsb:value 0.5 ] ] .
+            ex:busy a hsb:Approach ; hsb:name "busy" ;
+                hsb:prototype [ hsb:featureValue [ hsb:feature "variance" ; hsb:value 80 ] ] ,
+                    [ hsb:featureValue [ hsb:feature "variance" ; hsb:value 200 ] ] .
+        `, FEATURES);
+
+        expect(approaches).toEqual([
+            { name: 'calm', prototypes: [{ variance: 2, entropy: 0.5 }] },
+            { name: 'busy', prototypes: [{ variance: 80 }, { variance: 200 }] }
+        ]);
+        expect(() => reader.parse(PREFIXES + `
+            ex:empty a hsb:Approach ; hsb:name "empty" ; hsb:prototype [ hsb:feature "variance" ] .
+        `, FEATURES)).toThrow('<http://example.org/approaches#empty>.prototypes[0]: A prototype must set at least one feature');
+    });
+
+    it('should read approaches from quads', () => {
+        const approach = namedNode('http://example.org/approaches#default');
+        const approaches = reader.read([
+            quad(approach, namedNode(RDF.type), namedNode(HSB.Approach)),
+            quad(approach, namedNode(HSB.name), literal('default'))
+        ], FEATURES);
+
+        expect(approaches).toEqual([{ name: 'default' }]);
+    });
+
+    it('should report invalid approaches by node', () => {
+        let issues: string[] = [];
+        try {
+            reader.parse(PREFIXES + `
+                ex:a a hsb:Approach ; hsb:name "a" ;
+                    hsb:minThreshold [ hsb:feature "variance" ; hsb:value 10 ] ;
+                    hsb:maxThreshold [ hsb:feature "variance" ; hsb:value 5 ] .
+                ex:b a hsb:Approach ; hsb:name "a", "b" ;
+                    hsb:minThreshold [ hsb:feature "kurtosis" ; hsb:value 1 ] ;
+                    hsb:rule [ hsb:feature "variance" ] .
+            `, FEATURES, { file: 'approaches.ttl' });
+        } catch (error) {
+            issues = (error as ConfigValidationError).issues.map(ConfigValidationError.formatIssue);
+        }
+
+        expect(issues).toEqual([
+            'approaches.ttl <http://example.org/approaches#b>.name: Expected a single value for <https://w3id.org/hive-scout-bee#name>',
+            expect.stringMatching(/^approaches\.ttl <http:\/\/example\.org\/approaches#b>\.rule: Rule _:\S+ needs exactly one rule class/),
+            'approaches.ttl <http://example.org/approaches#a>.minThresholds.variance: Min threshold 10 is greater than max threshold 5 for feature "variance"',
+            'approaches.ttl <http://example.org/approaches#b>.minThresholds.kurtosis: Approach "a" references unknown feature "kurtosis"',
+            'approaches.ttl <http://example.org/approaches#b>.rule.type: Expected one of comparison, range, and, or, not',
+            'approaches.ttl <http://example.org/approaches#b>.name: Duplicate approach name "a", already used by approach 0'
+        ]);
+    });
+
+    it('should report cyclic rules instead of recursing forever', () => {
+        let issues: string[] = [];
+        try {
+            reader.parse(PREFIXES + `
+                ex:a a hsb:Approach ; hsb:name "a" ; hsb:rule ex:self .
+                ex:self a hsb:NotRule ; hsb:rule ex:self .
+                ex:b a hsb:Approach ; hsb:name "b" ; hsb:rule ex:outer .
+                ex:outer a hsb:AndRule ; hsb:rules ( ex:inner ) .
+                ex:inner a hsb:OrRule ; hsb:rules ( ex:outer ) .
+            `, FEATURES);
+        } catch (error) {
+            issues = (error as ConfigValidationError).issues.map(ConfigValidationError.formatIssue);
+        }
+
+        expect(issues).toContain('<http://example.org/approaches#a>.rule.rule: Rule <http://example.org/approaches#self> is cyclic: it contains itself');
+        expect(issues).toContain('<http://example.org/approaches#b>.rule.rules[0].rules[0]: Rule <http://example.org/approaches#outer> is cyclic: it contains itself');
+    });
+
+    it('should read a rule shared by several rules', () => {
+        const [approach] = reader.parse(PREFIXES + `
+            ex:a a hsb:Approach ; hsb:name "a" ; hsb:rule [ a hsb:OrRule ; hsb:rules ( ex:calm ex:calm ) ] .
+            ex:calm a hsb:ComparisonRule ; hsb:feature "variance" ; hsb:operator "<" ; hsb:value 10 .
+        `, FEATURES);
+
+        expect(approach.rule).toEqual({
+            type: 'or',
+            rules: [
+                { type: 'comparison', feature: 'variance', operator: '<', value: 10 },
+                { type: 'comparison', feature: 'variance', operator: '<', value: 10 }
+            ]
+        });
+    });
+
+    it('should report Turtle syntax errors with their line', () => {
+        expect(() => reader.parse(PREFIXES + 'ex:a a hsb:Approach ;\n  hsb:name .', FEATURES, { file: 'approaches.ttl' }))
+            .toThrow(/approaches\.ttl:4 \(root\): Invalid RDF: /);
+    });
+});
@@ -0,0 +1,340 @@
+import { Parser, Quad, Term } from 'n3';
+import { ApproachConfig, ApproachThresholds, RdfParseOptions } from '../Types';
+import { ApproachConfigValidator } from '../config/ApproachConfigValidator';
+import { ConfigIssue, ConfigPath, ConfigValidationError } from '../config/ConfigValidationError';
+import { HSB, RDF, XSD } from './Vocabulary';
+
+/**
+ * It reads approach configurations described with the Hive Scout Bee vocabulary.
+ * Every `hsb:Approach` becomes one configuration, named by its `hsb:name` or
+ * else by its IRI, and is validated like configurations loaded from JSON or YAML.
+ * Each `hsb:prototype` of an approach lists its features like a signature, with
+ * `hsb:featureValue` nodes.
+ * Issues are reported with the approach node they were found on.
+ * @export
+ * @class RdfApproachConfigReader
+ */
+export class RdfApproachConfigReader {
+    private validator: ApproachConfigValidator;
+
+    private static readonly RULE_TYPES: Record<string, string> = {
+        [HSB.ComparisonRule]: 'comparison',
+        [HSB.RangeRule]: 'range',
+        [HSB.AndRule]: 'and',
+        [HSB.OrRule]: 'or',
+        [HSB.NotRule]: 'not'
+    };
+    private static readonly NUMERIC_DATATYPES = [
+        'integer', 'decimal', 'double', 'float', 'long', 'int', 'short', 'byte',
+        'nonNegativeInteger', 'positiveInteger', 'nonPositiveInteger', 'negativeInteger',
+        'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte'
+    ].map(type => `http://www.w3.org/2001/XMLSchema#${type}`);
+
+    /**
+     * Creates an instance of RdfApproachConfigReader.
+     * @param {ApproachConfigValidator} [validator] - The validator to check the configurations with.
+     * @memberof RdfApproachConfigReader
+     */
+    constructor(validator: ApproachConfigValidator = new ApproachConfigValidator()) {
+        this.validator = validator;
+    }
+
+    /**
+     * Parses and validates the approaches described in an RDF text, Turtle by default.
+     * @param {string} text - The RDF text.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @param {RdfParseOptions} [options] - The format, base IRI and file of the text.
+     * @return {ApproachConfig[]} - The approach configurations, in document order.
+     * @throws {ConfigValidationError} - If the text cannot be parsed or its configuration is invalid.
+     * @memberof RdfApproachConfigReader
+     */
+    parse(text: string, knownFeatures: string[], options: RdfParseOptions = {}): ApproachConfig[] {
+        let quads: Quad[];
+        try {
+            quads = new Parser({ format: options.format, baseIRI: options.baseIRI }).parse(text);
+        } catch (error) {
+            const line = (error as { context?: { line?: number } }).context?.line;
+            throw new ConfigValidationError([{
+                path: [],
+                message: `Invalid RDF: ${(error as Error).message}`,
+                file: options.file,
+                line
+            }]);
+        }
+        return this.read(quads, knownFeatures, options.file);
+    }
+
+    /**
+     * Validates the approaches described by a set of quads.
+     * @param {Iterable<Quad>} quads - The quads describing the approaches.
+     * @param {string[]} knownFeatures - The features approaches may reference.
+     * @param {string} [file] - The file the quads were read from, reported with the issues.
+     * @return {ApproachConfig[]} - The approach configurations, in the order they are typed as approaches.
+     * @throws {ConfigValidationError} - If the configuration is invalid.
+     * @memberof RdfApproachConfigReader
+     */
+    read(quads: Iterable<Quad>, knownFeatures: string[], file?: string): ApproachConfig[] {
+        const bySubject = new Map<string, Quad[]>();
+        const approachNodes: Term[] = [];
+        for (const quad of quads) {
+            const subjectQuads = bySubject.get(quad.subject.id);
+            if (subjectQuads) {
+                subjectQuads.push(quad);
+            } else {
+                bySubject.set(quad.subject.id, [quad]);
+            }
+            if (quad.predicate.value === RDF.type && quad.object.value === HSB.Approach &&
+                !approachNodes.some(node => node.equals(quad.subject))) {
+                approachNodes.push(quad.subject);
+            }
+        }
+
+        const issues: ConfigIssue[] = [];
+        const context = { bySubject, issues };
+        const approaches = approachNodes.map(node => this.readApproach(node, [this.getLabel(node)], context));
+
+        for (const issue of this.validator.validateApproaches(approaches, knownFeatures)) {
+            const [index, ...rest] = issue.path;
+            issues.push({ ...issue, path: [this.getLabel(approachNodes[index as number]), ...rest] });
+        }
+        if (issues.length > 0) {
+            throw new ConfigValidationError(issues.map(issue => ({ ...issue, file })));
+        }
+        return approaches;
+    }
+
+    /**
+     * Reads one approach node.
+     * @private
+     * @param {Term} node - The approach node.
+     * @param {ConfigPath} path - The path reported with the issues of the approach.
+     * @param {{ bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }} context - The quads by subject and the issues found.
+     * @return {ApproachConfig} - The approach configuration, still to be validated.
+     * @memberof RdfApproachConfigReader
+     */
+    private readApproach(
+        node: Term,
+        path: ConfigPath,
+        context: { bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }
+    ): ApproachConfig {
+        const approach: Record<string, unknown> = {};
+        const name = this.getSingle(node, HSB.name, [...path, 'name'], context);
+        approach.name = name ? name.value : (node.termType === 'NamedNode' ? node.value : undefined);
+
+        const fields: Array<[string, string]> = [['description', HSB.description], ['group', HSB.group], ['priority', HSB.priority]];
+        for (const [key, predicate] of fields) {
+            const term = this.getSingle(node, predicate, [...path, key], context);
+            if (term) {
+                approach[key] = this.toValue(term);
+            }
+        }
+
+        const thresholds: Array<[string, string]> = [['minThresholds', HSB.minThreshold], ['maxThresholds', HSB.maxThreshold], ['hysteresis', HSB.hysteresis]];
+        for (const [key, predicate] of thresholds) {
+            const objects = this.getObjects(node, predicate, context);
+            if (objects.length > 0) {
+                approach[key] = this.readThresholds(objects, [...path, key], context);
+            }
+        }
+
+        const prototypes = this.getObjects(node, HSB.prototype, context);
+        if (prototypes.length > 0) {
+            approach.prototypes = prototypes.map((prototype, index) => this.readThresholds(
+                this.getObjects(prototype, HSB.featureValue, context), [...path, 'prototypes', index], context));
+        }
+
+        const rule = this.getSingle(node, HSB.rule, [...path, 'rule'], context);
+        if (rule) {
+            approach.rule = this.readRule(rule, [...path, 'rule'], context);
+        }
+        return approach as unknown as ApproachConfig;
+    }
+
+    /**
+     * Reads threshold or feature value nodes, each holding a feature and a value.
+     * @private
+     * @param {Term[]} nodes - The threshold nodes.
+     * @param {ConfigPath} path - The path of the thresholds.
+     * @param {{ bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }} context - The quads by subject and the issues found.
+     * @return {ApproachThresholds} - The thresholds by feature.
+     * @memberof RdfApproachConfigReader
+     */
+    private readThresholds(
+        nodes: Term[],
+        path: ConfigPath,
+        context: { bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }
+    ): ApproachThresholds {
+        const thresholds: Record<string, unknown> = {};
+        for (const node of nodes) {
+            const feature = this.getSingle(node, HSB.feature, path, context);
+            const value = this.getSingle(node, HSB.value, path, context);
+            if (!feature || !value) {
+                context.issues.push({ path, message: `Threshold ${this.getLabel(node)} needs one hsb:feature and one hsb:value` });
+            } else if (feature.value in thresholds) {
+                context.issues.push({ path: [...path, feature.value], message: `Feature "${feature.value}" has more than one threshold` });
+            } else {
+                thresholds[feature.value] = this.toValue(value);
+            }
+        }
+        return thresholds as ApproachThresholds;
+    }
+
+    /**
+     * Reads a rule node, recursively. The type of the rule is given by its RDF class.
+     * A rule that contains itself, directly or through other rules, is reported.
+     * @private
+     * @param {Term} node - The rule node.
+     * @param {ConfigPath} path - The path of the rule.
+     * @param {{ bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }} context - The quads by subject and the issues found.
+     * @param {Set<string>} [ancestors] - The ids of the rule nodes enclosing this one.
+     * @return {Record<string, unknown>} - The rule, still to be validated.
+     * @memberof RdfApproachConfigReader
+     */
+    private readRule(
+        node: Term,
+        path: ConfigPath,
+        context: { bySubject: Map<string, Quad[]>; issues: ConfigIssue[] },
+        ancestors: Set<string> = new Set()
+    ): Record<string, unknown> {
+        if (ancestors.has(node.id)) {
+            context.issues.push({ path, message: `Rule ${this.getLabel(node)} is cyclic: it contains itself` });
+            return {};
+        }
+        const enclosing = new Set(ancestors).add(node.id);
+
+        const types = this.getObjects(node, RDF.type, context)
+            .map(type => RdfApproachConfigReader.RULE_TYPES[type.value])
+            .filter(type => type !== undefined);
+        if (types.length !== 1) {
+            context.issues.push({ path, message: `Rule ${this.getLabel(node)} needs exactly one rule class, such as hsb:ComparisonRule` });
+            return {};
+        }
+
+        const rule: Record<string, unknown> = { type: types[0] };
+        const fields: Array<[string, string]> = [
+            ['feature', HSB.feature], ['operator', HSB.operator], ['value', HSB.value],
+            ['min', HSB.min], ['max', HSB.max], ['minInclusive', HSB.minInclusive], ['maxInclusive', HSB.maxInclusive]
+        ];
+        for (const [key, predicate] of fields) {
+            const term = this.getSingle(node, predicate, [...path, key], context);
+            if (term) {
+                rule[key] = this.toValue(term);
+            }
+        }
+
+        const child = this.getSingle(node, HSB.rule, [...path, 'rule'], context);
+        if (child) {
+            rule.rule = this.readRule(child, [...path, 'rule'], context, enclosing);
+        }
+        const list = this.getSingle(node, HSB.rules, [...path, 'rules'], context);
+        if (list) {
+            rule.rules = this.readList(list, [...path, 'rules'], context)
+                .map((item, index) => this.readRule(item, [...path, 'rules', index], context, enclosing));
+        }
+        return rule;
+    }
+
+    /**
+     * Reads the items of an RDF list.
+     * @private
+     * @param {Term} node - The head of the list.
+     * @param {ConfigPath} path - The path of the list.
+     * @param {{ bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }} context - The quads by subject and the issues found.
+     * @return {Term[]} - The items of the list.
+     * @memberof RdfApproachConfigReader
+     */
+    private readList(
+        node: Term,
+        path: ConfigPath,
+        context: { bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }
+    ): Term[] {
+        const items: Term[] = [];
+        const visited = new Set<string>();
+        let current: Term | undefined = node;
+        while (current && current.value !== RDF.nil) {
+            if (visited.has(current.id)) {
+                context.issues.push({ path, message: 'The list of rules is cyclic' });
+                break;
+            }
+            visited.add(current.id);
+            const first = this.getSingle(current, RDF.first, path, context);
+            if (!first) {
+                context.issues.push({ path, message: 'Expected an RDF list of rules' });
+                break;
+            }
+            items.push(first);
+            current = this.getSingle(current, RDF.rest, path, context);
+        }
+        return items;
+    }
+
+    /**
+     * Gets the objects of a node for a predicate.
+     * @private
+     * @param {Term} node - The subject node.
+     * @param {string} predicate - The predicate IRI.
+     * @param {{ bySubject: Map<string, Quad[]> }} context - The quads by subject.
+     * @return {Term[]} - The objects.
+     * @memberof RdfApproachConfigReader
+     */
+    private getObjects(node: Term, predicate: string, context: { bySubject: Map<string, Quad[]> }): Term[] {
+        return (context.bySubject.get(node.id) || [])
+            .filter(quad => quad.predicate.value === predicate)
+            .map(quad => quad.object);
+    }
+
+    /**
+     * Gets the only object of a node for a predicate, reporting an issue if there are several.
+     * @private
+     * @param {Term} node - The subject node.
+     * @param {string} predicate - The predicate IRI.
+     * @param {ConfigPath} path - The path reported if there are several objects.
+     * @param {{ bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }} context - The quads by subject and the issues found.
+     * @return {Term | undefined} - The object, or undefined if there is none.
+     * @memberof RdfApproachConfigReader
+     */
+    private getSingle(
+        node: Term,
+        predicate: string,
+        path: ConfigPath,
+        context: { bySubject: Map<string, Quad[]>; issues: ConfigIssue[] }
+    ): Term | undefined {
+        const objects = this.getObjects(node, predicate, context);
+        if (objects.length > 1) {
+            context.issues.push({ path, message: `Expected a single value for <${predicate}>` });
+        }
+        return objects[0];
+    }
+
+    /**
+     * Converts a term to the value of a configuration field: numeric and boolean
+     * literals to numbers and booleans, any other term to its string value.
+     * @private
+     * @param {Term} term - The term to convert.
+     * @return {string | number | boolean} - The value.
+     * @memberof RdfApproachConfigReader
+     */
+    private toValue(term: Term): string | number | boolean {
+        if (term.termType === 'Literal') {
+            const datatype = term.datatype.value;
+            if (RdfApproachConfigReader.NUMERIC_DATATYPES.includes(datatype)) {
+                return Number(term.value);
+            }
+            if (datatype === XSD.boolean) {
+                return term.value === 'true' || term.value === '1';
+            }
+        }
+        return term.value;
+    }
+
+    /**
+     * Gets the label of a node in issue paths: `<iri>` or `_:id`.
+     * @private
+     * @param {Term} node - The node.
+     * @return {string} - The label.
+     * @memberof RdfApproachConfigReader
+     */
+    private getLabel(node: Term): string {
+        return node.termType === 'NamedNode' ? `<${node.value}>` : node.id;
+    }
+}
@@ -0,0 +1,73 @@
+import { DataFactory, NamedNode, Store } from 'n3';
+import { RecommendationSerializer } from './RecommendationSerializer';
+import { HSB, PROV, RDF } from './Vocabulary';
+import { ApproachRecommendation } from '../Types';
+
+const { namedNode, literal } = DataFactory;
+
+describe('RecommendationSerializer', () => {
+    const recommendation: ApproachRecommendation = {
+        recommendedApproach: 'high-variance',
+        matchingApproaches: ['high-variance', 'default'],
+        signature: { tripleCount: 4, variance: 12.5, skewness: 0, entropy: 1, fftEntropy: Infinity },
+        groupSignatures: {
+            'http://example.org/temperature': { tripleCount: 2, variance: 2, skewness: 0, entropy: 0, fftEntropy: 0 }
+        },
+        extraction: { mode: 'approximate', numericValueCount: 4, sampleSize: 4, fftSize: 4, entropySketched: false, structureSketched: false, rejectedLiteralCount: 0 },
+        confidence: 0.8,
+        ranking: [],
+        switchSuppressed: true,
+        suppressedApproach: 'default',
+        suppressionReason: 'hysteresis'
+    };
+
+    it('should describe the recommendation with its provenance', () => {
+        const store = new Store(new RecommendationSerializer().toQuads(recommendation, {
+            recommendation: 'http://example.org/decisions/1',
+            selection: 'http://example.org/selections/1',
+            window: 'http://example.org/windows/1',
+            config: 'http://example.org/approaches',
+            generatedAt: new Date('2024-01-01T00:00:00Z')
+        }));
+        const decision = namedNode('http://example.org/decisions/1');
+        const selection = namedNode('http://example.org/selections/1');
+        const values = (subject: NamedNode, predicate: string) => store.getObjects(subject, namedNode(predicate), null)
+            .map(term => term.value)
+            .sort();
+
+        expect(values(decision, RDF.type)).toEqual([HSB.Recommendation, PROV.Entity].sort());
+        expect(values(decision, HSB.recommendedApproach)).toEqual(['high-variance']);
+        expect(values(decision, HSB.matchingApproach)).toEqual(['default', 'high-variance']);
+        expect(values(decision, HSB.confidence)).toEqual(['0.8']);
+        expect(values(decision, HSB.switchSuppressed)).toEqual(['true']);
+        expect(values(decision, HSB.suppressedApproach)).toEqual(['default']);
+        expect(values(decision, HSB.suppressionReason)).toEqual(['hysteresis']);
+        expect(values(decision, PROV.wasGeneratedBy)).toEqual([selection.value]);
+        expect(values(decision, PROV.generatedAtTime)).toEqual(['2024-01-01T00:00:00.000Z']);
+        expect(values(selection, RDF.type)).toEqual([HSB.ApproachSelection, PROV.Activity].sort());
+        expect(values(selection, PROV.used)).toEqual(['http://example.org/approaches', 'http://example.org/windows/1']);
+    });
+
+    it('should describe the signatures feature by feature', () => {
+        const store = new Store(new RecommendationSerializer().toQuads(recommendation, {
+            recommendation: 'http://example.org/decisions/1'
+        }));
+        const [signature] = store.getObjects(namedNode('http://example.org/decisions/1'), namedNode(HSB.signature), null);
+        const features = Object.fromEntries(store.getObjects(signature, namedNode(HSB.featureValue), null).map(node => [
+            store.getObjects(node, namedNode(HSB.feature), null)[0].value,
+            store.getObjects(node, namedNode(HSB.value), null)[0].value
+        ]));
+        const [groupSignature] = store.getObjects(null, namedNode(HSB.groupSignature), null);
+
+        expect(features).toEqual({ tripleCount: '4', variance: '12.5', skewness: '0', entropy: '1', fftEntropy: 'INF' });
+        expect(store.getObjects(groupSignature, namedNode(HSB.group), null))
+            .toEqual([literal('http://example.org/temperature')]);
+        expect(store.getObjects(groupSignature, namedNode(HSB.featureValue), null)).toHaveLength(5);
+    });
+
+    it('should put the quads in the requested graph', () => {
+        const quads = new RecommendationSerializer().toQuads(recommendation, { graph: 'http://example.org/decisions' });
+
+        expect(quads.every(q => q.graph.value === 'http://example.org/decisions')).toBe(true);
+    });
+});
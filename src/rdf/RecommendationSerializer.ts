@@ -0,0 +1,110 @@
+import { DataFactory, Quad, Quad_Object, Quad_Predicate, Quad_Subject } from 'n3';
+import { ApproachRecommendation, RecommendationSerializationOptions, StreamSignature } from '../Types';
+import { HSB, PROV, RDF, XSD } from './Vocabulary';
+
+const { namedNode, blankNode, literal, quad, defaultGraph } = DataFactory;
+
+/**
+ * It serialises recommendations to RDF quads, so that decisions can be stored
+ * next to the stream data. The recommendation is a `prov:Entity` generated by
+ * an `hsb:ApproachSelection` activity, which used the window and the approach
+ * configuration; its signature is described feature by feature.
+ * @export
+ * @class RecommendationSerializer
+ */
+export class RecommendationSerializer {
+    /**
+     * Serialises a recommendation and its signatures to quads.
+     * @param {ApproachRecommendation} recommendation - The recommendation to serialise.
+     * @param {RecommendationSerializationOptions} [options] - The IRIs of the recommendation, window and configuration, and the time.
+     * @return {Quad[]} - The quads describing the recommendation.
+     * @memberof RecommendationSerializer
+     */
+    toQuads(recommendation: ApproachRecommendation, options: RecommendationSerializationOptions = {}): Quad[] {
+        const graph = options.graph ? namedNode(options.graph) : defaultGraph();
+        const quads: Quad[] = [];
+        const add = (subject: Quad_Subject, predicate: string, object: Quad_Object) => {
+            quads.push(quad(subject, namedNode(predicate) as Quad_Predicate, object, graph));
+        };
+
+        const decision = options.recommendation ? namedNode(options.recommendation) : blankNode();
+        const selection = options.selection ? namedNode(options.selection) : blankNode();
+        const generatedAt = literal((options.generatedAt || new Date()).toISOString(), namedNode(XSD.dateTime));
+
+        add(decision, RDF.type, namedNode(HSB.Recommendation));
+        add(decision, RDF.type, namedNode(PROV.Entity));
+        add(decision, HSB.recommendedApproach, literal(recommendation.recommendedApproach));
+        for (const approach of recommendation.matchingApproaches) {
+            add(decision, HSB.matchingApproach, literal(approach));
+        }
+        add(decision, HSB.confidence, this.toDouble(recommendation.confidence));
+        if (recommendation.switchSuppressed !== undefined) {
+            add(decision, HSB.switchSuppressed, literal(String(recommendation.switchSuppressed), namedNode(XSD.boolean)));
+        }
+        if (recommendation.suppressedApproach !== undefined) {
+            add(decision, HSB.suppressedApproach, literal(recommendation.suppressedApproach));
+        }
+        if (recommendation.suppressionReason !== undefined) {
+            add(decision, HSB.suppressionReason, literal(recommendation.suppressionReason));
+        }
+        add(decision, PROV.wasGeneratedBy, selection);
+        add(decision, PROV.generatedAtTime, generatedAt);
+
+        add(selection, RDF.type, namedNode(HSB.ApproachSelection));
+        add(selection, RDF.type, namedNode(PROV.Activity));
+        add(selection, PROV.endedAtTime, generatedAt);
+        for (const used of [options.window, options.config]) {
+            if (used) {
+                add(selection, PROV.used, namedNode(used));
+                add(decision, PROV.wasDerivedFrom, namedNode(used));
+            }
+        }
+
+        const signature = this.addSignature(recommendation.signature, add);
+        add(decision, HSB.signature, signature);
+        for (const [group, groupSignature] of Object.entries(recommendation.groupSignatures || {})) {
+            const node = this.addSignature(groupSignature, add);
+            add(node, HSB.group, literal(group));
+            add(decision, HSB.groupSignature, node);
+        }
+        return quads;
+    }
+
+    /**
+     * Describes a signature with one `hsb:FeatureValue` node per feature.
+     * @private
+     * @param {StreamSignature} signature - The signature to describe.
+     * @param {(subject: Quad_Subject, predicate: string, object: Quad_Object) => void} add - Adds a quad to the result.
+     * @return {Quad_Subject} - The node of the signature.
+     * @memberof RecommendationSerializer
+     */
+    private addSignature(
+        signature: StreamSignature,
+        add: (subject: Quad_Subject, predicate: string, object: Quad_Object) => void
+    ): Quad_Subject {
+        const node = blankNode();
+        add(node, RDF.type, namedNode(HSB.StreamSignature));
+        for (const [feature, value] of Object.entries(signature)) {
+            const featureValue = blankNode();
+            add(node, HSB.featureValue, featureValue);
+            add(featureValue, RDF.type, namedNode(HSB.FeatureValue));
+            add(featureValue, HSB.feature, literal(feature));
+            add(featureValue, HSB.value, this.toDouble(value));
+        }
+        return node;
+    }
+
+    /**
+     * Creates an xsd:double literal, including for infinite and NaN values.
+     * @private
+     * @param {number} value - The number.
+     * @return {Quad_Object} - The literal.
+     * @memberof RecommendationSerializer
+     */
+    private toDouble(value: number): Quad_Object {
+        let lexical = String(value);
+        if (value === Infinity) lexical = 'INF';
+        if (value === -Infinity) lexical = '-INF';
+        return literal(lexical, namedNode(XSD.double));
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * The namespace of the Hive Scout Bee vocabulary, describing approaches,
+ * their thresholds and rules, stream signatures and recommendations.
+ * @export
+ */
+export const HSB_NAMESPACE = 'https://w3id.org/hive-scout-bee#';
+
+const hsb = (name: string): string => `${HSB_NAMESPACE}${name}`;
+
+/**
+ * The terms of the Hive Scout Bee vocabulary.
+ * @export
+ */
+export const HSB = {
+    // Approach configurations
+    Approach: hsb('Approach'),
+    name: hsb('name'),
+    description: hsb('description'),
+    group: hsb('group'),
+    priority: hsb('priority'),
+    minThreshold: hsb('minThreshold'),
+    maxThreshold: hsb('maxThreshold'),
+    hysteresis: hsb('hysteresis'),
+    prototype: hsb('prototype'),
+    feature: hsb('feature'),
+    value: hsb('value'),
+
+    // Rule expressions
+    rule: hsb('rule'),
+    rules: hsb('rules'),
+    ComparisonRule: hsb('ComparisonRule'),
+    RangeRule: hsb('RangeRule'),
+    AndRule: hsb('AndRule'),
+    OrRule: hsb('OrRule'),
+    NotRule: hsb('NotRule'),
+    operator: hsb('operator'),
+    min: hsb('min'),
+    max: hsb('max'),
+    minInclusive: hsb('minInclusive'),
+    maxInclusive: hsb('maxInclusive'),
+
+    // Recommendations and signatures
+    ApproachSelection: hsb('ApproachSelection'),
+    Recommendation: hsb('Recommendation'),
+    StreamSignature: hsb('StreamSignature'),
+    FeatureValue: hsb('FeatureValue'),
+    recommendedApproach: hsb('recommendedApproach'),
+    matchingApproach: hsb('matchingApproach'),
+    confidence: hsb('confidence'),
+    switchSuppressed: hsb('switchSuppressed'),
+    suppressedApproach: hsb('suppressedApproach'),
+    suppressionReason: hsb('suppressionReason'),
+    signature: hsb('signature'),
+    groupSignature: hsb('groupSignature'),
+    featureValue: hsb('featureValue')
+};
+
+/**
+ * The terms of the PROV-O vocabulary used for the provenance of recommendations.
+ * @export
+ */
+export const PROV = {
+    Activity: 'http://www.w3.org/ns/prov#Activity',
+    Entity: 'http://www.w3.org/ns/prov#Entity',
+    used: 'http://www.w3.org/ns/prov#used',
+    wasGeneratedBy: 'http://www.w3.org/ns/prov#wasGeneratedBy',
+    wasDerivedFrom: 'http://www.w3.org/ns/prov#wasDerivedFrom',
+    generatedAtTime: 'http://www.w3.org/ns/prov#generatedAtTime',
+    endedAtTime: 'http://www.w3.org/ns/prov#endedAtTime'
+};
+
+/**
+ * The terms of the RDF vocabulary used to type nodes and read lists.
+ * @export
+ */
+export const RDF = {
+    type: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type',
+    first: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first',
+    rest: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest',
+    nil: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#nil'
+};
+
+/**
+ * The XML Schema datatypes used for literals.
+ * @export
+ */
+export const XSD = {
+    boolean: 'http://www.w3.org/2001/XMLSchema#boolean',
+    dateTime: 'http://www.w3.org/2001/XMLSchema#dateTime',
+    double: 'http://www.w3.org/2001/XMLSchema#double',
+    string: 'http://www.w3.org/2001/XMLSchema#string'
+};
@@ -0,0 +1,248 @@
+import { RuleEvaluator } from './RuleEvaluator';
+import { RuleExpression, StreamSignature } from '../Types';
+
+describe('RuleEvaluator', () => {
+    let evaluator: RuleEvaluator;
+
+    const signature: StreamSignature = {
+        tripleCount: 20,
+        variance: 30,
+        skewness: 2.5,
+        entropy: 1.0,
+        fftEntropy: 1.5
+    };
+
+    beforeEach(() => {
+        evaluator = new RuleEvaluator();
+    });
+
+    describe('buildApproachRule', () => {
+        it('should turn min and max thresholds into comparisons', () => {
+            const rule = evaluator.buildApproachRule({
+                name: 'approach',
+                minThresholds: { variance: 10 },
+                maxThresholds: { entropy: 2, skewness: undefined }
+            });
+
+            expect(rule).toEqual({
+                type: 'and',
+                rules: [
+                    { type: 'comparison', feature: 'variance', operator: '>=', value: 10 },
+                    { type: 'comparison', feature: 'entropy', operator: '<=', value: 2 }
+                ]
+            });
+        });
+
+        it('should combine thresholds with the explicit rule', () => {
+            const explicit: RuleExpression = { type: 'comparison', feature: 'skewness', operator: '>', value: 2 };
+
+            expect(evaluator.buildApproachRule({ name: 'approach', rule: explicit })).toBe(explicit);
+            expect(evaluator.buildApproachRule({
+                name: 'approach',
+                minThresholds: { variance: 10 },
+                rule: explicit
+            })).toEqual({
+                type: 'and',
+                rules: [{ type: 'comparison', feature: 'variance', operator: '>=', value: 10 }, explicit]
+            });
+        });
+    });
+
+    describe('evaluate', () => {
+        it('should evaluate comparisons', () => {
+            const evaluate = (operator: '<' | '<=' | '>' | '>=' | '==' | '!=', value: number) =>
+                evaluator.evaluate({ type: 'comparison', feature: 'variance', operator, value }, signature).matches;
+
+            expect(evaluate('>', 30)).toBe(false);
+            expect(evaluate('>=', 30)).toBe(true);
+            expect(evaluate('<', 30)).toBe(false);
+            expect(evaluate('<=', 30)).toBe(true);
+            expect(evaluate('==', 30)).toBe(true);
+            expect(evaluate('!=', 30)).toBe(false);
+        });
+
+        it('should score failed bounds by their distance to the threshold', () => {
+            const lower = evaluator.evaluate({ type: 'comparison', feature: 'variance', operator: '>=', value: 60 }, signature);
+            const upper = evaluator.evaluate({ type: 'comparison', feature: 'variance', operator: '<=', value: 15 }, signature);
+
+            expect(lower).toEqual({ matches: false, score: 0.5, specificity: 60 / 31 });
+            expect(upper).toEqual({ matches: false, score: 0.5, specificity: 1 / 16 });
+        });
+
+        it('should exclude range endpoints when asked', () => {
+            const range = (minInclusive: boolean, maxInclusive: boolean, min: number, max: number) =>
+                evaluator.evaluate({ type: 'range', feature: 'entropy', min, max, minInclusive, maxInclusive }, signature).matches;
+
+            expect(range(true, true, 1.0, 2.0)).toBe(true);
+            expect(range(false, true, 1.0, 2.0)).toBe(false);
+            expect(range(true, true, 0.0, 1.0)).toBe(true);
+            expect(range(true, false, 0.0, 1.0)).toBe(false);
+        });
+
+        it('should support open-ended ranges', () => {
+            expect(evaluator.evaluate({ type: 'range', feature: 'tripleCount', min: 10 }, signature).matches).toBe(true);
+            expect(evaluator.evaluate({ type: 'range', feature: 'tripleCount', max: 10 }, signature).matches).toBe(false);
+        });
+
+        it('should combine rules with and, or and not', () => {
+            // (variance > 50 OR skewness > 2) AND NOT tripleCount < 10
+            const rule: RuleExpression = {
+                type: 'and',
+                rules: [
+                    {
+                        type: 'or',
+                        rules: [
+                            { type: 'comparison', feature: 'variance', operator: '>', value: 50 },
+                            { type: 'comparison', feature: 'skewness', operator: '>', value: 2 }
+                        ]
+                    },
+                    {
+                        type: 'not',
+                        rule: { type: 'comparison', feature: 'tripleCount', operator: '<', value: 10 }
+                    }
+                ]
+            };
+
+            expect(evaluator.evaluate(rule, signature).matches).toBe(true);
+            expect(evaluator.evaluate(rule, { ...signature, skewness: 1 }).matches).toBe(false);
+            expect(evaluator.evaluate(rule, { ...signature, tripleCount: 5 }).matches).toBe(false);
+            expect(evaluator.evaluate(rule, { ...signature, variance: 80, skewness: 0 }).matches).toBe(true);
+        });
+
+        it('should take the best score of a failing or', () => {
+            const evaluation = evaluator.evaluate({
+                type: 'or',
+                rules: [
+                    { type: 'comparison', feature: 'variance', operator: '>=', value: 60 },
+                    { type: 'comparison', feature: 'variance', operator: '>=', value: 40 }
+                ]
+            }, signature);
+
+            expect(evaluation.matches).toBe(false);
+            expect(evaluation.score).toBeCloseTo(0.75, 10);
+        });
+
+        it('should score negations like the inverted comparison', () => {
+            const negated = evaluator.evaluate({
+                type: 'not',
+                rule: { type: 'comparison', feature: 'variance', operator: '<', value: 60 }
+            }, signature);
+            const inverted = evaluator.evaluate({ type: 'comparison', feature: 'variance', operator: '>=', value: 60 }, signature);
+
+            expect(negated).toEqual(inverted);
+        });
+
+        it('should negate ranges into the values outside them', () => {
+            const outside = (value: number) => evaluator.evaluate({
+                type: 'not',
+                rule: { type: 'range', feature: 'variance', min: 10, max: 20, maxInclusive: false }
+            }, { ...signature, variance: value }).matches;
+
+            expect(outside(5)).toBe(true);
+            expect(outside(15)).toBe(false);
+            expect(outside(20)).toBe(true);
+        });
+
+        it('should match an empty conjunction with a score of zero', () => {
+            expect(evaluator.evaluate({ type: 'and', rules: [] }, signature)).toEqual({
+                matches: true,
+                score: 0,
+                specificity: 0
+            });
+        });
+    });
+
+    it('should list the features a rule refers to', () => {
+        expect(evaluator.getFeatures({
+            type: 'or',
+            rules: [
+                { type: 'comparison', feature: 'variance', operator: '>', value: 50 },
+                { type: 'not', rule: { type: 'range', feature: 'entropy', min: 1 } },
+                { type: 'comparison', feature: 'variance', operator: '<', value: 5 }
+            ]
+        }).sort()).toEqual(['entropy', 'variance']);
+    });
+
+    it('should measure the margin relative to the larger magnitude of value and threshold', () => {
+        const margin = (feature: string, operator: '<' | '<=' | '>' | '>=' | '==' | '!=', value: number) =>
+            evaluator.getMargin({ type: 'comparison', feature, operator, value }, signature);
+
+        expect(margin('variance', '>=', 20)).toBeCloseTo(1 / 3, 10);
+        expect(margin('variance', '<=', 60)).toBe(0.5);
+        expect(margin('variance', '>', 60)).toBe(-0.5);
+        expect(margin('variance', '>', 30)).toBe(0);
+        expect(margin('skewness', '<=', -2.5)).toBe(-1);
+        expect(margin('entropy', '==', 1)).toBe(1);
+        expect(margin('entropy', '!=', 1)).toBe(-1);
+        expect(margin('fftEntropy', '==', 2)).toBe(-0.25);
+        expect(evaluator.getMargin({ type: 'comparison', feature: 'variance', operator: '>=', value: 1 }, { ...signature, variance: NaN }))
+            .toBe(-1);
+    });
+
+    it('should take the tightest margin of a conjunction and the safest of a disjunction', () => {
+        expect(evaluator.getMargin({ type: 'range', feature: 'variance', min: 20, max: 60 }, signature)).toBeCloseTo(1 / 3, 10);
+        expect(evaluator.getMargin({
+            type: 'or',
+            rules: [
+                { type: 'comparison', feature: 'variance', operator: '>', value: 60 },
+                { type: 'comparison', feature: 'entropy', operator: '<=', value: 2 }
+            ]
+        }, signature)).toBe(0.5);
+        expect(evaluator.getMargin({
+            type: 'not',
+            rule: { type: 'comparison', feature: 'variance', operator: '<', value: 20 }
+        }, signature)).toBeCloseTo(1 / 3, 10);
+        expect(evaluator.getMargin({ type: 'or', rules: [] }, signature)).toBe(-1);
+    });
+
+    it('should give rules that constrain nothing the neutral margin', () => {
+        const anything = { type: 'comparison', feature: 'variance', operator: '>=', value: 0 } as const;
+
+        expect(evaluator.getMargin({ type: 'and', rules: [] }, signature)).toBe(0);
+        expect(evaluator.getMargin({ type: 'and', rules: [anything] }, signature)).toBe(0);
+        expect(evaluator.getMargin({
+            type: 'or',
+            rules: [anything, { type: 'comparison', feature: 'variance', operator: '>', value: 60 }]
+        }, signature)).toBe(0);
+        expect(evaluator.getMargin({ type: 'not', rule: anything }, signature)).toBe(-1);
+    });
+
+    it('should leave lower bounds that hold by construction out of the margin', () => {
+        const flat = { ...signature, variance: 0, skewness: 0, entropy: 0 };
+
+        expect(evaluator.getMargin({ type: 'comparison', feature: 'variance', operator: '>=', value: 0 }, flat)).toBe(0);
+        expect(evaluator.getMargin({ type: 'comparison', feature: 'bandEnergy1', operator: '>', value: -1 }, flat)).toBe(0);
+        expect(evaluator.getMargin({ type: 'range', feature: 'entropy', min: 0, max: 1 }, flat)).toBe(1);
+        expect(evaluator.getMargin({
+            type: 'and',
+            rules: [
+                { type: 'comparison', feature: 'variance', operator: '>=', value: 0 },
+                { type: 'comparison', feature: 'variance', operator: '<=', value: 60 }
+            ]
+        }, signature)).toBe(0.5);
+        // Skewness can be negative, so its signature on the bound leaves no margin
+        expect(evaluator.getMargin({ type: 'comparison', feature: 'skewness', operator: '>=', value: 0 }, flat)).toBe(0);
+    });
+
+    it('should widen bounds by the margin of their feature', () => {
+        const widened = evaluator.widen({
+            type: 'and',
+            rules: [
+                { type: 'comparison', feature: 'variance', operator: '>', value: 50 },
+                { type: 'range', feature: 'entropy', min: 1, max: 2 },
+                { type: 'not', rule: { type: 'comparison', feature: 'variance', operator: '>=', value: 100 } },
+                { type: 'comparison', feature: 'skewness', operator: '<=', value: 1 }
+            ]
+        }, { variance: 5, entropy: 0.5 });
+
+        expect(widened).toEqual({
+            type: 'and',
+            rules: [
+                { type: 'comparison', feature: 'variance', operator: '>', value: 45 },
+                { type: 'range', feature: 'entropy', min: 0.5, max: 2.5 },
+                { type: 'not', rule: { type: 'comparison', feature: 'variance', operator: '>=', value: 105 } },
+                { type: 'comparison', feature: 'skewness', operator: '<=', value: 1 }
+            ]
+        });
+    });
+});
@@ -0,0 +1,539 @@
+import {
+    ApproachConfig,
+    ComparisonOperator,
+    ComparisonRule,
+    RangeRule,
+    RuleEvaluation,
+    RuleExpression,
+    StreamSignature,
+    ThresholdCheck
+} from "../Types";
+
+/**
+ * It evaluates the rule expression trees of approaches against stream signatures.
+ * Besides whether a rule holds, the evaluation yields a score telling how close
+ * the signature is to satisfying it, and a specificity telling how restrictive
+ * the satisfied part of the rule is.
+ * @export
+ * @class RuleEvaluator
+ */
+export class RuleEvaluator {
+
+    // Built-in features that cannot be negative, so that a lower bound of at most 0 always holds
+    private static readonly NON_NEGATIVE_FEATURES = new Set([
+        'tripleCount', 'variance', 'entropy', 'fftEntropy', 'range', 'iqr', 'numericRatio',
+        'subjectCount', 'objectCount', 'graphCount', 'outDegreeMean', 'outDegreeMax', 'outDegreeVariance',
+        'iriRatio', 'literalRatio', 'blankNodeRatio', 'datatypeCount', 'datatypeEntropy', 'languageCount',
+        'languageEntropy', 'subjectEntropy', 'objectEntropy', 'dominantFrequency', 'spectralCentroid', 'spectralFlatness'
+    ]);
+    private static readonly BAND_ENERGY = /^bandEnergy\d+$/;
+    // Margin of a rule that constrains nothing, such as an approach without thresholds: it says nothing about the fit
+    private static readonly UNCONSTRAINED_MARGIN = 0;
+
+    /**
+     * Builds the rule of an approach. The min/max thresholds are shorthand for
+     * `>=` and `<=` comparisons, which are combined with the explicit rule, if any.
+     * @param {ApproachConfig} config - The approach configuration.
+     * @return {RuleExpression} - The rule deciding whether the approach matches.
+     * @memberof RuleEvaluator
+     */
+    buildApproachRule(config: ApproachConfig): RuleExpression {
+        const rules: RuleExpression[] = [];
+
+        for (const [feature, value] of Object.entries(config.minThresholds || {})) {
+            if (value !== undefined) {
+                rules.push({ type: 'comparison', feature, operator: '>=', value });
+            }
+        }
+        for (const [feature, value] of Object.entries(config.maxThresholds || {})) {
+            if (value !== undefined) {
+                rules.push({ type: 'comparison', feature, operator: '<=', value });
+            }
+        }
+
+        if (config.rule) {
+            if (rules.length === 0) return config.rule;
+            rules.push(config.rule);
+        }
+        return { type: 'and', rules };
+    }
+
+    /**
+     * Gets the names of all features a rule refers to.
+     * @param {RuleExpression} rule - The rule to inspect.
+     * @return {string[]} - The distinct feature names.
+     * @memberof RuleEvaluator
+     */
+    getFeatures(rule: RuleExpression): string[] {
+        const features = new Set<string>();
+        const visit = (node: RuleExpression): void => {
+            switch (node.type) {
+                case 'comparison':
+                case 'range':
+                    features.add(node.feature);
+                    break;
+                case 'and':
+                case 'or':
+                    node.rules.forEach(visit);
+                    break;
+                case 'not':
+                    visit(node.rule);
+                    break;
+            }
+        };
+        visit(rule);
+        return Array.from(features);
+    }
+
+    /**
+     * Lists the comparisons a rule makes against a signature, after ranges have
+     * been expanded into their bounds and negations pushed down to the comparisons.
+     * @param {RuleExpression} rule - The rule to explain.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {ThresholdCheck[]} - The outcome of every comparison, in rule order.
+     * @memberof RuleEvaluator
+     */
+    explain(rule: RuleExpression, signature: StreamSignature): ThresholdCheck[] {
+        switch (rule.type) {
+            case 'comparison': {
+                const observed = signature[rule.feature];
+                return [{
+                    feature: rule.feature,
+                    operator: rule.operator,
+                    threshold: rule.value,
+                    observed,
+                    passed: this.compare(observed, rule.operator, rule.value),
+                    margin: this.margin(observed, rule.operator, rule.value)
+                }];
+            }
+            case 'range':
+                return this.explain(this.expandRange(rule), signature);
+            case 'and':
+            case 'or':
+                return rule.rules.flatMap(child => this.explain(child, signature));
+            case 'not':
+                return this.explain(this.negate(rule.rule), signature);
+        }
+    }
+
+    /**
+     * Calculates the relative margin by which a signature satisfies a rule: positive
+     * when the rule holds, 0 on its boundary and negative when it fails. A comparison
+     * divides the distance to its threshold by the larger magnitude of the value and
+     * the threshold, so that margins of features of any scale are comparable. A
+     * conjunction is as safe as its tightest rule, a disjunction as its safest one.
+     * A lower bound that holds by construction, such as a minimum variance of 0, says
+     * nothing about the signature and is left out of a conjunction. A rule that
+     * constrains nothing at all, such as an empty conjunction, has the neutral margin
+     * {@link RuleEvaluator.UNCONSTRAINED_MARGIN}.
+     * @param {RuleExpression} rule - The rule.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {number} - The margin, from -1 to 1.
+     * @memberof RuleEvaluator
+     */
+    getMargin(rule: RuleExpression, signature: StreamSignature): number {
+        return this.getConstrainedMargin(rule, signature) ?? RuleEvaluator.UNCONSTRAINED_MARGIN;
+    }
+
+    /**
+     * Calculates the margin of a rule, telling apart rules that constrain nothing.
+     * A disjunction with such a rule holds whatever the signature, so it constrains nothing either.
+     * @private
+     * @param {RuleExpression} rule - The rule.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {number | undefined} - The margin, from -1 to 1, or undefined if the rule holds for every signature.
+     * @memberof RuleEvaluator
+     */
+    private getConstrainedMargin(rule: RuleExpression, signature: StreamSignature): number | undefined {
+        switch (rule.type) {
+            case 'comparison':
+                if (this.holdsByConstruction(rule)) return undefined;
+                return this.relativeMargin(signature[rule.feature], rule.operator, rule.value);
+            case 'range':
+                return this.getConstrainedMargin(this.expandRange(rule), signature);
+            case 'and': {
+                const margins = rule.rules
+                    .map(child => this.getConstrainedMargin(child, signature))
+                    .filter((margin): margin is number => margin !== undefined);
+                return margins.length > 0 ? Math.min(...margins) : undefined;
+            }
+            case 'or': {
+                const margins = rule.rules.map(child => this.getConstrainedMargin(child, signature));
+                if (margins.some(margin => margin === undefined)) return undefined;
+                return (margins as number[]).reduce((safest, margin) => Math.max(safest, margin), -1);
+            }
+            case 'not':
+                return this.getConstrainedMargin(this.negate(rule.rule), signature);
+        }
+    }
+
+    /**
+     * Widens a rule by moving its bounds outwards by a margin per feature, so that
+     * the widened rule holds wherever the original one does. Bounds under a `not`
+     * are moved the other way, since they bound the complement.
+     * @param {RuleExpression} rule - The rule to widen.
+     * @param {Record<string, number>} margins - The margin for each feature; features without one are left as is.
+     * @return {RuleExpression} - The widened rule.
+     * @memberof RuleEvaluator
+     */
+    widen(rule: RuleExpression, margins: Record<string, number>): RuleExpression {
+        return this.shiftBounds(rule, margins, 1);
+    }
+
+    /**
+     * Moves the bounds of a rule outwards (direction 1) or inwards (direction -1).
+     * @private
+     * @param {RuleExpression} rule - The rule whose bounds to move.
+     * @param {Record<string, number>} margins - The margin for each feature.
+     * @param {number} direction - 1 to widen the rule, -1 to narrow it.
+     * @return {RuleExpression} - The rule with moved bounds.
+     * @memberof RuleEvaluator
+     */
+    private shiftBounds(rule: RuleExpression, margins: Record<string, number>, direction: number): RuleExpression {
+        switch (rule.type) {
+            case 'comparison':
+                return this.shiftComparison(rule, margins, direction);
+            case 'range': {
+                const margin = (margins[rule.feature] || 0) * direction;
+                return {
+                    ...rule,
+                    min: rule.min === undefined ? undefined : rule.min - margin,
+                    max: rule.max === undefined ? undefined : rule.max + margin
+                };
+            }
+            case 'and':
+            case 'or':
+                return { ...rule, rules: rule.rules.map(child => this.shiftBounds(child, margins, direction)) };
+            case 'not':
+                return { type: 'not', rule: this.shiftBounds(rule.rule, margins, -direction) };
+        }
+    }
+
+    /**
+     * Moves the bound of a comparison outwards (direction 1) or inwards (direction -1).
+     * @private
+     * @param {ComparisonRule} rule - The comparison whose bound to move.
+     * @param {Record<string, number>} margins - The margin for each feature.
+     * @param {number} direction - 1 to widen the comparison, -1 to narrow it.
+     * @return {RuleExpression} - The comparison with moved bound.
+     * @memberof RuleEvaluator
+     */
+    private shiftComparison(rule: ComparisonRule, margins: Record<string, number>, direction: number): RuleExpression {
+        const margin = (margins[rule.feature] || 0) * direction;
+        switch (rule.operator) {
+            case '>':
+            case '>=':
+                return { ...rule, value: rule.value - margin };
+            case '<':
+            case '<=':
+                return { ...rule, value: rule.value + margin };
+            case '==':
+                return this.shiftBounds(
+                    { type: 'range', feature: rule.feature, min: rule.value, max: rule.value },
+                    margins,
+                    direction
+                );
+            case '!=':
+                return rule;
+        }
+    }
+
+    /**
+     * Evaluates a rule against a signature.
+     * - `and` holds when all of its rules hold; its score and specificity are the
+     *   averages over its rules, and an empty `and` holds with a score of 0.
+     * - `or` holds when any of its rules holds; it takes the score of its best
+     *   rule and the specificity of the most specific rule that holds.
+     * - `not` is pushed down to the comparisons (e.g. `not (x < 10)` becomes
+     *   `x >= 10`), so that negated rules are scored like any other.
+     * @param {RuleExpression} rule - The rule to evaluate.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {RuleEvaluation} - Whether the rule holds, with its score and specificity.
+     * @memberof RuleEvaluator
+     */
+    evaluate(rule: RuleExpression, signature: StreamSignature): RuleEvaluation {
+        switch (rule.type) {
+            case 'comparison':
+                return this.evaluateComparison(rule, signature);
+            case 'range':
+                return this.evaluate(this.expandRange(rule), signature);
+            case 'and':
+                return this.evaluateAnd(rule.rules, signature);
+            case 'or':
+                return this.evaluateOr(rule.rules, signature);
+            case 'not':
+                return this.evaluate(this.negate(rule.rule), signature);
+        }
+    }
+
+    /**
+     * Evaluates the conjunction of rules.
+     * @private
+     * @param {RuleExpression[]} rules - The rules that must all hold.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {RuleEvaluation} - The evaluation of the conjunction.
+     * @memberof RuleEvaluator
+     */
+    private evaluateAnd(rules: RuleExpression[], signature: StreamSignature): RuleEvaluation {
+        if (rules.length === 0) {
+            return { matches: true, score: 0, specificity: 0 };
+        }
+
+        let matches = true;
+        let totalScore = 0;
+        let totalSpecificity = 0;
+        for (const rule of rules) {
+            const evaluation = this.evaluate(rule, signature);
+            matches = matches && evaluation.matches;
+            totalScore += evaluation.score;
+            totalSpecificity += evaluation.specificity;
+        }
+
+        return {
+            matches,
+            score: totalScore / rules.length,
+            specificity: totalSpecificity / rules.length
+        };
+    }
+
+    /**
+     * Evaluates the disjunction of rules.
+     * @private
+     * @param {RuleExpression[]} rules - The rules of which one must hold.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {RuleEvaluation} - The evaluation of the disjunction.
+     * @memberof RuleEvaluator
+     */
+    private evaluateOr(rules: RuleExpression[], signature: StreamSignature): RuleEvaluation {
+        let best: RuleEvaluation = { matches: false, score: 0, specificity: 0 };
+
+        for (const rule of rules) {
+            const evaluation = this.evaluate(rule, signature);
+            if (evaluation.matches && (!best.matches || evaluation.specificity > best.specificity)) {
+                best = evaluation;
+            } else if (!best.matches && evaluation.score > best.score) {
+                best = evaluation;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Evaluates a comparison. Lower bounds (`>`, `>=`) score the ratio of value to
+     * threshold when they fail and are more specific the closer the threshold is
+     * to the value; upper bounds (`<`, `<=`) score the ratio of threshold to value
+     * and are more specific the lower the threshold.
+     * @private
+     * @param {ComparisonRule} rule - The comparison to evaluate.
+     * @param {StreamSignature} signature - The stream signature.
+     * @return {RuleEvaluation} - The evaluation of the comparison.
+     * @memberof RuleEvaluator
+     */
+    private evaluateComparison(rule: ComparisonRule, signature: StreamSignature): RuleEvaluation {
+        const value = signature[rule.feature];
+        const threshold = rule.value;
+        const matches = this.compare(value, rule.operator, threshold);
+
+        switch (rule.operator) {
+            case '>':
+            case '>=':
+                return {
+                    matches,
+                    score: matches ? 1.0 : this.ratio(value, threshold),
+                    specificity: this.lowerBoundSpecificity(value, threshold)
+                };
+            case '<':
+            case '<=':
+                return {
+                    matches,
+                    score: matches ? 1.0 : this.ratio(threshold, value),
+                    specificity: this.upperBoundSpecificity(threshold)
+                };
+            case '==':
+                // An equality is a range with both endpoints at the threshold
+                return {
+                    matches,
+                    score: matches ? 1.0 : 1 / (1 + Math.abs(value - threshold)),
+                    specificity: (this.lowerBoundSpecificity(value, threshold) + this.upperBoundSpecificity(threshold)) / 2
+                };
+            case '!=':
+                return { matches, score: matches ? 1.0 : 0, specificity: 0 };
+        }
+    }
+
+    /**
+     * Applies a comparison operator.
+     * @private
+     * @param {number} value - The observed value.
+     * @param {ComparisonOperator} operator - The operator.
+     * @param {number} threshold - The value to compare with.
+     * @return {boolean} - The outcome of the comparison.
+     * @memberof RuleEvaluator
+     */
+    private compare(value: number, operator: ComparisonOperator, threshold: number): boolean {
+        switch (operator) {
+            case '<': return value < threshold;
+            case '<=': return value <= threshold;
+            case '>': return value > threshold;
+            case '>=': return value >= threshold;
+            case '==': return value === threshold;
+            case '!=': return value !== threshold;
+        }
+    }
+
+    /**
+     * Calculates the distance between a value and a threshold, positive on the
+     * side where the comparison passes.
+     * @private
+     * @param {number} value - The observed value.
+     * @param {ComparisonOperator} operator - The operator.
+     * @param {number} threshold - The value compared with.
+     * @return {number} - The signed margin.
+     * @memberof RuleEvaluator
+     */
+    private margin(value: number, operator: ComparisonOperator, threshold: number): number {
+        switch (operator) {
+            case '>':
+            case '>=':
+                return value - threshold;
+            case '<':
+            case '<=':
+                return threshold - value;
+            case '==':
+                return -Math.abs(value - threshold);
+            case '!=':
+                return Math.abs(value - threshold);
+        }
+    }
+
+    /**
+     * Checks whether a comparison is a lower bound of at most 0 on a built-in
+     * feature that cannot be negative, which every signature satisfies.
+     * @private
+     * @param {ComparisonRule} rule - The comparison.
+     * @return {boolean} - True if the comparison holds whatever the signature.
+     * @memberof RuleEvaluator
+     */
+    private holdsByConstruction(rule: ComparisonRule): boolean {
+        const nonNegative = RuleEvaluator.NON_NEGATIVE_FEATURES.has(rule.feature) || RuleEvaluator.BAND_ENERGY.test(rule.feature);
+        return nonNegative && (rule.operator === '>=' ? rule.value <= 0 : rule.operator === '>' && rule.value < 0);
+    }
+
+    /**
+     * Calculates the margin of a comparison relative to the larger magnitude of the
+     * value and the threshold. A passed equality has the full margin, as it cannot
+     * hold any more firmly, and a failed inequality has none.
+     * @private
+     * @param {number} value - The observed value.
+     * @param {ComparisonOperator} operator - The operator.
+     * @param {number} threshold - The value compared with.
+     * @return {number} - The relative margin, from -1 to 1.
+     * @memberof RuleEvaluator
+     */
+    private relativeMargin(value: number, operator: ComparisonOperator, threshold: number): number {
+        const passed = this.compare(value, operator, threshold);
+        if (isNaN(value)) return passed ? 1 : -1;
+        if (operator === '==' && passed) return 1;
+        if (operator === '!=' && !passed) return -1;
+
+        const scale = Math.max(Math.abs(value), Math.abs(threshold));
+        const margin = scale > 0 ? this.margin(value, operator, threshold) / scale : 0;
+        return Math.min(1, Math.max(-1, margin));
+    }
+
+    /**
+     * Calculates the partial score of a failed bound, clamped to [0, 1].
+     * @private
+     * @param {number} numerator - The smaller side of the failed bound.
+     * @param {number} denominator - The larger side of the failed bound.
+     * @return {number} - The partial score.
+     * @memberof RuleEvaluator
+     */
+    private ratio(numerator: number, denominator: number): number {
+        const ratio = numerator / denominator;
+        return isNaN(ratio) ? 0 : Math.min(1, Math.max(0, ratio));
+    }
+
+    /**
+     * Calculates the specificity of a lower bound: higher threshold relative to value = more specific.
+     * @private
+     * @param {number} value - The observed value.
+     * @param {number} threshold - The lower bound.
+     * @return {number} - The specificity.
+     * @memberof RuleEvaluator
+     */
+    private lowerBoundSpecificity(value: number, threshold: number): number {
+        return value > 0 ? threshold / (value + 1) : threshold;
+    }
+
+    /**
+     * Calculates the specificity of an upper bound: lower threshold = more restrictive = more specific.
+     * @private
+     * @param {number} threshold - The upper bound.
+     * @return {number} - The specificity.
+     * @memberof RuleEvaluator
+     */
+    private upperBoundSpecificity(threshold: number): number {
+        return 1 / (threshold + 1);
+    }
+
+    /**
+     * Expands a range into the conjunction of its bounds.
+     * @private
+     * @param {RangeRule} rule - The range to expand.
+     * @return {RuleExpression} - The equivalent conjunction of comparisons.
+     * @memberof RuleEvaluator
+     */
+    private expandRange(rule: RangeRule): RuleExpression {
+        const rules: RuleExpression[] = [];
+        if (rule.min !== undefined) {
+            rules.push({
+                type: 'comparison',
+                feature: rule.feature,
+                operator: rule.minInclusive === false ? '>' : '>=',
+                value: rule.min
+            });
+        }
+        if (rule.max !== undefined) {
+            rules.push({
+                type: 'comparison',
+                feature: rule.feature,
+                operator: rule.maxInclusive === false ? '<' : '<=',
+                value: rule.max
+            });
+        }
+        return { type: 'and', rules };
+    }
+
+    /**
+     * Negates a rule, pushing the negation down to the comparisons.
+     * @private
+     * @param {RuleExpression} rule - The rule to negate.
+     * @return {RuleExpression} - The negated rule, free of `not` nodes at the top.
+     * @memberof RuleEvaluator
+     */
+    private negate(rule: RuleExpression): RuleExpression {
+        switch (rule.type) {
+            case 'comparison':
+                return { ...rule, operator: RuleEvaluator.NEGATED_OPERATORS[rule.operator] };
+            case 'range':
+                return this.negate(this.expandRange(rule));
+            case 'and':
+                return { type: 'or', rules: rule.rules.map(child => this.negate(child)) };
+            case 'or':
+                return { type: 'and', rules: rule.rules.map(child => this.negate(child)) };
+            case 'not':
+                return rule.rule;
+        }
+    }
+
+    private static readonly NEGATED_OPERATORS: Record<ComparisonOperator, ComparisonOperator> = {
+        '<': '>=',
+        '<=': '>',
+        '>': '<=',
+        '>=': '<',
+        '==': '!=',
+        '!=': '=='
+    };
+}
@@ -0,0 +1,73 @@
+import { BanditSelector } from './BanditSelector';
+import { StreamSignature } from '../Types';
+
+const signatureOf = (variance: number): StreamSignature => ({
+    tripleCount: 10,
+    variance,
+    skewness: 0,
+    entropy: 1,
+    fftEntropy: 0
+});
+
+describe('BanditSelector', () => {
+    it('should bucket signatures by configured boundaries', () => {
+        const bandit = new BanditSelector({ regions: { variance: [1, 10], entropy: [0.5] } });
+
+        expect(bandit.getRegion(signatureOf(0.5))).toBe('variance=0,entropy=1');
+        expect(bandit.getRegion(signatureOf(1))).toBe('variance=1,entropy=1');
+        expect(bandit.getRegion(signatureOf(50))).toBe('variance=2,entropy=1');
+    });
+
+    it('should bucket the built-in features by power of two by default', () => {
+        const bandit = new BanditSelector();
+
+        expect(bandit.getRegion(signatureOf(2))).toBe(bandit.getRegion(signatureOf(2.5)));
+        expect(bandit.getRegion(signatureOf(2))).not.toBe(bandit.getRegion(signatureOf(200)));
+    });
+
+    it('should try every candidate once, then exploit the best one', () => {
+        const bandit = new BanditSelector({ exploration: 0.1 });
+        const signature = signatureOf(5);
+        const region = bandit.getRegion(signature);
+        const rewards: Record<string, number> = { a: 0.2, b: 0.9, c: 0.5 };
+
+        const chosen: string[] = [];
+        for (let i = 0; i < 20; i++) {
+            const approach = bandit.select(signature, ['a', 'b', 'c'])!.approach;
+            chosen.push(approach);
+            bandit.update(region, approach, rewards[approach]);
+        }
+
+        expect(chosen.slice(0, 3)).toEqual(['a', 'b', 'c']);
+        expect(chosen.slice(-5)).toEqual(['b', 'b', 'b', 'b', 'b']);
+        expect(bandit.getArms(region).b.meanReward).toBeCloseTo(0.9);
+        expect(bandit.select(signature, ['a', 'b', 'c'])!.confidence).toBeCloseTo(0.9);
+    });
+
+    it('should learn separately per region', () => {
+        const bandit = new BanditSelector({ regions: { variance: [10] } });
+        bandit.update(bandit.getRegion(signatureOf(1)), 'a', 1);
+        bandit.update(bandit.getRegion(signatureOf(1)), 'b', 0);
+        bandit.update(bandit.getRegion(signatureOf(100)), 'a', 0);
+        bandit.update(bandit.getRegion(signatureOf(100)), 'b', 1);
+
+        expect(bandit.select(signatureOf(1), ['a', 'b'])!.approach).toBe('a');
+        expect(bandit.select(signatureOf(100), ['a', 'b'])!.approach).toBe('b');
+        expect(bandit.getRegions()).toEqual(['variance=0', 'variance=1']);
+    });
+
+    it('should only choose among the candidates', () => {
+        const bandit = new BanditSelector();
+        bandit.update(bandit.getRegion(signatureOf(1)), 'a', 1);
+
+        expect(bandit.select(signatureOf(1), ['b'])!.approach).toBe('b');
+        expect(bandit.select(signatureOf(1), [])).toBeUndefined();
+    });
+
+    it('should reject invalid options and rewards', () => {
+        expect(() => new BanditSelector({ exploration: -1 })).toThrow('Exploration must not be negative, got -1');
+        expect(() => new BanditSelector({ regions: { variance: [10, 1] } }))
+            .toThrow('Region boundaries of "variance" must be strictly ascending');
+        expect(() => new BanditSelector().update('region', 'a', 2)).toThrow('Reward must be between 0 and 1, got 2');
+    });
+});
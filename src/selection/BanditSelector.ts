@@ -0,0 +1,183 @@
+import { ApproachPrediction, ApproachSelector, BanditArm, BanditArmState, BanditOptions, BanditState, StreamSignature } from "../Types";
+
+/**
+ * It learns online which approach works best for which kind of window. Signatures
+ * are bucketed into regions, and in each region the approaches are treated as the
+ * arms of a multi-armed bandit chosen by UCB1: every candidate is tried once, then
+ * the one with the highest mean reward plus exploration bonus is chosen. Rewards
+ * are expected between 0 and 1, e.g. a normalised latency or accuracy score.
+ * @export
+ * @class BanditSelector
+ * @implements {ApproachSelector}
+ */
+export class BanditSelector implements ApproachSelector {
+    private exploration: number;
+    private regions?: Record<string, number[]>;
+    private arms: Map<string, Map<string, BanditArmState>>;
+
+    private static readonly DEFAULT_REGION_FEATURES = ['tripleCount', 'variance', 'skewness', 'entropy', 'fftEntropy'];
+
+    /**
+     * Creates an instance of BanditSelector.
+     * @param {BanditOptions} [options] - The exploration weight and the region boundaries.
+     * @memberof BanditSelector
+     */
+    constructor(options: BanditOptions = {}) {
+        this.exploration = options.exploration ?? 1;
+        if (!(this.exploration >= 0)) {
+            throw new Error(`Exploration must not be negative, got ${options.exploration}`);
+        }
+        for (const [feature, boundaries] of Object.entries(options.regions || {})) {
+            if (boundaries.some((boundary, index) => index > 0 && boundary <= boundaries[index - 1])) {
+                throw new Error(`Region boundaries of "${feature}" must be strictly ascending`);
+            }
+        }
+        this.regions = options.regions;
+        this.arms = new Map();
+    }
+
+    /**
+     * Gets the region of a signature. With configured boundaries, a feature falls in
+     * the bucket counting the boundaries at or below its value; otherwise the built-in
+     * features are bucketed by their order of magnitude in powers of two.
+     * @param {StreamSignature} signature - The signature.
+     * @return {string} - The key of the region, such as `variance=2,entropy=1`.
+     * @memberof BanditSelector
+     */
+    getRegion(signature: StreamSignature): string {
+        if (this.regions) {
+            return Object.entries(this.regions)
+                .map(([feature, boundaries]) => `${feature}=${boundaries.filter(boundary => signature[feature] >= boundary).length}`)
+                .join(',');
+        }
+        return BanditSelector.DEFAULT_REGION_FEATURES
+            .map(feature => {
+                const value = signature[feature] ?? 0;
+                return `${feature}=${Math.sign(value) * Math.floor(Math.log2(1 + Math.abs(value)))}`;
+            })
+            .join(',');
+    }
+
+    /**
+     * Chooses among the candidates for the region of a signature by UCB1. Untried
+     * candidates go first, in the order given. The confidence is the mean reward.
+     * @param {StreamSignature} signature - The signature of the window.
+     * @param {string[]} candidates - The approaches that may be chosen.
+     * @return {ApproachPrediction | undefined} - The choice, or undefined if there is no candidate.
+     * @memberof BanditSelector
+     */
+    select(signature: StreamSignature, candidates: string[]): ApproachPrediction | undefined {
+        if (candidates.length === 0) return undefined;
+
+        const arms = this.arms.get(this.getRegion(signature));
+        const statistics = candidates.map(name => arms?.get(name) || { pulls: 0, totalReward: 0 });
+        const totalPulls = statistics.reduce((sum, arm) => sum + arm.pulls, 0);
+
+        const votes: Record<string, number> = {};
+        let best = 0;
+        let bestValue = -Infinity;
+        candidates.forEach((name, index) => {
+            const arm = statistics[index];
+            const value = arm.pulls === 0
+                ? Infinity
+                : arm.totalReward / arm.pulls + this.exploration * Math.sqrt(2 * Math.log(totalPulls) / arm.pulls);
+            votes[name] = arm.pulls > 0 ? arm.totalReward / arm.pulls : 0;
+            if (value > bestValue) {
+                best = index;
+                bestValue = value;
+            }
+        });
+
+        const approach = candidates[best];
+        return { approach, confidence: votes[approach], votes };
+    }
+
+    /**
+     * Records the reward an approach achieved in a region.
+     * @param {string} region - The region of the window, from {@link BanditSelector.getRegion}.
+     * @param {string} approach - The approach that ran.
+     * @param {number} reward - The reward, between 0 and 1.
+     * @memberof BanditSelector
+     */
+    update(region: string, approach: string, reward: number): void {
+        if (!(reward >= 0 && reward <= 1)) {
+            throw new Error(`Reward must be between 0 and 1, got ${reward}`);
+        }
+        let arms = this.arms.get(region);
+        if (!arms) {
+            arms = new Map();
+            this.arms.set(region, arms);
+        }
+        const arm = arms.get(approach) || { pulls: 0, totalReward: 0 };
+        arm.pulls++;
+        arm.totalReward += reward;
+        arms.set(approach, arm);
+    }
+
+    /**
+     * Gets what has been learned about the approaches in a region.
+     * @param {string} region - The region.
+     * @return {Record<string, BanditArm>} - The outcomes reported and mean reward per approach.
+     * @memberof BanditSelector
+     */
+    getArms(region: string): Record<string, BanditArm> {
+        const result: Record<string, BanditArm> = {};
+        for (const [approach, arm] of this.arms.get(region) || []) {
+            result[approach] = { pulls: arm.pulls, meanReward: arm.totalReward / arm.pulls };
+        }
+        return result;
+    }
+
+    /**
+     * Gets the regions in which outcomes have been reported.
+     * @return {string[]} - The region keys.
+     * @memberof BanditSelector
+     */
+    getRegions(): string[] {
+        return Array.from(this.arms.keys());
+    }
+
+    /**
+     * Exports everything learned, e.g. to resume learning in another process.
+     * @return {BanditState} - A copy of the outcomes per region and approach, which can be stored as JSON.
+     * @memberof BanditSelector
+     */
+    exportState(): BanditState {
+        const state: BanditState = {};
+        for (const [region, arms] of this.arms) {
+            state[region] = {};
+            for (const [approach, arm] of arms) {
+                state[region][approach] = { ...arm };
+            }
+        }
+        return state;
+    }
+
+    /**
+     * Restores a state exported with {@link BanditSelector.exportState}, replacing what was learned.
+     * @param {BanditState} state - The state, e.g. parsed from JSON.
+     * @throws {Error} - If the state is malformed.
+     * @memberof BanditSelector
+     */
+    importState(state: BanditState): void {
+        const isArm = (arm: BanditArmState) => typeof arm === 'object' && arm !== null &&
+            Number.isInteger(arm.pulls) && arm.pulls > 0 && arm.totalReward >= 0 && arm.totalReward <= arm.pulls;
+        if (typeof state !== 'object' || state === null || !Object.values(state).every(arms =>
+            typeof arms === 'object' && arms !== null && Object.values(arms).every(isArm))) {
+            throw new Error('Malformed bandit state');
+        }
+
+        this.arms = new Map(Object.entries(state).map(([region, arms]) => [
+            region,
+            new Map(Object.entries(arms).map(([approach, arm]) => [approach, { pulls: arm.pulls, totalReward: arm.totalReward }]))
+        ]));
+    }
+
+    /**
+     * Forgets everything learned.
+     * @memberof BanditSelector
+     */
+    reset(): void {
+        this.arms.clear();
+    }
+}
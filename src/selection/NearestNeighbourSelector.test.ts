@@ -0,0 +1,84 @@
+import { NearestNeighbourSelector } from './NearestNeighbourSelector';
+import { LabelledSignature, StreamSignature } from '../Types';
+
+const signatureOf = (tripleCount: number, variance: number): StreamSignature => ({
+    tripleCount,
+    variance,
+    skewness: 0,
+    entropy: 1,
+    fftEntropy: 0
+});
+
+describe('NearestNeighbourSelector', () => {
+    // Small, calm windows and large, volatile ones: tripleCount alone would dominate without normalisation
+    const examples: LabelledSignature[] = [
+        { signature: signatureOf(100, 1), approach: 'calm' },
+        { signature: signatureOf(120, 2), approach: 'calm' },
+        { signature: signatureOf(110, 1.5), approach: 'calm' },
+        { signature: signatureOf(5000, 80), approach: 'volatile' },
+        { signature: signatureOf(5200, 90), approach: 'volatile' },
+        { signature: signatureOf(4800, 85), approach: 'volatile' }
+    ];
+
+    it('should predict the approach of the nearest training signatures', () => {
+        const selector = new NearestNeighbourSelector({ k: 3 });
+        selector.train(examples);
+
+        const calm = selector.select(signatureOf(105, 1.2), ['calm', 'volatile']);
+        const volatile = selector.select(signatureOf(5100, 88), ['calm', 'volatile']);
+
+        expect(calm?.approach).toBe('calm');
+        expect(calm?.confidence).toBe(1);
+        expect(volatile?.approach).toBe('volatile');
+        expect(selector.getApproaches()).toEqual(['calm', 'volatile']);
+    });
+
+    it('should take the confidence from the share of votes', () => {
+        const selector = new NearestNeighbourSelector({ k: 4, distanceWeighted: false });
+        selector.train(examples);
+
+        const prediction = selector.select(signatureOf(110, 1.5), ['calm', 'volatile']);
+
+        expect(prediction).toEqual({ approach: 'calm', confidence: 0.75, votes: { calm: 0.75, volatile: 0.25 } });
+    });
+
+    it('should only predict candidate approaches', () => {
+        const selector = new NearestNeighbourSelector({ k: 3 });
+        selector.train(examples);
+
+        expect(selector.select(signatureOf(105, 1.2), ['volatile'])?.approach).toBe('volatile');
+        expect(selector.select(signatureOf(105, 1.2), ['other'])).toBeUndefined();
+        expect(new NearestNeighbourSelector().select(signatureOf(105, 1.2), ['calm'])).toBeUndefined();
+    });
+
+    it('should give the same predictions after a JSON round trip', () => {
+        const selector = new NearestNeighbourSelector({ k: 3, features: ['tripleCount', 'variance'] });
+        selector.train(examples);
+
+        const restored = NearestNeighbourSelector.fromJSON(JSON.parse(JSON.stringify(selector)));
+
+        expect(restored.toJSON()).toEqual(selector.toJSON());
+        expect(restored.toJSON().features).toEqual(['tripleCount', 'variance']);
+        for (const signature of [signatureOf(105, 1.2), signatureOf(2500, 40), signatureOf(5100, 88)]) {
+            expect(restored.select(signature, ['calm', 'volatile'])).toEqual(selector.select(signature, ['calm', 'volatile']));
+        }
+    });
+
+    it('should reject invalid options, training sets and models', () => {
+        expect(() => new NearestNeighbourSelector({ k: 0 })).toThrow('k must be a positive integer, got 0');
+        expect(() => new NearestNeighbourSelector().train([])).toThrow('Cannot train on an empty set of examples');
+        expect(() => NearestNeighbourSelector.fromJSON({ type: 'decision-tree' })).toThrow('Expected a version 1 nearest-neighbour model');
+        expect(() => NearestNeighbourSelector.fromJSON({
+            type: 'nearest-neighbour', version: 1, k: 1, distanceWeighted: true,
+            features: ['variance'], means: [0, 1], scales: [1], examples: []
+        })).toThrow('Malformed nearest-neighbour model');
+        expect(() => NearestNeighbourSelector.fromJSON({
+            type: 'nearest-neighbour', version: 1, k: 1, distanceWeighted: true,
+            features: ['variance'], means: [0], scales: [1], examples: [{ values: [1, 2], approach: 'calm' }]
+        })).toThrow('every vector must have one number per feature');
+        expect(() => NearestNeighbourSelector.fromJSON({
+            type: 'nearest-neighbour', version: 1, k: 1, distanceWeighted: true,
+            features: ['variance', 'entropy'], means: [0, 0], scales: [1, 0], examples: [{ values: [1, 2], approach: 'calm' }]
+        })).toThrow('every scale must be positive');
+    });
+});
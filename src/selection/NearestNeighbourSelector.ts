@@ -0,0 +1,229 @@
+import {
+    ApproachPrediction,
+    ApproachSelector,
+    LabelledSignature,
+    NearestNeighbourModel,
+    NearestNeighbourOptions,
+    StreamSignature
+} from "../Types";
+
+/**
+ * It predicts the approach for a signature from the approaches that worked best
+ * for the most similar signatures seen before. Features are normalised to zero
+ * mean and unit variance over the training signatures, so that features of large
+ * magnitude such as `tripleCount` do not dominate the distance.
+ * @export
+ * @class NearestNeighbourSelector
+ * @implements {ApproachSelector}
+ */
+export class NearestNeighbourSelector implements ApproachSelector {
+    private k: number;
+    private distanceWeighted: boolean;
+    private requestedFeatures?: string[];
+    private features: string[];
+    private means: number[];
+    private scales: number[];
+    private examples: Array<{ values: number[]; approach: string }>;
+
+    // Keeps an exact match from getting an infinite weight
+    private static readonly DISTANCE_EPSILON = 1e-9;
+
+    /**
+     * Creates an instance of NearestNeighbourSelector.
+     * @param {NearestNeighbourOptions} [options] - The number of neighbours, the features and the voting.
+     * @memberof NearestNeighbourSelector
+     */
+    constructor(options: NearestNeighbourOptions = {}) {
+        const k = options.k ?? 5;
+        if (!Number.isInteger(k) || k < 1) {
+            throw new Error(`k must be a positive integer, got ${k}`);
+        }
+        this.k = k;
+        this.distanceWeighted = options.distanceWeighted ?? true;
+        this.requestedFeatures = options.features;
+        this.features = [];
+        this.means = [];
+        this.scales = [];
+        this.examples = [];
+    }
+
+    /**
+     * Trains the selector on labelled signatures, replacing any previous training.
+     * @param {LabelledSignature[]} examples - The signatures with the approach that worked best for them.
+     * @memberof NearestNeighbourSelector
+     */
+    train(examples: LabelledSignature[]): void {
+        if (examples.length === 0) {
+            throw new Error('Cannot train on an empty set of examples');
+        }
+
+        const features = this.requestedFeatures || Object.keys(examples[0].signature)
+            .filter(feature => examples.every(example => Number.isFinite(example.signature[feature])));
+        if (features.length === 0) {
+            throw new Error('The examples have no feature in common');
+        }
+
+        this.features = features;
+        this.means = features.map(feature => this.mean(examples.map(example => example.signature[feature])));
+        this.scales = features.map((feature, index) => {
+            const mean = this.means[index];
+            const values = examples.map(example => example.signature[feature]).filter(Number.isFinite);
+            const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(values.length, 1);
+            return variance > 0 ? Math.sqrt(variance) : 1;
+        });
+        this.examples = examples.map(example => ({
+            values: this.normalise(example.signature),
+            approach: example.approach
+        }));
+    }
+
+    /**
+     * Checks whether the selector has been trained.
+     * @return {boolean} - True if the selector has training examples.
+     * @memberof NearestNeighbourSelector
+     */
+    isTrained(): boolean {
+        return this.examples.length > 0;
+    }
+
+    /**
+     * Gets the approaches the selector was trained on.
+     * @return {string[]} - The distinct approach labels, in order of first appearance.
+     * @memberof NearestNeighbourSelector
+     */
+    getApproaches(): string[] {
+        return Array.from(new Set(this.examples.map(example => example.approach)));
+    }
+
+    /**
+     * Predicts the approach for a signature by letting its k nearest training
+     * signatures vote, among the examples labelled with a candidate approach.
+     * Ties go to the approach of the nearest neighbour.
+     * @param {StreamSignature} signature - The signature to predict the approach for.
+     * @param {string[]} candidates - The approaches that may be predicted.
+     * @return {ApproachPrediction | undefined} - The prediction, or undefined if no example is labelled with a candidate.
+     * @memberof NearestNeighbourSelector
+     */
+    select(signature: StreamSignature, candidates: string[]): ApproachPrediction | undefined {
+        const allowed = new Set(candidates);
+        const values = this.normalise(signature);
+        const neighbours = this.examples
+            .filter(example => allowed.has(example.approach))
+            .map(example => ({ approach: example.approach, distance: this.distance(values, example.values) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, this.k);
+        if (neighbours.length === 0) return undefined;
+
+        const votes: Record<string, number> = {};
+        let total = 0;
+        for (const neighbour of neighbours) {
+            const weight = this.distanceWeighted ? 1 / (neighbour.distance + NearestNeighbourSelector.DISTANCE_EPSILON) : 1;
+            votes[neighbour.approach] = (votes[neighbour.approach] || 0) + weight;
+            total += weight;
+        }
+
+        // Neighbours are sorted by distance, so the first approach reaching the top vote is the nearest one
+        const best = Math.max(...Object.values(votes));
+        const approach = neighbours.find(neighbour => votes[neighbour.approach] === best)!.approach;
+        for (const name of Object.keys(votes)) {
+            votes[name] /= total;
+        }
+        return { approach, confidence: votes[approach], votes };
+    }
+
+    /**
+     * Serialises the trained selector.
+     * @return {NearestNeighbourModel} - The model, which can be stored as JSON.
+     * @memberof NearestNeighbourSelector
+     */
+    toJSON(): NearestNeighbourModel {
+        return {
+            type: 'nearest-neighbour',
+            version: 1,
+            k: this.k,
+            distanceWeighted: this.distanceWeighted,
+            features: [...this.features],
+            means: [...this.means],
+            scales: [...this.scales],
+            examples: this.examples.map(example => ({ values: [...example.values], approach: example.approach }))
+        };
+    }
+
+    /**
+     * Restores a selector serialised with {@link NearestNeighbourSelector.toJSON}.
+     * @static
+     * @param {unknown} model - The model, e.g. parsed from JSON.
+     * @return {NearestNeighbourSelector} - The trained selector.
+     * @memberof NearestNeighbourSelector
+     */
+    static fromJSON(model: unknown): NearestNeighbourSelector {
+        const data = model as NearestNeighbourModel;
+        if (typeof data !== 'object' || data === null || data.type !== 'nearest-neighbour' || data.version !== 1) {
+            throw new Error('Expected a version 1 nearest-neighbour model');
+        }
+        const dimensions = Array.isArray(data.features) && data.features.every(feature => typeof feature === 'string')
+            ? data.features.length
+            : -1;
+        const isVector = (values: unknown) => Array.isArray(values) && values.length === dimensions &&
+            values.every(value => typeof value === 'number' && Number.isFinite(value));
+        if (!isVector(data.means) || !isVector(data.scales) || !Array.isArray(data.examples) ||
+            !data.examples.every(example => isVector(example.values) && typeof example.approach === 'string')) {
+            throw new Error('Malformed nearest-neighbour model: every vector must have one number per feature');
+        }
+        // A scale of 0 would make every distance infinite or NaN
+        if (data.scales.some(scale => scale <= 0)) {
+            throw new Error('Malformed nearest-neighbour model: every scale must be positive');
+        }
+
+        const selector = new NearestNeighbourSelector({ k: data.k, distanceWeighted: data.distanceWeighted });
+        selector.features = [...data.features];
+        selector.requestedFeatures = [...data.features];
+        selector.means = [...data.means];
+        selector.scales = [...data.scales];
+        selector.examples = data.examples.map(example => ({ values: [...example.values], approach: example.approach }));
+        return selector;
+    }
+
+    /**
+     * Normalises the features of a signature. Missing or non-finite values are
+     * replaced by the training mean, so they do not count towards the distance.
+     * @private
+     * @param {StreamSignature} signature - The signature to normalise.
+     * @return {number[]} - The normalised feature values.
+     * @memberof NearestNeighbourSelector
+     */
+    private normalise(signature: StreamSignature): number[] {
+        return this.features.map((feature, index) => {
+            const value = signature[feature];
+            return Number.isFinite(value) ? (value - this.means[index]) / this.scales[index] : 0;
+        });
+    }
+
+    /**
+     * Calculates the Euclidean distance between two normalised signatures.
+     * @private
+     * @param {number[]} a - The first signature.
+     * @param {number[]} b - The second signature.
+     * @return {number} - The distance.
+     * @memberof NearestNeighbourSelector
+     */
+    private distance(a: number[], b: number[]): number {
+        let sum = 0;
+        for (let i = 0; i < a.length; i++) {
+            sum += (a[i] - b[i]) ** 2;
+        }
+        return Math.sqrt(sum);
+    }
+
+    /**
+     * Calculates the mean of the finite values.
+     * @private
+     * @param {number[]} values - The values.
+     * @return {number} - The mean, 0 if there is no finite value.
+     * @memberof NearestNeighbourSelector
+     */
+    private mean(values: number[]): number {
+        const finite = values.filter(Number.isFinite);
+        return finite.length > 0 ? finite.reduce((sum, value) => sum + value, 0) / finite.length : 0;
+    }
+}
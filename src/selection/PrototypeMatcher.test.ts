@@ -0,0 +1,131 @@
+import { PrototypeMatcher } from './PrototypeMatcher';
+import { ApproachConfig, StreamSignature } from '../Types';
+
+const signatureOf = (features: Record<string, number>): StreamSignature => ({
+    tripleCount: 0,
+    variance: 0,
+    skewness: 0,
+    entropy: 0,
+    fftEntropy: 0,
+    ...features
+});
+
+describe('PrototypeMatcher', () => {
+    const observed = [signatureOf({ variance: 0 }), signatureOf({ variance: 2 })];
+
+    it('should measure plain euclidean distances without normalisation', () => {
+        const matcher = new PrototypeMatcher({ normalisation: 'none' });
+
+        expect(matcher.getDistance(signatureOf({ variance: 3, tripleCount: 4 }), { variance: 0, tripleCount: 0 }, observed)).toBe(5);
+    });
+
+    it('should scale features by their spread over the observed signatures', () => {
+        expect(new PrototypeMatcher().getDistance(signatureOf({ variance: 2 }), { variance: 0 }, observed)).toBeCloseTo(Math.SQRT2, 10);
+        expect(new PrototypeMatcher({ normalisation: 'min-max' }).getDistance(signatureOf({ variance: 2 }), { variance: 0 }, observed)).toBe(1);
+        // Without spread, differences are scaled by the spread of the prototypes or else the magnitude of the feature
+        expect(new PrototypeMatcher().getDistance(signatureOf({ variance: 3 }), { variance: 0 }, [signatureOf({ variance: 1 })])).toBe(1);
+        expect(new PrototypeMatcher({ normalisation: 'min-max' })
+            .getDistance(signatureOf({ variance: 3 }), { variance: 0 }, [], ['variance'], [{ variance: 0 }, { variance: 6 }])).toBe(0.5);
+    });
+
+    it('should only compare the finite features of the prototype', () => {
+        const matcher = new PrototypeMatcher({ normalisation: 'none' });
+
+        expect(matcher.getDistance(signatureOf({ variance: 2, entropy: NaN, tripleCount: 9 }), { variance: 0, entropy: 1 }, [])).toBe(2);
+    });
+
+    it('should weight features in the weighted distance', () => {
+        const matcher = new PrototypeMatcher({ normalisation: 'none', distance: 'weighted', weights: { variance: 4 } });
+
+        expect(matcher.getDistance(signatureOf({ variance: 1, entropy: 1 }), { variance: 0, entropy: 0 }, [])).toBeCloseTo(Math.sqrt(5), 10);
+    });
+
+    it('should account for the covariance of features in the Mahalanobis distance', () => {
+        const matcher = new PrototypeMatcher({ distance: 'mahalanobis' });
+        const square = [[0, 0], [2, 0], [0, 2], [2, 2]].map(([a, b]) => signatureOf({ a, b }));
+        const correlated = [[0, 0], [1, 1.1], [2, 1.9], [3, 3]].map(([a, b]) => signatureOf({ a, b }));
+
+        // Uncorrelated features with a variance of 4/3
+        expect(matcher.getDistance(signatureOf({ a: 2, b: 0 }), { a: 0, b: 0 }, square)).toBeCloseTo(Math.sqrt(3), 6);
+        // Without enough observations, the features are scaled by their magnitude
+        expect(matcher.getDistance(signatureOf({ a: 3, b: 4 }), { a: 0, b: 0 }, [])).toBeCloseTo(Math.SQRT2, 10);
+        // A difference along the correlation is nearer than one across it
+        expect(matcher.getDistance(signatureOf({ a: 1, b: 1 }), { a: 0, b: 0 }, correlated))
+            .toBeLessThan(matcher.getDistance(signatureOf({ a: 1, b: -1 }), { a: 0, b: 0 }, correlated));
+    });
+
+    it('should choose the approach with the nearest prototype', () => {
+        const matcher = new PrototypeMatcher({ normalisation: 'none' });
+        const candidates: ApproachConfig[] = [
+            { name: 'near', prototypes: [{ variance: 10 }, { variance: 3 }] },
+            { name: 'far', prototypes: [{ variance: 5 }] },
+            { name: 'plain', maxThresholds: { variance: 10 } }
+        ];
+
+        const match = matcher.match(signatureOf({ variance: 2 }), candidates, [])!;
+
+        expect(match.approach).toBe('near');
+        expect(match.distances).toEqual({ near: 1, far: 3 });
+        // The share of 3/4 is halved at a distance of 1
+        expect(match.confidence).toBeCloseTo(0.375, 6);
+        expect(match.votes.far).toBeCloseTo(0.25, 6);
+    });
+
+    it('should lower the confidence as the signature moves away from every prototype', () => {
+        const matcher = new PrototypeMatcher({ normalisation: 'none' });
+        const candidates: ApproachConfig[] = [
+            { name: 'low', prototypes: [{ variance: 0 }] },
+            { name: 'high', prototypes: [{ variance: 10 }] }
+        ];
+
+        const near = matcher.match(signatureOf({ variance: 0 }), candidates, [])!;
+        const far = matcher.match(signatureOf({ variance: -1000 }), candidates, [])!;
+
+        expect(near.confidence).toBeCloseTo(1, 6);
+        expect(far.approach).toBe('low');
+        expect(far.confidence).toBeLessThan(0.01);
+    });
+
+    it('should scale features by the spread of the prototypes without a history', () => {
+        const candidates: ApproachConfig[] = [
+            { name: 'sparse', prototypes: [{ tripleCount: 1000, entropy: 0.1 }] },
+            { name: 'diverse', prototypes: [{ tripleCount: 1010, entropy: 0.9 }] }
+        ];
+        const signature = signatureOf({ tripleCount: 1006, entropy: 0.1 });
+
+        // Unscaled, the difference in tripleCount outweighs the one in entropy
+        expect(new PrototypeMatcher({ normalisation: 'none' }).match(signature, candidates, [])!.approach).toBe('diverse');
+        const match = new PrototypeMatcher().match(signature, candidates, [])!;
+        expect(match.approach).toBe('sparse');
+        expect(match.distances.sparse).toBeCloseTo(6 / Math.sqrt(50), 6);
+        expect(match.distances.diverse).toBeCloseTo(Math.sqrt(16 / 50 + 2), 6);
+    });
+
+    it('should compare all prototypes over the features they have in common', () => {
+        const matcher = new PrototypeMatcher({ normalisation: 'none' });
+        const candidates: ApproachConfig[] = [
+            { name: 'narrow', prototypes: [{ variance: 3 }] },
+            { name: 'broad', prototypes: [{ variance: 2, entropy: 5 }] }
+        ];
+
+        // Entropy is not set by every prototype, so it would only count against broad
+        const match = matcher.match(signatureOf({ variance: 2, entropy: 0 }), candidates, [])!;
+
+        expect(match.approach).toBe('broad');
+        expect(match.distances).toEqual({ narrow: 1, broad: 0 });
+        expect(matcher.match(signatureOf({ variance: 2 }), [
+            { name: 'a', prototypes: [{ variance: 2 }] },
+            { name: 'b', prototypes: [{ entropy: 0 }] }
+        ], [])).toBeUndefined();
+    });
+
+    it('should not match when no candidate has prototypes', () => {
+        expect(new PrototypeMatcher().match(signatureOf({ variance: 2 }), [{ name: 'plain' }], [])).toBeUndefined();
+    });
+
+    it('should reject invalid options', () => {
+        expect(() => new PrototypeMatcher({ normalisation: 'rank' as never })).toThrow('Normalisation must be');
+        expect(() => new PrototypeMatcher({ distance: 'cosine' as never })).toThrow('Distance must be');
+        expect(() => new PrototypeMatcher({ weights: { variance: -1 } })).toThrow('Weight of "variance" must not be negative');
+    });
+});
@@ -0,0 +1,265 @@
+import {
+    ApproachConfig,
+    ApproachThresholds,
+    FeatureNormalisation,
+    PrototypeDistance,
+    PrototypeMatch,
+    PrototypeOptions,
+    StreamSignature
+} from "../Types";
+
+/**
+ * It finds the approach whose prototype signature is nearest to a signature.
+ * Features are scaled by their spread over the signatures observed so far, so
+ * that features of large magnitude such as `tripleCount` do not dominate the
+ * distance. Until the observed signatures spread, features are scaled by their
+ * spread over all prototypes and, if the prototypes agree, by their magnitude. All prototypes are compared over the features they have in common, so
+ * that their distances are on the same scale. The confidence is the share of the
+ * inverse distance of the nearest approach among all candidates, damped by
+ * 1 / (1 + distance), so it is high when one approach is much nearer than the
+ * others and the signature lies close to its prototype.
+ * @export
+ * @class PrototypeMatcher
+ */
+export class PrototypeMatcher {
+    private normalisation: FeatureNormalisation;
+    private distance: PrototypeDistance;
+    private weights: ApproachThresholds;
+
+    // Keeps an exact match from getting an infinite weight
+    private static readonly DISTANCE_EPSILON = 1e-9;
+    // Added to the diagonal of the covariance, relative to it, so that it can be inverted
+    private static readonly RIDGE = 1e-9;
+
+    /**
+     * Creates an instance of PrototypeMatcher.
+     * @param {PrototypeOptions} [options] - The normalisation, the distance and its weights.
+     * @memberof PrototypeMatcher
+     */
+    constructor(options: PrototypeOptions = {}) {
+        this.normalisation = options.normalisation || 'z-score';
+        this.distance = options.distance || 'euclidean';
+        this.weights = options.weights || {};
+        if (!['z-score', 'min-max', 'none'].includes(this.normalisation)) {
+            throw new Error(`Normalisation must be z-score, min-max or none, got ${this.normalisation}`);
+        }
+        if (!['euclidean', 'weighted', 'mahalanobis'].includes(this.distance)) {
+            throw new Error(`Distance must be euclidean, weighted or mahalanobis, got ${this.distance}`);
+        }
+        for (const [feature, weight] of Object.entries(this.weights)) {
+            if (weight !== undefined && !(weight >= 0)) {
+                throw new Error(`Weight of "${feature}" must not be negative, got ${weight}`);
+            }
+        }
+    }
+
+    /**
+     * Finds the approach with the prototype nearest to a signature.
+     * @param {StreamSignature} signature - The signature.
+     * @param {ApproachConfig[]} candidates - The approaches to choose from; those without prototypes are left out.
+     * @param {StreamSignature[]} observed - The signatures the spread of the features is taken from, e.g. the history.
+     * @return {PrototypeMatch | undefined} - The nearest approach, or undefined if no candidate has prototypes
+     * or the prototypes have no feature in common.
+     * @memberof PrototypeMatcher
+     */
+    match(signature: StreamSignature, candidates: ApproachConfig[], observed: StreamSignature[]): PrototypeMatch | undefined {
+        const prototyped = candidates.filter(config => config.prototypes && config.prototypes.length > 0);
+        const features = this.getCommonFeatures(signature, prototyped.flatMap(config => config.prototypes!));
+        if (features.length === 0) return undefined;
+
+        const distances: Record<string, number> = {};
+        for (const config of prototyped) {
+            distances[config.name] = Math.min(...config.prototypes!.map(prototype =>
+                this.getDistance(signature, prototype, observed, features, prototyped.flatMap(other => other.prototypes!))));
+        }
+        const names = Object.keys(distances);
+
+        const approach = names.reduce((best, name) => distances[name] < distances[best] ? name : best);
+        const inverse = names.map(name => 1 / (distances[name] + PrototypeMatcher.DISTANCE_EPSILON));
+        const total = inverse.reduce((sum, value) => sum + value, 0);
+        const votes: Record<string, number> = {};
+        names.forEach((name, index) => {
+            votes[name] = inverse[index] / total;
+        });
+        return { approach, confidence: votes[approach] / (1 + distances[approach]), votes, distances };
+    }
+
+    /**
+     * Gets the features set by every prototype that are finite in the signature.
+     * @private
+     * @param {StreamSignature} signature - The signature.
+     * @param {ApproachThresholds[]} prototypes - The prototypes of all candidates.
+     * @return {string[]} - The features to compare, empty without prototypes.
+     * @memberof PrototypeMatcher
+     */
+    private getCommonFeatures(signature: StreamSignature, prototypes: ApproachThresholds[]): string[] {
+        if (prototypes.length === 0) return [];
+        return Object.keys(prototypes[0]).filter(feature => Number.isFinite(signature[feature])
+            && prototypes.every(prototype => Number.isFinite(prototype[feature])));
+    }
+
+    /**
+     * Computes the distance between a signature and a prototype, over the given features
+     * or else the features of the prototype. Features that are not finite in both are left out.
+     * @param {StreamSignature} signature - The signature.
+     * @param {ApproachThresholds} prototype - The prototype.
+     * @param {StreamSignature[]} observed - The signatures the spread of the features is taken from.
+     * @param {string[]} [compared] - The features to compare, the features of the prototype by default.
+     * @param {ApproachThresholds[]} [prototypes] - All prototypes, whose spread scales the features
+     * until the observed signatures spread, the prototype itself by default.
+     * @return {number} - The distance.
+     * @memberof PrototypeMatcher
+     */
+    getDistance(
+        signature: StreamSignature,
+        prototype: ApproachThresholds,
+        observed: StreamSignature[],
+        compared: string[] = Object.keys(prototype),
+        prototypes: ApproachThresholds[] = [prototype]
+    ): number {
+        const features = compared
+            .filter(feature => Number.isFinite(prototype[feature]) && Number.isFinite(signature[feature]));
+        const differences = features.map(feature => signature[feature] - (prototype[feature] as number));
+        const fallbackScales = features.map(feature =>
+            this.getFallbackScale(feature, prototypes, signature[feature], prototype[feature] as number));
+
+        if (this.distance === 'mahalanobis') {
+            return this.getMahalanobisDistance(features, differences, observed, fallbackScales);
+        }
+
+        let sum = 0;
+        features.forEach((feature, index) => {
+            const weight = this.distance === 'weighted' ? this.weights[feature] ?? 1 : 1;
+            const scaled = differences[index] / this.getScale(feature, observed, fallbackScales[index]);
+            sum += weight * scaled * scaled;
+        });
+        return Math.sqrt(sum);
+    }
+
+    /**
+     * Gets the spread of a feature over the observed signatures, by which its differences are divided.
+     * @private
+     * @param {string} feature - The feature.
+     * @param {StreamSignature[]} observed - The observed signatures.
+     * @param {number} fallback - The scale to use when the observed signatures do not spread.
+     * @return {number} - The standard deviation or the range, 1 without normalisation.
+     * @memberof PrototypeMatcher
+     */
+    private getScale(feature: string, observed: StreamSignature[], fallback: number): number {
+        if (this.normalisation === 'none') return 1;
+        const spread = this.getSpread(observed.map(signature => signature[feature]));
+        return spread > 0 ? spread : fallback;
+    }
+
+    /**
+     * Gets the scale of a feature when the observed signatures do not spread: its spread
+     * over all prototypes or, if they agree, its magnitude in the prototype and the signature.
+     * @private
+     * @param {string} feature - The feature.
+     * @param {ApproachThresholds[]} prototypes - All prototypes.
+     * @param {number} value - The value of the feature in the signature.
+     * @param {number} prototypeValue - The value of the feature in the prototype.
+     * @return {number} - The scale, 1 if the feature is 0 in both.
+     * @memberof PrototypeMatcher
+     */
+    private getFallbackScale(feature: string, prototypes: ApproachThresholds[], value: number, prototypeValue: number): number {
+        const spread = this.getSpread(prototypes.map(prototype => prototype[feature]));
+        if (spread > 0) return spread;
+        const magnitude = Math.max(Math.abs(prototypeValue), Math.abs(value));
+        return magnitude > 0 ? magnitude : 1;
+    }
+
+    /**
+     * Gets the spread of the finite values of a feature, as the normalisation measures it.
+     * @private
+     * @param {(number | undefined)[]} values - The values.
+     * @return {number} - The range under min-max normalisation, otherwise the standard deviation; 0 for fewer than two values.
+     * @memberof PrototypeMatcher
+     */
+    private getSpread(values: (number | undefined)[]): number {
+        const finite = values.filter((value): value is number => Number.isFinite(value));
+        if (finite.length < 2) return 0;
+
+        if (this.normalisation === 'min-max') {
+            return Math.max(...finite) - Math.min(...finite);
+        }
+        const mean = finite.reduce((sum, value) => sum + value, 0) / finite.length;
+        return Math.sqrt(finite.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / (finite.length - 1));
+    }
+
+    /**
+     * Computes the Mahalanobis distance of a difference vector under the covariance
+     * of the features over the observed signatures. Without enough observations the
+     * covariance is diagonal with the squared fallback scales; features without
+     * variance get their squared fallback scale as variance.
+     * @private
+     * @param {string[]} features - The features.
+     * @param {number[]} differences - The difference per feature.
+     * @param {StreamSignature[]} observed - The observed signatures.
+     * @param {number[]} fallbackScales - The scale per feature when the observed signatures do not spread.
+     * @return {number} - The distance.
+     * @memberof PrototypeMatcher
+     */
+    private getMahalanobisDistance(
+        features: string[],
+        differences: number[],
+        observed: StreamSignature[],
+        fallbackScales: number[]
+    ): number {
+        const samples = observed
+            .map(signature => features.map(feature => signature[feature]))
+            .filter(values => values.every(value => Number.isFinite(value)));
+        const n = features.length;
+        const covariance: number[][] = features.map((_, i) => features.map((__, j) => (i === j ? fallbackScales[i] ** 2 : 0)));
+
+        if (samples.length >= 2) {
+            const means = features.map((_, i) => samples.reduce((sum, values) => sum + values[i], 0) / samples.length);
+            for (let i = 0; i < n; i++) {
+                for (let j = 0; j < n; j++) {
+                    covariance[i][j] = samples.reduce((sum, values) =>
+                        sum + (values[i] - means[i]) * (values[j] - means[j]), 0) / (samples.length - 1);
+                }
+            }
+            for (let i = 0; i < n; i++) {
+                covariance[i][i] = covariance[i][i] > 0
+                    ? covariance[i][i] * (1 + PrototypeMatcher.RIDGE)
+                    : fallbackScales[i] ** 2;
+            }
+        }
+
+        const solved = this.solve(covariance, differences);
+        const squared = differences.reduce((sum, difference, i) => sum + difference * solved[i], 0);
+        return Math.sqrt(Math.max(squared, 0));
+    }
+
+    /**
+     * Solves a linear system by Gauss-Jordan elimination with partial pivoting.
+     * @private
+     * @param {number[][]} matrix - The square matrix, which is not changed.
+     * @param {number[]} vector - The right-hand side.
+     * @return {number[]} - The solution; unknowns of a singular system are 0.
+     * @memberof PrototypeMatcher
+     */
+    private solve(matrix: number[][], vector: number[]): number[] {
+        const n = vector.length;
+        const rows = matrix.map((row, i) => [...row, vector[i]]);
+
+        for (let column = 0; column < n; column++) {
+            let pivot = column;
+            for (let row = column + 1; row < n; row++) {
+                if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+            }
+            if (rows[pivot][column] === 0) continue;
+            [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+            for (let row = 0; row < n; row++) {
+                if (row === column) continue;
+                const factor = rows[row][column] / rows[column][column];
+                for (let k = column; k <= n; k++) {
+                    rows[row][k] -= factor * rows[column][k];
+                }
+            }
+        }
+        return rows.map((row, i) => (row[i] !== 0 ? row[n] / row[i] : 0));
+    }
+}
@@ -0,0 +1,71 @@
+import { SelectionStabilizer } from './SelectionStabilizer';
+import { RuleEvaluation } from '../Types';
+
+const matching: RuleEvaluation = { matches: true, score: 1, specificity: 0.1 };
+const failing: RuleEvaluation = { matches: false, score: 0.5, specificity: 0.1 };
+
+describe('SelectionStabilizer', () => {
+    it('should adopt the first candidate and follow candidates without constraints', () => {
+        const stabilizer = new SelectionStabilizer({});
+
+        expect(stabilizer.decide({ name: 'a', specificity: 0 }, undefined, 0))
+            .toEqual({ approach: 'a', switchSuppressed: false });
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, { strict: failing, widened: failing }, 1))
+            .toEqual({ approach: 'b', switchSuppressed: false });
+        expect(stabilizer.getCurrentApproach()).toBe('b');
+    });
+
+    it('should keep an approach for the minimum number of windows', () => {
+        const stabilizer = new SelectionStabilizer({ minDwellWindows: 2 });
+
+        stabilizer.decide({ name: 'a', specificity: 0 }, undefined, 0);
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, undefined, 1))
+            .toEqual({ approach: 'a', switchSuppressed: true, reason: 'min-dwell-windows' });
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, undefined, 2).approach).toBe('b');
+    });
+
+    it('should keep an approach for the minimum time', () => {
+        const stabilizer = new SelectionStabilizer({ minDwellMs: 1000 });
+
+        stabilizer.decide({ name: 'a', specificity: 0 }, undefined, 5000);
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, undefined, 5999).reason).toBe('min-dwell-time');
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, undefined, 6000).switchSuppressed).toBe(false);
+    });
+
+    it('should keep an approach that still matches within its hysteresis margins', () => {
+        const stabilizer = new SelectionStabilizer({ hysteresis: { variance: 5 } });
+
+        stabilizer.decide({ name: 'a', specificity: 0 }, undefined, 0);
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, { strict: failing, widened: matching }, 1).reason)
+            .toBe('hysteresis');
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, { strict: failing, widened: failing }, 2).approach)
+            .toBe('b');
+    });
+
+    it('should require challengers to pay the switching cost', () => {
+        const stabilizer = new SelectionStabilizer({ switchingCost: 0.5 });
+
+        stabilizer.decide({ name: 'a', specificity: 0.1 }, undefined, 0);
+        expect(stabilizer.decide({ name: 'b', specificity: 0.4 }, { strict: matching, widened: matching }, 1).reason)
+            .toBe('switching-cost');
+        expect(stabilizer.decide({ name: 'b', specificity: 0.7 }, { strict: matching, widened: matching }, 2).approach)
+            .toBe('b');
+    });
+
+    it('should merge global and per-approach hysteresis margins', () => {
+        const stabilizer = new SelectionStabilizer({ hysteresis: { variance: 5, entropy: 0.1 } });
+
+        expect(stabilizer.getHysteresisMargins({ name: 'a', hysteresis: { entropy: 0.2, skewness: 1 } }))
+            .toEqual({ variance: 5, entropy: 0.2, skewness: 1 });
+    });
+
+    it('should forget the current approach when reset', () => {
+        const stabilizer = new SelectionStabilizer({ minDwellWindows: 10, now: () => 42 });
+
+        stabilizer.decide({ name: 'a', specificity: 0 }, undefined, stabilizer.now());
+        stabilizer.reset();
+
+        expect(stabilizer.getCurrentApproach()).toBeUndefined();
+        expect(stabilizer.decide({ name: 'b', specificity: 0 }, undefined, 43).approach).toBe('b');
+    });
+});
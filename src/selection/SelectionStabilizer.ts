@@ -0,0 +1,194 @@
+import { ApproachConfig, RuleEvaluation, SelectionState, SelectionStabilityOptions, SwitchSuppressionReason } from "../Types";
+
+/**
+ * Interface representing the evaluation of the current approach on a new window.
+ * @export
+ * @interface IncumbentEvaluation
+ */
+export interface IncumbentEvaluation {
+    strict: RuleEvaluation; // Against the configured bounds
+    widened: RuleEvaluation; // Against the bounds widened by the hysteresis margins
+}
+
+/**
+ * Interface representing the decision of the stabilizer for a window.
+ * @export
+ * @interface StabilityDecision
+ */
+export interface StabilityDecision {
+    approach: string;
+    switchSuppressed: boolean;
+    reason?: SwitchSuppressionReason;
+}
+
+/**
+ * It keeps the recommended approach from flapping between windows when the
+ * signature hovers around a threshold. A challenger only replaces the current
+ * approach once the current approach has been kept for the minimum dwell
+ * (in windows and/or milliseconds), no longer matches within its hysteresis
+ * margins, and, while the current approach still matches, is more specific
+ * by at least the switching cost.
+ * @export
+ * @class SelectionStabilizer
+ */
+export class SelectionStabilizer {
+    private options: SelectionStabilityOptions;
+    private current?: SelectionState;
+
+    /**
+     * Creates an instance of SelectionStabilizer.
+     * @param {SelectionStabilityOptions} options - The hysteresis, dwell and switching cost settings.
+     * @memberof SelectionStabilizer
+     */
+    constructor(options: SelectionStabilityOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Gets the approach currently recommended, if any window has been seen.
+     * @return {string | undefined} - The name of the current approach.
+     * @memberof SelectionStabilizer
+     */
+    getCurrentApproach(): string | undefined {
+        return this.current?.approach;
+    }
+
+    /**
+     * Gets the current time from the configured clock.
+     * @return {number} - The time in milliseconds.
+     * @memberof SelectionStabilizer
+     */
+    now(): number {
+        return this.options.now ? this.options.now() : Date.now();
+    }
+
+    /**
+     * Gets the hysteresis margins of an approach, with its own margins taking
+     * precedence over the global ones.
+     * @param {ApproachConfig} config - The approach configuration.
+     * @return {Record<string, number>} - The margin for each feature.
+     * @memberof SelectionStabilizer
+     */
+    getHysteresisMargins(config: ApproachConfig): Record<string, number> {
+        const margins: Record<string, number> = {};
+        for (const thresholds of [this.options.hysteresis, config.hysteresis]) {
+            for (const [feature, margin] of Object.entries(thresholds || {})) {
+                if (margin !== undefined) {
+                    margins[feature] = margin;
+                }
+            }
+        }
+        return margins;
+    }
+
+    /**
+     * Decides which approach to recommend for a window.
+     * @param {{ name: string; specificity: number }} candidate - The best approach for the window on its own.
+     * @param {IncumbentEvaluation | undefined} incumbent - The evaluation of the current approach, if it is a configured one.
+     * @param {number} timestamp - The time of the window in milliseconds.
+     * @return {StabilityDecision} - The approach to recommend, and whether a switch was suppressed.
+     * @memberof SelectionStabilizer
+     */
+    decide(
+        candidate: { name: string; specificity: number },
+        incumbent: IncumbentEvaluation | undefined,
+        timestamp: number
+    ): StabilityDecision {
+        if (!this.current || this.current.approach === candidate.name) {
+            return this.adopt(candidate.name, timestamp);
+        }
+
+        const reason = this.getSuppressionReason(candidate, incumbent, timestamp);
+        if (reason) {
+            this.current.windows++;
+            return { approach: this.current.approach, switchSuppressed: true, reason };
+        }
+
+        this.current = undefined;
+        return this.adopt(candidate.name, timestamp);
+    }
+
+    /**
+     * Forgets the current approach, so that the next window is decided on its own.
+     * @memberof SelectionStabilizer
+     */
+    reset(): void {
+        this.current = undefined;
+    }
+
+    /**
+     * Exports the current approach, e.g. to resume the selection in another process.
+     * @return {SelectionState | undefined} - A copy of the state, or undefined if no window has been seen.
+     * @memberof SelectionStabilizer
+     */
+    exportState(): SelectionState | undefined {
+        return this.current ? { ...this.current } : undefined;
+    }
+
+    /**
+     * Restores a state exported with {@link SelectionStabilizer.exportState}.
+     * @param {SelectionState | undefined} state - The state, e.g. parsed from JSON, undefined to reset.
+     * @throws {Error} - If the state is malformed.
+     * @memberof SelectionStabilizer
+     */
+    importState(state: SelectionState | undefined): void {
+        if (state !== undefined && (typeof state !== 'object' || state === null || typeof state.approach !== 'string' ||
+            !Number.isFinite(state.since) || !Number.isInteger(state.windows) || state.windows < 1)) {
+            throw new Error('Malformed selection state');
+        }
+        this.current = state ? { approach: state.approach, since: state.since, windows: state.windows } : undefined;
+    }
+
+    /**
+     * Keeps or starts recommending an approach.
+     * @private
+     * @param {string} approach - The approach to recommend.
+     * @param {number} timestamp - The time of the window in milliseconds.
+     * @return {StabilityDecision} - The decision to recommend the approach.
+     * @memberof SelectionStabilizer
+     */
+    private adopt(approach: string, timestamp: number): StabilityDecision {
+        if (this.current && this.current.approach === approach) {
+            this.current.windows++;
+        } else {
+            this.current = { approach, since: timestamp, windows: 1 };
+        }
+        return { approach, switchSuppressed: false };
+    }
+
+    /**
+     * Checks whether a switch to a challenger has to be suppressed.
+     * @private
+     * @param {{ name: string; specificity: number }} candidate - The challenger.
+     * @param {IncumbentEvaluation | undefined} incumbent - The evaluation of the current approach.
+     * @param {number} timestamp - The time of the window in milliseconds.
+     * @return {SwitchSuppressionReason | undefined} - The reason to keep the current approach, if any.
+     * @memberof SelectionStabilizer
+     */
+    private getSuppressionReason(
+        candidate: { name: string; specificity: number },
+        incumbent: IncumbentEvaluation | undefined,
+        timestamp: number
+    ): SwitchSuppressionReason | undefined {
+        const current = this.current;
+        if (!current) return undefined;
+
+        if (this.options.minDwellWindows !== undefined && current.windows < this.options.minDwellWindows) {
+            return 'min-dwell-windows';
+        }
+        if (this.options.minDwellMs !== undefined && timestamp - current.since < this.options.minDwellMs) {
+            return 'min-dwell-time';
+        }
+        if (!incumbent) return undefined;
+
+        if (!incumbent.strict.matches && incumbent.widened.matches) {
+            return 'hysteresis';
+        }
+        const switchingCost = this.options.switchingCost || 0;
+        if (incumbent.strict.matches && switchingCost > 0 &&
+            candidate.specificity - incumbent.strict.specificity < switchingCost) {
+            return 'switching-cost';
+        }
+        return undefined;
+    }
+}
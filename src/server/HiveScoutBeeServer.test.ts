@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { Server } from 'http';
+import { HiveScoutBee } from '../HiveScoutBee';
+import { HiveScoutBeeServer } from './HiveScoutBeeServer';
+
+describe('HiveScoutBeeServer', () => {
+    let scout: HiveScoutBee;
+    let server: Server;
+
+    const turtle = '@prefix ex: <http://example.org/> .\nex:s1 ex:p1 1, 100 .\nex:s2 ex:p1 2, 200 .';
+
+    beforeEach(() => {
+        scout = new HiveScoutBee([
+            { name: 'calm', maxThresholds: { variance: 10 } },
+            { name: 'busy', minThresholds: { variance: 100 }, priority: 2 }
+        ]);
+        server = new HiveScoutBeeServer(scout, { maxBodySize: 1024 }).createServer();
+    });
+
+    describe('analysis', () => {
+        it('should return the signature of an RDF body', async () => {
+            const response = await request(server)
+                .post('/signature')
+                .set('Content-Type', 'text/turtle')
+                .send(turtle)
+                .expect('Content-Type', /application\/json/)
+                .expect(200);
+
+            expect(response.body.tripleCount).toBe(4);
+            expect(Object.keys(response.body)).toEqual(scout.getFeatureNames());
+        });
+
+        it('should recommend an approach for each RDF content type', async () => {
+            const nQuads = '<http://example.org/s> <http://example.org/p> "1" <http://example.org/g> .\n<http://example.org/s> <http://example.org/p> "500" .';
+
+            const fromTurtle = await request(server).post('/recommend').set('Content-Type', 'text/turtle; charset=utf-8').send(turtle).expect(200);
+            const fromNQuads = await request(server).post('/recommend').set('Content-Type', 'application/n-quads').send(nQuads).expect(200);
+
+            expect(fromTurtle.body.recommendedApproach).toBe('busy');
+            expect(fromNQuads.body.signature.tripleCount).toBe(2);
+        });
+
+        it('should refuse unsupported content types and methods', async () => {
+            const unsupported = await request(server).post('/recommend').set('Content-Type', 'application/json').send('{}').expect(415);
+            const wrongMethod = await request(server).get('/recommend').expect(405);
+
+            expect(unsupported.body.error.status).toBe(415);
+            expect(wrongMethod.headers.allow).toBe('POST');
+            expect(wrongMethod.body.error.message).toBe('Method GET is not allowed');
+        });
+
+        it('should report RDF syntax errors with their line', async () => {
+            const response = await request(server)
+                .post('/signature')
+                .set('Content-Type', 'text/turtle')
+                .send('@prefix ex: <http://example.org/> .\nex:s ex:p .')
+                .expect(400);
+
+            expect(response.body).toEqual({ error: { status: 400, message: '2: Expected entity but got .', line: 2 } });
+        });
+
+        it('should refuse bodies over the size limit', async () => {
+            const large = Array.from({ length: 50 }, (_, i) => `<http://example.org/s${i}> <http://example.org/p> "${i}" .`).join('\n');
+
+            const response = await request(server).post('/signature').set('Content-Type', 'application/n-triples').send(large).expect(413);
+
+            expect(response.body.error.message).toBe('Request body exceeds 1024 bytes');
+        });
+    });
+
+    describe('approaches', () => {
+        it('should list and get approaches', async () => {
+            const list = await request(server).get('/approaches').expect(200);
+            const one = await request(server).get('/approaches/busy').expect(200);
+            const missing = await request(server).get('/approaches/none').expect(404);
+
+            expect(list.body.map((approach: { name: string }) => approach.name)).toEqual(['calm', 'busy']);
+            expect(one.body).toEqual({ name: 'busy', minThresholds: { variance: 100 }, priority: 2 });
+            expect(missing.body.error.message).toBe('Approach "none" does not exist');
+        });
+
+        it('should create and replace approaches', async () => {
+            await request(server).put('/approaches/dense').send({ minThresholds: { tripleCount: 3 } }).expect(201);
+            const replaced = await request(server).put('/approaches/dense').send({ name: 'dense', minThresholds: { tripleCount: 5 } }).expect(200);
+
+            expect(replaced.body).toEqual({ name: 'dense', minThresholds: { tripleCount: 5 } });
+            expect(scout.getApproachConfig('dense')).toEqual({ name: 'dense', minThresholds: { tripleCount: 5 } });
+        });
+
+        it('should refuse invalid approaches', async () => {
+            const invalid = await request(server).put('/approaches/broken').send({ minThresholds: { unknownFeature: 1 } }).expect(400);
+            const mismatched = await request(server).put('/approaches/a').send({ name: 'b' }).expect(400);
+            const malformed = await request(server).put('/approaches/a').set('Content-Type', 'application/json').send('{').expect(400);
+            await request(server).put('/approaches/a').set('Content-Type', 'text/plain').send('a').expect(415);
+
+            expect(invalid.body.error.issues).toEqual([
+                expect.objectContaining({ message: 'Approach "broken" references unknown feature "unknownFeature"' })
+            ]);
+            expect(mismatched.body.error.message).toBe('Approach name "b" does not match the path "a"');
+            expect(malformed.body.error.message).toMatch(/^Invalid JSON/);
+            expect(scout.getAvailableApproaches()).toEqual(['calm', 'busy']);
+        });
+
+        it('should delete approaches', async () => {
+            await request(server).delete('/approaches/calm').expect(204);
+            await request(server).delete('/approaches/calm').expect(404);
+
+            expect(scout.getAvailableApproaches()).toEqual(['busy']);
+        });
+
+        it('should answer malformed approach names with a 400', async () => {
+            const response = await request(server).get('/approaches/%E0%A4%A').expect(400);
+
+            expect(response.body).toEqual({ error: { status: 400, message: 'Malformed approach name %E0%A4%A' } });
+        });
+    });
+
+    it('should answer unknown routes with a JSON 404', async () => {
+        const response = await request(server).get('/unknown').expect(404);
+
+        expect(response.body).toEqual({ error: { status: 404, message: 'No route for /unknown' } });
+    });
+});
@@ -0,0 +1,303 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { Buffer } from 'buffer';
+import { Transform, TransformCallback } from 'stream';
+import { HiveScoutBee } from '../HiveScoutBee';
+import { ConfigValidationError } from '../config/ConfigValidationError';
+import { RdfParseError } from '../parsing/RdfParseError';
+import { RdfReader } from '../parsing/RdfReader';
+import { ApproachConfig, ErrorResponse, ServerOptions } from '../Types';
+import { HttpError } from './HttpError';
+
+/**
+ * It serves the signatures, recommendations and approaches of a HiveScoutBee
+ * over HTTP, for services not written in TypeScript:
+ * - `POST /signature` and `POST /recommend` analyse an RDF body, its format given by the content type
+ * - `GET /approaches` lists the approaches
+ * - `GET`, `PUT` and `DELETE /approaches/:name` read, create or replace, and remove one approach
+ *
+ * Responses and errors are JSON. Bodies larger than the limit are refused with 413.
+ * The handler can be mounted on any Node HTTP server, or run on its own.
+ * @export
+ * @class HiveScoutBeeServer
+ */
+export class HiveScoutBeeServer {
+    private scout: HiveScoutBee;
+    private maxBodySize: number;
+    private reader: RdfReader;
+
+    private static readonly RDF_FORMATS: Record<string, string> = {
+        'text/turtle': 'Turtle',
+        'application/n-triples': 'N-Triples',
+        'application/n-quads': 'N-Quads',
+        'application/trig': 'TriG',
+        'text/n3': 'N3'
+    };
+
+    /**
+     * Creates an instance of HiveScoutBeeServer.
+     * @param {HiveScoutBee} scout - The scout whose approaches are served and changed.
+     * @param {ServerOptions} [options] - The request body limit.
+     * @memberof HiveScoutBeeServer
+     */
+    constructor(scout: HiveScoutBee, options: ServerOptions = {}) {
+        this.scout = scout;
+        this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+        if (!(this.maxBodySize > 0)) {
+            throw new Error(`Body size limit must be positive, got ${options.maxBodySize}`);
+        }
+        this.reader = new RdfReader();
+        this.handle = this.handle.bind(this);
+    }
+
+    /**
+     * Creates a Node HTTP server handling every request with this server.
+     * @return {Server} - The server, not yet listening.
+     * @memberof HiveScoutBeeServer
+     */
+    createServer(): Server {
+        return createServer(this.handle);
+    }
+
+    /**
+     * Handles a request, e.g. as the listener of an HTTP server. It never rejects:
+     * failures are sent as JSON error responses.
+     * @param {IncomingMessage} request - The request.
+     * @param {ServerResponse} response - The response.
+     * @return {Promise<void>} - Resolves once the response is sent.
+     * @memberof HiveScoutBeeServer
+     */
+    async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        try {
+            const { status, body } = await this.route(request);
+            this.send(response, status, body);
+        } catch (error) {
+            this.sendError(request, response, error);
+        }
+    }
+
+    /**
+     * Dispatches a request to its route.
+     * @private
+     * @param {IncomingMessage} request - The request.
+     * @return {Promise<{ status: number; body?: unknown }>} - The status and JSON body of the response.
+     * @throws {HttpError} - If the route or method is unknown, or the request is invalid.
+     * @memberof HiveScoutBeeServer
+     */
+    private async route(request: IncomingMessage): Promise<{ status: number; body?: unknown }> {
+        const { pathname } = new URL(request.url || '/', 'http://localhost');
+        const method = request.method || 'GET';
+
+        if (pathname === '/signature' || pathname === '/recommend') {
+            this.checkMethod(method, ['POST']);
+            const format = this.getRdfFormat(request);
+            const quads = await this.reader.read({ stream: this.limitBody(request) }, { format });
+            const body = pathname === '/signature'
+                ? this.scout.extractSignature(quads)
+                : this.scout.chooseApproach(quads);
+            return { status: 200, body };
+        }
+
+        if (pathname === '/approaches') {
+            this.checkMethod(method, ['GET']);
+            return {
+                status: 200,
+                body: this.scout.getAvailableApproaches().map(name => this.scout.getApproachConfig(name))
+            };
+        }
+
+        const match = /^\/approaches\/([^/]+)$/.exec(pathname);
+        if (match) {
+            return this.routeApproach(method, this.decodeName(match[1]), request);
+        }
+
+        throw new HttpError(404, `No route for ${pathname}`);
+    }
+
+    /**
+     * Reads, creates or replaces, or removes one approach.
+     * @private
+     * @param {string} method - The request method.
+     * @param {string} name - The name of the approach.
+     * @param {IncomingMessage} request - The request.
+     * @return {Promise<{ status: number; body?: unknown }>} - The status and JSON body of the response.
+     * @throws {HttpError} - If the approach does not exist, or the body is not a valid approach.
+     * @memberof HiveScoutBeeServer
+     */
+    private async routeApproach(method: string, name: string, request: IncomingMessage): Promise<{ status: number; body?: unknown }> {
+        this.checkMethod(method, ['GET', 'PUT', 'DELETE']);
+        const existing = this.scout.getApproachConfig(name);
+
+        if (method === 'GET') {
+            if (!existing) throw new HttpError(404, `Approach "${name}" does not exist`);
+            return { status: 200, body: existing };
+        }
+
+        if (method === 'DELETE') {
+            if (!this.scout.removeApproach(name)) throw new HttpError(404, `Approach "${name}" does not exist`);
+            return { status: 204 };
+        }
+
+        const approach = await this.readJson(request);
+        if (typeof approach !== 'object' || approach === null || Array.isArray(approach)) {
+            throw new HttpError(400, 'Approach must be a JSON object');
+        }
+        const bodyName = (approach as { name?: unknown }).name;
+        if (bodyName !== undefined && bodyName !== name) {
+            throw new HttpError(400, `Approach name "${String(bodyName)}" does not match the path "${name}"`);
+        }
+        const config = { ...approach, name } as ApproachConfig;
+        this.scout.addApproach(config);
+        return { status: existing ? 200 : 201, body: config };
+    }
+
+    /**
+     * Decodes the percent-encoded name of an approach in a path.
+     * @private
+     * @param {string} encoded - The path segment.
+     * @return {string} - The name of the approach.
+     * @throws {HttpError} - 400 if the segment is not validly percent-encoded.
+     * @memberof HiveScoutBeeServer
+     */
+    private decodeName(encoded: string): string {
+        try {
+            return decodeURIComponent(encoded);
+        } catch {
+            throw new HttpError(400, `Malformed approach name ${encoded}`);
+        }
+    }
+
+    /**
+     * Refuses a method not supported by a route.
+     * @private
+     * @param {string} method - The request method.
+     * @param {string[]} allowed - The methods of the route.
+     * @throws {HttpError} - 405 if the method is not allowed.
+     * @memberof HiveScoutBeeServer
+     */
+    private checkMethod(method: string, allowed: string[]): void {
+        if (!allowed.includes(method)) {
+            throw new HttpError(405, `Method ${method} is not allowed`, { Allow: allowed.join(', ') });
+        }
+    }
+
+    /**
+     * Gets the n3 format of an RDF body from its content type.
+     * @private
+     * @param {IncomingMessage} request - The request.
+     * @return {string} - The format.
+     * @throws {HttpError} - 415 if the content type is missing or not an RDF format.
+     * @memberof HiveScoutBeeServer
+     */
+    private getRdfFormat(request: IncomingMessage): string {
+        const contentType = (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        const format = HiveScoutBeeServer.RDF_FORMATS[contentType];
+        if (!format) {
+            throw new HttpError(415, `Unsupported content type "${contentType}", expected one of ${Object.keys(HiveScoutBeeServer.RDF_FORMATS).join(', ')}`);
+        }
+        return format;
+    }
+
+    /**
+     * Reads a JSON body.
+     * @private
+     * @param {IncomingMessage} request - The request.
+     * @return {Promise<unknown>} - The parsed body.
+     * @throws {HttpError} - 415 if the body is not declared as JSON, 400 if it does not parse.
+     * @memberof HiveScoutBeeServer
+     */
+    private async readJson(request: IncomingMessage): Promise<unknown> {
+        const contentType = (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        if (contentType !== 'application/json') {
+            throw new HttpError(415, `Unsupported content type "${contentType}", expected application/json`);
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of this.limitBody(request)) {
+            chunks.push(chunk as Buffer);
+        }
+        try {
+            return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        } catch (error) {
+            throw new HttpError(400, `Invalid JSON: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Passes on the body of a request, failing as soon as it exceeds the size limit.
+     * The declared content length is checked before anything is read.
+     * @private
+     * @param {IncomingMessage} request - The request.
+     * @return {Transform} - The body.
+     * @throws {HttpError} - 413 if the declared content length exceeds the limit.
+     * @memberof HiveScoutBeeServer
+     */
+    private limitBody(request: IncomingMessage): Transform {
+        const tooLarge = () => new HttpError(413, `Request body exceeds ${this.maxBodySize} bytes`);
+        if (Number(request.headers['content-length']) > this.maxBodySize) {
+            throw tooLarge();
+        }
+
+        let size = 0;
+        const limit = this.maxBodySize;
+        const body = new Transform({
+            transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+                size += chunk.length;
+                callback(size > limit ? tooLarge() : null, chunk);
+            }
+        });
+        request.on('error', error => body.destroy(error));
+        return request.pipe(body);
+    }
+
+    /**
+     * Sends the response of a failed request. Errors that are not the client's
+     * fault are reported as 500 without their details.
+     * @private
+     * @param {IncomingMessage} request - The request.
+     * @param {ServerResponse} response - The response.
+     * @param {unknown} error - The error.
+     * @memberof HiveScoutBeeServer
+     */
+    private sendError(request: IncomingMessage, response: ServerResponse, error: unknown): void {
+        const body: ErrorResponse = { error: { status: 500, message: 'Internal server error' } };
+        let headers: Record<string, string> = {};
+
+        if (error instanceof HttpError) {
+            body.error = { status: error.status, message: error.message };
+            headers = error.headers;
+            // The rest of a refused body is not read, so the connection cannot be reused
+            if (error.status === 413) headers = { ...headers, Connection: 'close' };
+        } else if (error instanceof RdfParseError) {
+            body.error = { status: 400, message: error.message, line: error.line };
+        } else if (error instanceof ConfigValidationError) {
+            body.error = { status: 400, message: error.message, issues: error.issues };
+        }
+
+        this.send(response, body.error.status, body, headers);
+        if (!request.complete) {
+            request.resume();
+        }
+    }
+
+    /**
+     * Sends a JSON response.
+     * @private
+     * @param {ServerResponse} response - The response.
+     * @param {number} status - The status code.
+     * @param {unknown} [body] - The body, none if undefined.
+     * @param {Record<string, string>} [headers] - Extra headers.
+     * @memberof HiveScoutBeeServer
+     */
+    private send(response: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}): void {
+        if (body === undefined) {
+            response.writeHead(status, headers).end();
+            return;
+        }
+        const text = JSON.stringify(body);
+        response.writeHead(status, {
+            ...headers,
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Length': Buffer.byteLength(text)
+        }).end(text);
+    }
+}
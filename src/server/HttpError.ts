@@ -0,0 +1,26 @@
+/**
+ * Error thrown while handling an HTTP request, carrying the status code of
+ * the response it should produce.
+ * @export
+ * @class HttpError
+ * @extends {Error}
+ */
+export class HttpError extends Error {
+    public readonly status: number;
+    public readonly headers: Record<string, string>;
+
+    /**
+     * Creates an instance of HttpError.
+     * @param {number} status - The HTTP status code.
+     * @param {string} message - What went wrong, sent to the client.
+     * @param {Record<string, string>} [headers] - Extra response headers, such as Allow.
+     * @memberof HttpError
+     */
+    constructor(status: number, message: string, headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.headers = headers;
+        Object.setPrototypeOf(this, HttpError.prototype);
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * The part of fft-js used by the SpectralAnalyzer, which ships without type declarations.
+ */
+declare module 'fft-js' {
+    /**
+     * A complex number as its real and imaginary part.
+     */
+    export type Phasor = [number, number];
+
+    /**
+     * Computes the discrete Fourier transform of a real signal with the radix-2 Cooley-Tukey FFT.
+     * @param {number[]} signal - The signal, whose length must be a power of two.
+     * @return {Phasor[]} - The spectrum, as long as the signal.
+     */
+    export function fft(signal: number[]): Phasor[];
+}
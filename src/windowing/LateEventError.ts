@@ -0,0 +1,30 @@
+import { Quad } from 'n3';
+
+/**
+ * Error thrown by the windowing engine, under the 'error' late event policy,
+ * for a quad arriving after all the windows it belongs to have closed.
+ * @export
+ * @class LateEventError
+ * @extends {Error}
+ */
+export class LateEventError extends Error {
+    public readonly quad: Quad;
+    public readonly timestamp: number;
+    public readonly watermark: number;
+
+    /**
+     * Creates an instance of LateEventError.
+     * @param {Quad} quad - The late quad.
+     * @param {number} timestamp - Its event time in milliseconds.
+     * @param {number} watermark - The time up to which windows were closed.
+     * @memberof LateEventError
+     */
+    constructor(quad: Quad, timestamp: number, watermark: number) {
+        super(`Quad with time ${timestamp} arrived after its windows closed at ${watermark}`);
+        this.name = 'LateEventError';
+        this.quad = quad;
+        this.timestamp = timestamp;
+        this.watermark = watermark;
+        Object.setPrototypeOf(this, LateEventError.prototype);
+    }
+}
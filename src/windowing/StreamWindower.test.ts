@@ -0,0 +1,151 @@
+import { DataFactory, Quad, StreamParser } from 'n3';
+import { Readable } from 'stream';
+import { StreamWindower } from './StreamWindower';
+import { LateEventError } from './LateEventError';
+import { QuadWindow, WindowOptions } from '../Types';
+
+const { namedNode, literal, quad } = DataFactory;
+
+// Quad i carries its event time in its object
+const quadAt = (time: number) => quad(namedNode(`http://example.org/s${time}`), namedNode('http://example.org/time'), literal(String(time)));
+const timeOf = (q: Quad) => Number(q.object.value);
+
+async function* streamOf(quads: Quad[]): AsyncIterable<Quad> {
+    for (const q of quads) {
+        yield q;
+    }
+}
+
+const collect = async (options: WindowOptions, quads: Quad[]): Promise<QuadWindow[]> => {
+    const windows: QuadWindow[] = [];
+    for await (const window of new StreamWindower(options).windows(streamOf(quads))) {
+        windows.push(window);
+    }
+    return windows;
+};
+
+const summary = (windows: QuadWindow[]) => windows.map(window => ({
+    index: window.info.index,
+    times: Array.from(window.quads).map(timeOf),
+    complete: window.info.complete
+}));
+
+describe('StreamWindower', () => {
+    const quads = [0, 1, 2, 3, 4, 5, 6].map(quadAt);
+
+    it('should cut tumbling count windows and flush the last partial window', async () => {
+        const windows = await collect({ type: 'count', range: 3 }, quads);
+
+        expect(summary(windows)).toEqual([
+            { index: 0, times: [0, 1, 2], complete: true },
+            { index: 1, times: [3, 4, 5], complete: true },
+            { index: 2, times: [6], complete: false }
+        ]);
+        expect(windows[1].info).toEqual({ index: 1, start: 3, end: 6, complete: true, lateQuads: 0 });
+    });
+
+    it('should cut sliding count windows', async () => {
+        const windows = await collect({ type: 'count', range: 4, step: 2, flushOnEnd: false }, quads);
+
+        expect(summary(windows)).toEqual([
+            { index: 0, times: [0, 1, 2, 3], complete: true },
+            { index: 1, times: [2, 3, 4, 5], complete: true }
+        ]);
+    });
+
+    it('should cut time windows by event time', async () => {
+        const windows = await collect(
+            { type: 'time', range: 20, step: 10, timestamp: timeOf, origin: 0 },
+            [0, 5, 12, 18, 25, 31, 47].map(quadAt)
+        );
+
+        expect(summary(windows)).toEqual([
+            { index: 0, times: [0, 5, 12, 18], complete: true },
+            { index: 1, times: [12, 18, 25], complete: true },
+            { index: 2, times: [25, 31], complete: true },
+            { index: 3, times: [31, 47], complete: false },
+            { index: 4, times: [47], complete: false }
+        ]);
+        expect(windows[2].info).toEqual({ index: 2, start: 20, end: 40, complete: true, lateQuads: 0 });
+    });
+
+    it('should skip or emit empty time windows', async () => {
+        const times = [0, 5, 35].map(quadAt);
+
+        const skipping = await collect({ type: 'time', range: 10, timestamp: timeOf }, times);
+        const emitting = await collect({ type: 'time', range: 10, timestamp: timeOf, emitEmpty: true }, times);
+
+        expect(summary(skipping).map(window => window.index)).toEqual([0, 3]);
+        expect(summary(emitting).map(window => window.times)).toEqual([[0, 5], [], [], [35]]);
+    });
+
+    it('should emit at most the maximum number of empty time windows in a row', async () => {
+        const times = [0, 5, 1e12, 1e12 + 25].map(quadAt);
+
+        const windows = await collect({ type: 'time', range: 10, timestamp: timeOf, emitEmpty: true, maxEmptyWindows: 2 }, times);
+
+        expect(summary(windows).map(window => window.index)).toEqual([0, 1, 2, 1e11, 1e11 + 1, 1e11 + 2]);
+        expect(summary(windows).map(window => window.times)).toEqual([[0, 5], [], [], [1e12], [], [1e12 + 25]]);
+        expect(() => new StreamWindower({ type: 'time', range: 10, maxEmptyWindows: -1 }))
+            .toThrow('The maximum number of empty windows must not be negative, got -1');
+    });
+
+    it('should keep windows open for the allowed lateness and drop later quads', async () => {
+        const times = [0, 12, 8, 25, 3, 30].map(quadAt);
+
+        const strict = await collect({ type: 'time', range: 10, timestamp: timeOf }, times);
+        const tolerant = await collect({ type: 'time', range: 10, timestamp: timeOf, allowedLateness: 10 }, times);
+
+        expect(summary(strict).map(window => window.times)).toEqual([[0], [12], [25], [30]]);
+        expect(strict[1].info.lateQuads).toBe(1);
+        expect(strict[2].info.lateQuads).toBe(1);
+        expect(summary(tolerant).map(window => window.times)).toEqual([[0, 8], [12], [25], [30]]);
+        expect(tolerant[1].info.lateQuads).toBe(1);
+    });
+
+    it('should throw for late quads under the error policy', async () => {
+        const late = quadAt(3);
+
+        await expect(collect({ type: 'time', range: 10, timestamp: timeOf, latePolicy: 'error' }, [0, 12, 3].map(quadAt)))
+            .rejects.toThrow(LateEventError);
+        await expect(collect({ type: 'time', range: 10, timestamp: timeOf, latePolicy: 'error' }, [quadAt(0), quadAt(12), late]))
+            .rejects.toThrow('Quad with time 3 arrived after its windows closed at 12');
+    });
+
+    it('should use the arrival time by default', async () => {
+        let clock = 1000;
+        const windows: QuadWindow[] = [];
+        const windower = new StreamWindower({ type: 'time', range: 100, now: () => clock });
+
+        async function* arriving(): AsyncIterable<Quad> {
+            for (const q of quads.slice(0, 4)) {
+                yield q;
+                clock += 60;
+            }
+        }
+        for await (const window of windower.windows(arriving())) {
+            windows.push(window);
+        }
+
+        expect(windows.map(window => [window.info.start, window.quads.size])).toEqual([[1000, 2], [1100, 2]]);
+    });
+
+    it('should read quads from a Node Readable such as the n3 StreamParser', async () => {
+        const parser = new StreamParser();
+        Readable.from(['<http://example.org/s> <http://example.org/p> "1", "2", "3", "4", "5" .']).pipe(parser);
+
+        const windows: QuadWindow[] = [];
+        for await (const window of new StreamWindower({ type: 'count', range: 2 }).windows(parser)) {
+            windows.push(window);
+        }
+
+        expect(windows.map(window => window.quads.size)).toEqual([2, 2, 1]);
+    });
+
+    it('should reject invalid ranges and steps', () => {
+        expect(() => new StreamWindower({ type: 'time', range: 0 })).toThrow('Window range and step must be positive, got RANGE 0 STEP 0');
+        expect(() => new StreamWindower({ type: 'count', range: 2.5 })).toThrow('Count window range and step must be whole numbers of quads');
+        expect(() => new StreamWindower({ type: 'time', range: 10, allowedLateness: -1 }))
+            .toThrow('Allowed lateness must not be negative, got -1');
+    });
+});
@@ -0,0 +1,232 @@
+import { Quad } from 'n3';
+import { Readable } from 'stream';
+import { LateEventPolicy, QuadWindow, WindowOptions } from '../Types';
+import { LateEventError } from './LateEventError';
+
+/**
+ * It cuts a stream of quads into windows, following the RANGE/STEP semantics of
+ * RSP-QL: window k covers [origin + k * step, origin + k * step + range), so a step
+ * equal to the range gives tumbling windows and a smaller step sliding ones.
+ * Count windows measure in quads; time windows measure the event time of the quads
+ * in milliseconds and close once the watermark, the latest event time minus the
+ * allowed lateness, passes their end.
+ * @export
+ * @class StreamWindower
+ */
+export class StreamWindower {
+    private type: 'count' | 'time';
+    private range: number;
+    private step: number;
+    private timestamp?: (quad: Quad) => number | undefined;
+    private origin?: number;
+    private allowedLateness: number;
+    private latePolicy: LateEventPolicy;
+    private emitEmpty: boolean;
+    private maxEmptyWindows: number;
+    private flushOnEnd: boolean;
+    private now: () => number;
+
+    /**
+     * Creates an instance of StreamWindower.
+     * @param {WindowOptions} options - The kind, range and step of the windows, and how time is handled.
+     * @memberof StreamWindower
+     */
+    constructor(options: WindowOptions) {
+        this.type = options.type;
+        this.range = options.range;
+        this.step = options.step ?? options.range;
+        this.timestamp = options.timestamp;
+        this.origin = options.origin;
+        this.allowedLateness = options.allowedLateness ?? 0;
+        this.latePolicy = options.latePolicy ?? 'drop';
+        this.emitEmpty = options.emitEmpty ?? false;
+        this.maxEmptyWindows = options.maxEmptyWindows ?? Infinity;
+        this.flushOnEnd = options.flushOnEnd ?? true;
+        this.now = options.now ?? Date.now;
+
+        if (!(this.range > 0) || !(this.step > 0)) {
+            throw new Error(`Window range and step must be positive, got RANGE ${this.range} STEP ${this.step}`);
+        }
+        if (this.type === 'count' && (!Number.isInteger(this.range) || !Number.isInteger(this.step))) {
+            throw new Error('Count window range and step must be whole numbers of quads');
+        }
+        if (!(this.allowedLateness >= 0)) {
+            throw new Error(`Allowed lateness must not be negative, got ${this.allowedLateness}`);
+        }
+        if (!(this.maxEmptyWindows >= 0)) {
+            throw new Error(`The maximum number of empty windows must not be negative, got ${this.maxEmptyWindows}`);
+        }
+    }
+
+    /**
+     * Yields the windows of a stream as they close.
+     * @param {AsyncIterable<Quad> | Readable} source - The quads, e.g. an n3 StreamParser or an object-mode stream.
+     * @return {AsyncGenerator<QuadWindow>} - The windows, in order of closure.
+     * @memberof StreamWindower
+     */
+    windows(source: AsyncIterable<Quad> | Readable): AsyncGenerator<QuadWindow> {
+        const quads = source as AsyncIterable<Quad>;
+        return this.type === 'count' ? this.countWindows(quads) : this.timeWindows(quads);
+    }
+
+    /**
+     * Yields count windows: window k holds the quads numbered k * step to k * step + range - 1.
+     * @private
+     * @param {AsyncIterable<Quad>} source - The quads.
+     * @return {AsyncGenerator<QuadWindow>} - The windows, in order of closure.
+     * @memberof StreamWindower
+     */
+    private async *countWindows(source: AsyncIterable<Quad>): AsyncGenerator<QuadWindow> {
+        const open = new Map<number, Set<Quad>>();
+        let count = 0;
+
+        for await (const quad of source) {
+            const [first, last] = this.getWindowIndices(count);
+            for (let k = first; k <= last; k++) {
+                this.getWindow(open, k).add(quad);
+            }
+            count++;
+
+            const closing = (count - this.range) / this.step;
+            if (Number.isInteger(closing) && closing >= 0) {
+                yield this.createWindow(closing, open.get(closing) || new Set(), true, 0);
+                open.delete(closing);
+            }
+        }
+
+        if (this.flushOnEnd) {
+            for (const k of Array.from(open.keys()).sort((a, b) => a - b)) {
+                yield this.createWindow(k, open.get(k)!, false, 0);
+            }
+        }
+    }
+
+    /**
+     * Yields time windows as the watermark passes their end. Quads whose windows
+     * have all closed are late, and handled according to the late event policy.
+     * @private
+     * @param {AsyncIterable<Quad>} source - The quads.
+     * @return {AsyncGenerator<QuadWindow>} - The windows, in order of closure.
+     * @memberof StreamWindower
+     */
+    private async *timeWindows(source: AsyncIterable<Quad>): AsyncGenerator<QuadWindow> {
+        const open = new Map<number, Set<Quad>>();
+        let origin = this.origin;
+        let latestTime = -Infinity;
+        let nextToClose = 0;
+        let lateQuads = 0;
+
+        for await (const quad of source) {
+            const time = this.timestamp?.(quad) ?? this.now();
+            if (origin === undefined) {
+                origin = time;
+            }
+
+            const [first, last] = this.getWindowIndices(time - origin);
+            if (last < nextToClose || last < 0) {
+                if (this.latePolicy === 'error') {
+                    throw new LateEventError(quad, time, latestTime - this.allowedLateness);
+                }
+                lateQuads++;
+            } else {
+                for (let k = Math.max(first, nextToClose); k <= last; k++) {
+                    this.getWindow(open, k).add(quad);
+                }
+            }
+
+            latestTime = Math.max(latestTime, time);
+            const lastClosable = Math.floor((latestTime - this.allowedLateness - origin - this.range) / this.step);
+            for (const k of this.getClosingWindows(open, nextToClose, lastClosable)) {
+                yield this.createWindow(k, open.get(k) || new Set(), true, lateQuads, origin);
+                lateQuads = 0;
+                open.delete(k);
+            }
+            nextToClose = Math.max(nextToClose, lastClosable + 1);
+        }
+
+        if (this.flushOnEnd && origin !== undefined) {
+            for (const k of Array.from(open.keys()).sort((a, b) => a - b)) {
+                yield this.createWindow(k, open.get(k)!, false, lateQuads, origin);
+                lateQuads = 0;
+            }
+        }
+    }
+
+    /**
+     * Gets the indices of the time windows to close, lazily so that a long gap in
+     * event time does not materialise all the empty windows it skips at once.
+     * Without emitEmpty these are the open windows; with it, every window up to
+     * the last closable one, except that empty windows beyond the maximum in a
+     * row are skipped.
+     * @private
+     * @param {Map<number, Set<Quad>>} open - The open windows.
+     * @param {number} nextToClose - The index of the first window that is not closed yet.
+     * @param {number} lastClosable - The index of the last window the watermark has passed.
+     * @return {Generator<number>} - The window indices, in increasing order.
+     * @memberof StreamWindower
+     */
+    private *getClosingWindows(open: Map<number, Set<Quad>>, nextToClose: number, lastClosable: number): Generator<number, void, undefined> {
+        const closable = Array.from(open.keys()).filter(k => k <= lastClosable).sort((a, b) => a - b);
+        if (!this.emitEmpty) {
+            yield* closable;
+            return;
+        }
+
+        let k = nextToClose;
+        for (const next of [...closable, lastClosable + 1]) {
+            for (let empty = 0; k < next && empty < this.maxEmptyWindows; k++, empty++) {
+                yield k;
+            }
+            if (next <= lastClosable) {
+                yield next;
+            }
+            k = next + 1;
+        }
+    }
+
+    /**
+     * Gets the windows containing a position: those with k * step <= position < k * step + range.
+     * @private
+     * @param {number} position - The quad number, or the time since the origin.
+     * @return {[number, number]} - The first and last window index, the first exceeding the last if there is none.
+     * @memberof StreamWindower
+     */
+    private getWindowIndices(position: number): [number, number] {
+        const first = Math.max(0, Math.floor((position - this.range) / this.step) + 1);
+        const last = Math.floor(position / this.step);
+        return [first, last];
+    }
+
+    /**
+     * Gets the quads of an open window, opening it if needed.
+     * @private
+     * @param {Map<number, Set<Quad>>} open - The open windows.
+     * @param {number} k - The window index.
+     * @return {Set<Quad>} - The quads of the window.
+     * @memberof StreamWindower
+     */
+    private getWindow(open: Map<number, Set<Quad>>, k: number): Set<Quad> {
+        let quads = open.get(k);
+        if (!quads) {
+            quads = new Set();
+            open.set(k, quads);
+        }
+        return quads;
+    }
+
+    /**
+     * Creates a closed window.
+     * @private
+     * @param {number} k - The window index.
+     * @param {Set<Quad>} quads - The quads of the window.
+     * @param {boolean} complete - Whether the window closed normally rather than at the end of the stream.
+     * @param {number} lateQuads - The late quads dropped since the previous window.
+     * @param {number} [origin] - The origin of time windows, 0 for count windows.
+     * @return {QuadWindow} - The window.
+     * @memberof StreamWindower
+     */
+    private createWindow(k: number, quads: Set<Quad>, complete: boolean, lateQuads: number, origin = 0): QuadWindow {
+        const start = origin + k * this.step;
+        return { info: { index: k, start, end: start + this.range, complete, lateQuads }, quads };
+    }
+}